@@ -1,122 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import UvmDiagram from './components/UvmDiagram';
 import InfoPanel from './components/InfoPanel';
 import ChatInterface from './components/ChatInterface';
 import SequenceBuilder from './components/SequenceBuilder';
-import { UvmComponentType, AiResponse, SimulationStep } from './types';
+import ItemDesigner from './components/ItemDesigner';
+import ProjectLibrary from './components/ProjectLibrary';
+import RegisterEditor from './components/RegisterEditor';
+import AiSettingsDialog from './components/AiSettingsDialog';
+import WalkthroughDialog from './components/WalkthroughDialog';
+import PhaseTimeline from './components/PhaseTimeline';
+import ConfigDbPlayground from './components/ConfigDbPlayground';
+import FactoryPanel from './components/FactoryPanel';
+import TopologyEditor from './components/TopologyEditor';
+import { UvmComponentType, AiResponse, BusProtocol, TransactionItemDef, SequenceDef, SequenceProject, RegisterMap, LlmSettings, ChatContextItem, Topology } from './types';
 import { getComponentExplanation } from './services/geminiService';
+import { LLM_PROVIDERS, loadLlmSettings, saveLlmSettings } from './services/llmProviders';
+import { withProtocolSnippets } from './services/protocols';
+import { rebaseItemDef } from './services/itemGenerator';
+import { createProject, loadActiveProjectId, loadProjects, saveActiveProjectId, saveProjects } from './services/projectStore';
+import { explanationContext, sequenceContext, walkthroughContext } from './services/chatContext';
+import { loadTopology, saveTopology } from './services/topology';
+import {
+  BUILT_IN_WALKTHROUGHS, CustomWalkthrough, loadActiveWalkthroughId, loadCustomWalkthroughs, saveActiveWalkthroughId, saveCustomWalkthroughs
+} from './services/walkthroughs';
 
-type ViewMode = 'architecture' | 'builder';
-
-// Educational Data for the Walkthrough
-const WALKTHROUGH_STEPS: SimulationStep[] = [
-    {
-        id: 0,
-        label: "Sequence Creation",
-        component: UvmComponentType.SEQUENCE,
-        description: "The journey begins in the Sequence. The body() task creates a transaction object (req) and initiates the handshake with the Sequencer using start_item().",
-        codeSnippet: `// Inside sequence body()
-req = my_transaction::type_id::create("req");
-
-start_item(req); // Request grant from sequencer
-
-if(!req.randomize()) \`uvm_error("SEQ", "Randomize failed");
-
-finish_item(req); // Execute item (blocks until driver is done)`
-    },
-    {
-        id: 1,
-        label: "Sequencer Arbitration",
-        component: UvmComponentType.SEQUENCER,
-        description: "The Sequencer receives the request. If multiple sequences are running, it arbitrates between them. Once granted, it passes the transaction handle to the Driver.",
-        codeSnippet: `// The sequencer code is usually implicit in UVM
-// Conceptually:
-wait_for_grant(sequence_ptr);
-selected_sequence.mid_do(item);
-driver_port.put(item);
-selected_sequence.post_do(item);`
-    },
-    {
-        id: 2,
-        label: "Driver Fetches Item",
-        component: UvmComponentType.DRIVER,
-        description: "The Driver pulls the transaction from the Sequencer using get_next_item(). It effectively 'pulls' data when it is ready to drive the bus.",
-        codeSnippet: `// Inside driver run_phase
-forever begin
-  seq_item_port.get_next_item(req); // Blocking call
-  
-  drive_transfer(req); // Custom task to wiggle pins
-  
-  seq_item_port.item_done(); // Tell sequence we are finished
-end`
-    },
-    {
-        id: 3,
-        label: "Driving Signals (Pin Level)",
-        component: UvmComponentType.INTERFACE,
-        description: "This is where UVM meets hardware. The Driver wiggles the pins on the Virtual Interface handle. This converts the high-level 'Transaction' object into raw 1s and 0s.",
-        codeSnippet: `// Inside driver task drive_transfer(my_transaction t);
-@(posedge vif.clk);
-vif.psel    <= 1'b1;
-vif.paddr   <= t.addr;
-vif.pwdata  <= t.data;
-vif.pwrite  <= (t.kind == WRITE);
-@(posedge vif.clk);
-vif.psel    <= 1'b0;`
-    },
-    {
-        id: 4,
-        label: "DUT Execution",
-        component: UvmComponentType.DUT,
-        description: "The Design Under Test (Verilog/VHDL) responds to the signal changes on the interface. The hardware logic executes.",
-        codeSnippet: `// Verilog DUT Code
-always @(posedge clk) begin
-  if (psel && pwrite) begin
-    mem[paddr] <= pwdata;
-    prdata <= 32'h0;
-  end else if (psel && !pwrite) begin
-    prdata <= mem[paddr];
-  end
-end`
-    },
-    {
-        id: 5,
-        label: "Monitor Sampling",
-        component: UvmComponentType.MONITOR,
-        description: "The Monitor passively observes the interface. When it detects a valid protocol cycle, it samples the signal values and packs them back into a new Transaction object.",
-        codeSnippet: `// Inside monitor run_phase
-forever begin
-  @(posedge vif.clk);
-  if (vif.psel === 1'b1) begin
-    tr = my_transaction::type_id::create("tr");
-    tr.addr = vif.paddr;
-    tr.data = (vif.pwrite) ? vif.pwdata : vif.prdata;
-    tr.kind = (vif.pwrite) ? WRITE : READ;
-    
-    // Send to scoreboard
-    ap.write(tr); 
-  end
-end`
-    },
-    {
-        id: 6,
-        label: "Scoreboard Check",
-        component: UvmComponentType.SCOREBOARD,
-        description: "The Scoreboard receives the transaction from the Monitor via an Analysis Port. It compares the observed result against the Expected Result (Reference Model).",
-        codeSnippet: `// Inside scoreboard write() implementation
-function void write(my_transaction t);
-  my_transaction expected;
-  
-  expected = predictor.predict(t.addr, t.kind);
-  
-  if (t.data !== expected.data) begin
-    \`uvm_error("SB", $sformatf("Mismatch! Exp: %0h, Got: %0h", expected.data, t.data))
-  end else begin
-    \`uvm_info("SB", "Match successful", UVM_LOW)
-  end
-endfunction`
-    }
-];
+type ViewMode = 'architecture' | 'topology' | 'phases' | 'configdb' | 'factory' | 'builder' | 'item' | 'registers' | 'projects';
 
 const App: React.FC = () => {
   const [activeComponent, setActiveComponent] = useState<UvmComponentType>(UvmComponentType.DRIVER);
@@ -124,29 +32,95 @@ const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [showChat, setShowChat] = useState<boolean>(true);
   const [viewMode, setViewMode] = useState<ViewMode>('architecture');
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+
+  useEffect(() => {
+    saveLlmSettings(llmSettings);
+  }, [llmSettings]);
+
+  // Protocol, item and sequences belong to the open project, which is saved on every change.
+  // Saved projects this build can't open are written back untouched; a store it can't read at all is left alone.
+  const [store] = useState(loadProjects);
+  const [projects, setProjects] = useState<SequenceProject[]>(() =>
+    store.projects.length ? store.projects : [createProject('Untitled project')]);
+  const [projectId, setProjectId] = useState<string>(() => loadActiveProjectId() || '');
+  const [saveFailed, setSaveFailed] = useState(false);
+  const project = projects.find(p => p.id === projectId) || projects[0];
+  const { protocol, item: itemDef, library, registers } = project;
+
+  useEffect(() => {
+    if (!store.locked) setSaveFailed(!saveProjects(projects, store.unreadable));
+  }, [projects]);
+
+  const storeWarning = store.locked
+    ? `${store.locked} Nothing is saved over them in this session; export a project to keep your changes.`
+    : store.unreadable.length
+      ? `${store.unreadable.length} saved project${store.unreadable.length === 1 ? '' : 's'} could not be opened in this build and ${store.unreadable.length === 1 ? 'is' : 'are'} kept as saved.`
+      : null;
+
+  useEffect(() => {
+    saveActiveProjectId(project.id);
+  }, [project.id]);
+
+  const updateProject = (update: (p: SequenceProject) => Partial<SequenceProject>) =>
+    setProjects(ps => ps.map(p => (p.id === project.id ? { ...p, ...update(p), updatedAt: Date.now() } : p)));
+
+  // The protocol owns some item fields (prot, strobe, ...); swap them but keep the user's own.
+  const setProtocol = (next: BusProtocol) => updateProject(p => ({ protocol: next, item: rebaseItemDef(p.item, next) }));
+  const setItemDef = (item: TransactionItemDef) => updateProject(() => ({ item }));
+  const setRegisters = (registers: RegisterMap) => updateProject(() => ({ registers }));
+  const updateLibrary = (update: (library: SequenceDef[]) => SequenceDef[]) => updateProject(p => ({ library: update(p.library) }));
   
+  // The env the architecture diagram draws; independent of the open project
+  const [topology, setTopology] = useState<Topology>(loadTopology);
+
+  useEffect(() => {
+    saveTopology(topology);
+  }, [topology]);
+
   // Walkthrough State
+  // Scenarios come from the YAML templates in walkthroughs/*.ts plus any the user imported; pin-level steps follow the protocol.
+  const [customWalkthroughs, setCustomWalkthroughs] = useState<CustomWalkthrough[]>(loadCustomWalkthroughs);
+  const [showWalkthroughs, setShowWalkthroughs] = useState(false);
+  const scenarios = useMemo(() => [...BUILT_IN_WALKTHROUGHS, ...customWalkthroughs.map(w => w.scenario)], [customWalkthroughs]);
+  const [scenarioId, setScenarioId] = useState<string>(() => loadActiveWalkthroughId() || BUILT_IN_WALKTHROUGHS[0].id);
+  const scenario = scenarios.find(s => s.id === scenarioId) || scenarios[0];
   const [simulationStepIndex, setSimulationStepIndex] = useState<number>(-1);
+  const walkthroughSteps = useMemo(() => withProtocolSnippets(scenario.steps, protocol), [scenario, protocol]);
 
-  // Fetch explanation when active component changes, but only if we are in architecture mode and NOT simulating
   useEffect(() => {
-    const fetchData = async () => {
-      // Don't fetch AI data if simulating; we use hardcoded tutorial data
-      if (viewMode === 'architecture' && simulationStepIndex === -1) {
-        setIsLoading(true);
-        const data = await getComponentExplanation(activeComponent);
-        setAiData(data);
-        setIsLoading(false);
-      }
-    };
+    saveCustomWalkthroughs(customWalkthroughs);
+  }, [customWalkthroughs]);
 
-    fetchData();
-  }, [activeComponent, viewMode, simulationStepIndex]);
+  useEffect(() => {
+    saveActiveWalkthroughId(scenario.id);
+  }, [scenario.id]);
+
+  // Fetch explanation when active component changes, but only if we are in architecture mode and NOT simulating.
+  // Answers come from the explanation cache when this component was asked before with the same model.
+  const explanationRequest = useRef(0);
+  const loadExplanation = async (refresh: boolean) => {
+    // Only the latest request may land; a cache hit can overtake a slower model call
+    const request = ++explanationRequest.current;
+    setIsLoading(true);
+    const data = await getComponentExplanation(activeComponent, llmSettings, refresh);
+    if (request !== explanationRequest.current) return;
+    setAiData(data);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    // Don't fetch AI data if simulating; we use hardcoded tutorial data
+    if (viewMode === 'architecture' && simulationStepIndex === -1) {
+      loadExplanation(false);
+    }
+  }, [activeComponent, viewMode, simulationStepIndex, llmSettings]);
 
   const handleViewChange = (mode: ViewMode) => {
     setViewMode(mode);
     setSimulationStepIndex(-1); // Reset simulation on view change
-    if (mode === 'builder') {
+    if (mode !== 'architecture') {
         setActiveComponent(UvmComponentType.SEQUENCE);
     } else {
         if (activeComponent === UvmComponentType.SEQUENCE) {
@@ -158,29 +132,35 @@ const App: React.FC = () => {
   // Walkthrough Controls
   const startSimulation = () => {
       setSimulationStepIndex(0);
-      setActiveComponent(WALKTHROUGH_STEPS[0].component);
+      setActiveComponent(walkthroughSteps[0].component);
+  };
+
+  const goToStep = (index: number) => {
+      setSimulationStepIndex(index);
+      setActiveComponent(walkthroughSteps[index].component);
   };
 
   const nextStep = () => {
-      if (simulationStepIndex < WALKTHROUGH_STEPS.length - 1) {
-          const next = simulationStepIndex + 1;
-          setSimulationStepIndex(next);
-          setActiveComponent(WALKTHROUGH_STEPS[next].component);
-      }
+      if (simulationStepIndex < walkthroughSteps.length - 1) goToStep(simulationStepIndex + 1);
   };
 
   const prevStep = () => {
-      if (simulationStepIndex > 0) {
-          const prev = simulationStepIndex - 1;
-          setSimulationStepIndex(prev);
-          setActiveComponent(WALKTHROUGH_STEPS[prev].component);
-      }
+      if (simulationStepIndex > 0) goToStep(simulationStepIndex - 1);
   };
 
   const stopSimulation = () => {
       setSimulationStepIndex(-1);
   };
 
+  // What the tutor can be shown with a question: whatever the current view is displaying
+  const [sequenceCode, setSequenceCode] = useState<{ name: string; code: string } | null>(null);
+  const chatContext = useMemo((): ChatContextItem[] => {
+      if (viewMode === 'builder') return sequenceCode ? [sequenceContext(sequenceCode.name, sequenceCode.code)] : [];
+      if (viewMode !== 'architecture') return [];
+      if (simulationStepIndex >= 0) return [walkthroughContext(walkthroughSteps[simulationStepIndex], walkthroughSteps.length)];
+      return aiData && !isLoading ? [explanationContext(activeComponent, aiData)] : [];
+  }, [viewMode, sequenceCode, simulationStepIndex, walkthroughSteps, aiData, isLoading, activeComponent]);
+
   return (
     <div className="flex flex-col h-screen w-full bg-uvm-bg text-white overflow-hidden">
       {/* Header */}
@@ -204,6 +184,46 @@ const App: React.FC = () => {
              >
                Architecture
              </button>
+             <button
+               onClick={() => handleViewChange('topology')}
+               className={`px-4 py-1.5 text-xs sm:text-sm rounded-md font-medium transition-all ${
+                 viewMode === 'topology' 
+                   ? 'bg-gray-700 text-white shadow-sm' 
+                   : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+               }`}
+             >
+               Topology
+             </button>
+             <button
+               onClick={() => handleViewChange('phases')}
+               className={`px-4 py-1.5 text-xs sm:text-sm rounded-md font-medium transition-all ${
+                 viewMode === 'phases' 
+                   ? 'bg-gray-700 text-white shadow-sm' 
+                   : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+               }`}
+             >
+               Phases
+             </button>
+             <button
+               onClick={() => handleViewChange('configdb')}
+               className={`px-4 py-1.5 text-xs sm:text-sm rounded-md font-medium transition-all ${
+                 viewMode === 'configdb' 
+                   ? 'bg-gray-700 text-white shadow-sm' 
+                   : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+               }`}
+             >
+               Config DB
+             </button>
+             <button
+               onClick={() => handleViewChange('factory')}
+               className={`px-4 py-1.5 text-xs sm:text-sm rounded-md font-medium transition-all ${
+                 viewMode === 'factory' 
+                   ? 'bg-gray-700 text-white shadow-sm' 
+                   : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+               }`}
+             >
+               Factory
+             </button>
              <button
                onClick={() => handleViewChange('builder')}
                className={`px-4 py-1.5 text-xs sm:text-sm rounded-md font-medium transition-all ${
@@ -214,10 +234,66 @@ const App: React.FC = () => {
              >
                Sequence Builder
              </button>
+             <button
+               onClick={() => handleViewChange('projects')}
+               className={`px-4 py-1.5 text-xs sm:text-sm rounded-md font-medium transition-all ${
+                 viewMode === 'projects' 
+                   ? 'bg-gray-700 text-white shadow-sm' 
+                   : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+               }`}
+             >
+               Projects
+             </button>
+             <button
+               onClick={() => handleViewChange('item')}
+               className={`px-4 py-1.5 text-xs sm:text-sm rounded-md font-medium transition-all ${
+                 viewMode === 'item' 
+                   ? 'bg-gray-700 text-white shadow-sm' 
+                   : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+               }`}
+             >
+               Item Designer
+             </button>
+             <button
+               onClick={() => handleViewChange('registers')}
+               className={`px-4 py-1.5 text-xs sm:text-sm rounded-md font-medium transition-all ${
+                 viewMode === 'registers' 
+                   ? 'bg-gray-700 text-white shadow-sm' 
+                   : 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+               }`}
+             >
+               Registers
+             </button>
           </nav>
         </div>
 
         <div className="flex items-center gap-4">
+            <span
+                className="text-xs text-gray-400 hidden md:block"
+                title={store.locked ? storeWarning! : saveFailed ? 'This browser refused to save; export the project to keep it' : 'Saved in this browser'}
+            >
+                {project.name}{(saveFailed || store.locked) && <span className="text-red-400"> · not saved</span>}
+            </span>
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+                Protocol
+                <select
+                    value={protocol}
+                    onChange={(e) => setProtocol(e.target.value as BusProtocol)}
+                    className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:border-uvm-accent focus:outline-none"
+                >
+                    {Object.values(BusProtocol).map(p => (
+                        <option key={p} value={p}>{p}</option>
+                    ))}
+                </select>
+            </label>
+            <button
+                onClick={() => setShowAiSettings(true)}
+                className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white"
+                title="AI provider and model"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="3"></circle><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"></path></svg>
+                <span className="hidden lg:inline">{LLM_PROVIDERS[llmSettings.provider].label}</span>
+            </button>
             <button 
                 onClick={() => setShowChat(!showChat)}
                 className={`px-3 py-1.5 text-sm rounded border transition-colors ${
@@ -247,7 +323,15 @@ const App: React.FC = () => {
                             onNextStep={nextStep}
                             onPrevStep={prevStep}
                             onStopSimulation={stopSimulation}
-                            totalSteps={WALKTHROUGH_STEPS.length}
+                            totalSteps={walkthroughSteps.length}
+                            step={simulationStepIndex >= 0 ? walkthroughSteps[simulationStepIndex] : null}
+                            onGoToStep={goToStep}
+                            scenarios={scenarios}
+                            scenarioId={scenario.id}
+                            onSelectScenario={setScenarioId}
+                            onManageScenarios={() => setShowWalkthroughs(true)}
+                            topology={topology}
+                            onEditTopology={() => handleViewChange('topology')}
                         />
                     </div>
                     <div className="h-1/2 min-h-0 bg-uvm-bg">
@@ -255,20 +339,62 @@ const App: React.FC = () => {
                             component={activeComponent} 
                             data={aiData} 
                             loading={isLoading} 
-                            simulationStep={simulationStepIndex >= 0 ? WALKTHROUGH_STEPS[simulationStepIndex] : null}
+                            onRefresh={() => loadExplanation(true)}
+                            simulationStep={simulationStepIndex >= 0 ? walkthroughSteps[simulationStepIndex] : null}
                         />
                     </div>
                 </>
+            ) : viewMode === 'topology' ? (
+                <TopologyEditor topology={topology} onChange={setTopology} onShowDiagram={() => handleViewChange('architecture')} />
+            ) : viewMode === 'phases' ? (
+                <PhaseTimeline />
+            ) : viewMode === 'configdb' ? (
+                <ConfigDbPlayground />
+            ) : viewMode === 'factory' ? (
+                <FactoryPanel />
+            ) : viewMode === 'builder' ? (
+                <SequenceBuilder
+                    key={project.id}
+                    protocol={protocol}
+                    item={itemDef}
+                    registers={registers}
+                    library={library}
+                    onLibraryChange={updateLibrary}
+                    onCodeChange={(name, code) => setSequenceCode({ name, code })}
+                />
+            ) : viewMode === 'projects' ? (
+                <ProjectLibrary
+                    projects={projects}
+                    activeId={project.id}
+                    storeWarning={storeWarning}
+                    onChange={setProjects}
+                    onOpen={(id) => { setProjectId(id); handleViewChange('builder'); }}
+                />
+            ) : viewMode === 'registers' ? (
+                <RegisterEditor registers={registers} protocol={protocol} onChange={setRegisters} />
             ) : (
-                <SequenceBuilder />
+                <ItemDesigner item={itemDef} protocol={protocol} onChange={setItemDef} />
             )}
         </div>
 
         {/* Right: Chat / Tutor */}
         {showChat && (
-             <ChatInterface activeComponent={activeComponent} />
+             <ChatInterface activeComponent={activeComponent} llmSettings={llmSettings} context={chatContext} />
         )}
       </main>
+
+      {showWalkthroughs && (
+        <WalkthroughDialog
+          custom={customWalkthroughs}
+          onChange={setCustomWalkthroughs}
+          onAdded={setScenarioId}
+          onClose={() => setShowWalkthroughs(false)}
+        />
+      )}
+
+      {showAiSettings && (
+        <AiSettingsDialog settings={llmSettings} onSave={setLlmSettings} onClose={() => setShowAiSettings(false)} />
+      )}
     </div>
   );
 };
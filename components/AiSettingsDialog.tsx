@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { LlmProviderId, LlmSettings } from '../types';
+import { LLM_PROVIDERS, createProvider } from '../services/llmProviders';
+import { CachedExplanation, invalidateExplanations, listCachedExplanations } from '../services/explanationCache';
+
+interface AiSettingsDialogProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+  onClose: () => void;
+}
+
+type TestState = { status: 'idle' | 'running' } | { status: 'ok' | 'failed'; message: string };
+
+const inputClass = 'w-full mt-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:border-uvm-accent focus:outline-none';
+
+const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+  const [cached, setCached] = useState<CachedExplanation[]>([]);
+  const info = LLM_PROVIDERS[draft.provider];
+  const savedModel = `${settings.provider}/${settings.model}`;
+
+  useEffect(() => {
+    listCachedExplanations().then(setCached);
+  }, []);
+
+  const clearCache = async (match?: (entry: CachedExplanation) => boolean) => {
+    await invalidateExplanations(match);
+    setCached(await listCachedExplanations());
+  };
+
+  const update = (patch: Partial<LlmSettings>) => {
+    setDraft(d => ({ ...d, ...patch }));
+    setTest({ status: 'idle' });
+  };
+
+  // Each provider has its own model names, so switching resets the model to that provider's default
+  const selectProvider = (provider: LlmProviderId) => update({ provider, model: LLM_PROVIDERS[provider].defaultModel });
+
+  const testConnection = async () => {
+    setTest({ status: 'running' });
+    try {
+      const reply = await createProvider(draft).generate('Reply with the single word OK.', { systemInstruction: 'You are a connectivity check.' });
+      setTest({ status: 'ok', message: reply.trim().slice(0, 120) || '(empty reply)' });
+    } catch (err) {
+      setTest({ status: 'failed', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-uvm-panel border border-gray-700 rounded-lg shadow-2xl w-full max-w-lg max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h3 className="font-semibold text-white">AI Settings</h3>
+            <p className="text-xs text-gray-400">Choose the model behind the tutor and the component explanations.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          <div className="space-y-2">
+            {Object.values(LLM_PROVIDERS).map(p => (
+              <label
+                key={p.id}
+                className={`flex gap-3 p-2 rounded border cursor-pointer ${
+                  draft.provider === p.id ? 'border-uvm-accent bg-sky-900/20' : 'border-gray-700 hover:border-gray-500'
+                }`}
+              >
+                <input type="radio" name="provider" checked={draft.provider === p.id} onChange={() => selectProvider(p.id)} className="mt-1" />
+                <span>
+                  <span className="block text-gray-200 font-medium">{p.label}</span>
+                  <span className="block text-xs text-gray-400">{p.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {draft.provider !== 'mock' && (
+            <>
+              <label className="block text-xs text-gray-400">
+                Model
+                <input
+                  type="text"
+                  list="llm-models"
+                  value={draft.model}
+                  onChange={(e) => update({ model: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                />
+                <datalist id="llm-models">
+                  {info.models.map(m => <option key={m} value={m} />)}
+                </datalist>
+              </label>
+
+              {info.needsBaseUrl && (
+                <label className="block text-xs text-gray-400">
+                  Endpoint
+                  <input
+                    type="text"
+                    value={draft.baseUrl}
+                    onChange={(e) => update({ baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className={`${inputClass} font-mono`}
+                  />
+                  <span className="block mt-1 text-gray-500">Requests go to &lt;endpoint&gt;/chat/completions; the server must allow this page's origin (CORS).</span>
+                </label>
+              )}
+
+              <label className="block text-xs text-gray-400">
+                API key
+                <input
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                  placeholder={draft.provider === 'gemini' ? 'Defaults to GEMINI_API_KEY from .env.local' : 'Optional for local servers'}
+                  className={`${inputClass} font-mono`}
+                />
+                <span className="block mt-1 text-gray-500">Stored in this browser only.</span>
+              </label>
+            </>
+          )}
+
+          <div className="border-t border-gray-700 pt-4">
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-gray-400">
+                Cached explanations: {cached.length}
+                {cached.length > 0 && ` (${cached.filter(e => e.model === savedModel).length} from ${savedModel})`}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => clearCache(e => e.model === savedModel)}
+                  disabled={!cached.some(e => e.model === savedModel)}
+                  className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded disabled:opacity-40"
+                >
+                  Clear this model
+                </button>
+                <button
+                  onClick={() => clearCache()}
+                  disabled={cached.length === 0}
+                  className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded disabled:opacity-40"
+                >
+                  Clear all
+                </button>
+              </div>
+            </div>
+            <span className="block mt-1 text-xs text-gray-500">Answers are reused per component and model until cleared or refreshed.</span>
+          </div>
+
+          {test.status !== 'idle' && (
+            <p className={`text-xs rounded p-2 border ${
+              test.status === 'running' ? 'text-gray-400 border-gray-700'
+                : test.status === 'ok' ? 'text-emerald-300 border-emerald-900/50 bg-emerald-900/10'
+                : 'text-red-300 border-red-900/50 bg-red-900/10'
+            }`}>
+              {test.status === 'running' ? 'Contacting the model…' : test.status === 'ok' ? `Connected. Reply: ${test.message}` : test.message}
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-between gap-2">
+          <button
+            onClick={testConnection}
+            disabled={test.status === 'running' || !draft.model.trim()}
+            className="text-xs px-3 py-1.5 rounded border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+          >
+            Test Connection
+          </button>
+          <button
+            onClick={() => { onSave(draft); onClose(); }}
+            disabled={!draft.model.trim()}
+            className="text-xs px-3 py-1.5 rounded bg-uvm-accent text-gray-900 font-semibold hover:bg-sky-400 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsDialog;
@@ -0,0 +1,218 @@
+import React, { useMemo } from 'react';
+import { ArbitrationMode, ArbitrationSetup, ArbitrationThread, SequenceDef, SequencerAccess, UserArbitrationPolicy } from '../types';
+import { ARBITRATION_MODES, DEFAULT_PRIORITY, USER_POLICIES, arbitrationCode, simulateArbitration, threadLetter } from '../services/arbitration';
+import CodeBlock from './CodeBlock';
+
+// One colour per running sequence, reused past the end of the list
+const THREAD_COLORS = [
+  'bg-blue-500/20 text-blue-300 border-blue-500/50',
+  'bg-orange-500/20 text-orange-300 border-orange-500/50',
+  'bg-emerald-500/20 text-emerald-300 border-emerald-500/50',
+  'bg-pink-500/20 text-pink-300 border-pink-500/50',
+  'bg-yellow-500/20 text-yellow-300 border-yellow-500/50',
+  'bg-cyan-500/20 text-cyan-300 border-cyan-500/50'
+];
+
+const RANDOM_MODES: ArbitrationMode[] = ['SEQ_ARB_WEIGHTED', 'SEQ_ARB_RANDOM', 'SEQ_ARB_STRICT_RANDOM'];
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-0.5 font-mono focus:border-uvm-accent focus:outline-none';
+
+interface ArbitrationPanelProps {
+  library: SequenceDef[];
+  setup: ArbitrationSetup;
+  onChange: (setup: ArbitrationSetup) => void;
+}
+
+const ArbitrationPanel: React.FC<ArbitrationPanelProps> = ({ library, setup, onChange }) => {
+  const run = useMemo(() => simulateArbitration(setup, library), [setup, library]);
+  const code = useMemo(() => arbitrationCode(setup, library), [setup, library]);
+  const mode = ARBITRATION_MODES.find(m => m.mode === setup.mode)!;
+
+  const indexOf = (threadId: string) => setup.threads.findIndex(t => t.id === threadId);
+  const badge = (threadId: string) => {
+    const i = indexOf(threadId);
+    return (
+      <span key={threadId} className={`inline-block px-1.5 rounded border font-mono ${THREAD_COLORS[i % THREAD_COLORS.length]}`}>
+        {threadLetter(i)}
+      </span>
+    );
+  };
+
+  const updateThread = (id: string, patch: Partial<ArbitrationThread>) =>
+    onChange({ ...setup, threads: setup.threads.map(t => (t.id === id ? { ...t, ...patch } : t)) });
+
+  const addThread = () => onChange({
+    ...setup,
+    threads: [...setup.threads, { id: Date.now().toString(), sequenceId: library[0].id, priority: DEFAULT_PRIORITY, startAt: 0, access: 'none' }]
+  });
+
+  const items = run.events.filter(e => e.kind === 'item');
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-4 py-2 flex flex-wrap items-center gap-4 border-b border-[#3e3e42] text-xs text-gray-400">
+        <label className="flex items-center gap-1">
+          set_arbitration(
+          <select
+            value={setup.mode}
+            onChange={(e) => onChange({ ...setup, mode: e.target.value as ArbitrationMode })}
+            className={`${inputClass} text-blue-300`}
+          >
+            {ARBITRATION_MODES.map(m => <option key={m.mode} value={m.mode}>UVM_{m.mode}</option>)}
+          </select>
+          )
+        </label>
+        {setup.mode === 'SEQ_ARB_USER' && (
+          <select
+            value={setup.userPolicy}
+            onChange={(e) => onChange({ ...setup, userPolicy: e.target.value as UserArbitrationPolicy })}
+            className={`${inputClass} text-blue-300`}
+          >
+            {(Object.keys(USER_POLICIES) as UserArbitrationPolicy[]).map(p => <option key={p} value={p}>{USER_POLICIES[p]}</option>)}
+          </select>
+        )}
+        <label className={`flex items-center gap-1 ${RANDOM_MODES.includes(setup.mode) ? '' : 'opacity-40'}`} title="Only the random modes draw from the seed">
+          Seed
+          <input
+            type="number"
+            value={setup.seed}
+            onChange={(e) => onChange({ ...setup, seed: parseInt(e.target.value) || 0 })}
+            className={`${inputClass} w-20 text-blue-300`}
+          />
+        </label>
+        <button
+          onClick={() => onChange({ ...setup, seed: Math.floor(Math.random() * 1e6) })}
+          className="px-2 py-0.5 border border-gray-600 rounded text-gray-300 hover:text-white"
+        >
+          Reseed
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-5">
+        <p className="text-xs text-gray-400">{mode.description}</p>
+
+        <section>
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-xs uppercase tracking-wider text-gray-500 font-semibold">Sequences started in parallel</h3>
+            <button onClick={addThread} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded">+ Start</button>
+          </div>
+          <table className="text-xs">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="pr-3 pb-1"></th>
+                <th className="pr-3 pb-1 font-normal">Sequence</th>
+                <th className="pr-3 pb-1 font-normal">Priority</th>
+                <th className="pr-3 pb-1 font-normal">Start after #</th>
+                <th className="pr-3 pb-1 font-normal">Access</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {setup.threads.map(t => (
+                <tr key={t.id}>
+                  <td className="pr-3 py-0.5">{badge(t.id)}</td>
+                  <td className="pr-3 py-0.5">
+                    <select value={t.sequenceId} onChange={(e) => updateThread(t.id, { sequenceId: e.target.value })} className={`${inputClass} text-green-300`}>
+                      {!library.some(d => d.id === t.sequenceId) && <option value={t.sequenceId}>(deleted)</option>}
+                      {library.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                    </select>
+                  </td>
+                  <td className="pr-3 py-0.5">
+                    <input
+                      type="number"
+                      min={1}
+                      value={t.priority}
+                      onChange={(e) => updateThread(t.id, { priority: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className={`${inputClass} w-20 text-blue-300`}
+                    />
+                  </td>
+                  <td className="pr-3 py-0.5">
+                    <input
+                      type="number"
+                      min={0}
+                      value={t.startAt}
+                      onChange={(e) => updateThread(t.id, { startAt: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className={`${inputClass} w-20 text-blue-300`}
+                    />
+                  </td>
+                  <td className="pr-3 py-0.5">
+                    <select value={t.access} onChange={(e) => updateThread(t.id, { access: e.target.value as SequencerAccess })} className={`${inputClass} text-purple-300`}>
+                      <option value="none">none</option>
+                      <option value="lock">lock()</option>
+                      <option value="grab">grab()</option>
+                    </select>
+                  </td>
+                  <td className="py-0.5">
+                    <button
+                      onClick={() => onChange({ ...setup, threads: setup.threads.filter(x => x.id !== t.id) })}
+                      className="text-gray-500 hover:text-red-400"
+                      title="Remove"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section>
+          <h3 className="text-xs uppercase tracking-wider text-gray-500 font-semibold mb-2">
+            What the driver receives <span className="normal-case font-normal">({items.length} items, done at #{run.end})</span>
+          </h3>
+          {run.events.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">Nothing to arbitrate: add items to the sequences, or start one.</p>
+          ) : (
+            <div className="flex flex-wrap gap-1 text-xs font-mono">
+              {run.events.map((e, i) => e.kind === 'item' ? (
+                <span key={i} className={`px-1.5 py-0.5 rounded border ${THREAD_COLORS[indexOf(e.threadId) % THREAD_COLORS.length]}`} title={`#${e.time} ${e.label}`}>
+                  {threadLetter(indexOf(e.threadId))}
+                </span>
+              ) : (
+                <span key={i} className="px-1 py-0.5 text-purple-300" title={`#${e.time} ${threadLetter(indexOf(e.threadId))}: ${e.label}`}>
+                  {e.kind === 'unlock' ? ']' : '['}
+                </span>
+              ))}
+            </div>
+          )}
+          {run.truncated && <p className="text-xs text-amber-300 mt-2">Stopped at #{run.end}; the rest is not shown.</p>}
+        </section>
+
+        {run.events.length > 0 && (
+          <section>
+            <h3 className="text-xs uppercase tracking-wider text-gray-500 font-semibold mb-2">Arbitration log</h3>
+            <table className="text-xs w-full">
+              <thead>
+                <tr className="text-gray-500 text-left">
+                  <th className="pr-3 pb-1 font-normal text-right">Time</th>
+                  <th className="pr-3 pb-1"></th>
+                  <th className="pr-3 pb-1 font-normal">Granted</th>
+                  <th className="pr-3 pb-1 font-normal">Why</th>
+                  <th className="pr-3 pb-1 font-normal">Waiting</th>
+                  <th className="pb-1 font-normal">Locked out</th>
+                </tr>
+              </thead>
+              <tbody>
+                {run.events.map((e, i) => (
+                  <tr key={i} className="border-t border-[#2d2d2d] align-top">
+                    <td className="pr-3 py-1 text-right font-mono text-gray-500">#{e.time}</td>
+                    <td className="pr-3 py-1">{badge(e.threadId)}</td>
+                    <td className={`pr-3 py-1 font-mono whitespace-nowrap ${e.kind === 'item' ? 'text-gray-200' : 'text-purple-300'}`}>{e.label}</td>
+                    <td className="pr-3 py-1 text-gray-400">{e.reason}</td>
+                    <td className="pr-3 py-1 space-x-1 whitespace-nowrap">{e.competing.filter(id => id !== e.threadId).map(badge)}</td>
+                    <td className="py-1 space-x-1 whitespace-nowrap opacity-60">{e.blocked.map(badge)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        <CodeBlock code={code} title="my_test.sv" />
+      </div>
+    </div>
+  );
+};
+
+export default ArbitrationPanel;
@@ -1,17 +1,40 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { UvmComponentType, ChatMessage } from '../types';
+import { UvmComponentType, ChatMessage, ChatThread, LlmSettings, ChatContextItem } from '../types';
 import { streamChatResponse } from '../services/geminiService';
+import { describeLlmError } from '../services/llmProviders';
+import {
+  branchThread, chatHistory, createThread, loadActiveThreadId, loadThreads, saveActiveThreadId, saveThreads, threadFileName,
+  threadTitle, threadToMarkdown
+} from '../services/chatStore';
+import { downloadText } from '../services/download';
+import { QUICK_ACTIONS } from '../services/chatContext';
+import Markdown from './Markdown';
 
 interface ChatInterfaceProps {
   activeComponent: UvmComponentType;
+  llmSettings: LlmSettings;
+  context: ChatContextItem[]; // What's on screen; attached to questions unless the user removes it
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ activeComponent }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ activeComponent, llmSettings, context }) => {
+  // Threads live in localStorage, so hiding the tutor or reloading keeps them
+  const [threads, setThreads] = useState<ChatThread[]>(loadThreads);
+  const loadedThreads = useRef(threads);
+  const [threadId, setThreadId] = useState<string | null>(loadActiveThreadId);
+  const [showThreads, setShowThreads] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [removedContext, setRemovedContext] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const thread = threads.find(t => t.id === threadId) || null;
+  const messages = thread?.messages || [];
+  const attached = context.filter(c => !removedContext.includes(c.id));
+  const quickActions = QUICK_ACTIONS.filter(a => attached.some(c => a.needs.includes(c.kind)));
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -20,23 +43,49 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ activeComponent }) => {
     scrollToBottom();
   }, [messages]);
 
-  // Clear chat when component context changes drastically? No, preserve context but announce change visually if needed.
-  // Actually, let's keep the history so user can compare.
+  // Only write once something changed, so threads that failed to load aren't replaced by nothing
+  useEffect(() => {
+    if (threads !== loadedThreads.current) saveThreads(threads);
+  }, [threads]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isStreaming) return;
+  useEffect(() => {
+    if (threadId) saveActiveThreadId(threadId);
+  }, [threadId]);
+
+  // Hiding the tutor mid-answer stops the request rather than leaving it running unseen
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateThread = (id: string, update: (t: ChatThread) => Partial<ChatThread>) =>
+    setThreads(ts => ts.map(t => (t.id === id ? { ...t, ...update(t), updatedAt: Date.now() } : t)));
+
+  const setMessages = (id: string, update: (messages: ChatMessage[]) => ChatMessage[]) =>
+    updateThread(id, t => ({ messages: update(t.messages) }));
 
+  const startThread = (component: UvmComponentType | null): ChatThread => {
+    const created = createThread(component);
+    setThreads(ts => [created, ...ts]);
+    setThreadId(created.id);
+    setShowThreads(false);
+    return created;
+  };
+
+  const deleteThread = (t: ChatThread) => {
+    if (!window.confirm(`Delete "${threadTitle(t)}"?`)) return;
+    setThreads(ts => ts.filter(other => other.id !== t.id));
+    if (t.id === threadId) setThreadId(null);
+  };
+
+  const exportThread = (t: ChatThread) => downloadText(threadToMarkdown(t), threadFileName(t));
+
+  // Replaces the thread's messages with `before` plus the question, then streams the answer in
+  const ask = async (target: ChatThread, before: ChatMessage[], question: string) => {
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      content: input
+      content: question,
+      ...(attached.length ? { context: attached.map(c => c.label) } : {})
     };
 
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
-    setIsStreaming(true);
-
     const modelMsgId = (Date.now() + 1).toString();
     const modelMsgPlaceholder: ChatMessage = {
       id: modelMsgId,
@@ -44,73 +93,262 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ activeComponent }) => {
       content: '',
       isLoading: true
     };
-    setMessages(prev => [...prev, modelMsgPlaceholder]);
+    setMessages(target.id, () => [...before, userMsg, modelMsgPlaceholder]);
+    setIsStreaming(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const finish = (patch: Partial<ChatMessage>) =>
+      setMessages(target.id, prev => prev.map(msg => (msg.id === modelMsgId ? { ...msg, ...patch, isLoading: false } : msg)));
+
+    let fullText = '';
     try {
-      // Prepare history for API
-      const historyApiFormat = messages.map(m => ({ role: m.role, content: m.content }));
-      
-      const stream = await streamChatResponse(historyApiFormat, userMsg.content, activeComponent);
-      
-      let fullText = '';
-      
+      const stream = await streamChatResponse(chatHistory(before), question, target.component, llmSettings, attached, controller.signal);
+
       for await (const chunk of stream) {
+        // Providers that can't cancel mid-stream are simply no longer listened to
+        if (controller.signal.aborted) break;
         fullText += chunk;
-        setMessages(prev => prev.map(msg => 
-          msg.id === modelMsgId 
-            ? { ...msg, content: fullText, isLoading: false } 
-            : msg
-        ));
+        finish({ content: fullText });
       }
+      if (controller.signal.aborted) finish({ content: fullText, error: describeLlmError(new DOMException('Stopped', 'AbortError')) });
 
     } catch (error) {
-      setMessages(prev => prev.map(msg => 
-        msg.id === modelMsgId 
-          ? { ...msg, content: "Error connecting to AI tutor.", isLoading: false } 
-          : msg
-      ));
+      const described = controller.signal.aborted ? describeLlmError(new DOMException('Stopped', 'AbortError')) : describeLlmError(error);
+      finish({ content: fullText, error: described });
     } finally {
+      abortRef.current = null;
       setIsStreaming(false);
     }
   };
 
+  const send = (question: string) => {
+    if (!question.trim() || isStreaming) return;
+
+    // The first question opens a thread about whatever is being studied
+    const target = thread || startThread(activeComponent);
+    setShowThreads(false);
+    setInput('');
+    ask(target, target.messages, question);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send(input);
+  };
+
+  // Asks the question before a reply again, dropping that reply and everything after it
+  const regenerate = (index: number) => {
+    const question = messages[index - 1];
+    if (!thread || question?.role !== 'user') return;
+    ask(thread, messages.slice(0, index - 1), question.content);
+  };
+
+  // An edited question continues in a new thread, so the original conversation stays as it was
+  const resendEdited = (index: number, text: string) => {
+    if (!thread || !text.trim()) return;
+    const branch = branchThread(thread, index);
+    setThreads(ts => [branch, ...ts]);
+    setThreadId(branch.id);
+    setEditing(null);
+    ask(branch, branch.messages, text);
+  };
+
+  const about = thread ? thread.component : activeComponent;
+
   return (
     <div className="flex flex-col h-full bg-uvm-panel border-l border-gray-700 w-80 md:w-96 shrink-0">
-      <div className="p-4 border-b border-gray-700 bg-gray-800/80 backdrop-blur-sm">
-        <h3 className="font-semibold text-white">AI Tutor</h3>
-        <p className="text-xs text-gray-400">Ask about <span className="text-uvm-accent">{activeComponent}</span></p>
+      <div className="p-4 border-b border-gray-700 bg-gray-800/80 backdrop-blur-sm flex justify-between items-start gap-2">
+        <div className="min-w-0">
+          <h3 className="font-semibold text-white truncate">{thread ? threadTitle(thread) : 'AI Tutor'}</h3>
+          <p className="text-xs text-gray-400">
+            {about ? <>Ask about <span className="text-uvm-accent">{about}</span></> : 'Free-form thread'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {thread && !showThreads && (
+            <button onClick={() => exportThread(thread)} disabled={messages.length === 0} className="text-xs text-gray-400 hover:text-white disabled:opacity-40" title="Export this thread as Markdown">
+              Export
+            </button>
+          )}
+          <button
+            onClick={() => setShowThreads(!showThreads)}
+            className={`text-xs px-2 py-0.5 rounded border ${showThreads ? 'border-uvm-accent text-uvm-accent' : 'border-gray-600 text-gray-300 hover:text-white'}`}
+          >
+            Threads ({threads.length})
+          </button>
+        </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 && (
-          <div className="text-center text-gray-500 mt-10 text-sm">
-            <p>Ask a specific question about the {activeComponent}.</p>
-            <p className="mt-2 text-xs">e.g., "How does the driver get items?"</p>
+      {showThreads ? (
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          <div className="flex gap-2 mb-2">
+            <button
+              onClick={() => startThread(activeComponent)}
+              disabled={isStreaming}
+              className="flex-1 text-xs px-2 py-1.5 rounded bg-uvm-accent text-gray-900 font-semibold hover:bg-sky-400 disabled:opacity-40"
+            >
+              + {activeComponent} thread
+            </button>
+            <button
+              onClick={() => startThread(null)}
+              disabled={isStreaming}
+              className="flex-1 text-xs px-2 py-1.5 rounded border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+            >
+              + Free-form
+            </button>
           </div>
-        )}
-        {messages.map((msg) => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[85%] rounded-lg p-3 text-sm ${
-              msg.role === 'user' 
-                ? 'bg-uvm-accent text-gray-900 font-medium rounded-tr-none' 
-                : 'bg-gray-700 text-gray-200 rounded-tl-none'
-            }`}>
-              {msg.role === 'model' && msg.isLoading && !msg.content ? (
-                <span className="flex gap-1">
-                  <span className="w-1 h-1 bg-gray-400 rounded-full animate-bounce"></span>
-                  <span className="w-1 h-1 bg-gray-400 rounded-full animate-bounce delay-100"></span>
-                  <span className="w-1 h-1 bg-gray-400 rounded-full animate-bounce delay-200"></span>
-                </span>
+          {threads.length === 0 && (
+            <p className="text-center text-gray-500 text-xs mt-6">No threads yet. Ask a question to start one.</p>
+          )}
+          {threads.map(t => (
+            <div
+              key={t.id}
+              className={`p-2 rounded border text-sm ${t.id === threadId ? 'border-uvm-accent bg-sky-900/10' : 'border-gray-700 hover:border-gray-500'}`}
+            >
+              {renamingId === t.id ? (
+                <input
+                  autoFocus
+                  defaultValue={threadTitle(t)}
+                  onBlur={(e) => { updateThread(t.id, () => ({ title: e.target.value })); setRenamingId(null); }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-0.5 text-sm text-white focus:border-uvm-accent focus:outline-none"
+                />
               ) : (
-                <div className="whitespace-pre-wrap">{msg.content}</div>
+                <button
+                  onClick={() => { setThreadId(t.id); setShowThreads(false); }}
+                  disabled={isStreaming}
+                  className="block w-full text-left text-gray-200 truncate hover:text-white disabled:cursor-not-allowed"
+                >
+                  {threadTitle(t)}
+                </button>
               )}
+              <div className="flex items-center gap-2 mt-1 text-[10px] text-gray-500">
+                <span className={t.component ? 'text-uvm-accent' : 'text-gray-400'}>{t.component || 'Free-form'}</span>
+                <span>· {t.messages.length} messages · {new Date(t.updatedAt).toLocaleDateString()}</span>
+                <span className="flex-1" />
+                <button onClick={() => setRenamingId(t.id)} className="hover:text-white">Rename</button>
+                <button onClick={() => exportThread(t)} disabled={t.messages.length === 0} className="hover:text-white disabled:opacity-40">Export</button>
+                <button onClick={() => deleteThread(t)} disabled={isStreaming && t.id === threadId} className="hover:text-red-400 disabled:opacity-40">Delete</button>
+              </div>
             </div>
-          </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.length === 0 && (
+            <div className="text-center text-gray-500 mt-10 text-sm">
+              {about ? <p>Ask a specific question about the {about}.</p> : <p>Ask anything about UVM.</p>}
+              <p className="mt-2 text-xs">e.g., "How does the driver get items?"</p>
+            </div>
+          )}
+          {messages.map((msg, index) => (
+            <div key={msg.id} className={`group flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+              {editing?.id === msg.id ? (
+                <div className="w-[85%] space-y-1">
+                  <textarea
+                    autoFocus
+                    value={editing.text}
+                    onChange={(e) => setEditing({ id: msg.id, text: e.target.value })}
+                    rows={3}
+                    className="w-full bg-gray-900 border border-uvm-accent rounded p-2 text-sm text-white focus:outline-none"
+                  />
+                  <div className="flex justify-end gap-2 text-xs">
+                    <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-white">Cancel</button>
+                    <button
+                      onClick={() => resendEdited(index, editing.text)}
+                      disabled={!editing.text.trim()}
+                      className="px-2 py-0.5 rounded bg-uvm-accent text-gray-900 font-semibold hover:bg-sky-400 disabled:opacity-40"
+                      title="Continue from here in a new thread; this one is kept"
+                    >
+                      Send as branch
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className={`max-w-[85%] rounded-lg p-3 text-sm ${
+                  msg.role === 'user'
+                    ? 'bg-uvm-accent text-gray-900 font-medium rounded-tr-none'
+                    : 'bg-gray-700 text-gray-200 rounded-tl-none'
+                }`}>
+                  {msg.role === 'model' && msg.isLoading && !msg.content ? (
+                    <span className="flex gap-1">
+                      <span className="w-1 h-1 bg-gray-400 rounded-full animate-bounce"></span>
+                      <span className="w-1 h-1 bg-gray-400 rounded-full animate-bounce delay-100"></span>
+                      <span className="w-1 h-1 bg-gray-400 rounded-full animate-bounce delay-200"></span>
+                    </span>
+                  ) : (
+                    msg.content && (msg.role === 'model'
+                      ? <Markdown text={msg.content} />
+                      : <div className="whitespace-pre-wrap">{msg.content}</div>)
+                  )}
+                  {msg.context && (
+                    <div className="mt-1 text-[10px] font-normal opacity-70 truncate" title={msg.context.join('\n')}>
+                      with {msg.context.join(', ')}
+                    </div>
+                  )}
+                  {msg.error && (
+                    <div className={`text-xs ${msg.content ? 'mt-2 pt-2 border-t border-gray-600' : ''} ${
+                      msg.error.kind === 'aborted' ? 'text-gray-400 italic' : 'text-red-300'
+                    }`}>
+                      {msg.error.message}
+                    </div>
+                  )}
+                </div>
+              )}
+              {!isStreaming && editing?.id !== msg.id && (
+                <div className={`flex gap-3 mt-1 text-[10px] text-gray-500 ${msg.error ? '' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
+                  {msg.role === 'user' ? (
+                    <button onClick={() => setEditing({ id: msg.id, text: msg.content })} className="hover:text-white">Edit</button>
+                  ) : (
+                    <button onClick={() => regenerate(index)} className="hover:text-white">{msg.error ? 'Retry' : 'Regenerate'}</button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
+      )}
 
       <form onSubmit={handleSubmit} className="p-3 border-t border-gray-700 bg-gray-800">
+        {context.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {context.map(c => attached.includes(c) ? (
+              <span key={c.id} className="flex items-center gap-1 max-w-full text-[10px] pl-2 pr-1 py-0.5 rounded-full bg-sky-900/40 border border-uvm-accent/50 text-sky-200">
+                <span className="truncate">{c.label}</span>
+                <button type="button" onClick={() => setRemovedContext(ids => [...ids, c.id])} className="hover:text-white" title="Don't send this with questions">×</button>
+              </span>
+            ) : (
+              <button
+                key={c.id}
+                type="button"
+                onClick={() => setRemovedContext(ids => ids.filter(id => id !== c.id))}
+                className="max-w-full truncate text-[10px] px-2 py-0.5 rounded-full border border-dashed border-gray-600 text-gray-500 hover:text-gray-300"
+                title="Attach to questions"
+              >
+                + {c.label}
+              </button>
+            ))}
+          </div>
+        )}
+        {quickActions.length > 0 && !isStreaming && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {quickActions.map(a => (
+              <button
+                key={a.label}
+                type="button"
+                onClick={() => send(a.prompt)}
+                className="text-[11px] px-2 py-0.5 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white"
+              >
+                {a.label}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="relative">
           <input
             type="text"
@@ -120,17 +358,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ activeComponent }) => {
             className="w-full bg-gray-900 border border-gray-700 text-white rounded-md pl-3 pr-10 py-2 text-sm focus:outline-none focus:border-uvm-accent focus:ring-1 focus:ring-uvm-accent"
             disabled={isStreaming}
           />
-          <button 
-            type="submit" 
-            disabled={!input.trim() || isStreaming}
-            className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-white disabled:opacity-50"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>
-          </button>
+          {isStreaming ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-red-400 hover:text-red-300"
+              title="Stop generating"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="6" width="12" height="12" rx="1"></rect></svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-white disabled:opacity-50"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>
+            </button>
+          )}
         </div>
       </form>
     </div>
   );
 };
 
-export default ChatInterface;
\ No newline at end of file
+export default ChatInterface;
@@ -0,0 +1,63 @@
+import React, { useState, useMemo } from 'react';
+import { HighlightKind, highlightCode } from '../services/svHighlight';
+
+const TOKEN_CLASSES: Record<HighlightKind, string> = {
+  keyword: 'text-[#569cd6]',
+  type: 'text-[#4ec9b0]',
+  comment: 'text-[#6a9955] italic',
+  string: 'text-[#ce9178]',
+  number: 'text-[#b5cea8]',
+  macro: 'text-[#c586c0]',
+  system: 'text-[#dcdcaa]',
+  plain: ''
+};
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+  title?: string;       // Shown in the header instead of the language, e.g. a file name
+  header?: boolean;     // Off (along with the frame) when the surrounding panel already has a title bar and copy button
+  lineNumbers?: boolean;
+  className?: string;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language = 'systemverilog', title, header = true, lineNumbers = true, className = '' }) => {
+  const [copied, setCopied] = useState(false);
+  const lines = useMemo(() => highlightCode(code, language), [code, language]);
+  const gutter = String(lines.length).length;
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className={`bg-[#1e1e1e] overflow-hidden ${header ? 'rounded-lg border border-gray-700' : ''} ${className}`}>
+      {header && (
+        <div className="bg-[#2d2d2d] px-4 py-1.5 text-xs text-gray-400 font-mono border-b border-gray-700 flex justify-between items-center gap-4">
+          <span className="truncate">{title || language || 'code'}</span>
+          <button onClick={copy} className="hover:text-white shrink-0">{copied ? 'Copied' : 'Copy'}</button>
+        </div>
+      )}
+      <pre className="p-3 overflow-x-auto text-sm font-mono leading-relaxed text-gray-300">
+        <code>
+          {lines.map((tokens, i) => (
+            <div key={i} className="flex">
+              {lineNumbers && (
+                <span className="select-none text-right text-gray-600 pr-4 shrink-0" style={{ minWidth: `${gutter + 2}ch` }}>{i + 1}</span>
+              )}
+              <span className="whitespace-pre">
+                {tokens.length === 0 ? ' ' : tokens.map((t, j) => (
+                  <span key={j} className={TOKEN_CLASSES[t.kind]}>{t.text}</span>
+                ))}
+              </span>
+            </div>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,235 @@
+import React, { useState, useMemo } from 'react';
+import { ConfigDbGet, ConfigDbPhase, ConfigDbScenario, ConfigDbSet, ConfigDbVerdict } from '../types';
+import {
+  CONFIG_DB_SCENARIOS, configDbCallOrder, getCall, getLookup, precedenceReason, resolveConfigDb, scopeMatches, setCall, setScope
+} from '../services/configDb';
+import { flattenHierarchy } from '../services/hierarchy';
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-uvm-accent focus:outline-none disabled:text-gray-600';
+
+const VERDICT_CLASSES: Record<ConfigDbVerdict, string> = {
+  winner: 'bg-emerald-900/50 text-emerald-300',
+  outranked: 'bg-gray-700 text-gray-300',
+  older: 'bg-gray-700 text-gray-300',
+  later: 'bg-amber-900/50 text-amber-300',
+  scope: 'bg-gray-800 text-gray-400',
+  type: 'bg-red-900/50 text-red-300',
+  field: 'bg-red-900/50 text-red-300'
+};
+
+const ENTRIES = flattenHierarchy();
+
+type Focus = { kind: 'set' | 'get'; id: string } | null;
+
+const ConfigDbPlayground: React.FC = () => {
+  const [scenario, setScenario] = useState<ConfigDbScenario>(CONFIG_DB_SCENARIOS[0]);
+  const [focus, setFocus] = useState<Focus>(null);
+
+  const order = useMemo(() => configDbCallOrder(scenario), [scenario]);
+  const resolutions = useMemo(() => resolveConfigDb(scenario), [scenario]);
+  const custom = !CONFIG_DB_SCENARIOS.includes(scenario);
+  const callNumber = (id: string) => order.indexOf(id) + 1;
+  const setNumber = (id: string) => scenario.sets.findIndex(s => s.id === id) + 1;
+
+  const edit = (patch: Partial<ConfigDbScenario>) =>
+    setScenario({ ...scenario, ...patch, id: 'custom', title: 'Custom', description: 'Your own set() and get() calls.' });
+
+  const updateSet = (id: string, patch: Partial<ConfigDbSet>) =>
+    edit({ sets: scenario.sets.map(s => (s.id === id ? { ...s, ...patch } : s)) });
+
+  const updateGet = (id: string, patch: Partial<ConfigDbGet>) =>
+    edit({ gets: scenario.gets.map(g => (g.id === id ? { ...g, ...patch } : g)) });
+
+  const addSet = () => edit({
+    sets: [...scenario.sets, { id: `set-${Date.now()}`, caller: 'uvm_test_top', phase: 'build', nullContext: false, instName: 'env.agent*', field: 'my_field', type: 'int', value: '0' }]
+  });
+
+  const addGet = () => edit({
+    gets: [...scenario.gets, { id: `get-${Date.now()}`, caller: 'uvm_test_top.env.agent.driver', phase: 'build', instName: '', field: 'my_field', type: 'int' }]
+  });
+
+  const selectPreset = (id: string) => {
+    setScenario(CONFIG_DB_SCENARIOS.find(s => s.id === id)!);
+    setFocus(null);
+  };
+
+  // Tree highlighting: a focused set() lights up every component its scope covers
+  const focusedSet = focus?.kind === 'set' ? scenario.sets.find(s => s.id === focus.id) : undefined;
+  const focusedGet = focus?.kind === 'get' ? scenario.gets.find(g => g.id === focus.id) : undefined;
+  const focusedResolution = focusedGet && resolutions.find(r => r.getId === focusedGet.id);
+
+  const phaseSelect = (value: ConfigDbPhase, onChange: (phase: ConfigDbPhase) => void, disabled = false) => (
+    <select value={value} disabled={disabled} onChange={(e) => onChange(e.target.value as ConfigDbPhase)} className={inputClass}>
+      <option value="build">build_phase</option>
+      <option value="run">run_phase</option>
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-uvm-bg text-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="text-cyan-400">⛁</span> uvm_config_db Playground
+          </h2>
+          <p className="text-xs text-gray-400">{scenario.description}</p>
+        </div>
+        <select
+          value={custom ? 'custom' : scenario.id}
+          onChange={(e) => selectPreset(e.target.value)}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 focus:border-uvm-accent focus:outline-none max-w-[16rem] shrink-0"
+        >
+          {custom && <option value="custom">Custom</option>}
+          {CONFIG_DB_SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+        </select>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 min-w-0">
+          {/* set() calls */}
+          <section className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">set() calls</h3>
+              <button onClick={addSet} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded">+ set()</button>
+            </div>
+            {scenario.sets.map((set, i) => (
+              <div
+                key={set.id}
+                onClick={() => setFocus({ kind: 'set', id: set.id })}
+                className={`p-2 rounded border space-y-1.5 ${focus?.id === set.id ? 'border-cyan-500 bg-cyan-900/10' : 'border-gray-700 bg-gray-800/40'}`}
+              >
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                  <span className="font-mono text-gray-500" title="Order the simulator makes this call in">set {i + 1} · call #{callNumber(set.id)}</span>
+                  <select
+                    value={set.caller}
+                    onChange={(e) => updateSet(set.id, { caller: e.target.value, ...(e.target.value ? {} : { nullContext: true }) })}
+                    className={inputClass}
+                  >
+                    <option value="">top module (initial block)</option>
+                    {ENTRIES.map(e => <option key={e.path} value={e.path}>{e.path}</option>)}
+                  </select>
+                  {phaseSelect(set.phase, phase => updateSet(set.id, { phase }), !set.caller)}
+                  <select
+                    value={set.caller && !set.nullContext ? 'this' : 'null'}
+                    disabled={!set.caller}
+                    onChange={(e) => updateSet(set.id, { nullContext: e.target.value === 'null' })}
+                    className={inputClass}
+                    title="Context argument"
+                  >
+                    <option value="this">this</option>
+                    <option value="null">null</option>
+                  </select>
+                  <button onClick={() => edit({ sets: scenario.sets.filter(s => s.id !== set.id) })} className="ml-auto text-gray-500 hover:text-red-400" title="Remove">✕</button>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  <input value={set.instName} onChange={(e) => updateSet(set.id, { instName: e.target.value })} placeholder="inst_name" className={`${inputClass} text-green-300`} title="inst_name; * and ? are wildcards" />
+                  <input value={set.field} onChange={(e) => updateSet(set.id, { field: e.target.value })} placeholder="field_name" className={`${inputClass} text-blue-300`} />
+                  <input value={set.type} onChange={(e) => updateSet(set.id, { type: e.target.value })} placeholder="type" className={`${inputClass} text-purple-300`} />
+                  <input value={set.value} onChange={(e) => updateSet(set.id, { value: e.target.value })} placeholder="value" className={`${inputClass} text-amber-200`} />
+                </div>
+                <div className="font-mono text-[11px] text-gray-300 truncate">{setCall(set)}</div>
+                <div className="text-[11px] text-gray-500">
+                  scope <span className="font-mono text-cyan-300">"{setScope(set)}"</span> · precedence {precedenceReason(set)}
+                </div>
+              </div>
+            ))}
+          </section>
+
+          {/* get() calls */}
+          <section className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">get() calls</h3>
+              <button onClick={addGet} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded">+ get()</button>
+            </div>
+            {scenario.gets.map(get => {
+              const resolution = resolutions.find(r => r.getId === get.id)!;
+              return (
+                <div
+                  key={get.id}
+                  onClick={() => setFocus({ kind: 'get', id: get.id })}
+                  className={`p-2 rounded border space-y-1.5 ${focus?.id === get.id ? 'border-cyan-500 bg-cyan-900/10' : 'border-gray-700 bg-gray-800/40'}`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                    <span className="font-mono text-gray-500">call #{callNumber(get.id)}</span>
+                    <select value={get.caller} onChange={(e) => updateGet(get.id, { caller: e.target.value })} className={inputClass}>
+                      {ENTRIES.map(e => <option key={e.path} value={e.path}>{e.path}</option>)}
+                    </select>
+                    {phaseSelect(get.phase, phase => updateGet(get.id, { phase }))}
+                    <button onClick={() => edit({ gets: scenario.gets.filter(g => g.id !== get.id) })} className="ml-auto text-gray-500 hover:text-red-400" title="Remove">✕</button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <input value={get.instName} onChange={(e) => updateGet(get.id, { instName: e.target.value })} placeholder='inst_name (usually "")' className={`${inputClass} text-green-300`} />
+                    <input value={get.field} onChange={(e) => updateGet(get.id, { field: e.target.value })} placeholder="field_name" className={`${inputClass} text-blue-300`} />
+                    <input value={get.type} onChange={(e) => updateGet(get.id, { type: e.target.value })} placeholder="type" className={`${inputClass} text-purple-300`} />
+                  </div>
+                  <div className="font-mono text-[11px] text-gray-300 truncate">{getCall(get)}</div>
+                  <div className="text-xs">
+                    {resolution.value !== null ? (
+                      <span className="text-emerald-300">
+                        → <span className="font-mono">{resolution.value}</span> from set {setNumber(resolution.setId!)}
+                      </span>
+                    ) : (
+                      <span className="text-red-300">→ not found: get() returns 0 and leaves the variable unchanged</span>
+                    )}
+                    <span className="text-gray-500"> · looks up <span className="font-mono">"{resolution.lookup}"</span></span>
+                  </div>
+                  {resolution.candidates.length > 0 && (
+                    <ul className="space-y-0.5 text-[11px]">
+                      {resolution.candidates.map(c => (
+                        <li key={c.setId} className="flex gap-2 items-baseline">
+                          <span className={`px-1.5 rounded font-mono shrink-0 ${VERDICT_CLASSES[c.verdict]}`}>set {setNumber(c.setId)} · {c.verdict}</span>
+                          <span className="text-gray-400">{c.reason}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+        </div>
+
+        {/* Right: the hierarchy the scopes are matched against */}
+        <div className="w-80 border-l border-gray-700 bg-gray-800/30 p-4 overflow-y-auto shrink-0 space-y-3">
+          <h3 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">Hierarchy</h3>
+          <div className="space-y-0.5 font-mono text-xs">
+            <div className="px-2 py-1 text-gray-500">uvm_root <span className="text-gray-600">("")</span></div>
+            {ENTRIES.map(e => {
+              const covered = focusedSet && scopeMatches(setScope(focusedSet), e.path);
+              const asking = focusedGet && getLookup(focusedGet) === e.path;
+              return (
+                <div
+                  key={e.path}
+                  className={`px-2 py-1 rounded ${covered ? 'bg-cyan-900/40 text-cyan-200' : asking ? 'bg-indigo-900/50 text-indigo-200 ring-1 ring-indigo-400' : 'text-gray-300'}`}
+                  style={{ marginLeft: e.depth * 14 }}
+                  title={e.path}
+                >
+                  {e.node.name}
+                  {asking && focusedResolution && (
+                    <span className={focusedResolution.value !== null ? 'text-emerald-300' : 'text-red-300'}>
+                      {' '}= {focusedResolution.value ?? 'not found'}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-[11px] text-gray-500 leading-relaxed">
+            {focusedSet
+              ? `Highlighted: components set ${setNumber(focusedSet.id)}'s scope covers.`
+              : focusedGet
+                ? 'Highlighted: the component whose full name this get() looks up.'
+                : 'Click a set() to see which components its scope covers, or a get() to see where it looks.'}
+          </p>
+          <div className="text-[11px] text-gray-500 leading-relaxed border-t border-gray-700 pt-3 space-y-1">
+            <p>Scope = the context's full name + "." + inst_name; * and ? are wildcards.</p>
+            <p>In build_phase a set() gets precedence 1000 minus its context's depth, so higher components win. Otherwise every set() has 1000 and the last one wins.</p>
+            <p>Type parameter and field name must match exactly.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigDbPlayground;
@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { FactoryClass, FactoryOverride, FactoryScenario } from '../types';
+import { FACTORY_SCENARIOS, FACTORY_SITES, createAt, factoryPrint, overrideCode, registerOverrides } from '../services/factory';
+import CodeBlock from './CodeBlock';
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-uvm-accent focus:outline-none';
+
+type OutputTab = 'print' | 'code';
+
+const FactoryPanel: React.FC = () => {
+  const [scenario, setScenario] = useState<FactoryScenario>(FACTORY_SCENARIOS[0]);
+  const [outputTab, setOutputTab] = useState<OutputTab>('print');
+
+  const tables = useMemo(() => registerOverrides(scenario), [scenario]);
+  const creations = useMemo(() => FACTORY_SITES.map(site => ({ site, creation: createAt(site, scenario, tables) })), [scenario, tables]);
+  const custom = !FACTORY_SCENARIOS.includes(scenario);
+  const classNames = scenario.classes.map(c => c.name);
+
+  const edit = (patch: Partial<FactoryScenario>) =>
+    setScenario({ ...scenario, ...patch, id: 'custom', title: 'Custom', description: 'Your own classes and overrides.' });
+
+  const updateClass = (index: number, patch: Partial<FactoryClass>) =>
+    edit({ classes: scenario.classes.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  const updateOverride = (id: string, patch: Partial<FactoryOverride>) =>
+    edit({ overrides: scenario.overrides.map(o => (o.id === id ? { ...o, ...patch } : o)) });
+
+  const addClass = () => edit({ classes: [...scenario.classes, { name: `my_class${scenario.classes.length}`, base: 'my_driver' }] });
+
+  const addOverride = () => edit({
+    overrides: [...scenario.overrides, { id: Date.now().toString(), kind: 'type', byName: false, original: 'my_driver', override: classNames[classNames.length - 1], path: 'uvm_test_top.env.*', replace: true }]
+  });
+
+  // by_type takes class handles, so only registered classes; by_name takes any string, typos included
+  const typeInput = (o: FactoryOverride, key: 'original' | 'override') => o.byName ? (
+    <input value={o[key]} onChange={(e) => updateOverride(o.id, { [key]: e.target.value })} className={`${inputClass} text-green-300 w-36`} />
+  ) : (
+    <select value={o[key]} onChange={(e) => updateOverride(o.id, { [key]: e.target.value })} className={`${inputClass} text-green-300 w-36`}>
+      {!classNames.includes(o[key]) && <option value={o[key]}>{o[key]}</option>}
+      {classNames.map(name => <option key={name} value={name}>{name}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-uvm-bg text-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="text-pink-400">⚙</span> Factory Overrides
+          </h2>
+          <p className="text-xs text-gray-400">{scenario.description}</p>
+        </div>
+        <select
+          value={custom ? 'custom' : scenario.id}
+          onChange={(e) => setScenario(FACTORY_SCENARIOS.find(s => s.id === e.target.value)!)}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 focus:border-uvm-accent focus:outline-none max-w-[16rem] shrink-0"
+        >
+          {custom && <option value="custom">Custom</option>}
+          {FACTORY_SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+        </select>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Left: classes and overrides */}
+        <div className="w-[30rem] border-r border-gray-700 bg-gray-800/30 flex flex-col p-4 overflow-y-auto shrink-0 space-y-6">
+          <section className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">Registered classes</h3>
+              <button onClick={addClass} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded">+ Class</button>
+            </div>
+            {scenario.classes.map((c, i) => (
+              <div key={i} className="flex items-center gap-2 text-xs text-gray-500">
+                <span>class</span>
+                <input value={c.name} onChange={(e) => updateClass(i, { name: e.target.value })} className={`${inputClass} text-green-300 flex-1`} />
+                <span>extends</span>
+                <input value={c.base} onChange={(e) => updateClass(i, { base: e.target.value })} list="factory-bases" className={`${inputClass} text-purple-300 flex-1`} />
+                <button onClick={() => edit({ classes: scenario.classes.filter((_, j) => j !== i) })} className="text-gray-500 hover:text-red-400" title="Remove">✕</button>
+              </div>
+            ))}
+            <datalist id="factory-bases">
+              {[...classNames, 'uvm_driver', 'uvm_monitor', 'uvm_sequence_item', 'uvm_component', 'uvm_object'].map(name => <option key={name} value={name} />)}
+            </datalist>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">Overrides, in registration order</h3>
+              <button onClick={addOverride} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded">+ Override</button>
+            </div>
+            {scenario.overrides.length === 0 && <p className="text-xs text-gray-500 italic">No overrides: every create returns the requested type.</p>}
+            {scenario.overrides.map((o, i) => (
+              <div key={o.id} className="p-2 rounded border border-gray-700 bg-gray-800/40 space-y-1.5 text-xs text-gray-400">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-gray-500">{i + 1}</span>
+                  <select value={o.kind} onChange={(e) => updateOverride(o.id, { kind: e.target.value as FactoryOverride['kind'] })} className={inputClass}>
+                    <option value="type">type override</option>
+                    <option value="inst">instance override</option>
+                  </select>
+                  <select value={o.byName ? 'name' : 'type'} onChange={(e) => updateOverride(o.id, { byName: e.target.value === 'name' })} className={inputClass}>
+                    <option value="type">by type</option>
+                    <option value="name">by name</option>
+                  </select>
+                  {o.kind === 'type' && (
+                    <label className="flex items-center gap-1" title="Replace an earlier type override of the same class">
+                      <input type="checkbox" checked={o.replace} onChange={(e) => updateOverride(o.id, { replace: e.target.checked })} />
+                      replace
+                    </label>
+                  )}
+                  <button onClick={() => edit({ overrides: scenario.overrides.filter(x => x.id !== o.id) })} className="ml-auto text-gray-500 hover:text-red-400" title="Remove">✕</button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {typeInput(o, 'original')}
+                  <span>→</span>
+                  {typeInput(o, 'override')}
+                  {o.kind === 'inst' && (
+                    <input value={o.path} onChange={(e) => updateOverride(o.id, { path: e.target.value })} placeholder="uvm_test_top.env.*" className={`${inputClass} text-cyan-300 flex-1 min-w-[10rem]`} title="Full instance path; * and ? are wildcards" />
+                  )}
+                </div>
+              </div>
+            ))}
+            {tables.messages.length > 0 && (
+              <ul className="text-xs text-amber-300 border border-amber-900/50 bg-amber-900/10 rounded p-2 space-y-0.5 font-mono">
+                {tables.messages.map((m, i) => <li key={i}>{m}</li>)}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        {/* Right: what each create returns, and the factory's own report */}
+        <div className="flex-1 flex flex-col min-w-0 overflow-y-auto p-4 space-y-5">
+          <section>
+            <h3 className="font-semibold text-uvm-accent mb-2 text-xs uppercase tracking-wider">type_id::create results</h3>
+            <div className="space-y-1 font-mono text-xs">
+              {creations.map(({ site, creation }) => {
+                const changed = creation.created !== creation.requested;
+                return (
+                  <div
+                    key={site.path}
+                    className={`p-2 rounded border ${creation.error ? 'border-red-800 bg-red-900/10' : changed ? 'border-pink-700 bg-pink-900/10' : 'border-gray-700 bg-gray-800/40'}`}
+                    style={{ marginLeft: (site.depth - 1) * 16 }}
+                  >
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-gray-200">{site.path}</span>
+                      <span className="text-gray-500">{site.requested}</span>
+                      {changed && <span className="text-pink-300">→ {creation.created}</span>}
+                    </div>
+                    {creation.steps.map((step, i) => <div key={i} className="text-[11px] text-gray-400 pl-2">{step}</div>)}
+                    {creation.error && <div className="text-[11px] text-red-300 pl-2">{creation.error}</div>}
+                    {site.note && <div className="text-[11px] text-gray-500 italic pl-2 font-sans">{site.note}</div>}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          <section className="flex flex-col min-h-[18rem]">
+            <div className="flex bg-[#252526] border border-[#3e3e42] rounded-t">
+              <button
+                onClick={() => setOutputTab('print')}
+                className={`px-4 py-1.5 text-xs font-mono ${outputTab === 'print' ? 'text-white bg-[#1e1e1e]' : 'text-gray-400 hover:text-white'}`}
+              >
+                factory.print()
+              </button>
+              <button
+                onClick={() => setOutputTab('code')}
+                className={`px-4 py-1.5 text-xs font-mono ${outputTab === 'code' ? 'text-white bg-[#1e1e1e]' : 'text-gray-400 hover:text-white'}`}
+              >
+                my_test.sv
+              </button>
+            </div>
+            <CodeBlock
+              code={outputTab === 'print' ? factoryPrint(scenario, tables) : overrideCode(scenario)}
+              language={outputTab === 'print' ? 'text' : 'systemverilog'}
+              header={false}
+              lineNumbers={outputTab === 'code'}
+              className="flex-1 border border-t-0 border-[#3e3e42] rounded-b"
+            />
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FactoryPanel;
@@ -1,14 +1,51 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { UvmComponentType, AiResponse, SimulationStep } from '../types';
+import CodeBlock from './CodeBlock';
+import Markdown from './Markdown';
 
 interface InfoPanelProps {
   component: UvmComponentType;
   data: AiResponse | null;
   loading: boolean;
+  onRefresh?: () => void;
   simulationStep?: SimulationStep | null;
 }
 
-const InfoPanel: React.FC<InfoPanelProps> = ({ component, data, loading, simulationStep }) => {
+const sourceLabel = (data: AiResponse): { text: string; title: string } => {
+  const when = data.generatedAt ? new Date(data.generatedAt).toLocaleString() : '';
+  switch (data.source) {
+    case 'cache': return { text: `Cached · ${data.model}`, title: `Saved answer from ${when}; Refresh asks the model again` };
+    case 'offline': return { text: 'Offline notes', title: 'No AI backend answered, so the bundled explanation is shown' };
+    default: return { text: `Generated by ${data.model || 'AI'}`, title: when };
+  }
+};
+
+// One tab per prose section, then one per code block
+type Tab = { kind: 'overview' | 'tlmRole' | 'pitfalls' } | { kind: 'code'; index: number };
+
+const tabsFor = (data: AiResponse): Tab[] => [
+  { kind: 'overview' },
+  ...(data.tlmRole ? [{ kind: 'tlmRole' as const }] : []),
+  ...(data.pitfalls.length ? [{ kind: 'pitfalls' as const }] : []),
+  ...data.codeBlocks.map((_, index) => ({ kind: 'code' as const, index }))
+];
+
+const tabTitle = (tab: Tab, data: AiResponse) => {
+  switch (tab.kind) {
+    case 'overview': return 'Overview';
+    case 'tlmRole': return 'TLM Role';
+    case 'pitfalls': return `Pitfalls (${data.pitfalls.length})`;
+    case 'code': return data.codeBlocks[tab.index].label;
+  }
+};
+
+const InfoPanel: React.FC<InfoPanelProps> = ({ component, data, loading, onRefresh, simulationStep }) => {
+  const [tabIndex, setTabIndex] = useState(0);
+
+  useEffect(() => {
+    setTabIndex(0);
+  }, [data]);
+
   // 1. Simulation Mode (Highest Priority)
   if (simulationStep) {
     return (
@@ -31,15 +68,7 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ component, data, loading, simulat
           </section>
   
           {/* Code Section */}
-          <section className="bg-[#1e1e1e] rounded-lg border border-indigo-500/30 overflow-hidden shadow-xl">
-            <div className="bg-[#2d2d2d] px-4 py-2 text-xs text-indigo-300 font-mono border-b border-gray-700 flex justify-between">
-              <span>Simulation Snippet</span>
-              <span>SystemVerilog</span>
-            </div>
-            <pre className="p-4 overflow-x-auto text-sm font-mono text-blue-300">
-              <code>{simulationStep.codeSnippet}</code>
-            </pre>
-          </section>
+          <CodeBlock code={simulationStep.codeSnippet} title="Simulation Snippet" className="shadow-xl" />
         </div>
       </div>
     );
@@ -50,7 +79,7 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ component, data, loading, simulat
     return (
       <div className="h-full flex flex-col items-center justify-center text-gray-400 space-y-4 animate-pulse">
         <div className="w-12 h-12 border-4 border-t-uvm-accent border-gray-700 rounded-full animate-spin"></div>
-        <p>Asking Gemini about {component}...</p>
+        <p>Asking the tutor about {component}...</p>
       </div>
     );
   }
@@ -65,33 +94,62 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ component, data, loading, simulat
   }
 
   // 4. Standard AI Data View
+  const source = sourceLabel(data);
+  const tabs = tabsFor(data);
+  const tab = tabs[Math.min(tabIndex, tabs.length - 1)];
+  const block = tab.kind === 'code' ? data.codeBlocks[tab.index] : null;
   return (
     <div className="h-full flex flex-col overflow-hidden">
       <div className="p-4 border-b border-gray-700 bg-gray-800/50 flex justify-between items-center">
         <h2 className="text-xl font-bold text-white flex items-center gap-2">
           <span className="text-uvm-accent">#</span> {component}
         </h2>
-        <span className="text-xs bg-gray-700 px-2 py-1 rounded text-gray-300">Generated by Gemini 2.5</span>
+        <div className="flex items-center gap-2">
+          <span
+            className={`text-xs px-2 py-1 rounded ${data.source === 'offline' ? 'bg-amber-900/40 text-amber-200' : 'bg-gray-700 text-gray-300'}`}
+            title={source.title}
+          >
+            {source.text}
+          </span>
+          {onRefresh && (
+            <button onClick={onRefresh} className="text-xs text-gray-400 hover:text-white border border-gray-600 px-2 py-1 rounded" title="Ask the model again and replace the cached answer">
+              Refresh
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-1 px-4 pt-2 border-b border-gray-700 overflow-x-auto shrink-0">
+        {tabs.map((t, i) => (
+          <button
+            key={i}
+            onClick={() => setTabIndex(i)}
+            className={`px-3 py-1.5 text-xs whitespace-nowrap rounded-t border-b-2 ${
+              t === tab ? 'border-uvm-accent text-white bg-gray-800' : 'border-transparent text-gray-400 hover:text-gray-200'
+            } ${t.kind === 'code' ? 'font-mono' : ''}`}
+          >
+            {tabTitle(t, data)}
+          </button>
+        ))}
       </div>
-      
-      <div className="flex-1 overflow-y-auto p-6 space-y-6 scroll-smooth">
-        {/* Explanation Section */}
-        <section className="prose prose-invert max-w-none">
-           <div className="whitespace-pre-wrap text-gray-300 leading-relaxed font-sans text-sm md:text-base">
-             {data.explanation}
-           </div>
-        </section>
 
-        {/* Code Section */}
-        <section className="bg-[#1e1e1e] rounded-lg border border-gray-700 overflow-hidden shadow-xl">
-          <div className="bg-[#2d2d2d] px-4 py-2 text-xs text-gray-400 font-mono border-b border-gray-700 flex justify-between">
-            <span>{component.toLowerCase().replace(" ", "_")}.sv</span>
-            <span>SystemVerilog</span>
-          </div>
-          <pre className="p-4 overflow-x-auto text-sm font-mono text-green-400">
-            <code>{data.codeSnippet}</code>
-          </pre>
-        </section>
+      <div className="flex-1 overflow-y-auto p-6 scroll-smooth">
+        {tab.kind === 'overview' && (
+          <Markdown text={data.overview} className="text-gray-300 leading-relaxed font-sans text-sm md:text-base" />
+        )}
+        {tab.kind === 'tlmRole' && (
+          <Markdown text={data.tlmRole} className="text-gray-300 leading-relaxed font-sans text-sm md:text-base" />
+        )}
+        {tab.kind === 'pitfalls' && (
+          <ul className="space-y-2 text-sm md:text-base text-gray-300">
+            {data.pitfalls.map((p, i) => (
+              <li key={i} className="flex gap-2"><span className="text-amber-400">⚠</span><Markdown text={p} className="flex-1 min-w-0" /></li>
+            ))}
+          </ul>
+        )}
+        {block && (
+          <CodeBlock code={block.code} language={block.language} title={block.filename || block.label} className="shadow-xl" />
+        )}
       </div>
     </div>
   );
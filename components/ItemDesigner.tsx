@@ -0,0 +1,204 @@
+import React, { useMemo } from 'react';
+import { BusProtocol, ItemField, ItemFieldType, TransactionItemDef } from '../types';
+import { generateItemClass, validateItemDef } from '../services/itemGenerator';
+import CodeBlock from './CodeBlock';
+
+const FIELD_TYPES: ItemFieldType[] = ['bit', 'logic', 'int', 'enum'];
+
+interface ItemDesignerProps {
+  item: TransactionItemDef;
+  protocol: BusProtocol;
+  onChange: (item: TransactionItemDef) => void;
+}
+
+const ItemDesigner: React.FC<ItemDesignerProps> = ({ item, protocol, onChange }) => {
+  const code = useMemo(() => generateItemClass(item), [item]);
+  const errors = useMemo(() => validateItemDef(item), [item]);
+
+  const updateField = (index: number, patch: Partial<ItemField>) => {
+    const fields = item.fields.map((f, i) => {
+      if (i !== index) return f;
+      const next = { ...f, ...patch };
+      // User enums are typedef'd inside the class as <name>_e
+      if (next.type === 'enum') {
+        next.enumType = `${next.name}_e`;
+        next.enumValues = next.enumValues || ['A', 'B'];
+      }
+      return next;
+    });
+    onChange({ ...item, fields });
+  };
+
+  const addField = () => {
+    const name = `field${item.fields.filter(f => !f.locked).length}`;
+    onChange({ ...item, fields: [...item.fields, { name, type: 'bit', width: 8, isRand: true }] });
+  };
+
+  const removeField = (index: number) =>
+    onChange({ ...item, fields: item.fields.filter((_, i) => i !== index) });
+
+  const updateConstraint = (index: number, patch: Partial<TransactionItemDef['constraints'][number]>) =>
+    onChange({ ...item, constraints: item.constraints.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  const addConstraint = () =>
+    onChange({ ...item, constraints: [...item.constraints, { name: `c_rule${item.constraints.length}`, body: '' }] });
+
+  const removeConstraint = (index: number) =>
+    onChange({ ...item, constraints: item.constraints.filter((_, i) => i !== index) });
+
+  return (
+    <div className="flex flex-col h-full bg-uvm-bg text-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50 flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="text-purple-400">◆</span> Item Designer
+          </h2>
+          <p className="text-xs text-gray-400">Shape my_transaction for the Sequence Builder and testbench · <span className="text-uvm-accent">{protocol}</span></p>
+        </div>
+        <div className="flex items-center gap-1 bg-gray-800 rounded-lg p-1">
+          {(['macros', 'manual'] as const).map(style => (
+            <button
+              key={style}
+              onClick={() => onChange({ ...item, style })}
+              className={`px-3 py-1 text-xs rounded-md font-medium ${item.style === style
+                ? 'bg-gray-700 text-white'
+                : 'text-gray-400 hover:text-white'}`}
+            >
+              {style === 'macros' ? 'Field macros' : 'do_copy / do_compare'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Left: Fields and constraints */}
+        <div className="w-[28rem] border-r border-gray-700 bg-gray-800/30 flex flex-col p-4 overflow-y-auto shrink-0">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="font-semibold text-uvm-accent text-sm uppercase tracking-wider">Fields</h3>
+            <button onClick={addField} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded">
+              + Field
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {item.fields.map((f, index) => (
+              <div key={index} className="p-2 rounded bg-gray-800 border border-gray-700 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={f.name}
+                    disabled={f.locked}
+                    onChange={(e) => updateField(index, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm font-mono text-green-400 focus:border-uvm-accent focus:outline-none disabled:text-gray-400"
+                  />
+                  <select
+                    value={f.type}
+                    disabled={f.locked}
+                    onChange={(e) => updateField(index, { type: e.target.value as ItemFieldType })}
+                    className="bg-gray-900 border border-gray-700 rounded px-1 py-1 text-xs font-mono focus:border-uvm-accent focus:outline-none disabled:text-gray-500"
+                  >
+                    {FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                  {(f.type === 'bit' || f.type === 'logic') && (
+                    <input
+                      type="number"
+                      min={1}
+                      max={64}
+                      value={f.width}
+                      disabled={f.locked}
+                      onChange={(e) => updateField(index, { width: parseInt(e.target.value) || 0 })}
+                      className="w-14 bg-gray-900 border border-gray-700 rounded px-1 py-1 text-xs font-mono text-blue-300 focus:border-uvm-accent focus:outline-none disabled:text-gray-500"
+                    />
+                  )}
+                  <label className="flex items-center gap-1 text-xs text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={f.isRand}
+                      disabled={f.locked}
+                      onChange={(e) => updateField(index, { isRand: e.target.checked })}
+                    />
+                    rand
+                  </label>
+                  {f.locked ? (
+                    <span className="text-[10px] text-gray-500 w-4" title={`Required by the ${protocol} driver and monitor`}>🔒</span>
+                  ) : (
+                    <button onClick={() => removeField(index)} className="text-gray-500 hover:text-red-400 w-4">✕</button>
+                  )}
+                </div>
+                {f.type === 'enum' && (
+                  f.locked ? (
+                    <div className="text-[10px] font-mono text-gray-500">{f.enumType} (declared in my_pkg)</div>
+                  ) : (
+                    <input
+                      type="text"
+                      value={(f.enumValues || []).join(', ')}
+                      placeholder="LOW, MEDIUM, HIGH"
+                      onChange={(e) => updateField(index, { enumValues: e.target.value.split(',').map(v => v.trim()) })}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono text-purple-300 focus:border-uvm-accent focus:outline-none"
+                    />
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between items-center mt-6 mb-3">
+            <h3 className="font-semibold text-uvm-accent text-sm uppercase tracking-wider">Constraints</h3>
+            <button onClick={addConstraint} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded">
+              + Constraint
+            </button>
+          </div>
+          <div className="space-y-2">
+            {item.constraints.map((c, index) => (
+              <div key={index} className="p-2 rounded bg-gray-800 border border-gray-700 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={c.name}
+                    onChange={(e) => updateConstraint(index, { name: e.target.value })}
+                    className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm font-mono text-green-400 focus:border-uvm-accent focus:outline-none"
+                  />
+                  <button onClick={() => removeConstraint(index)} className="text-gray-500 hover:text-red-400 w-4">✕</button>
+                </div>
+                <textarea
+                  value={c.body}
+                  rows={2}
+                  placeholder="addr[1:0] == 2'b00; addr < 'h2000"
+                  onChange={(e) => updateConstraint(index, { body: e.target.value })}
+                  className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono text-amber-300 focus:border-uvm-accent focus:outline-none resize-y"
+                />
+              </div>
+            ))}
+            {item.constraints.length === 0 && (
+              <div className="text-xs text-gray-600 text-center py-2 italic">No class constraints.</div>
+            )}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="mt-6 space-y-1 text-xs text-red-400">
+              {errors.map((e, i) => <li key={i}>⚠ {e}</li>)}
+            </ul>
+          )}
+        </div>
+
+        {/* Right: Generated class */}
+        <div className="flex-1 bg-[#1e1e1e] flex flex-col min-w-0">
+          <div className="bg-[#252526] px-4 py-2 flex justify-between items-center border-b border-[#3e3e42]">
+            <span className="text-xs font-mono text-gray-400">my_transaction.sv</span>
+            <button
+              onClick={() => navigator.clipboard.writeText(code)}
+              className="text-xs text-gray-400 hover:text-white"
+            >
+              Copy
+            </button>
+          </div>
+          <div className="flex-1 overflow-auto custom-scrollbar">
+            <CodeBlock code={code} header={false} className="min-h-full" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItemDesigner;
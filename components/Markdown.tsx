@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { InlineNode, MarkdownBlock, parseMarkdown } from '../services/markdown';
+import CodeBlock from './CodeBlock';
+
+const Inline: React.FC<{ nodes: InlineNode[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+        case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-black/30 text-[0.9em] font-mono text-amber-200">{node.text}</code>;
+        case 'strong': return <strong key={i} className="font-semibold text-white"><Inline nodes={node.children} /></strong>;
+        case 'em': return <em key={i}><Inline nodes={node.children} /></em>;
+        case 'link': return <a key={i} href={node.href} target="_blank" rel="noreferrer" className="text-uvm-accent underline"><Inline nodes={node.children} /></a>;
+      }
+    })}
+  </>
+);
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm', 'text-sm'];
+
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const Blocks: React.FC<{ blocks: MarkdownBlock[] }> = ({ blocks }) => (
+  <>
+    {blocks.map((block, i) => {
+      switch (block.type) {
+        case 'heading':
+          return <div key={i} className={`${HEADING_CLASSES[block.level - 1]} text-white mt-3 first:mt-0`}><Inline nodes={block.content} /></div>;
+        case 'paragraph':
+          return <p key={i} className="whitespace-pre-wrap"><Inline nodes={block.content} /></p>;
+        case 'code':
+          return <CodeBlock key={i} code={block.code} language={block.language} className="my-1" />;
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={i} start={block.ordered ? block.start : undefined} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+              {block.items.map((item, j) => (
+                <li key={j} className="space-y-1">
+                  {/* Tight lists: a lone paragraph renders inline */}
+                  {item.length === 1 && item[0].type === 'paragraph'
+                    ? <span className="whitespace-pre-wrap"><Inline nodes={item[0].content} /></span>
+                    : <Blocks blocks={item} />}
+                </li>
+              ))}
+            </List>
+          );
+        }
+        case 'table':
+          return (
+            <div key={i} className="overflow-x-auto">
+              <table className="text-xs border-collapse">
+                <thead>
+                  <tr>
+                    {block.header.map((cell, c) => (
+                      <th key={c} className={`border border-gray-600 bg-gray-800 px-2 py-1 font-semibold ${ALIGN_CLASSES[block.align[c] || 'left']}`}><Inline nodes={cell} /></th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, r) => (
+                    <tr key={r}>
+                      {row.map((cell, c) => (
+                        <td key={c} className={`border border-gray-700 px-2 py-1 ${ALIGN_CLASSES[block.align[c] || 'left']}`}><Inline nodes={cell} /></td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'quote':
+          return <blockquote key={i} className="border-l-4 border-gray-600 pl-3 text-gray-400 space-y-2"><Blocks blocks={block.blocks} /></blockquote>;
+        case 'rule':
+          return <hr key={i} className="border-gray-600" />;
+      }
+    })}
+  </>
+);
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+const Markdown: React.FC<MarkdownProps> = ({ text, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`space-y-2 ${className}`}><Blocks blocks={blocks} /></div>;
+};
+
+export default Markdown;
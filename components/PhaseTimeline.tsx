@@ -0,0 +1,313 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { PhaseEvent, PhaseEventKind, PhaseObjection, PhaseScenario, UvmComponentType } from '../types';
+import { PHASES, PHASE_SCENARIOS, formatPhaseTime, simulatePhases } from '../services/phaseTimeline';
+import { HierarchyNode, TESTBENCH_HIERARCHY } from '../services/hierarchy';
+
+const STEP_MS = 700;
+
+const inputClass = 'w-16 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-xs font-mono text-blue-300 focus:border-uvm-accent focus:outline-none';
+
+const EVENT_CLASSES: Record<PhaseEventKind, string> = {
+  call: 'text-gray-300',
+  raise: 'text-emerald-300',
+  drop: 'text-amber-300',
+  drain: 'text-sky-300',
+  end: 'text-indigo-300',
+  timeout: 'text-red-400',
+  warning: 'text-red-300'
+};
+
+const ORDER_LABELS = { 'top-down': '↓ top-down', 'bottom-up': '↑ bottom-up', parallel: '⇉ parallel' };
+
+const LANES: UvmComponentType[] = [
+  UvmComponentType.TEST, UvmComponentType.ENV, UvmComponentType.AGENT, UvmComponentType.DRIVER,
+  UvmComponentType.MONITOR, UvmComponentType.SEQUENCER, UvmComponentType.SCOREBOARD
+];
+
+const PhaseTimeline: React.FC = () => {
+  const [scenario, setScenario] = useState<PhaseScenario>(PHASE_SCENARIOS[0]);
+  const [eventIndex, setEventIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  const run = useMemo(() => simulatePhases(scenario), [scenario]);
+  const event: PhaseEvent = run.events[Math.min(eventIndex, run.events.length - 1)];
+  const phaseIndex = PHASES.findIndex(p => p.name === event.phase);
+  const custom = !PHASE_SCENARIOS.includes(scenario);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (eventIndex >= run.events.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setEventIndex(eventIndex + 1), STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, eventIndex, run]);
+
+  // An edit can shorten the run, e.g. by removing an objection
+  useEffect(() => {
+    if (eventIndex > run.events.length - 1) setEventIndex(run.events.length - 1);
+  }, [run]);
+
+  useEffect(() => {
+    logRef.current?.querySelector('[data-current="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [eventIndex]);
+
+  const selectPreset = (id: string) => {
+    setScenario(PHASE_SCENARIOS.find(s => s.id === id)!);
+    setEventIndex(0);
+    setPlaying(false);
+  };
+
+  // Editing keeps the current position so the effect of a change is visible straight away
+  const edit = (patch: Partial<PhaseScenario>) =>
+    setScenario({ ...scenario, ...patch, id: 'custom', title: 'Custom', description: 'Your own run_phase setup.' });
+
+  const setObjections = (component: UvmComponentType, list: PhaseObjection[]) =>
+    edit({ objections: { ...scenario.objections, [component]: list } });
+
+  const jumpToPhase = (name: string) => {
+    setPlaying(false);
+    const first = run.events.findIndex(e => e.phase === name);
+    if (first >= 0) setEventIndex(first);
+  };
+
+  // Which of the current phase's calls have happened, for the hierarchy ticks
+  const calledInPhase = new Set(
+    run.events.slice(0, eventIndex + 1).filter(e => e.phase === event.phase && e.kind === 'call').map(e => e.component)
+  );
+
+  // Run-phase chart scale: the timeout is off the chart, shown as an arrow
+  const finiteTimes = [
+    scenario.trafficEnd,
+    ...(run.timedOut ? [] : [run.runEnd]),
+    ...(Object.values(scenario.objections) as PhaseObjection[][]).flatMap(list => list.flatMap(o => [o.raiseAt, o.dropAt ?? 0]))
+  ];
+  const scale = Math.max(100, ...finiteTimes) * 1.1;
+  const at = (ns: number) => `${Math.min(100, (ns / scale) * 100)}%`;
+  const afterRun = phaseIndex >= PHASES.findIndex(p => p.name === 'run');
+  const cursorTime = event.phase === 'run' && event.kind !== 'call' ? event.time : afterRun && event.phase !== 'run' ? run.runEnd : 0;
+
+  const renderNode = (node: HierarchyNode, depth: number): React.ReactNode => {
+    const held = event.objections[node.component] || 0;
+    const current = event.component === node.component;
+    return (
+      <React.Fragment key={node.component}>
+        <div
+          className={`flex items-center gap-2 px-2 py-1 rounded font-mono text-xs ${current ? 'bg-indigo-900/50 ring-1 ring-indigo-400' : ''}`}
+          style={{ marginLeft: depth * 20 }}
+        >
+          <span className={`w-4 ${calledInPhase.has(node.component) ? 'text-emerald-400' : 'text-gray-700'}`}>{calledInPhase.has(node.component) ? '✓' : '·'}</span>
+          <span className="text-gray-200">{node.name}</span>
+          <span className="text-gray-500">{node.component}</span>
+          {held > 0 && (
+            <span className="ml-auto px-1.5 rounded bg-emerald-900/60 text-emerald-300" title="Objections held">{held} objection{held > 1 ? 's' : ''}</span>
+          )}
+        </div>
+        {node.children.map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  const total = Object.values(event.objections).reduce((sum: number, n) => sum + (n || 0), 0);
+
+  return (
+    <div className="flex flex-col h-full bg-uvm-bg text-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="text-indigo-400">◷</span> Phases &amp; Objections
+          </h2>
+          <p className="text-xs text-gray-400 truncate" title={scenario.description}>{scenario.description}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <select
+            value={custom ? 'custom' : scenario.id}
+            onChange={(e) => selectPreset(e.target.value)}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 focus:border-uvm-accent focus:outline-none max-w-[16rem]"
+          >
+            {custom && <option value="custom">Custom</option>}
+            {PHASE_SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+          </select>
+          <div className="flex items-center gap-1 bg-gray-800 p-1 rounded-lg border border-gray-600">
+            <button onClick={() => { setPlaying(false); setEventIndex(0); }} className="px-1.5 py-0.5 hover:bg-gray-700 rounded text-xs" title="Back to the start">⏮</button>
+            <button onClick={() => { setPlaying(false); setEventIndex(Math.max(0, eventIndex - 1)); }} disabled={eventIndex === 0} className="px-1.5 py-0.5 hover:bg-gray-700 rounded text-xs disabled:opacity-30">◀</button>
+            <span className="text-xs font-mono px-2 text-indigo-300">{eventIndex + 1} / {run.events.length}</span>
+            <button onClick={() => { setPlaying(false); setEventIndex(Math.min(run.events.length - 1, eventIndex + 1)); }} disabled={eventIndex >= run.events.length - 1} className="px-1.5 py-0.5 hover:bg-gray-700 rounded text-xs disabled:opacity-30">▶</button>
+            <button
+              onClick={() => { if (eventIndex >= run.events.length - 1) setEventIndex(0); setPlaying(!playing); }}
+              className="px-2 py-0.5 rounded text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-semibold"
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Left: phases in execution order */}
+        <div className="w-64 border-r border-gray-700 bg-gray-800/30 p-3 overflow-y-auto shrink-0 space-y-1">
+          {PHASES.map((phase, i) => {
+            const reached = run.events.some(e => e.phase === phase.name);
+            const state = i === phaseIndex ? 'current' : i < phaseIndex ? 'done' : 'next';
+            return (
+              <button
+                key={phase.name}
+                onClick={() => jumpToPhase(phase.name)}
+                disabled={!reached}
+                className={`w-full text-left px-2 py-1.5 rounded border text-xs transition-colors disabled:opacity-30 ${
+                  state === 'current' ? 'border-indigo-400 bg-indigo-900/40' : 'border-transparent hover:bg-gray-700/50'
+                }`}
+                title={reached ? phase.description : 'Never reached in this scenario'}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={`font-mono ${state === 'done' ? 'text-gray-500' : 'text-gray-100'}`}>{phase.name}_phase</span>
+                  {state === 'done' && <span className="text-emerald-500">✓</span>}
+                </div>
+                <div className="flex gap-2 text-[10px] text-gray-500 mt-0.5">
+                  <span className={phase.kind === 'task' ? 'text-amber-400' : ''}>{phase.kind}</span>
+                  <span>{ORDER_LABELS[phase.order]}</span>
+                </div>
+                {state === 'current' && <p className="text-[11px] text-gray-300 mt-1 leading-snug">{phase.description}</p>}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Center: hierarchy, run-phase chart and setup */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 min-w-0">
+          <div className={`p-3 rounded border border-gray-700 bg-gray-900/60 text-sm ${EVENT_CLASSES[event.kind]}`}>
+            <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1 font-mono">
+              {event.phase}_phase · t = {formatPhaseTime(event.time)} · {total} objection{total === 1 ? '' : 's'} outstanding
+            </div>
+            <span className="font-mono">{event.message}</span>
+          </div>
+
+          <section>
+            <h3 className="font-semibold text-uvm-accent mb-2 text-xs uppercase tracking-wider">Hierarchy</h3>
+            <div className="space-y-0.5">{renderNode(TESTBENCH_HIERARCHY, 0)}</div>
+          </section>
+
+          <section>
+            <h3 className="font-semibold text-uvm-accent mb-2 text-xs uppercase tracking-wider">run_phase objections</h3>
+            <div className="relative border border-gray-700 rounded bg-gray-900/40 p-2 pl-28 space-y-1 font-mono text-[11px]">
+              {LANES.filter(c => scenario.objections[c]?.length).map(c => (
+                <div key={c} className="relative h-5">
+                  <span className="absolute w-24 text-right text-gray-400" style={{ left: '-6.5rem' }}>{c}</span>
+                  {scenario.objections[c]!.map((o, i) => (
+                    <div
+                      key={i}
+                      className={`absolute top-0.5 h-4 rounded-sm ${o.dropAt === null ? 'bg-gradient-to-r from-emerald-600 to-transparent' : 'bg-emerald-600/80'}`}
+                      style={{ left: at(o.raiseAt), width: `calc(${at(o.dropAt ?? scale)} - ${at(o.raiseAt)})` }}
+                      title={`raise ${formatPhaseTime(o.raiseAt)} → ${o.dropAt === null ? 'never dropped' : `drop ${formatPhaseTime(o.dropAt)}`}`}
+                    />
+                  ))}
+                </div>
+              ))}
+              <div className="relative h-5">
+                <span className="absolute w-24 text-right text-gray-400" style={{ left: '-6.5rem' }}>Sequence</span>
+                <div className="absolute top-0.5 h-4 rounded-sm bg-amber-500/70" style={{ left: 0, width: at(Math.min(scenario.trafficEnd, run.runEnd)) }} title="Traffic" />
+                {run.trafficCutAt !== null && (
+                  <div
+                    className="absolute top-0.5 h-4 rounded-sm border border-dashed border-red-400 bg-red-900/20"
+                    style={{ left: at(run.trafficCutAt), width: `calc(${at(scenario.trafficEnd)} - ${at(run.trafficCutAt)})` }}
+                    title="Killed before it ran"
+                  />
+                )}
+              </div>
+              {/* run_phase end and the current time */}
+              <div className="absolute top-0 bottom-0 pointer-events-none" style={{ left: `calc(7rem + (100% - 7.5rem) * ${run.timedOut ? 1 : Math.min(1, run.runEnd / scale)})` }}>
+                <div className={`h-full border-l-2 ${run.timedOut || run.trafficCutAt !== null ? 'border-red-500' : 'border-indigo-400'}`} />
+              </div>
+              {afterRun && (
+                <div className="absolute top-0 bottom-0 pointer-events-none" style={{ left: `calc(7rem + (100% - 7.5rem) * ${Math.min(1, cursorTime / scale)})` }}>
+                  <div className="h-full border-l border-dashed border-white/60" />
+                </div>
+              )}
+              <div className="flex justify-between text-[10px] text-gray-500 pt-1">
+                <span>0</span>
+                <span className={run.timedOut || run.trafficCutAt !== null ? 'text-red-400' : 'text-indigo-300'}>
+                  run_phase ends {run.timedOut ? `at the ${formatPhaseTime(run.runEnd)} timeout →` : `at ${formatPhaseTime(run.runEnd)}`}
+                </span>
+                <span>{formatPhaseTime(Math.round(scale))}</span>
+              </div>
+            </div>
+            <p className="text-[10px] text-gray-600 mt-1 font-mono">Objections are per component; the phase waits for the total to reach zero.</p>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">Setup</h3>
+            <div className="flex flex-wrap gap-4 text-xs text-gray-400">
+              <label className="flex items-center gap-1">
+                Sequence finishes at
+                <input type="number" min={0} value={scenario.trafficEnd} onChange={(e) => edit({ trafficEnd: Math.max(0, parseInt(e.target.value) || 0) })} className={inputClass} />
+                ns
+              </label>
+              <label className="flex items-center gap-1">
+                Drain time
+                <input type="number" min={0} value={scenario.drainTime} onChange={(e) => edit({ drainTime: Math.max(0, parseInt(e.target.value) || 0) })} className={inputClass} />
+                ns
+              </label>
+            </div>
+            <div className="space-y-1">
+              {LANES.map(c => {
+                const list = scenario.objections[c] || [];
+                return (
+                  <div key={c} className="flex flex-wrap items-center gap-2 text-xs">
+                    <span className="w-24 text-gray-400">{c}</span>
+                    {list.map((o, i) => (
+                      <span key={i} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-800/60 border border-gray-700">
+                        raise
+                        <input
+                          type="number"
+                          min={0}
+                          value={o.raiseAt}
+                          onChange={(e) => setObjections(c, list.map((x, j) => (j === i ? { ...x, raiseAt: Math.max(0, parseInt(e.target.value) || 0) } : x)))}
+                          className={inputClass}
+                        />
+                        drop
+                        <input
+                          type="number"
+                          min={0}
+                          value={o.dropAt ?? ''}
+                          placeholder="never"
+                          onChange={(e) => setObjections(c, list.map((x, j) => (j === i ? { ...x, dropAt: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0) } : x)))}
+                          className={inputClass}
+                        />
+                        <button onClick={() => setObjections(c, list.filter((_, j) => j !== i))} className="text-gray-500 hover:text-red-400" title="Remove">✕</button>
+                      </span>
+                    ))}
+                    <button
+                      onClick={() => setObjections(c, [...list, { raiseAt: 0, dropAt: scenario.trafficEnd }])}
+                      className="text-gray-500 hover:text-white border border-dashed border-gray-600 px-1.5 py-0.5 rounded"
+                    >
+                      + objection
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        </div>
+
+        {/* Right: event log */}
+        <div ref={logRef} className="w-80 border-l border-gray-700 bg-gray-900/30 overflow-y-auto shrink-0 p-2 space-y-0.5 font-mono text-[11px]">
+          {run.events.map((e, i) => (
+            <button
+              key={i}
+              data-current={i === eventIndex}
+              onClick={() => { setPlaying(false); setEventIndex(i); }}
+              className={`w-full text-left px-2 py-1 rounded flex gap-2 ${i === eventIndex ? 'bg-indigo-900/50' : i > eventIndex ? 'opacity-40 hover:opacity-80' : 'hover:bg-gray-800'}`}
+            >
+              <span className="text-gray-500 w-16 shrink-0 text-right">{formatPhaseTime(e.time)}</span>
+              <span className={`${EVENT_CLASSES[e.kind]} break-words min-w-0`}>{e.message}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhaseTimeline;
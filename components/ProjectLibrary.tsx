@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { SequenceProject } from '../types';
+import { parseProjectFile, serializeProject } from '../services/projectFormat';
+import { adoptProject, createProject, uniqueProjectName } from '../services/projectStore';
+import { TOP_SEQUENCE_ID, countSteps } from '../services/sequenceTree';
+import { downloadText } from '../services/download';
+
+interface ProjectLibraryProps {
+  projects: SequenceProject[];
+  activeId: string;
+  onChange: (projects: SequenceProject[]) => void;
+  onOpen: (id: string) => void;
+  /** Saved projects that did not load, or why nothing is being saved. */
+  storeWarning: string | null;
+}
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, activeId, onChange, onOpen, storeWarning }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const sorted = [...projects].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const newProject = () => {
+    const project = createProject(uniqueProjectName('Untitled project', projects), projects.find(p => p.id === activeId)?.protocol);
+    onChange([...projects, project]);
+    onOpen(project.id);
+  };
+
+  const rename = (id: string, name: string) =>
+    onChange(projects.map(p => (p.id === id ? { ...p, name, updatedAt: Date.now() } : p)));
+
+  const duplicate = (project: SequenceProject) =>
+    onChange([...projects, adoptProject({ ...project, name: `${project.name} copy` }, projects)]);
+
+  const remove = (project: SequenceProject) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    const rest = projects.filter(p => p.id !== project.id);
+    // Always keep one project for the builder to work in
+    onChange(rest.length ? rest : [createProject('Untitled project', project.protocol)]);
+  };
+
+  const exportProject = (project: SequenceProject) =>
+    downloadText(serializeProject(project), `${project.name.replace(/\W+/g, '_') || 'project'}.uvmseq.json`);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const project = adoptProject(parseProjectFile(await file.text()), projects);
+      onChange([...projects, project]);
+      setImportError(null);
+    } catch (err) {
+      setImportError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-uvm-bg text-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50 flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="text-emerald-400">▤</span> Projects
+          </h2>
+          <p className="text-xs text-gray-400">Sequences, item and protocol are saved in this browser as you work</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-300 hover:text-white border border-gray-600 hover:border-gray-500 px-3 py-1 rounded transition-colors cursor-pointer">
+            Import JSON
+            <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={newProject}
+            className="text-xs px-3 py-1 rounded bg-uvm-accent text-gray-900 font-semibold hover:bg-sky-400"
+          >
+            + New Project
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {storeWarning && (
+          <p className="text-xs text-amber-300 border border-amber-900/50 bg-amber-900/10 rounded p-2">⚠ {storeWarning}</p>
+        )}
+        {importError && (
+          <p className="text-xs text-red-300 border border-red-900/50 bg-red-900/10 rounded p-2">{importError}</p>
+        )}
+        {sorted.map(project => {
+          const top = project.library.find(d => d.id === TOP_SEQUENCE_ID);
+          const isActive = project.id === activeId;
+          return (
+            <div
+              key={project.id}
+              className={`group flex items-center gap-4 p-3 rounded bg-gray-800 border ${isActive ? 'border-uvm-accent' : 'border-gray-700 hover:border-gray-500'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <input
+                  value={project.name}
+                  onChange={(e) => rename(project.id, e.target.value)}
+                  className="w-full bg-transparent border-b border-transparent focus:border-uvm-accent focus:outline-none text-sm font-semibold text-white"
+                />
+                <div className="flex gap-3 text-[11px] text-gray-400 mt-1">
+                  <span className="text-uvm-accent">{project.protocol}</span>
+                  <span>{project.library.length} sequence{project.library.length === 1 ? '' : 's'}</span>
+                  <span>{top ? countSteps(top.nodes) : 0} steps in {top?.name}</span>
+                  <span>saved {new Date(project.updatedAt).toLocaleString()}</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-xs">
+                <button onClick={() => exportProject(project)} className="text-gray-400 hover:text-white">Export</button>
+                <button onClick={() => duplicate(project)} className="text-gray-400 hover:text-white">Duplicate</button>
+                <button onClick={() => remove(project)} className="text-gray-400 hover:text-red-400">Delete</button>
+                <button
+                  onClick={() => onOpen(project.id)}
+                  className={`px-3 py-1 rounded border ${isActive
+                    ? 'border-uvm-accent text-uvm-accent'
+                    : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {isActive ? 'Open ›' : 'Open'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
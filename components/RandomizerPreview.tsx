@@ -0,0 +1,84 @@
+import React, { useState, useMemo } from 'react';
+import { SequenceStep, TransactionKind } from '../types';
+import { SolverField, randomizeStep } from '../services/randomizer';
+import { formatHex } from '../services/apbSimulator';
+
+interface RandomizerPreviewProps {
+  step: Partial<SequenceStep>;
+  fields: SolverField[];
+}
+
+const RandomizerPreview: React.FC<RandomizerPreviewProps> = ({ step, fields }) => {
+  const [count, setCount] = useState(10);
+  const [seed, setSeed] = useState(1);
+  const result = useMemo(() => randomizeStep(step, fields, count, seed), [step, fields, count, seed]);
+  const constrained = !!step.constraints?.length && step.kind !== TransactionKind.IDLE;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-4 py-2 flex items-center gap-4 border-b border-[#3e3e42] text-xs text-gray-400">
+        <span>Previewing the step being edited</span>
+        <label className="flex items-center gap-1">
+          Draws
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={count}
+            onChange={(e) => setCount(Math.min(500, Math.max(1, parseInt(e.target.value) || 1)))}
+            className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 font-mono text-blue-300 focus:border-uvm-accent focus:outline-none"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Seed
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+            className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 font-mono text-blue-300 focus:border-uvm-accent focus:outline-none"
+          />
+        </label>
+        <button
+          onClick={() => setSeed(Math.floor(Math.random() * 1e6))}
+          className="px-2 py-0.5 border border-gray-600 rounded text-gray-300 hover:text-white"
+        >
+          Reseed
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {!constrained ? (
+          <div className="text-gray-500 text-sm text-center mt-8">
+            Add constraints to the step on the left to preview what randomize() would pick.
+          </div>
+        ) : result.errors.length > 0 ? (
+          <div className="space-y-2">
+            <div className="text-sm font-semibold text-red-400">Unsatisfiable: randomize() would fail</div>
+            <ul className="space-y-1 text-xs text-red-300 font-mono">
+              {result.errors.map((e, i) => <li key={i}>⚠ {e}</li>)}
+            </ul>
+          </div>
+        ) : (
+          <table className="text-xs font-mono">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-right pr-4 pb-1">#</th>
+                {result.fields.map(f => <th key={f} className="text-left pr-6 pb-1">{f}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {result.samples.map((sample, i) => (
+                <tr key={i} className="text-gray-300">
+                  <td className="text-right pr-4 text-gray-600">{i + 1}</td>
+                  {result.fields.map(f => <td key={f} className="pr-6">{formatHex(sample[f])}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RandomizerPreview;
@@ -0,0 +1,281 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { BusProtocol, RegAccess, RegDef, RegField, RegisterMap } from '../types';
+import {
+  REG_ACCESS_POLICIES, REG_WIDTHS, generateRegAdapter, generateRegisterModel, registerAddress, registerReset, validateRegisterMap
+} from '../services/ralGenerator';
+import { importRegisterMap } from '../services/ralImport';
+import { formatHex, parseSvLiteral } from '../services/apbSimulator';
+import { downloadText } from '../services/download';
+import CodeBlock from './CodeBlock';
+
+type CodeTab = 'block' | 'adapter';
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-uvm-accent focus:outline-none';
+
+// Keeps the typed text while it is not (yet) a valid literal, e.g. "'h" half-way to "'h10".
+const NumberInput: React.FC<{ value: number; onChange: (value: number) => void; className: string }> = ({ value, onChange, className }) => {
+  const [text, setText] = useState(formatHex(value, 0));
+  useEffect(() => {
+    if (parseSvLiteral(text) !== value) setText(formatHex(value, 0));
+  }, [value]);
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseSvLiteral(e.target.value);
+        if (parsed !== null) onChange(parsed);
+      }}
+      className={`${className} ${parseSvLiteral(text) === null ? 'border-red-500' : ''}`}
+    />
+  );
+};
+
+interface RegisterEditorProps {
+  registers: RegisterMap;
+  protocol: BusProtocol;
+  onChange: (registers: RegisterMap) => void;
+}
+
+const RegisterEditor: React.FC<RegisterEditorProps> = ({ registers, protocol, onChange }) => {
+  const [codeTab, setCodeTab] = useState<CodeTab>('block');
+  const [importNotes, setImportNotes] = useState<string[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const errors = useMemo(() => validateRegisterMap(registers), [registers]);
+  const code = useMemo(
+    () => (codeTab === 'block' ? generateRegisterModel(registers) : generateRegAdapter(protocol)),
+    [codeTab, registers, protocol]
+  );
+
+  const updateRegister = (index: number, patch: Partial<RegDef>) =>
+    onChange({ ...registers, registers: registers.registers.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+
+  const updateField = (index: number, fieldIndex: number, patch: Partial<RegField>) =>
+    updateRegister(index, { fields: registers.registers[index].fields.map((f, j) => (j === fieldIndex ? { ...f, ...patch } : f)) });
+
+  const addRegister = () => {
+    const last = registers.registers[registers.registers.length - 1];
+    const offset = last ? last.offset + Math.max(4, last.width / 8) : 0;
+    const reg: RegDef = {
+      name: `reg${registers.registers.length}`,
+      offset,
+      width: 32,
+      fields: [{ name: 'value', lsb: 0, width: 32, access: 'RW', reset: 0 }]
+    };
+    onChange({ ...registers, registers: [...registers.registers, reg] });
+  };
+
+  const addField = (index: number) => {
+    const reg = registers.registers[index];
+    const lsb = Math.max(0, ...reg.fields.map(f => f.lsb + f.width));
+    updateRegister(index, { fields: [...reg.fields, { name: `field${reg.fields.length}`, lsb, width: 1, access: 'RW', reset: 0 }] });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importRegisterMap(await file.text(), file.name);
+      onChange(result.map);
+      setImportNotes(result.warnings);
+      setImportError(null);
+    } catch (err) {
+      setImportError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-uvm-bg text-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50 flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="text-emerald-400">▦</span> Register Model
+          </h2>
+          <p className="text-xs text-gray-400">Define or import the register map; Sequence Builder steps can then target registers by name</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-300 hover:text-white border border-gray-600 hover:border-gray-500 px-3 py-1 rounded transition-colors cursor-pointer" title="IP-XACT (.xml), CSV or JSON">
+            Import
+            <input type="file" accept=".xml,.csv,.json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            onClick={() => downloadText(JSON.stringify(registers, null, 2), `${registers.name}.json`)}
+            disabled={registers.registers.length === 0}
+            className="text-xs text-gray-300 hover:text-white border border-gray-600 hover:border-gray-500 px-3 py-1 rounded transition-colors disabled:opacity-40"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Left: Registers and fields */}
+        <div className="w-[32rem] border-r border-gray-700 bg-gray-800/30 flex flex-col p-4 overflow-y-auto shrink-0">
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <label className="text-xs text-gray-400">
+              Block class
+              <input
+                type="text"
+                value={registers.name}
+                onChange={(e) => onChange({ ...registers, name: e.target.value })}
+                className={`${inputClass} w-full mt-1 text-green-400`}
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              Base address
+              <NumberInput
+                value={registers.baseAddress}
+                onChange={(baseAddress) => onChange({ ...registers, baseAddress })}
+                className={`${inputClass} w-full mt-1 text-blue-300`}
+              />
+            </label>
+          </div>
+
+          {importError && (
+            <p className="mb-3 text-xs text-red-300 border border-red-900/50 bg-red-900/10 rounded p-2">{importError}</p>
+          )}
+          {importNotes.length > 0 && (
+            <ul className="mb-3 text-xs text-amber-300 border border-amber-900/50 bg-amber-900/10 rounded p-2 space-y-0.5">
+              {importNotes.map((note, i) => <li key={i}>{note}</li>)}
+            </ul>
+          )}
+
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="font-semibold text-uvm-accent text-sm uppercase tracking-wider">Registers</h3>
+            <button onClick={addRegister} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded">
+              + Register
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {registers.registers.map((reg, index) => (
+              <div key={index} className="p-2 rounded bg-gray-800 border border-gray-700 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={reg.name}
+                    onChange={(e) => updateRegister(index, { name: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-0 text-sm text-green-400`}
+                  />
+                  <span className="text-[10px] text-gray-500">offset</span>
+                  <NumberInput
+                    value={reg.offset}
+                    onChange={(offset) => updateRegister(index, { offset })}
+                    className={`${inputClass} w-20 text-blue-300`}
+                  />
+                  <select
+                    value={reg.width}
+                    onChange={(e) => updateRegister(index, { width: parseInt(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {REG_WIDTHS.map(w => <option key={w} value={w}>{w}b</option>)}
+                  </select>
+                  <button
+                    onClick={() => onChange({ ...registers, registers: registers.registers.filter((_, i) => i !== index) })}
+                    className="text-gray-500 hover:text-red-400 w-4"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="text-[10px] font-mono text-gray-500">
+                  @ {formatHex(registerAddress(registers, reg))} · reset {formatHex(registerReset(reg), reg.width / 4)}
+                  {reg.description && <span className="text-gray-600"> · {reg.description}</span>}
+                </div>
+
+                <div className="space-y-1">
+                  {reg.fields.map((f, j) => (
+                    <div key={j} className="flex items-center gap-1.5" title={f.description}>
+                      <input
+                        type="text"
+                        value={f.name}
+                        onChange={(e) => updateField(index, j, { name: e.target.value })}
+                        className={`${inputClass} flex-1 min-w-0 text-gray-200`}
+                      />
+                      <span className="text-[10px] text-gray-500">lsb</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={f.lsb}
+                        onChange={(e) => updateField(index, j, { lsb: parseInt(e.target.value) || 0 })}
+                        className={`${inputClass} w-12 text-blue-300`}
+                      />
+                      <span className="text-[10px] text-gray-500">width</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={f.width}
+                        onChange={(e) => updateField(index, j, { width: parseInt(e.target.value) || 0 })}
+                        className={`${inputClass} w-12 text-blue-300`}
+                      />
+                      <select
+                        value={f.access}
+                        onChange={(e) => updateField(index, j, { access: e.target.value as RegAccess })}
+                        className={`${inputClass} text-amber-300`}
+                      >
+                        {REG_ACCESS_POLICIES.map(a => <option key={a} value={a}>{a}</option>)}
+                      </select>
+                      <NumberInput
+                        value={f.reset}
+                        onChange={(reset) => updateField(index, j, { reset })}
+                        className={`${inputClass} w-16 text-purple-300`}
+                      />
+                      <button
+                        onClick={() => updateRegister(index, { fields: reg.fields.filter((_, k) => k !== j) })}
+                        className="text-gray-500 hover:text-red-400 w-4"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button onClick={() => addField(index)} className="text-[10px] text-gray-400 hover:text-white">
+                    + field
+                  </button>
+                </div>
+              </div>
+            ))}
+            {registers.registers.length === 0 && (
+              <div className="text-xs text-gray-600 text-center py-2 italic">No registers yet. Add one or import IP-XACT, CSV or JSON.</div>
+            )}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="mt-6 space-y-1 text-xs text-red-400">
+              {errors.map((e, i) => <li key={i}>⚠ {e}</li>)}
+            </ul>
+          )}
+        </div>
+
+        {/* Right: Generated model */}
+        <div className="flex-1 bg-[#1e1e1e] flex flex-col min-w-0">
+          <div className="bg-[#252526] px-4 py-2 flex justify-between items-center border-b border-[#3e3e42]">
+            <div className="flex gap-3">
+              {(['block', 'adapter'] as CodeTab[]).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setCodeTab(tab)}
+                  className={`text-xs font-mono ${codeTab === tab ? 'text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {tab === 'block' ? 'my_reg_block.sv' : 'my_reg_adapter.sv'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => navigator.clipboard.writeText(code)}
+              className="text-xs text-gray-400 hover:text-white"
+            >
+              Copy
+            </button>
+          </div>
+          <div className="flex-1 overflow-auto custom-scrollbar">
+            <CodeBlock code={code} header={false} className="min-h-full" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegisterEditor;
@@ -1,70 +1,203 @@
-import React, { useState, useEffect } from 'react';
-import { TransactionKind, SequenceStep } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { TransactionKind, SequenceStep, BusProtocol, TransactionItemDef, SequenceDef, SequenceNode, ControlNode, RegisterMap } from '../types';
+import { formatHex, runSequence } from '../services/apbSimulator';
+import { generateSequenceCode } from '../services/sequenceGenerator';
+import {
+  InsertTarget, ROOT_TARGET, TOP_SEQUENCE_ID, findNode, flattenSequence, insertNode, reachesSequence, removeCallsTo, removeNode, updateNode
+} from '../services/sequenceTree';
+import { PROTOCOLS, protocolDefaults } from '../services/protocols';
+import { userFields } from '../services/itemGenerator';
+import { concretizeSteps, isConstrained, randomizeStep, solverFields } from '../services/randomizer';
+import { findRegister, registerAddress, registerReset, resolveRegisterSteps } from '../services/ralGenerator';
+import { evaluateSvExpression } from '../services/svExpression';
+import { defaultArbitrationSetup } from '../services/arbitration';
+import SimulationPanel from './SimulationPanel';
+import WaveformViewer from './WaveformViewer';
+import VcdImportDialog from './VcdImportDialog';
+import SvImportDialog from './SvImportDialog';
+import TestbenchPreview from './TestbenchPreview';
+import CodeBlock from './CodeBlock';
+import StepConstraintEditor from './StepConstraintEditor';
+import RandomizerPreview from './RandomizerPreview';
+import SequenceTree from './SequenceTree';
+import ArbitrationPanel from './ArbitrationPanel';
 
-const SequenceBuilder: React.FC = () => {
-  const [steps, setSteps] = useState<SequenceStep[]>([]);
+type PreviewTab = 'code' | 'testbench' | 'random' | 'arbitration' | 'wave' | 'run';
+
+const PREVIEW_TAB_LABELS: Record<PreviewTab, string> = {
+  code: 'generated_sequence.sv',
+  testbench: 'Testbench',
+  random: 'Randomizer',
+  arbitration: 'Arbitration',
+  wave: 'Waveform',
+  run: 'Run (APB model)'
+};
+
+// The cycle model, waveform and VCD import only understand APB pins.
+const APB_ONLY_TABS: PreviewTab[] = ['wave', 'run'];
+
+// Constrained steps get one fixed draw per run so the transcript is reproducible.
+const RUN_SEED = 1;
+
+interface SequenceBuilderProps {
+  protocol: BusProtocol;
+  item: TransactionItemDef;
+  registers: RegisterMap;
+  library: SequenceDef[];
+  onLibraryChange: (update: (library: SequenceDef[]) => SequenceDef[]) => void;
+  onCodeChange?: (name: string, code: string) => void; // The generated code of the sequence being edited
+}
+
+const SequenceBuilder: React.FC<SequenceBuilderProps> = ({ protocol, item, registers, library, onLibraryChange, onCodeChange }) => {
+  const [activeId, setActiveId] = useState(TOP_SEQUENCE_ID);
+  const [target, setTarget] = useState<InsertTarget>(ROOT_TARGET);
+  const [calleeId, setCalleeId] = useState('');
   const [currentStep, setCurrentStep] = useState<Partial<SequenceStep>>({
     kind: TransactionKind.WRITE,
     addr: "'h1000",
     data: "'hFF",
-    delay: 0
+    delay: 0,
+    ...protocolDefaults(protocol)
   });
   const [generatedCode, setGeneratedCode] = useState('');
+  const [previewTab, setPreviewTab] = useState<PreviewTab>('code');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showSvImport, setShowSvImport] = useState(false);
+  const [arbitration, setArbitration] = useState(() => defaultArbitrationSetup(library));
+
+  const protocolFields = PROTOCOLS[protocol].fields;
+  const itemFields = userFields(item);
+  const randomFields = useMemo(() => solverFields(item), [item]);
+  const isApb = protocol === BusProtocol.APB;
+  const selectedRegister = currentStep.kind !== TransactionKind.IDLE ? findRegister(registers, currentStep.register) : undefined;
+
+  const active = library.find(d => d.id === activeId) || library[0];
+  const nodes = active.nodes;
+  // Fall back to the root if the target block has been deleted
+  const insertTarget = target.blockId && findNode(nodes, target.blockId) ? target : ROOT_TARGET;
+  const targetBlock = insertTarget.blockId ? findNode(nodes, insertTarget.blockId) as ControlNode : null;
+  // Sequences that don't (transitively) call this one, so calls can't recurse
+  const callable = library.filter(d => d.id !== active.id && !reachesSequence(library, d.id, active.id));
+  const duplicateName = library.some(d => d.id !== active.id && d.name === active.name);
+
+  const setNodes = (update: (nodes: SequenceNode[]) => SequenceNode[]) =>
+    onLibraryChange(lib => lib.map(d => (d.id === active.id ? { ...d, nodes: update(d.nodes) } : d)));
+
+  // Fill in defaults for fields the new protocol adds; keep values the user already typed.
+  useEffect(() => {
+    setCurrentStep(prev => ({ ...protocolDefaults(protocol), ...prev }));
+  }, [protocol]);
 
   const addStep = () => {
-    const newStep: SequenceStep = {
-      id: Date.now().toString(),
+    const kind = currentStep.kind || TransactionKind.WRITE;
+    const newStep: SequenceStep = selectedRegister ? {
+      id: editingId || Date.now().toString(),
+      kind,
+      addr: formatHex(registerAddress(registers, selectedRegister)),
+      data: currentStep.data || '0',
+      delay: currentStep.delay || 0,
+      register: selectedRegister.name,
+      regOp: kind === TransactionKind.WRITE ? 'write' : currentStep.regOp === 'mirror' ? 'mirror' : 'read'
+    } : {
+      id: editingId || Date.now().toString(),
       kind: currentStep.kind || TransactionKind.WRITE,
       addr: currentStep.addr || '0',
       data: currentStep.data || '0',
-      delay: currentStep.delay || 0
+      delay: currentStep.delay || 0,
+      ...Object.fromEntries(protocolFields.map(f => [f.key, currentStep[f.key] || f.defaultValue])),
+      // Only keep values for fields the item still declares; blank means "leave it random"
+      values: Object.fromEntries(itemFields
+        .map(f => [f.name, (currentStep.values?.[f.name] || '').trim()])
+        .filter(([, value]) => value)),
+      ...(currentStep.constraints?.length ? { constraints: currentStep.constraints } : {})
     };
-    setSteps([...steps, newStep]);
+    if (editingId) {
+      setNodes(n => updateNode(n, editingId, () => newStep));
+      setEditingId(null);
+    } else {
+      setNodes(n => insertNode(n, insertTarget, newStep));
+    }
   };
 
-  const removeStep = (id: string) => {
-    setSteps(steps.filter(s => s.id !== id));
+  const addBlock = (type: ControlNode['type']) => {
+    const id = Date.now().toString();
+    const block: ControlNode =
+      type === 'repeat' ? { id, type, count: 4, body: [] } :
+      type === 'for' ? { id, type, index: 'i', from: 0, to: 4, body: [] } :
+      type === 'fork' ? { id, type, join: 'join', branches: [[], []] } :
+      { id, type, sequenceId: (callable.find(d => d.id === calleeId) || callable[0]).id, style: 'uvm_do' };
+    setNodes(n => insertNode(n, insertTarget, block));
+    if (type !== 'call') setTarget({ blockId: id, branch: 0 });
+  };
+
+  const switchSequence = (id: string) => {
+    setActiveId(id);
+    setTarget(ROOT_TARGET);
+    setEditingId(null);
   };
 
-  const generateCode = () => {
-    let code = `class my_custom_seq extends uvm_sequence #(my_transaction);\n`;
-    code += `  \`uvm_object_utils(my_custom_seq)\n\n`;
-    code += `  function new(string name = "my_custom_seq");\n    super.new(name);\n  endfunction\n\n`;
-    code += `  virtual task body();\n    my_transaction req;\n\n`;
+  const addSequence = () => {
+    const id = Date.now().toString();
+    onLibraryChange(lib => [...lib, { id, name: `sub_seq_${lib.length}`, nodes: [] }]);
+    switchSequence(id);
+  };
 
-    if (steps.length === 0) {
-      code += `    // Add transactions to see code here\n`;
-    }
+  const renameSequence = (name: string) =>
+    onLibraryChange(lib => lib.map(d => (d.id === active.id ? { ...d, name: name.replace(/\W/g, '_') } : d)));
 
-    steps.forEach((step, index) => {
-      code += `    // Step ${index + 1}: ${step.kind}\n`;
-      if (step.kind === TransactionKind.IDLE) {
-        code += `    #${step.delay || 10};\n\n`;
-      } else {
-        code += `    req = my_transaction::type_id::create("req");\n`;
-        code += `    start_item(req);\n`;
-        code += `    if (!req.randomize() with {\n`;
-        code += `      addr == ${step.addr};\n`;
-        code += `      kind == ${step.kind};\n`;
-        if (step.kind === TransactionKind.WRITE) {
-          code += `      data == ${step.data};\n`;
-        }
-        code += `    }) \`uvm_error("SEQ", "Randomization failed")\n`;
-        code += `    finish_item(req);\n`;
-        if (step.delay > 0) {
-          code += `    #${step.delay};\n`;
-        }
-        code += `\n`;
-      }
-    });
-
-    code += `  endtask\nendclass`;
-    return code;
+  const deleteSequence = () => {
+    onLibraryChange(lib => lib
+      .filter(d => d.id !== active.id)
+      .map(d => ({ ...d, nodes: removeCallsTo(d.nodes, active.id) })));
+    switchSequence(TOP_SEQUENCE_ID);
   };
 
+  const editStep = (step: SequenceStep) => {
+    setEditingId(step.id);
+    setCurrentStep({ ...step });
+  };
+
+  const removeStep = (id: string) => {
+    setNodes(n => removeNode(n, id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const importSteps = (imported: SequenceStep[], mode: 'append' | 'replace') => {
+    setNodes(n => (mode === 'replace' ? imported : [...n, ...imported]));
+    setEditingId(null);
+    setShowImport(false);
+  };
+
+  // Parsed sequences overwrite (or extend) library entries of the same class name; the rest are added
+  const importSequences = (imported: SequenceDef[], mode: 'append' | 'replace') => {
+    onLibraryChange(lib => imported.reduce((next, def) => (next.some(d => d.id === def.id)
+      ? next.map(d => (d.id === def.id ? { ...d, nodes: mode === 'replace' ? def.nodes : [...d.nodes, ...def.nodes] } : d))
+      : [...next, def]), lib));
+    setEditingId(null);
+    setTarget(ROOT_TARGET);
+    setShowSvImport(false);
+  };
+
+  const setFieldValue = (name: string, value: string) =>
+    setCurrentStep({ ...currentStep, values: { ...currentStep.values, [name]: value } });
+
   useEffect(() => {
-    setGeneratedCode(generateCode());
-  }, [steps]);
+    const code = generateSequenceCode(nodes, protocol, item, active.name, library, registers);
+    setGeneratedCode(code);
+    onCodeChange?.(active.name, code);
+  }, [nodes, protocol, item, active.name, library, registers]);
+
+  // Re-run the APB model whenever the sequence changes; it's cheap for builder-sized sequences.
+  const steps = useMemo(() => resolveRegisterSteps(flattenSequence(nodes, library), registers), [nodes, library, registers]);
+  const runSteps = useMemo(() => concretizeSteps(steps, randomFields, RUN_SEED), [steps, randomFields]);
+  const simulation = useMemo(() => runSequence(runSteps), [runSteps]);
+
+  // Flag steps whose constraints the solver cannot satisfy
+  const unsatisfiable = useMemo(() => new Map(steps
+    .filter(s => s.constraints?.length && s.kind !== TransactionKind.IDLE)
+    .map(s => [s.id, randomizeStep(s, randomFields, 1, RUN_SEED).errors])
+    .filter(([, errors]) => errors.length)), [steps, randomFields]);
 
   const copyToClipboard = () => {
     navigator.clipboard.writeText(generatedCode);
@@ -77,20 +210,54 @@ const SequenceBuilder: React.FC = () => {
            <h2 className="text-xl font-bold text-white flex items-center gap-2">
             <span className="text-amber-400">❖</span> Sequence Builder
           </h2>
-          <p className="text-xs text-gray-400">Construct a UVM sequence interactively</p>
+          <p className="text-xs text-gray-400">Construct a UVM sequence interactively · <span className="text-uvm-accent">{protocol}</span></p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowSvImport(true)}
+            className="text-xs text-gray-300 hover:text-white border border-gray-600 hover:border-gray-500 px-3 py-1 rounded transition-colors"
+          >
+            Import SV
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            disabled={!isApb}
+            title={isApb ? undefined : 'VCD import recovers APB transfers only'}
+            className="text-xs text-gray-300 hover:text-white border border-gray-600 hover:border-gray-500 px-3 py-1 rounded transition-colors disabled:opacity-40 disabled:hover:text-gray-300"
+          >
+            Import VCD
+          </button>
+          <button 
+            onClick={() => { setNodes(() => []); setEditingId(null); setTarget(ROOT_TARGET); }}
+            className="text-xs text-red-400 hover:text-red-300 border border-red-900/50 bg-red-900/20 px-3 py-1 rounded transition-colors"
+          >
+            Clear All
+          </button>
         </div>
-        <button 
-          onClick={() => setSteps([])}
-          className="text-xs text-red-400 hover:text-red-300 border border-red-900/50 bg-red-900/20 px-3 py-1 rounded transition-colors"
-        >
-          Clear All
-        </button>
       </div>
 
+      {showImport && (
+        <VcdImportDialog onImport={importSteps} onClose={() => setShowImport(false)} />
+      )}
+
+      {showSvImport && (
+        <SvImportDialog
+          protocol={protocol}
+          item={item}
+          registers={registers}
+          library={library}
+          activeId={active.id}
+          onImport={importSequences}
+          onClose={() => setShowSvImport(false)}
+        />
+      )}
+
       <div className="flex-1 flex overflow-hidden">
         {/* Left: Controls */}
         <div className="w-80 border-r border-gray-700 bg-gray-800/30 flex flex-col p-4 overflow-y-auto shrink-0">
-          <h3 className="font-semibold text-uvm-accent mb-4 text-sm uppercase tracking-wider">New Transaction</h3>
+          <h3 className="font-semibold text-uvm-accent mb-4 text-sm uppercase tracking-wider">
+            {editingId ? 'Edit Step' : 'New Transaction'}
+          </h3>
           
           <div className="space-y-4">
             <div>
@@ -110,29 +277,164 @@ const SequenceBuilder: React.FC = () => {
               </div>
             </div>
 
-            {currentStep.kind !== TransactionKind.IDLE && (
+            {currentStep.kind !== TransactionKind.IDLE && registers.registers.length > 0 && (
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Register</label>
+                <select
+                  value={selectedRegister?.name || ''}
+                  onChange={(e) => setCurrentStep({ ...currentStep, register: e.target.value || undefined })}
+                  className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-emerald-300"
+                >
+                  <option value="">(raw address)</option>
+                  {registers.registers.map(r => (
+                    <option key={r.name} value={r.name}>{r.name} @ {formatHex(registerAddress(registers, r))}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {selectedRegister && (
+              <>
+                {currentStep.kind === TransactionKind.READ ? (
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Access</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(['read', 'mirror'] as const).map(op => (
+                        <button
+                          key={op}
+                          onClick={() => setCurrentStep({ ...currentStep, regOp: op })}
+                          title={op === 'mirror' ? 'Read and check against the value the model predicts' : 'Read into rdata'}
+                          className={`text-xs py-1.5 rounded border font-mono ${(currentStep.regOp === 'mirror' ? 'mirror' : 'read') === op
+                            ? 'border-uvm-accent text-uvm-accent'
+                            : 'border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                        >
+                          {op}()
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Value</label>
+                    <input
+                      type="text"
+                      value={currentStep.data}
+                      onChange={(e) => setCurrentStep({ ...currentStep, data: e.target.value })}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-green-400"
+                    />
+                  </div>
+                )}
+                {/* Field breakdown of the value written, or of the reset value for reads */}
+                <div className="rounded border border-gray-700 bg-gray-900/50 p-2 space-y-0.5 font-mono text-[11px]">
+                  {(() => {
+                    const written = currentStep.kind === TransactionKind.WRITE ? evaluateSvExpression(currentStep.data || '') : null;
+                    const value = written ?? registerReset(selectedRegister);
+                    return (
+                      <>
+                        <div className="text-gray-500">{written === null ? 'reset value' : 'written value'}</div>
+                        {[...selectedRegister.fields].sort((a, b) => b.lsb - a.lsb).map(f => (
+                          <div key={f.name} className="flex gap-2">
+                            <span className="text-gray-500 w-12">[{f.lsb + f.width - 1}:{f.lsb}]</span>
+                            <span className="flex-1 text-gray-300">{f.name}</span>
+                            <span className="text-amber-300/80 w-10">{f.access}</span>
+                            <span className="text-emerald-300">'h{(Math.floor(value / 2 ** f.lsb) % 2 ** f.width).toString(16).toUpperCase()}</span>
+                          </div>
+                        ))}
+                      </>
+                    );
+                  })()}
+                </div>
+              </>
+            )}
+
+            {currentStep.kind !== TransactionKind.IDLE && !selectedRegister && (
               <>
                 <div>
-                  <label className="block text-xs text-gray-400 mb-1">Address (Hex/Dec)</label>
+                  <label className="block text-xs text-gray-400 mb-1">
+                    Address (Hex/Dec) {isConstrained(currentStep, 'addr') && <span className="text-amber-400">· constrained</span>}
+                  </label>
                   <input
                     type="text"
                     value={currentStep.addr}
+                    disabled={isConstrained(currentStep, 'addr')}
                     onChange={(e) => setCurrentStep({...currentStep, addr: e.target.value})}
-                    className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-green-400"
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-green-400 disabled:opacity-40"
                   />
                 </div>
 
                 {currentStep.kind === TransactionKind.WRITE && (
                   <div>
-                    <label className="block text-xs text-gray-400 mb-1">Data (Hex/Dec)</label>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      Data (Hex/Dec) {isConstrained(currentStep, 'data') && <span className="text-amber-400">· constrained</span>}
+                    </label>
                     <input
                       type="text"
                       value={currentStep.data}
+                      disabled={isConstrained(currentStep, 'data')}
                       onChange={(e) => setCurrentStep({...currentStep, data: e.target.value})}
-                      className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-green-400"
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-green-400 disabled:opacity-40"
                     />
                   </div>
                 )}
+
+                {/* Protocol-specific item fields */}
+                {protocolFields
+                  .filter(f => !f.writeOnly || currentStep.kind === TransactionKind.WRITE)
+                  .map(f => (
+                    <div key={f.key}>
+                      <label className="block text-xs text-gray-400 mb-1">{f.label}</label>
+                      {f.options ? (
+                        <select
+                          value={currentStep[f.key] || f.defaultValue}
+                          onChange={(e) => setCurrentStep({...currentStep, [f.key]: e.target.value})}
+                          className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-amber-300"
+                        >
+                          {f.options.map(o => <option key={o} value={o}>{o}</option>)}
+                        </select>
+                      ) : (
+                        <input
+                          type="text"
+                          value={currentStep[f.key] ?? f.defaultValue}
+                          onChange={(e) => setCurrentStep({...currentStep, [f.key]: e.target.value})}
+                          className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-amber-300"
+                        />
+                      )}
+                    </div>
+                  ))}
+
+                {/* User-defined item fields (Item Designer) */}
+                {itemFields.map(f => (
+                  <div key={f.name}>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      {f.name} <span className="text-gray-600">{f.isRand ? 'rand' : 'assigned'}</span>
+                    </label>
+                    {f.type === 'enum' ? (
+                      <select
+                        value={currentStep.values?.[f.name] || ''}
+                        onChange={(e) => setFieldValue(f.name, e.target.value)}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-purple-300"
+                      >
+                        <option value="">{f.isRand ? '(random)' : '(default)'}</option>
+                        {(f.enumValues || []).map(v => <option key={v} value={v}>{v}</option>)}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={currentStep.values?.[f.name] || ''}
+                        disabled={isConstrained(currentStep, f.name)}
+                        placeholder={isConstrained(currentStep, f.name) ? '(constrained)' : f.isRand ? '(random)' : '(default)'}
+                        onChange={(e) => setFieldValue(f.name, e.target.value)}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-uvm-accent focus:outline-none font-mono text-purple-300 placeholder-gray-600"
+                      />
+                    )}
+                  </div>
+                ))}
+
+                <StepConstraintEditor
+                  constraints={currentStep.constraints || []}
+                  fields={randomFields}
+                  onChange={(constraints) => setCurrentStep({ ...currentStep, constraints })}
+                />
               </>
             )}
 
@@ -150,66 +452,154 @@ const SequenceBuilder: React.FC = () => {
               onClick={addStep}
               className="w-full py-2 mt-2 bg-gradient-to-r from-uvm-accent to-blue-600 text-white font-semibold rounded hover:brightness-110 active:scale-95 transition-all shadow-lg shadow-blue-900/20"
             >
-              Add Step
+              {editingId ? 'Update Step' : 'Add Step'}
             </button>
-          </div>
+            {editingId ? (
+              <button
+                onClick={() => setEditingId(null)}
+                className="w-full py-1.5 text-xs text-gray-400 hover:text-white border border-gray-700 rounded"
+              >
+                Cancel Edit
+              </button>
+            ) : (
+              <div className="text-[10px] text-gray-500 text-center">
+                Adding to{' '}
+                <span className="text-uvm-accent font-mono">
+                  {!targetBlock ? 'body()' : targetBlock.type === 'fork' ? `fork branch ${insertTarget.branch + 1}` : `${targetBlock.type} block`}
+                </span>
+                {targetBlock && (
+                  <button onClick={() => setTarget(ROOT_TARGET)} className="ml-1 text-gray-400 hover:text-white">(back to body)</button>
+                )}
+              </div>
+            )}
 
-          <div className="mt-8 border-t border-gray-700 pt-6">
-            <h3 className="font-semibold text-gray-300 mb-4 text-sm">Sequence Steps ({steps.length})</h3>
-            <div className="space-y-2">
-              {steps.map((step, idx) => (
-                <div key={step.id} className="group flex items-center gap-2 p-2 rounded bg-gray-800 border border-gray-700 hover:border-gray-500 transition-colors">
-                  <span className="text-xs text-gray-500 font-mono w-4">{idx + 1}.</span>
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2">
-                      <span className={`text-xs font-bold px-1.5 rounded ${
-                        step.kind === TransactionKind.WRITE ? 'bg-pink-900/50 text-pink-300' :
-                        step.kind === TransactionKind.READ ? 'bg-teal-900/50 text-teal-300' :
-                        'bg-gray-700 text-gray-300'
-                      }`}>
-                        {step.kind}
-                      </span>
-                      {step.kind !== TransactionKind.IDLE && (
-                         <span className="text-xs font-mono text-gray-300">@{step.addr}</span>
-                      )}
-                    </div>
-                  </div>
-                  <button 
-                    onClick={() => removeStep(step.id)}
-                    className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400"
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Control Flow</label>
+              <div className="grid grid-cols-3 gap-2">
+                {(['repeat', 'for', 'fork'] as const).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => addBlock(type)}
+                    className="text-xs py-1.5 rounded border border-gray-600 text-sky-300 font-mono hover:bg-gray-700"
                   >
-                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                    + {type}
                   </button>
-                </div>
-              ))}
-              {steps.length === 0 && (
-                <div className="text-xs text-gray-600 text-center py-4 italic">
-                  No steps yet. Add one above.
-                </div>
-              )}
+                ))}
+              </div>
+              <div className="flex gap-2 mt-2">
+                <select
+                  value={calleeId}
+                  onChange={(e) => setCalleeId(e.target.value)}
+                  disabled={callable.length === 0}
+                  className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono text-indigo-300 focus:border-uvm-accent focus:outline-none disabled:opacity-40"
+                >
+                  {callable.length === 0 && <option value="">No other sequences</option>}
+                  {callable.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+                <button
+                  onClick={() => addBlock('call')}
+                  disabled={callable.length === 0}
+                  className="text-xs px-3 rounded border border-gray-600 text-indigo-300 font-mono hover:bg-gray-700 disabled:opacity-40"
+                >
+                  + call
+                </button>
+              </div>
             </div>
           </div>
+
+          <div className="mt-8 border-t border-gray-700 pt-6">
+            <div className="flex items-center gap-2 mb-4">
+              <select
+                value={active.id}
+                onChange={(e) => switchSequence(e.target.value)}
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm font-mono text-gray-200 focus:border-uvm-accent focus:outline-none"
+              >
+                {library.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+              <button onClick={addSequence} className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-1 rounded">
+                + Sequence
+              </button>
+            </div>
+            {active.id !== TOP_SEQUENCE_ID && (
+              <div className="flex items-center gap-2 mb-4">
+                <input
+                  value={active.name}
+                  onChange={(e) => renameSequence(e.target.value)}
+                  title={duplicateName ? 'Another sequence already uses this class name' : undefined}
+                  className={`flex-1 min-w-0 bg-gray-900 border ${duplicateName ? 'border-red-500' : 'border-gray-700'} rounded px-2 py-1 text-xs font-mono text-green-400 focus:border-uvm-accent focus:outline-none`}
+                />
+                <button onClick={deleteSequence} className="text-xs text-red-400 hover:text-red-300">Delete</button>
+              </div>
+            )}
+            <h3 className="font-semibold text-gray-300 mb-4 text-sm">
+              body() <span className="text-gray-500 font-normal">({steps.length} items when unrolled)</span>
+            </h3>
+            <SequenceTree
+              nodes={nodes}
+              library={library}
+              editingId={editingId}
+              target={insertTarget}
+              unsatisfiable={unsatisfiable}
+              protocolFields={protocolFields}
+              itemFields={itemFields}
+              onEditStep={editStep}
+              onRemove={removeStep}
+              onUpdateBlock={(block) => setNodes(n => updateNode(n, block.id, () => block))}
+              onSetTarget={setTarget}
+            />
+            {nodes.length === 0 && (
+              <div className="text-xs text-gray-600 text-center py-4 italic">
+                No steps yet. Add one above.
+              </div>
+            )}
+          </div>
         </div>
 
-        {/* Right: Code Preview */}
+        {/* Right: Code Preview / Run */}
         <div className="flex-1 bg-[#1e1e1e] flex flex-col min-w-0">
           <div className="bg-[#252526] px-4 py-2 flex justify-between items-center border-b border-[#3e3e42]">
-            <span className="text-xs text-gray-400 font-mono">generated_sequence.sv</span>
-            <button 
-              onClick={copyToClipboard}
-              className="text-xs flex items-center gap-1 text-gray-400 hover:text-white"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg>
-              Copy
-            </button>
-          </div>
-          <div className="flex-1 overflow-auto p-4 custom-scrollbar">
-            <pre className="font-mono text-sm leading-relaxed">
-              <code className="text-gray-300">
-                {generatedCode}
-              </code>
-            </pre>
+            <div className="flex items-center gap-1">
+              {(Object.keys(PREVIEW_TAB_LABELS) as PreviewTab[]).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setPreviewTab(tab)}
+                  className={`text-xs font-mono px-2 py-0.5 rounded ${previewTab === tab
+                    ? 'bg-[#3e3e42] text-white'
+                    : 'text-gray-400 hover:text-white'}`}
+                >
+                  {PREVIEW_TAB_LABELS[tab]}
+                </button>
+              ))}
+            </div>
+            {previewTab === 'code' && (
+              <button 
+                onClick={copyToClipboard}
+                className="text-xs flex items-center gap-1 text-gray-400 hover:text-white"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg>
+                Copy
+              </button>
+            )}
           </div>
+          {previewTab === 'code' ? (
+            <div className="flex-1 overflow-auto custom-scrollbar">
+              <CodeBlock code={generatedCode} header={false} className="min-h-full" />
+            </div>
+          ) : previewTab === 'testbench' ? (
+            <TestbenchPreview library={library} protocol={protocol} item={item} registers={registers} />
+          ) : previewTab === 'random' ? (
+            <RandomizerPreview step={currentStep} fields={randomFields} />
+          ) : previewTab === 'arbitration' ? (
+            <ArbitrationPanel library={library} setup={arbitration} onChange={setArbitration} />
+          ) : !isApb && APB_ONLY_TABS.includes(previewTab) ? (
+            <div className="flex-1 flex items-center justify-center text-gray-500 text-sm px-8 text-center">
+              The cycle model and waveform cover APB only. Switch the protocol to APB to run this sequence.
+            </div>
+          ) : previewTab === 'wave' ? (
+            <WaveformViewer cycles={simulation.cycles} />
+          ) : (
+            <SimulationPanel steps={runSteps} result={simulation} />
+          )}
         </div>
       </div>
     </div>
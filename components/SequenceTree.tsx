@@ -0,0 +1,215 @@
+import React from 'react';
+import { ControlNode, ForkJoinKind, ItemField, SequenceCallStyle, SequenceDef, SequenceNode, SequenceStep, TransactionKind } from '../types';
+import { ProtocolField } from '../services/protocols';
+import { InsertTarget, isControlNode } from '../services/sequenceTree';
+import { isConstrained } from '../services/randomizer';
+
+const JOIN_KINDS: ForkJoinKind[] = ['join', 'join_any', 'join_none'];
+
+const smallInput = 'bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-xs font-mono text-blue-300 focus:border-uvm-accent focus:outline-none';
+
+interface SequenceTreeProps {
+  nodes: SequenceNode[];
+  library: SequenceDef[];
+  editingId: string | null;
+  target: InsertTarget;
+  unsatisfiable: Map<string, string[]>;
+  protocolFields: ProtocolField[];
+  itemFields: ItemField[];
+  onEditStep: (step: SequenceStep) => void;
+  onRemove: (id: string) => void;
+  onUpdateBlock: (block: ControlNode) => void;
+  onSetTarget: (target: InsertTarget) => void;
+}
+
+const SequenceTree: React.FC<SequenceTreeProps> = (props) => {
+  const { nodes, library, editingId, target, unsatisfiable, protocolFields, itemFields, onEditStep, onRemove, onUpdateBlock, onSetTarget } = props;
+
+  // Steps are numbered in the order the generated code comments them
+  let stepNumber = 0;
+
+  const removeButton = (id: string) => (
+    <button
+      onClick={() => onRemove(id)}
+      className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400"
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+    </button>
+  );
+
+  const insertHere = (blockId: string, branch: number, label: string) => {
+    const active = target.blockId === blockId && target.branch === branch;
+    return (
+      <button
+        onClick={() => onSetTarget({ blockId, branch })}
+        className={`text-[10px] px-1.5 rounded border ${active
+          ? 'border-uvm-accent text-uvm-accent'
+          : 'border-transparent text-gray-500 hover:text-gray-300'}`}
+        title="Add new steps and blocks here"
+      >
+        {active ? `▸ ${label}` : label}
+      </button>
+    );
+  };
+
+  const renderStep = (step: SequenceStep) => {
+    const number = ++stepNumber;
+    return (
+      <div key={step.id} className={`group flex items-center gap-2 p-2 rounded bg-gray-800 border transition-colors ${
+        editingId === step.id ? 'border-uvm-accent' : 'border-gray-700 hover:border-gray-500'
+      }`}>
+        <span className="text-xs text-gray-500 font-mono w-4">{number}.</span>
+        <div className="flex-1 cursor-pointer" onClick={() => onEditStep(step)}>
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className={`text-xs font-bold px-1.5 rounded ${
+              step.kind === TransactionKind.WRITE ? 'bg-pink-900/50 text-pink-300' :
+              step.kind === TransactionKind.READ ? 'bg-teal-900/50 text-teal-300' :
+              'bg-gray-700 text-gray-300'
+            }`}>
+              {step.kind}
+            </span>
+            {step.kind !== TransactionKind.IDLE && (step.register ? (
+               <span className="text-xs font-mono text-emerald-300">{step.register}.{step.regOp}(){step.regOp === 'write' && ` ${step.data}`}</span>
+            ) : (
+               <span className="text-xs font-mono text-gray-300">@{isConstrained(step, 'addr') ? 'rand' : step.addr}</span>
+            ))}
+            {step.kind !== TransactionKind.IDLE && protocolFields
+              .filter(f => f.options && step[f.key] && step[f.key] !== f.defaultValue)
+              .map(f => (
+                <span key={f.key} className="text-[10px] font-mono text-amber-300/80">{step[f.key]}</span>
+              ))}
+            {step.kind !== TransactionKind.IDLE && itemFields
+              .filter(f => step.values?.[f.name])
+              .map(f => (
+                <span key={f.name} className="text-[10px] font-mono text-purple-300/80">{f.name}={step.values![f.name]}</span>
+              ))}
+            {step.kind !== TransactionKind.IDLE && !!step.constraints?.length && (
+              <span className="text-[10px] font-mono text-amber-400">rand</span>
+            )}
+            {unsatisfiable.has(step.id) && (
+              <span className="text-[10px] text-red-400" title={unsatisfiable.get(step.id)!.join('\n')}>⚠ unsat</span>
+            )}
+          </div>
+        </div>
+        {removeButton(step.id)}
+      </div>
+    );
+  };
+
+  const renderList = (list: SequenceNode[]) => (
+    <div className="space-y-2">
+      {list.map(node => (isControlNode(node) ? renderBlock(node) : renderStep(node)))}
+    </div>
+  );
+
+  const renderBlock = (block: ControlNode) => {
+    if (block.type === 'call') {
+      return (
+        <div key={block.id} className="group flex items-center gap-2 p-2 rounded bg-indigo-950/40 border border-indigo-900/60">
+          <span className="text-xs font-bold text-indigo-300">call</span>
+          <span className="flex-1 text-xs font-mono text-gray-300 truncate">
+            {library.find(d => d.id === block.sequenceId)?.name || '(deleted)'}
+          </span>
+          <select
+            value={block.style}
+            onChange={(e) => onUpdateBlock({ ...block, style: e.target.value as SequenceCallStyle })}
+            className={smallInput}
+          >
+            <option value="uvm_do">`uvm_do</option>
+            <option value="start">start()</option>
+          </select>
+          {removeButton(block.id)}
+        </div>
+      );
+    }
+
+    return (
+      <div key={block.id} className="rounded border border-gray-700 bg-gray-900/40">
+        <div className="group flex items-center gap-1.5 px-2 py-1.5 border-b border-gray-700/60 text-xs font-mono text-gray-400">
+          {block.type === 'repeat' && (
+            <>
+              <span className="font-bold text-sky-300">repeat</span>(
+              <input
+                type="number"
+                min={0}
+                value={block.count}
+                onChange={(e) => onUpdateBlock({ ...block, count: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={`${smallInput} w-12`}
+              />)
+            </>
+          )}
+          {block.type === 'for' && (
+            <>
+              <span className="font-bold text-sky-300">for</span>
+              <input
+                value={block.index}
+                onChange={(e) => onUpdateBlock({ ...block, index: e.target.value.replace(/\W/g, '') || 'i' })}
+                className={`${smallInput} w-8`}
+              />
+              =
+              <input
+                type="number"
+                value={block.from}
+                onChange={(e) => onUpdateBlock({ ...block, from: parseInt(e.target.value) || 0 })}
+                className={`${smallInput} w-12`}
+              />
+              ..&lt;
+              <input
+                type="number"
+                value={block.to}
+                onChange={(e) => onUpdateBlock({ ...block, to: parseInt(e.target.value) || 0 })}
+                className={`${smallInput} w-12`}
+              />
+            </>
+          )}
+          {block.type === 'fork' && (
+            <>
+              <span className="font-bold text-sky-300">fork</span>
+              <select
+                value={block.join}
+                onChange={(e) => onUpdateBlock({ ...block, join: e.target.value as ForkJoinKind })}
+                className={smallInput}
+              >
+                {JOIN_KINDS.map(j => <option key={j} value={j}>{j}</option>)}
+              </select>
+              <button
+                onClick={() => onUpdateBlock({ ...block, branches: [...block.branches, []] })}
+                className="text-[10px] text-gray-400 hover:text-white"
+              >
+                + branch
+              </button>
+            </>
+          )}
+          <span className="flex-1" />
+          {block.type !== 'fork' && insertHere(block.id, 0, 'add here')}
+          {removeButton(block.id)}
+        </div>
+        <div className="p-2 pl-4 space-y-2">
+          {block.type === 'fork'
+            ? block.branches.map((branch, i) => (
+                <div key={i} className="border-l-2 border-sky-900 pl-2 space-y-1">
+                  <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                    branch {i + 1}
+                    {insertHere(block.id, i, 'add here')}
+                    {block.branches.length > 1 && (
+                      <button
+                        onClick={() => onUpdateBlock({ ...block, branches: block.branches.filter((_, j) => j !== i) })}
+                        className="hover:text-red-400"
+                      >
+                        remove
+                      </button>
+                    )}
+                  </div>
+                  {renderList(branch)}
+                </div>
+              ))
+            : renderList(block.body)}
+        </div>
+      </div>
+    );
+  };
+
+  return renderList(nodes);
+};
+
+export default SequenceTree;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { ApbPhase, ScoreboardStatus, SequenceStep, SimulationResult, TransactionKind } from '../types';
+import { formatHex } from '../services/apbSimulator';
+
+interface SimulationPanelProps {
+  steps: SequenceStep[];
+  result: SimulationResult;
+}
+
+const STATUS_CLASSES: Record<ScoreboardStatus, string> = {
+  STORED: 'bg-gray-700 text-gray-300',
+  MATCH: 'bg-emerald-900/50 text-emerald-300',
+  MISMATCH: 'bg-red-900/50 text-red-300',
+  UNINITIALIZED: 'bg-amber-900/50 text-amber-300'
+};
+
+const PHASE_CLASSES: Record<ApbPhase, string> = {
+  [ApbPhase.IDLE]: 'text-gray-500',
+  [ApbPhase.SETUP]: 'text-amber-300',
+  [ApbPhase.ACCESS]: 'text-uvm-accent'
+};
+
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ steps, result }) => {
+  const stepNumber = (stepId: string | null) => {
+    const idx = steps.findIndex(s => s.id === stepId);
+    return idx >= 0 ? `${idx + 1}` : '-';
+  };
+
+  const counts = result.scoreboard.reduce(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { STORED: 0, MATCH: 0, MISMATCH: 0, UNINITIALIZED: 0 } as Record<ScoreboardStatus, number>
+  );
+
+  if (steps.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">
+        Add transactions to run the sequence against the APB DUT model.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto p-4 space-y-6 text-sm">
+      {/* Summary */}
+      <div className="flex flex-wrap gap-3 text-xs font-mono">
+        <span className="px-2 py-1 rounded bg-gray-800 text-gray-300">{result.cycles.length} cycles</span>
+        <span className="px-2 py-1 rounded bg-gray-800 text-gray-300">{result.transactions.length} observed</span>
+        <span className={`px-2 py-1 rounded ${STATUS_CLASSES.MATCH}`}>{counts.MATCH} match</span>
+        <span className={`px-2 py-1 rounded ${STATUS_CLASSES.MISMATCH}`}>{counts.MISMATCH} mismatch</span>
+        {counts.UNINITIALIZED > 0 && (
+          <span className={`px-2 py-1 rounded ${STATUS_CLASSES.UNINITIALIZED}`}>{counts.UNINITIALIZED} uninitialized</span>
+        )}
+      </div>
+
+      {result.errors.length > 0 && (
+        <section className="border border-red-900/50 bg-red-900/10 rounded p-3 space-y-1">
+          {result.errors.map((err, i) => (
+            <p key={i} className="text-xs text-red-300">
+              <span className="font-mono">Step {stepNumber(err.stepId)}:</span> {err.message}
+            </p>
+          ))}
+        </section>
+      )}
+
+      {/* Scoreboard log */}
+      <section>
+        <h3 className="font-semibold text-emerald-400 mb-2 text-xs uppercase tracking-wider">Monitor → Scoreboard</h3>
+        <div className="space-y-1 font-mono text-xs">
+          {result.scoreboard.map((r, i) => (
+            <div key={i} className="flex items-center gap-3 p-2 rounded bg-gray-800/60 border border-gray-700">
+              <span className="text-gray-500 w-16">t={r.transaction.time}</span>
+              <span className={r.transaction.kind === TransactionKind.WRITE ? 'text-pink-300 w-12' : 'text-teal-300 w-12'}>
+                {r.transaction.kind}
+              </span>
+              <span className="text-gray-300">{formatHex(r.transaction.addr)}</span>
+              <span className="text-gray-400">{formatHex(r.transaction.data)}</span>
+              <span className={`px-1.5 rounded ${STATUS_CLASSES[r.status]}`}>{r.status}</span>
+              <span className="text-gray-500 truncate">{r.message}</span>
+            </div>
+          ))}
+          {result.scoreboard.length === 0 && (
+            <p className="text-gray-600 italic">No transfers observed.</p>
+          )}
+        </div>
+      </section>
+
+      {/* Cycle transcript */}
+      <section>
+        <h3 className="font-semibold text-uvm-accent mb-2 text-xs uppercase tracking-wider">Cycle Transcript</h3>
+        <table className="w-full font-mono text-xs border-collapse">
+          <thead>
+            <tr className="text-gray-500 text-left border-b border-gray-700">
+              <th className="py-1 pr-3">cycle</th>
+              <th className="py-1 pr-3">time</th>
+              <th className="py-1 pr-3">step</th>
+              <th className="py-1 pr-3">phase</th>
+              <th className="py-1 pr-3">psel</th>
+              <th className="py-1 pr-3">penable</th>
+              <th className="py-1 pr-3">pwrite</th>
+              <th className="py-1 pr-3">paddr</th>
+              <th className="py-1 pr-3">pwdata</th>
+              <th className="py-1 pr-3">prdata</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.cycles.map(c => (
+              <tr key={c.cycle} className="border-b border-gray-800 text-gray-300">
+                <td className="py-0.5 pr-3 text-gray-500">{c.cycle}</td>
+                <td className="py-0.5 pr-3 text-gray-500">{c.time}</td>
+                <td className="py-0.5 pr-3">{stepNumber(c.stepId)}</td>
+                <td className={`py-0.5 pr-3 ${PHASE_CLASSES[c.phase]}`}>{c.phase}</td>
+                <td className="py-0.5 pr-3">{c.signals.psel}</td>
+                <td className="py-0.5 pr-3">{c.signals.penable}</td>
+                <td className="py-0.5 pr-3">{c.signals.pwrite}</td>
+                <td className="py-0.5 pr-3">{formatHex(c.signals.paddr)}</td>
+                <td className="py-0.5 pr-3">{formatHex(c.signals.pwdata)}</td>
+                <td className="py-0.5 pr-3">{formatHex(c.signals.prdata)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+};
+
+export default SimulationPanel;
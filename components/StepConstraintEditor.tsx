@@ -0,0 +1,154 @@
+import React from 'react';
+import { DistBucket, RelationOp, StepConstraint } from '../types';
+import { SolverField } from '../services/randomizer';
+
+const RELATION_OPS: RelationOp[] = ['==', '!=', '<', '<=', '>', '>='];
+
+const NEW_CONSTRAINT: Record<StepConstraint['kind'], (field: string) => StepConstraint> = {
+  range: field => ({ kind: 'range', field, min: "'h0", max: "'hFF" }),
+  dist: field => ({ kind: 'dist', field, buckets: [{ min: "'h0", weight: 1 }, { min: "'h1", max: "'hFF", weight: 3, perRange: true }] }),
+  align: field => ({ kind: 'align', field, alignment: 4 }),
+  relation: field => ({ kind: 'relation', field, op: '!=', rhs: "'h0" })
+};
+
+const inputClass = 'min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono text-amber-300 focus:border-uvm-accent focus:outline-none';
+
+interface StepConstraintEditorProps {
+  constraints: StepConstraint[];
+  fields: SolverField[];
+  onChange: (constraints: StepConstraint[]) => void;
+}
+
+const StepConstraintEditor: React.FC<StepConstraintEditorProps> = ({ constraints, fields, onChange }) => {
+  const update = (index: number, next: StepConstraint) =>
+    onChange(constraints.map((c, i) => (i === index ? next : c)));
+
+  const remove = (index: number) => onChange(constraints.filter((_, i) => i !== index));
+
+  const updateBucket = (index: number, c: Extract<StepConstraint, { kind: 'dist' }>, b: number, patch: Partial<DistBucket>) =>
+    update(index, { ...c, buckets: c.buckets.map((bucket, i) => (i === b ? { ...bucket, ...patch } : bucket)) });
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-1">Constraints</label>
+      <div className="space-y-2">
+        {constraints.map((c, index) => (
+          <div key={index} className="p-2 rounded bg-gray-900/60 border border-gray-700 space-y-1">
+            <div className="flex items-center gap-1">
+              <select
+                value={c.field}
+                onChange={(e) => update(index, { ...c, field: e.target.value })}
+                className={`${inputClass} text-green-400`}
+              >
+                {fields.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+              </select>
+              <span className="flex-1 text-[10px] uppercase tracking-wider text-gray-500">{c.kind}</span>
+              <button onClick={() => remove(index)} className="text-gray-500 hover:text-red-400 text-xs">✕</button>
+            </div>
+
+            {c.kind === 'range' && (
+              <div className="flex items-center gap-1 text-xs text-gray-500">
+                inside [
+                <input className={`${inputClass} w-20`} value={c.min} onChange={(e) => update(index, { ...c, min: e.target.value })} />
+                :
+                <input className={`${inputClass} w-20`} value={c.max} onChange={(e) => update(index, { ...c, max: e.target.value })} />
+                ]
+              </div>
+            )}
+
+            {c.kind === 'align' && (
+              <div className="flex items-center gap-1 text-xs text-gray-500">
+                %
+                <input
+                  type="number"
+                  min={1}
+                  className={`${inputClass} w-16`}
+                  value={c.alignment}
+                  onChange={(e) => update(index, { ...c, alignment: parseInt(e.target.value) || 0 })}
+                />
+                == 0
+              </div>
+            )}
+
+            {c.kind === 'relation' && (
+              <div className="flex items-center gap-1">
+                <select
+                  value={c.op}
+                  onChange={(e) => update(index, { ...c, op: e.target.value as RelationOp })}
+                  className={inputClass}
+                >
+                  {RELATION_OPS.map(op => <option key={op} value={op}>{op}</option>)}
+                </select>
+                <input
+                  className={`${inputClass} flex-1`}
+                  value={c.rhs}
+                  list="constraint-fields"
+                  placeholder="field or literal"
+                  onChange={(e) => update(index, { ...c, rhs: e.target.value })}
+                />
+              </div>
+            )}
+
+            {c.kind === 'dist' && (
+              <div className="space-y-1">
+                {c.buckets.map((b, i) => (
+                  <div key={i} className="flex items-center gap-1">
+                    <input className={`${inputClass} w-16`} value={b.min} onChange={(e) => updateBucket(index, c, i, { min: e.target.value })} />
+                    <input
+                      className={`${inputClass} w-16`}
+                      value={b.max || ''}
+                      placeholder="(single)"
+                      onChange={(e) => updateBucket(index, c, i, { max: e.target.value || undefined })}
+                    />
+                    <button
+                      onClick={() => updateBucket(index, c, i, { perRange: !b.perRange })}
+                      title={b.perRange ? 'Weight shared by the whole range' : 'Weight given to each value'}
+                      className="text-xs font-mono text-gray-300 border border-gray-700 rounded px-1"
+                    >
+                      {b.perRange ? ':/' : ':='}
+                    </button>
+                    <input
+                      type="number"
+                      min={0}
+                      className={`${inputClass} w-12`}
+                      value={b.weight}
+                      onChange={(e) => updateBucket(index, c, i, { weight: parseInt(e.target.value) || 0 })}
+                    />
+                    <button
+                      onClick={() => update(index, { ...c, buckets: c.buckets.filter((_, j) => j !== i) })}
+                      className="text-gray-600 hover:text-red-400 text-xs"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => update(index, { ...c, buckets: [...c.buckets, { min: "'h0", weight: 1 }] })}
+                  className="text-[10px] text-gray-400 hover:text-white"
+                >
+                  + bucket
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <datalist id="constraint-fields">
+        {fields.map(f => <option key={f.name} value={f.name} />)}
+      </datalist>
+      <div className="grid grid-cols-4 gap-1 mt-2">
+        {(Object.keys(NEW_CONSTRAINT) as StepConstraint['kind'][]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => onChange([...constraints, NEW_CONSTRAINT[kind]('addr')])}
+            className="text-[10px] py-1 rounded border border-gray-600 text-gray-400 hover:bg-gray-700 hover:text-white"
+          >
+            + {kind}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StepConstraintEditor;
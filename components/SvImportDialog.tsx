@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import { BusProtocol, RegisterMap, SequenceDef, TransactionItemDef } from '../types';
+import { parseSequenceCode } from '../services/sequenceParser';
+import { flattenSequence } from '../services/sequenceTree';
+
+interface SvImportDialogProps {
+  protocol: BusProtocol;
+  item: TransactionItemDef;
+  registers: RegisterMap;
+  library: SequenceDef[];
+  activeId: string;
+  onImport: (sequences: SequenceDef[], mode: 'append' | 'replace') => void;
+  onClose: () => void;
+}
+
+const SvImportDialog: React.FC<SvImportDialogProps> = ({ protocol, item, registers, library, activeId, onImport, onClose }) => {
+  const [source, setSource] = useState('');
+
+  const result = useMemo(
+    () => (source.trim() ? parseSequenceCode(source, { protocol, item, library, activeId, registers }) : null),
+    [source, protocol, item, library, activeId, registers]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setSource(await file.text());
+  };
+
+  const canImport = !!result && result.sequences.some(d => d.nodes.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-uvm-panel border border-gray-700 rounded-lg shadow-2xl w-full max-w-3xl max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h3 className="font-semibold text-white">Import SystemVerilog</h3>
+            <p className="text-xs text-gray-400">Paste uvm_sequence classes or just the body of one; it is rebuilt as builder steps.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-xs text-gray-400">Sequence source</span>
+              <input type="file" accept=".sv,.svh" onChange={handleFile} className="text-xs text-gray-300" />
+            </div>
+            <textarea
+              value={source}
+              onChange={e => setSource(e.target.value)}
+              spellCheck={false}
+              rows={12}
+              placeholder={'class my_seq extends uvm_sequence #(my_transaction);\n  ...\n  virtual task body();\n    `uvm_do_with(req, { addr == \'h10; kind == WRITE; })\n  endtask\nendclass'}
+              className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-xs font-mono text-gray-200 placeholder-gray-600 focus:border-uvm-accent focus:outline-none"
+            />
+          </div>
+
+          {result && (
+            <section>
+              <h4 className="font-semibold text-emerald-400 mb-2 text-xs uppercase tracking-wider">
+                Sequences ({result.sequences.length})
+              </h4>
+              <div className="space-y-1 font-mono text-xs">
+                {result.sequences.map(def => (
+                  <div key={def.id} className="flex gap-3 px-2 py-1 rounded bg-gray-800/60">
+                    <span className="text-gray-200 flex-1">{def.name}</span>
+                    <span className="text-gray-400">{flattenSequence(def.nodes, [...result.sequences, ...library]).length} transactions</span>
+                    <span className={library.some(d => d.id === def.id) ? 'text-amber-300' : 'text-emerald-300'}>
+                      {library.some(d => d.id === def.id) ? 'existing' : 'new'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {result && result.issues.length > 0 && (
+            <section>
+              <h4 className="font-semibold text-amber-400 mb-2 text-xs uppercase tracking-wider">
+                Not Imported ({result.issues.length})
+              </h4>
+              <div className="max-h-48 overflow-y-auto space-y-1 text-xs">
+                {result.issues.map((issue, i) => (
+                  <div key={i} className="flex gap-3 px-2 py-1 rounded bg-amber-900/10 border border-amber-900/30">
+                    <span className="text-gray-500 font-mono w-14 shrink-0">line {issue.line}</span>
+                    <span className="flex-1">
+                      <span className="block text-amber-200">{issue.message}</span>
+                      <code className="block text-gray-400 truncate">{issue.text}</code>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={() => result && onImport(result.sequences, 'append')}
+            disabled={!canImport}
+            className="text-xs px-3 py-1.5 rounded border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+          >
+            Append to Sequences
+          </button>
+          <button
+            onClick={() => result && onImport(result.sequences, 'replace')}
+            disabled={!canImport}
+            className="text-xs px-3 py-1.5 rounded bg-uvm-accent text-gray-900 font-semibold hover:bg-sky-400 disabled:opacity-40"
+          >
+            Replace Sequences
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SvImportDialog;
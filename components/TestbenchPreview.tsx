@@ -0,0 +1,58 @@
+import React, { useState, useMemo } from 'react';
+import { BusProtocol, RegisterMap, SequenceDef, TransactionItemDef } from '../types';
+import { generateTestbench } from '../services/testbenchGenerator';
+import { createZip } from '../services/zip';
+import { downloadBlob } from '../services/download';
+import CodeBlock from './CodeBlock';
+
+interface TestbenchPreviewProps {
+  library: SequenceDef[];
+  protocol: BusProtocol;
+  item: TransactionItemDef;
+  registers: RegisterMap;
+}
+
+const TestbenchPreview: React.FC<TestbenchPreviewProps> = ({ library, protocol, item, registers }) => {
+  const files = useMemo(() => generateTestbench(library, protocol, item, registers), [library, protocol, item, registers]);
+  const [selected, setSelected] = useState(files[0].name);
+  const current = files.find(f => f.name === selected) || files[0];
+
+  const downloadZip = () => downloadBlob(createZip(files.map(f => ({ name: `uvm_tb/${f.name}`, content: f.content }))), 'uvm_tb.zip');
+
+  return (
+    <div className="flex-1 flex min-h-0">
+      {/* File list */}
+      <div className="w-52 shrink-0 border-r border-[#3e3e42] flex flex-col">
+        <div className="flex-1 overflow-y-auto py-2">
+          {files.map(f => (
+            <button
+              key={f.name}
+              onClick={() => setSelected(f.name)}
+              className={`w-full text-left px-3 py-1 text-xs font-mono flex justify-between gap-2 ${f.name === current.name
+                ? 'bg-[#37373d] text-white'
+                : 'text-gray-400 hover:bg-[#2a2d2e] hover:text-gray-200'}`}
+            >
+              <span className="truncate">{f.name}</span>
+              <span className="text-gray-600 truncate">{f.description}</span>
+            </button>
+          ))}
+        </div>
+        <div className="p-3 border-t border-[#3e3e42]">
+          <button
+            onClick={downloadZip}
+            className="w-full py-1.5 text-xs bg-uvm-accent text-gray-900 font-semibold rounded hover:bg-sky-400"
+          >
+            Download uvm_tb.zip
+          </button>
+        </div>
+      </div>
+
+      {/* File content */}
+      <div className="flex-1 overflow-auto min-w-0">
+        <CodeBlock code={current.content} language={/\.svh?$/.test(current.name) ? 'systemverilog' : 'text'} header={false} className="min-h-full" />
+      </div>
+    </div>
+  );
+};
+
+export default TestbenchPreview;
@@ -0,0 +1,219 @@
+import React, { useState, useMemo } from 'react';
+import { Topology, TopologyComponent, TopologyKind } from '../types';
+import {
+  TOPOLOGY_EXAMPLES, TOPOLOGY_KINDS, addComponent, childrenOf, exportName, generateTopologyFiles, relativePath, removeComponent, topologyIssues
+} from '../services/topology';
+import { createZip } from '../services/zip';
+import { downloadBlob } from '../services/download';
+import CodeBlock from './CodeBlock';
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-uvm-accent focus:outline-none';
+
+const KIND_CLASSES: Record<TopologyKind, string> = {
+  agent: 'text-indigo-300 border-indigo-700',
+  scoreboard: 'text-emerald-300 border-emerald-700',
+  coverage: 'text-lime-300 border-lime-700',
+  env: 'text-teal-300 border-teal-700',
+  virtual_sequencer: 'text-amber-300 border-amber-600'
+};
+
+const KIND_BADGES: Record<TopologyKind, string> = {
+  agent: 'agent',
+  scoreboard: 'sb',
+  coverage: 'cov',
+  env: 'env',
+  virtual_sequencer: 'vseqr'
+};
+
+interface TopologyEditorProps {
+  topology: Topology;
+  onChange: (topology: Topology) => void;
+  onShowDiagram: () => void;
+}
+
+const TopologyEditor: React.FC<TopologyEditorProps> = ({ topology, onChange, onShowDiagram }) => {
+  const files = useMemo(() => generateTopologyFiles(topology), [topology]);
+  const issues = useMemo(() => topologyIssues(topology), [topology]);
+  const [selected, setSelected] = useState(files[0].name);
+  const current = files.find(f => f.name === selected) || files[0];
+
+  const agents = topology.components.filter(c => c.kind === 'agent');
+  const subscribers = topology.components.filter(c => c.kind === 'scoreboard' || c.kind === 'coverage');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const from = agents.find(a => a.id === fromId) || agents[0];
+  const to = subscribers.find(s => s.id === toId) || subscribers[0];
+  const connected = !!from && !!to && topology.connections.some(c => c.fromId === from.id && c.toId === to.id);
+
+  const update = (id: string, patch: Partial<TopologyComponent>) =>
+    onChange({ ...topology, components: topology.components.map(c => (c.id === id ? { ...c, ...patch } : c)) });
+
+  const connect = () => onChange({ ...topology, connections: [...topology.connections, { id: Date.now().toString(), fromId: from!.id, toId: to!.id }] });
+
+  const downloadZip = () => downloadBlob(createZip(files.map(f => ({ name: `env/${f.name}`, content: f.content }))), `${topology.envType}.zip`);
+
+  const addButtons = (parentId: string | null) => (
+    <div className="flex flex-wrap gap-1">
+      {(Object.keys(TOPOLOGY_KINDS) as TopologyKind[]).map(kind => (
+        <button
+          key={kind}
+          onClick={() => onChange(addComponent(topology, kind, parentId))}
+          className="text-[11px] text-gray-300 hover:text-white border border-gray-600 px-2 py-0.5 rounded"
+          title={`Add a ${TOPOLOGY_KINDS[kind].base}`}
+        >
+          + {TOPOLOGY_KINDS[kind].label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderEnv = (parentId: string | null): React.ReactNode => (
+    <div className="space-y-1.5">
+      {childrenOf(topology, parentId).map(c => (
+        <div key={c.id} className="space-y-1.5">
+          <div className="flex items-center gap-2 text-xs">
+            <span className={`w-12 shrink-0 text-center text-[10px] uppercase tracking-wider border rounded px-1 ${KIND_CLASSES[c.kind]}`}>{KIND_BADGES[c.kind]}</span>
+            <input value={c.name} onChange={(e) => update(c.id, { name: e.target.value })} className={`${inputClass} text-gray-200 w-28`} title="Instance name" />
+            <input value={c.typeName} onChange={(e) => update(c.id, { typeName: e.target.value })} className={`${inputClass} text-green-300 flex-1 min-w-0`} title={`Class, extends ${TOPOLOGY_KINDS[c.kind].base}`} />
+            {c.kind === 'agent' && (
+              <select value={c.active ? 'active' : 'passive'} onChange={(e) => update(c.id, { active: e.target.value === 'active' })} className={`${inputClass} text-purple-300`}>
+                <option value="active">UVM_ACTIVE</option>
+                <option value="passive">UVM_PASSIVE</option>
+              </select>
+            )}
+            <button onClick={() => onChange(removeComponent(topology, c.id))} className="text-gray-500 hover:text-red-400" title="Remove">✕</button>
+          </div>
+          {c.kind === 'env' && (
+            <div className="ml-6 pl-3 border-l border-teal-900 space-y-1.5">
+              {renderEnv(c.id)}
+              {addButtons(c.id)}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-uvm-bg text-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/50 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <span className="text-teal-400">⌬</span> Testbench Topology
+          </h2>
+          <p className="text-xs text-gray-400">Agents, checkers and sub-envs in the env. The architecture diagram draws this, and the env code follows it.</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <select
+            value=""
+            onChange={(e) => onChange(TOPOLOGY_EXAMPLES.find(x => x.id === e.target.value)!.topology)}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 focus:border-uvm-accent focus:outline-none max-w-[16rem]"
+          >
+            <option value="" disabled>Load an example…</option>
+            {TOPOLOGY_EXAMPLES.map(x => <option key={x.id} value={x.id}>{x.title}</option>)}
+          </select>
+          <button onClick={onShowDiagram} className="text-sm text-gray-300 hover:text-white border border-gray-600 px-3 py-1 rounded">
+            View diagram
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Left: the component tree and analysis connections */}
+        <div className="w-[34rem] border-r border-gray-700 bg-gray-800/30 flex flex-col p-4 overflow-y-auto shrink-0 space-y-6">
+          <section className="space-y-2">
+            <h3 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">Components</h3>
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="w-12 shrink-0 text-center text-[10px] uppercase tracking-wider border rounded px-1 text-teal-300 border-teal-700">top</span>
+              <span className="font-mono text-gray-300 w-28">env</span>
+              <input value={topology.envType} onChange={(e) => onChange({ ...topology, envType: e.target.value })} className={`${inputClass} text-green-300 flex-1 min-w-0`} title="Class of the env the test creates" />
+            </div>
+            <div className="ml-6 pl-3 border-l border-teal-900 space-y-1.5">
+              {renderEnv(null)}
+              {addButtons(null)}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">Analysis connections</h3>
+            {topology.connections.length === 0 && <p className="text-xs text-gray-500 italic">No monitor is connected to a checker yet.</p>}
+            {topology.connections.map(c => (
+              <div key={c.id} className="flex items-center gap-2 text-xs font-mono">
+                <span className="text-indigo-300">{relativePath(topology, c.fromId)}.ap</span>
+                <span className="text-gray-500">→</span>
+                <span className="text-emerald-300">{relativePath(topology, c.toId)}.{exportName(topology, c)}</span>
+                <button
+                  onClick={() => onChange({ ...topology, connections: topology.connections.filter(x => x.id !== c.id) })}
+                  className="ml-auto text-gray-500 hover:text-red-400"
+                  title="Disconnect"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {agents.length > 0 && subscribers.length > 0 ? (
+              <div className="flex items-center gap-2 pt-1">
+                <select value={from?.id} onChange={(e) => setFromId(e.target.value)} className={`${inputClass} text-indigo-300 flex-1 min-w-0`}>
+                  {agents.map(a => <option key={a.id} value={a.id}>{relativePath(topology, a.id)}.ap</option>)}
+                </select>
+                <span className="text-gray-500 text-xs">→</span>
+                <select value={to?.id} onChange={(e) => setToId(e.target.value)} className={`${inputClass} text-emerald-300 flex-1 min-w-0`}>
+                  {subscribers.map(s => <option key={s.id} value={s.id}>{relativePath(topology, s.id)}</option>)}
+                </select>
+                <button
+                  onClick={connect}
+                  disabled={connected}
+                  className="text-xs text-gray-300 hover:text-white border border-gray-600 px-2 py-1 rounded disabled:opacity-40"
+                  title={connected ? 'Already connected' : undefined}
+                >
+                  Connect
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Add an agent and a scoreboard or coverage collector to connect them.</p>
+            )}
+          </section>
+
+          {issues.length > 0 && (
+            <ul className="text-xs text-amber-300 border border-amber-900/50 bg-amber-900/10 rounded p-2 space-y-0.5">
+              {issues.map((issue, i) => <li key={i}>⚠ {issue}</li>)}
+            </ul>
+          )}
+        </div>
+
+        {/* Right: generated env classes */}
+        <div className="flex-1 flex min-w-0 bg-[#1e1e1e]">
+          <div className="w-56 shrink-0 border-r border-[#3e3e42] flex flex-col">
+            <div className="flex-1 overflow-y-auto py-2">
+              {files.map(f => (
+                <button
+                  key={f.name}
+                  onClick={() => setSelected(f.name)}
+                  className={`w-full text-left px-3 py-1 text-xs font-mono ${f.name === current.name
+                    ? 'bg-[#37373d] text-white'
+                    : 'text-gray-400 hover:bg-[#2a2d2e] hover:text-gray-200'}`}
+                >
+                  <span className="block truncate">{f.name}</span>
+                  <span className="block text-gray-600 truncate">{f.description}</span>
+                </button>
+              ))}
+            </div>
+            <div className="p-3 border-t border-[#3e3e42]">
+              <button
+                onClick={downloadZip}
+                className="w-full py-1.5 text-xs bg-uvm-accent text-gray-900 font-semibold rounded hover:bg-sky-400"
+              >
+                Download {topology.envType}.zip
+              </button>
+            </div>
+          </div>
+          <div className="flex-1 overflow-auto min-w-0">
+            <CodeBlock code={current.content} header={false} className="min-h-full" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TopologyEditor;
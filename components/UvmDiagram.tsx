@@ -1,5 +1,12 @@
-import React from 'react';
-import { UvmComponentType } from '../types';
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
+import { SimulationStep, Topology, TopologyComponent, UvmComponentType, WalkthroughScenario } from '../types';
+import { Box, Segment, arrowBetween, boxCentre, pointAlong } from '../services/diagramGeometry';
+import { childrenOf, primaryComponents } from '../services/topology';
+
+// Token timing at 1x: each arrow takes TRAVEL_MS, then the token rests on the step's component
+const TRAVEL_MS = 1400;
+const DWELL_MS = 1200;
+const SPEEDS = [0.5, 1, 2, 4];
 
 interface UvmDiagramProps {
   activeComponent: UvmComponentType;
@@ -10,6 +17,14 @@ interface UvmDiagramProps {
   onPrevStep: () => void;
   onStopSimulation: () => void;
   totalSteps: number;
+  step: SimulationStep | null;          // The walkthrough step on screen; its arrows are drawn and animated
+  onGoToStep: (index: number) => void;  // Used by autoplay and the scrubber
+  scenarios: WalkthroughScenario[];
+  scenarioId: string;
+  onSelectScenario: (id: string) => void;
+  onManageScenarios: () => void;
+  topology: Topology;                   // What to draw; walkthroughs animate its first active agent and first scoreboard
+  onEditTopology: () => void;
 }
 
 const UvmDiagram: React.FC<UvmDiagramProps> = ({ 
@@ -20,13 +35,144 @@ const UvmDiagram: React.FC<UvmDiagramProps> = ({
   onNextStep,
   onPrevStep,
   onStopSimulation,
-  totalSteps
+  totalSteps,
+  step,
+  onGoToStep,
+  scenarios,
+  scenarioId,
+  onSelectScenario,
+  onManageScenarios,
+  topology,
+  onEditTopology
 }) => {
   const isSimulating = simulationStepIndex >= 0;
 
-  const getClasses = (type: UvmComponentType) => {
-    const isActive = activeComponent === type;
-    const base = "uvm-block cursor-pointer border-2 rounded-lg flex items-center justify-center font-bold text-sm md:text-base text-center p-2 relative select-none transition-all duration-300";
+  // Block positions, measured so arrows follow the layout at any size. A block is keyed by its
+  // topology id (plus ".driver" etc. for an agent's parts) and, for the blocks walkthroughs use, its type.
+  const gridRef = useRef<HTMLDivElement>(null);
+  const blockRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const [boxes, setBoxes] = useState<Record<string, Box>>({});
+  const block = (...keys: (string | null)[]) => (el: HTMLDivElement | null) => {
+    keys.forEach(key => { if (key) blockRefs.current[key] = el; });
+  };
+
+  useLayoutEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    // offset* ignore the scale transform on the active block, so arrows don't jump while it animates
+    const measure = () => {
+      const measured: Record<string, Box> = {};
+      (Object.entries(blockRefs.current) as [string, HTMLDivElement | null][]).forEach(([key, el]) => {
+        if (!el) return;
+        let x = 0;
+        let y = 0;
+        for (let node: HTMLElement | null = el; node && node !== grid; node = node.offsetParent as HTMLElement | null) {
+          x += node.offsetLeft;
+          y += node.offsetTop;
+        }
+        measured[key] = { x, y, width: el.offsetWidth, height: el.offsetHeight };
+      });
+      setBoxes(measured);
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [topology]);
+
+  const segments = useMemo((): Segment[] => (step?.highlightConnections || []).flatMap(connection => {
+    const [from, to] = connection.split('->');
+    return boxes[from] && boxes[to] ? [arrowBetween(boxes[from], boxes[to])] : [];
+  }), [step, boxes]);
+
+  // Progress through the current step: the token travels the arrows, then rests until the step's time is up
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [progress, setProgressState] = useState(0);
+  const progressRef = useRef(0);
+  const held = useRef(false);                     // Scrubbed while paused: stay put
+  const pendingProgress = useRef<number | null>(null);
+  const duration = Math.max(segments.length, 1) * TRAVEL_MS + DWELL_MS;
+  const travelEnd = (duration - DWELL_MS) / duration;
+
+  const setProgress = (value: number) => {
+    progressRef.current = value;
+    setProgressState(value);
+  };
+
+  useEffect(() => {
+    setProgress(pendingProgress.current ?? 0);
+    held.current = pendingProgress.current !== null && !playing;
+    pendingProgress.current = null;
+  }, [simulationStepIndex, scenarioId]);
+
+  useEffect(() => {
+    if (!isSimulating) setPlaying(false);
+  }, [isSimulating]);
+
+  useEffect(() => {
+    if (!isSimulating || (!playing && held.current)) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      if (!playing && held.current) return; // Scrubbed mid-animation
+      const next = progressRef.current + ((now - last) * speed) / duration;
+      last = now;
+      if (playing && next >= 1) {
+        if (simulationStepIndex < totalSteps - 1) {
+          onGoToStep(simulationStepIndex + 1);
+        } else {
+          setProgress(1);
+          setPlaying(false);
+        }
+        return;
+      }
+      // Paused, a step still plays its arrows once when entered
+      if (!playing && next >= travelEnd) {
+        if (progressRef.current < travelEnd) setProgress(travelEnd);
+        return;
+      }
+      setProgress(next);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isSimulating, playing, speed, simulationStepIndex, duration, travelEnd, totalSteps]);
+
+  const scrub = (value: number) => {
+    const index = Math.min(Math.floor(value), totalSteps - 1);
+    const within = Math.min(value - index, 1);
+    setPlaying(false);
+    held.current = true;
+    if (index === simulationStepIndex) {
+      setProgress(within);
+    } else {
+      pendingProgress.current = within;
+      onGoToStep(index);
+    }
+  };
+
+  const togglePlay = () => {
+    if (!playing && simulationStepIndex === totalSteps - 1 && progressRef.current >= 1) {
+      // Replay from the start
+      setProgress(0);
+      onGoToStep(0);
+    }
+    held.current = false;
+    setPlaying(!playing);
+  };
+
+  const tokenAt = segments.length
+    ? pointAlong(segments, progress / travelEnd)
+    : step && boxes[step.component] ? boxCentre(boxes[step.component]) : null;
+  const payloadText = step?.payload
+    ? [step.payload.kind, step.payload.addr && `addr=${step.payload.addr}`, step.payload.data && `data=${step.payload.data}`].filter(Boolean).join(' ')
+    : '';
+
+  const getClasses = (type: UvmComponentType, primary = true, size = 'text-sm md:text-base') => {
+    // Only the agent and scoreboard the walkthroughs use light up with the selection while simulating
+    const isActive = activeComponent === type && (primary || !isSimulating);
+    const base = `uvm-block cursor-pointer border-2 rounded-lg flex flex-col items-center justify-center font-bold ${size} text-center p-2 relative select-none transition-all duration-300`;
     
     let colorClass = "";
     switch (type) {
@@ -41,6 +187,7 @@ const UvmDiagram: React.FC<UvmDiagramProps> = ({
       case UvmComponentType.DUT: colorClass = "border-slate-500 bg-slate-700 text-slate-100"; break;
       case UvmComponentType.INTERFACE: colorClass = "border-yellow-200/50 border-dashed bg-transparent text-yellow-100/70"; break;
       case UvmComponentType.SEQUENCE: colorClass = "border-amber-400 border-dotted bg-transparent text-amber-400"; break;
+      case UvmComponentType.CONFIG_DB: colorClass = "border-cyan-700 border-dashed bg-cyan-900/20 text-cyan-200"; break;
       default: colorClass = "border-gray-600";
     }
 
@@ -55,12 +202,113 @@ const UvmDiagram: React.FC<UvmDiagramProps> = ({
     return `${base} ${colorClass} opacity-80 hover:opacity-100`;
   };
 
+  const select = (type: UvmComponentType) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!isSimulating) onSelectComponent(type);
+  };
+
+  const { agent: primaryAgent, scoreboard: primaryScoreboard } = useMemo(() => primaryComponents(topology), [topology]);
+
+  // Class and instance name under a block's UVM base class
+  const names = (c: TopologyComponent) => (
+    <span className="block text-[10px] font-mono font-normal opacity-80 truncate max-w-full">{c.name}: {c.typeName}</span>
+  );
+
+  const renderAgent = (agent: TopologyComponent) => {
+    const primary = agent.id === primaryAgent?.id;
+    const key = (type: UvmComponentType, part: string) => [primary ? type : null, `${agent.id}.${part}`];
+    return (
+      <div key={agent.id} className="flex-1 min-w-[14rem] flex flex-col gap-2 p-2 rounded-lg border border-indigo-900/60 bg-indigo-950/20">
+        <div ref={block(primary ? UvmComponentType.AGENT : null, agent.id)} className={getClasses(UvmComponentType.AGENT, primary, 'text-sm')} onClick={select(UvmComponentType.AGENT)}>
+          uvm_agent {names(agent)}
+        </div>
+        <div className="flex gap-2 items-end">
+          {agent.active && (
+            <div className="flex-1 flex flex-col gap-2 items-center">
+              {primary && (
+                <div ref={block(UvmComponentType.SEQUENCE)} className={`${getClasses(UvmComponentType.SEQUENCE, true, 'text-xs')} h-8 w-20`} onClick={select(UvmComponentType.SEQUENCE)}>Seq Item</div>
+              )}
+              <div ref={block(...key(UvmComponentType.SEQUENCER, 'sequencer'))} className={`${getClasses(UvmComponentType.SEQUENCER, primary, 'text-xs')} w-full h-14`} onClick={select(UvmComponentType.SEQUENCER)}>
+                sequencer
+              </div>
+            </div>
+          )}
+          {agent.active && (
+            <div ref={block(...key(UvmComponentType.DRIVER, 'driver'))} className={`${getClasses(UvmComponentType.DRIVER, primary, 'text-xs')} flex-1 h-14`} onClick={select(UvmComponentType.DRIVER)}>
+              driver
+            </div>
+          )}
+          <div ref={block(...key(UvmComponentType.MONITOR, 'monitor'))} className={`${getClasses(UvmComponentType.MONITOR, primary, 'text-xs')} flex-1 h-14`} onClick={select(UvmComponentType.MONITOR)}>
+            monitor
+          </div>
+        </div>
+        <div ref={block(...key(UvmComponentType.INTERFACE, 'vif'))} className={getClasses(UvmComponentType.INTERFACE, primary, 'text-xs')} onClick={select(UvmComponentType.INTERFACE)}>
+          Virtual Interface{!agent.active && <span className="block text-[10px] font-normal opacity-80">passive: monitor only</span>}
+        </div>
+      </div>
+    );
+  };
+
+  // Coverage collectors and virtual sequencers have no explanation of their own, so they aren't selectable
+  const renderLeaf = (c: TopologyComponent) => {
+    if (c.kind === 'scoreboard') {
+      const primary = c.id === primaryScoreboard?.id;
+      return (
+        <div key={c.id} ref={block(primary ? UvmComponentType.SCOREBOARD : null, c.id)} className={`${getClasses(UvmComponentType.SCOREBOARD, primary, 'text-sm')} min-w-[9rem] self-stretch`} onClick={select(UvmComponentType.SCOREBOARD)}>
+          uvm_scoreboard {names(c)}
+        </div>
+      );
+    }
+    const look = c.kind === 'coverage'
+      ? 'border-lime-700 bg-lime-900/30 text-lime-200'
+      : 'border-amber-500 border-dashed bg-amber-900/20 text-amber-200';
+    return (
+      <div key={c.id} ref={block(c.id)} className={`uvm-block border-2 rounded-lg flex flex-col items-center justify-center font-bold text-sm text-center p-2 relative select-none min-w-[9rem] self-stretch ${look} ${isSimulating ? 'opacity-40 grayscale' : 'opacity-80'}`}>
+        {c.kind === 'coverage' ? 'uvm_subscriber' : 'virtual sequencer'} {names(c)}
+      </div>
+    );
+  };
+
+  const renderEnv = (parentId: string | null): React.ReactNode => (
+    <div className="flex flex-wrap gap-4 items-start">
+      {childrenOf(topology, parentId).map(c => c.kind === 'agent' ? renderAgent(c) : c.kind === 'env' ? (
+        <div key={c.id} className="flex-[2] min-w-[16rem] flex flex-col gap-3 p-3 rounded-lg border border-teal-900/60 bg-teal-950/20">
+          <div ref={block(c.id)} className={getClasses(UvmComponentType.ENV, false, 'text-sm')} onClick={select(UvmComponentType.ENV)}>
+            uvm_env {names(c)}
+          </div>
+          {renderEnv(c.id)}
+        </div>
+      ) : renderLeaf(c))}
+    </div>
+  );
+
+  // Analysis connections, drawn behind the blocks when no walkthrough is running
+  const analysisLines = topology.connections.flatMap(c => {
+    const from = boxes[`${c.fromId}.monitor`];
+    const to = boxes[c.toId];
+    return from && to ? [{ id: c.id, segment: arrowBetween(from, to) }] : [];
+  });
+
   return (
     <div className="w-full h-full p-4 bg-uvm-bg flex flex-col items-center overflow-auto relative">
       <div className="w-full max-w-[800px] flex justify-between items-center mb-4 z-20">
         <h2 className="text-xl font-mono text-gray-400">Architecture</h2>
         
         {!isSimulating ? (
+          <div className="flex items-center gap-2">
+             <select
+                value={scenarioId}
+                onChange={(e) => onSelectScenario(e.target.value)}
+                title={scenarios.find(s => s.id === scenarioId)?.summary}
+                className="bg-gray-800 border border-gray-600 rounded-full px-3 py-1.5 text-sm text-gray-200 focus:border-indigo-400 focus:outline-none max-w-[14rem]"
+             >
+                {scenarios.map(s => (
+                    <option key={s.id} value={s.id}>{s.title}</option>
+                ))}
+             </select>
+             <button onClick={onManageScenarios} className="text-xs text-gray-400 hover:text-white" title="Import or remove your own walkthroughs">
+                Import…
+             </button>
              <button 
                 onClick={onStartSimulation}
                 className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-1.5 rounded-full text-sm font-semibold transition-all shadow-lg shadow-indigo-900/50"
@@ -68,6 +316,7 @@ const UvmDiagram: React.FC<UvmDiagramProps> = ({
                 <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><polygon points="5 3 19 12 5 21 5 3"></polygon></svg>
                 Walkthrough Flow
              </button>
+          </div>
         ) : (
             <div className="flex items-center gap-2 bg-gray-800 p-1 rounded-lg border border-gray-600">
                 <button onClick={onStopSimulation} className="p-1.5 hover:bg-red-900/50 rounded text-red-300">
@@ -83,126 +332,104 @@ const UvmDiagram: React.FC<UvmDiagramProps> = ({
                 <button onClick={onNextStep} disabled={simulationStepIndex === totalSteps - 1} className="p-1.5 hover:bg-gray-700 rounded disabled:opacity-30">
                      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="9 18 15 12 9 6"></polyline></svg>
                 </button>
+                <div className="h-4 w-[1px] bg-gray-600 mx-1"></div>
+                <button onClick={togglePlay} className="p-1.5 hover:bg-gray-700 rounded text-indigo-300" title={playing ? 'Pause' : 'Play through the steps'}>
+                    {playing ? (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="4" width="4" height="16"></rect><rect x="14" y="4" width="4" height="16"></rect></svg>
+                    ) : (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><polygon points="5 3 19 12 5 21 5 3"></polygon></svg>
+                    )}
+                </button>
+                <select
+                    value={speed}
+                    onChange={(e) => setSpeed(Number(e.target.value))}
+                    className="bg-transparent text-xs font-mono text-gray-300 focus:outline-none"
+                    title="Playback speed"
+                >
+                    {SPEEDS.map(s => <option key={s} value={s} className="bg-gray-800">{s}x</option>)}
+                </select>
             </div>
         )}
       </div>
       
-      {/* Container for the specific Grid Layout */}
-      <div className="relative grid gap-4 p-6 rounded-xl border border-gray-700 bg-gray-900/50 shadow-2xl" 
-           style={{
-             display: 'grid',
-             gridTemplateAreas: `
-               "top top top top top"
-               "test test test test test"
-               "env env env env env"
-               "agent agent agent sb sb"
-               "seq drv mon mon sb"
-               "seq drv if  if  sb"
-               ".   dut dut dut ."
-             `,
-             gridTemplateColumns: '1fr 1fr 0.5fr 1fr 1fr',
-             gridTemplateRows: 'auto auto auto auto auto auto auto',
-             maxWidth: '800px',
-             width: '100%'
-           }}>
-
-        {/* Top */}
-        <div className={getClasses(UvmComponentType.TOP)} style={{ gridArea: 'top' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.TOP)}>
-          TB TOP
-        </div>
-
-        {/* Test */}
-        <div className={getClasses(UvmComponentType.TEST)} style={{ gridArea: 'test' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.TEST)}>
-          uvm_test
-        </div>
-
-        {/* Env */}
-        <div className={getClasses(UvmComponentType.ENV)} style={{ gridArea: 'env' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.ENV)}>
-          uvm_env
-        </div>
+      {isSimulating && (
+        <input
+          type="range"
+          min={0}
+          max={totalSteps}
+          step={0.01}
+          value={simulationStepIndex + progress}
+          onChange={(e) => scrub(Number(e.target.value))}
+          className="w-full max-w-[800px] mb-4 accent-indigo-500"
+          title="Scrub through the walkthrough"
+        />
+      )}
 
-        {/* Agent */}
-        <div className={getClasses(UvmComponentType.AGENT)} style={{ gridArea: 'agent' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.AGENT)}>
-          uvm_agent
-        </div>
+      <div ref={gridRef} className="relative flex flex-col gap-4 p-6 rounded-xl border border-gray-700 bg-gray-900/50 shadow-2xl"
+           style={{ maxWidth: topology.components.length > 3 ? '1200px' : '800px', width: '100%' }}>
 
-        {/* Sequencer */}
-        <div className={getClasses(UvmComponentType.SEQUENCER)} style={{ gridArea: 'seq' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.SEQUENCER)}>
-          uvm_sequencer
-          <div className="absolute -top-12 left-0 w-full flex justify-center">
-             <div className={`${getClasses(UvmComponentType.SEQUENCE)} text-xs h-8 w-20 flex items-center justify-center`} onClick={(e) => { e.stopPropagation(); !isSimulating && onSelectComponent(UvmComponentType.SEQUENCE); }}>Seq Item</div>
-          </div>
-        </div>
+        {analysisLines.length > 0 && !isSimulating && (
+            <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" style={{ overflow: 'visible' }}>
+                <defs>
+                    <marker id="analysis-arrowhead" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+                        <polygon points="0 0, 8 3, 0 6" fill="#34d399" />
+                    </marker>
+                </defs>
+                {analysisLines.map(({ id, segment: [a, b] }) => (
+                    <line key={id} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#34d399" strokeOpacity="0.6" strokeWidth="2" strokeDasharray="6 4" markerEnd="url(#analysis-arrowhead)" />
+                ))}
+            </svg>
+        )}
 
-        {/* Driver */}
-        <div className={getClasses(UvmComponentType.DRIVER)} style={{ gridArea: 'drv' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.DRIVER)}>
-          uvm_driver
+        <div ref={block(UvmComponentType.TOP)} className={getClasses(UvmComponentType.TOP)} onClick={select(UvmComponentType.TOP)}>
+          TB TOP
         </div>
 
-        {/* Monitor */}
-        <div className={getClasses(UvmComponentType.MONITOR)} style={{ gridArea: 'mon' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.MONITOR)}>
-          uvm_monitor
+        <div ref={block(UvmComponentType.TEST)} className={getClasses(UvmComponentType.TEST)} onClick={select(UvmComponentType.TEST)}>
+          uvm_test
         </div>
 
-        {/* Scoreboard */}
-        <div className={getClasses(UvmComponentType.SCOREBOARD)} style={{ gridArea: 'sb' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.SCOREBOARD)}>
-          uvm_scoreboard
+        <div className="flex gap-4">
+          <div ref={block(UvmComponentType.ENV)} className={`${getClasses(UvmComponentType.ENV)} flex-[4]`} onClick={select(UvmComponentType.ENV)}>
+            uvm_env <span className="block text-[10px] font-mono font-normal opacity-80">env: {topology.envType}</span>
+          </div>
+          <div ref={block(UvmComponentType.CONFIG_DB)} className={`${getClasses(UvmComponentType.CONFIG_DB, true, 'text-xs')} flex-1`} onClick={select(UvmComponentType.CONFIG_DB)}>
+            uvm_config_db
+          </div>
         </div>
 
-        {/* Interface */}
-        <div className={getClasses(UvmComponentType.INTERFACE)} style={{ gridArea: 'if' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.INTERFACE)}>
-          Virtual Interface
-        </div>
+        {topology.components.length ? renderEnv(null) : (
+          <div className="text-xs text-gray-500 italic text-center py-4">The env is empty. Add agents and checkers in the topology editor.</div>
+        )}
 
-        {/* DUT */}
-        <div className={getClasses(UvmComponentType.DUT)} style={{ gridArea: 'dut' }} onClick={() => !isSimulating && onSelectComponent(UvmComponentType.DUT)}>
-          DUT (Design Under Test)
+        <div className="flex justify-center">
+          <div ref={block(UvmComponentType.DUT)} className={`${getClasses(UvmComponentType.DUT)} w-3/5`} onClick={select(UvmComponentType.DUT)}>
+            DUT (Design Under Test)
+          </div>
         </div>
 
         {/* Arrows for Walkthrough - SVG Overlay */}
         {isSimulating && (
-            <svg className="absolute top-0 left-0 w-full h-full pointer-events-none z-0" style={{ overflow: 'visible' }}>
+            <svg className="absolute top-0 left-0 w-full h-full pointer-events-none z-20" style={{ overflow: 'visible' }}>
                 <defs>
                     <marker id="arrowhead" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
                         <polygon points="0 0, 10 3.5, 0 7" fill="#6366f1" />
                     </marker>
                 </defs>
-                {/* 
-                   Coordinates are approximate percentages based on the grid layout.
-                   Adjusting logic to draw based on current step would be ideal, 
-                   but strictly hardcoding lines for the specific tutorial steps is robust here.
-                */}
-                
-                {/* Step 1: Sequence -> Sequencer */}
-                {simulationStepIndex === 1 && (
-                    <line x1="15%" y1="52%" x2="15%" y2="58%" stroke="#6366f1" strokeWidth="3" markerEnd="url(#arrowhead)" className="animate-pulse" />
+                {segments.map(([a, b], i) => (
+                    <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#6366f1" strokeWidth="3" markerEnd="url(#arrowhead)" className="animate-pulse" />
+                ))}
+                {tokenAt && (
+                    <g transform={`translate(${tokenAt.x} ${tokenAt.y})`}>
+                        <circle r="7" fill="#a5b4fc" stroke="#312e81" strokeWidth="2" />
+                        {payloadText && (
+                            <>
+                                <rect x={10} y={-22} width={payloadText.length * 6.2 + 12} height={18} rx={9} fill="#1e1b4b" stroke="#6366f1" />
+                                <text x={16} y={-9} fill="#e0e7ff" fontSize="10" fontFamily="JetBrains Mono, monospace">{payloadText}</text>
+                            </>
+                        )}
+                    </g>
                 )}
-
-                {/* Step 2: Sequencer -> Driver */}
-                {simulationStepIndex === 2 && (
-                    <line x1="15%" y1="65%" x2="35%" y2="65%" stroke="#6366f1" strokeWidth="3" markerEnd="url(#arrowhead)" className="animate-pulse" />
-                )}
-
-                {/* Step 3: Driver -> Interface */}
-                {simulationStepIndex === 3 && (
-                    <line x1="35%" y1="70%" x2="45%" y2="82%" stroke="#6366f1" strokeWidth="3" markerEnd="url(#arrowhead)" className="animate-pulse" />
-                )}
-
-                {/* Step 4: Interface -> DUT */}
-                {simulationStepIndex === 4 && (
-                    <line x1="50%" y1="88%" x2="50%" y2="92%" stroke="#6366f1" strokeWidth="3" markerEnd="url(#arrowhead)" className="animate-pulse" />
-                )}
-
-                {/* Step 5: Interface -> Monitor */}
-                {simulationStepIndex === 5 && (
-                    <line x1="55%" y1="82%" x2="65%" y2="70%" stroke="#6366f1" strokeWidth="3" markerEnd="url(#arrowhead)" className="animate-pulse" />
-                )}
-                 
-                 {/* Step 6: Monitor -> Scoreboard */}
-                 {simulationStepIndex === 6 && (
-                    <line x1="75%" y1="65%" x2="85%" y2="65%" stroke="#6366f1" strokeWidth="3" markerEnd="url(#arrowhead)" className="animate-pulse" />
-                )}
-
             </svg>
         )}
       </div>
@@ -211,11 +438,15 @@ const UvmDiagram: React.FC<UvmDiagramProps> = ({
         <div className="mt-8 flex gap-4 text-xs text-gray-400">
             <div className="flex items-center gap-2"><div className="w-3 h-3 bg-pink-900/40 border border-pink-600"></div>Active Path</div>
             <div className="flex items-center gap-2"><div className="w-3 h-3 bg-purple-900/40 border border-purple-600"></div>Passive Path</div>
+            <div className="flex items-center gap-2"><div className="w-4 border-t-2 border-dashed border-emerald-400/60"></div>Analysis Port</div>
+            <button onClick={onEditTopology} className="text-gray-300 hover:text-white underline underline-offset-2">Edit topology</button>
         </div>
       )}
       {isSimulating && (
         <div className="mt-8 text-center">
-            <p className="text-indigo-400 text-sm font-medium animate-pulse">Walkthrough Active: Follow the flow of the transaction</p>
+            <p className="text-indigo-400 text-sm font-medium animate-pulse">
+                Walkthrough: {scenarios.find(s => s.id === scenarioId)?.title}
+            </p>
         </div>
       )}
     </div>
@@ -0,0 +1,148 @@
+import React, { useState, useMemo } from 'react';
+import { ApbSignalMapping, SequenceStep, TransactionKind, VcdDump } from '../types';
+import {
+  APB_SIGNAL_ROLES,
+  REQUIRED_APB_ROLES,
+  extractApbTransfers,
+  guessApbMapping,
+  parseVcd,
+  transfersToSteps
+} from '../services/vcd';
+import { formatHex } from '../services/apbSimulator';
+
+interface VcdImportDialogProps {
+  onImport: (steps: SequenceStep[], mode: 'append' | 'replace') => void;
+  onClose: () => void;
+}
+
+const VcdImportDialog: React.FC<VcdImportDialogProps> = ({ onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [dump, setDump] = useState<VcdDump | null>(null);
+  const [mapping, setMapping] = useState<ApbSignalMapping | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const parsed = parseVcd(await file.text());
+      setDump(parsed);
+      setMapping(guessApbMapping(parsed.signals));
+      setParseError(null);
+    } catch (err) {
+      setDump(null);
+      setMapping(null);
+      setParseError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Re-extract whenever the mapping changes so the preview follows the user's choices.
+  const extraction = useMemo(() => {
+    if (!dump || !mapping) return null;
+    try {
+      const transfers = extractApbTransfers(dump, mapping);
+      return { transfers, steps: transfersToSteps(transfers, dump, mapping), error: null };
+    } catch (err) {
+      return { transfers: [], steps: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [dump, mapping]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-uvm-panel border border-gray-700 rounded-lg shadow-2xl w-full max-w-3xl max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h3 className="font-semibold text-white">Import VCD</h3>
+            <p className="text-xs text-gray-400">Recover APB transfers from a simulation dump, the way the Monitor samples them.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+          <label className="block">
+            <span className="block text-xs text-gray-400 mb-1">Dump file (.vcd)</span>
+            <input type="file" accept=".vcd" onChange={handleFile} className="text-xs text-gray-300" />
+          </label>
+
+          {parseError && (
+            <p className="text-xs text-red-300 border border-red-900/50 bg-red-900/10 rounded p-2">{fileName}: {parseError}</p>
+          )}
+
+          {dump && mapping && (
+            <section>
+              <h4 className="font-semibold text-uvm-accent mb-2 text-xs uppercase tracking-wider">
+                Signal Mapping <span className="text-gray-500 normal-case">({dump.signals.length} signals, timescale {dump.timescale})</span>
+              </h4>
+              <div className="grid grid-cols-2 gap-2">
+                {APB_SIGNAL_ROLES.map(role => (
+                  <label key={role} className="flex items-center gap-2">
+                    <span className="w-20 font-mono text-xs text-gray-300">
+                      {role}{REQUIRED_APB_ROLES.includes(role) && <span className="text-red-400">*</span>}
+                    </span>
+                    <select
+                      value={mapping[role]}
+                      onChange={e => setMapping({ ...mapping, [role]: e.target.value })}
+                      className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono text-gray-200 focus:border-uvm-accent focus:outline-none"
+                    >
+                      <option value="">(unmapped)</option>
+                      {dump.signals.map(sig => (
+                        <option key={sig.id} value={sig.id}>{sig.name}{sig.width > 1 ? ` [${sig.width - 1}:0]` : ''}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {extraction && (
+            <section>
+              <h4 className="font-semibold text-emerald-400 mb-2 text-xs uppercase tracking-wider">
+                Recovered Transfers ({extraction.transfers.length})
+              </h4>
+              {extraction.error ? (
+                <p className="text-xs text-amber-300">{extraction.error}</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto space-y-1 font-mono text-xs">
+                  {extraction.transfers.map((t, i) => (
+                    <div key={i} className="flex gap-3 px-2 py-1 rounded bg-gray-800/60">
+                      <span className="text-gray-500 w-20">#{t.time}</span>
+                      <span className={t.kind === TransactionKind.WRITE ? 'text-pink-300 w-12' : 'text-teal-300 w-12'}>{t.kind}</span>
+                      <span className="text-gray-300">{formatHex(t.addr)}</span>
+                      <span className="text-gray-400">{t.data === null ? 'x' : formatHex(t.data)}</span>
+                    </div>
+                  ))}
+                  {extraction.transfers.length === 0 && (
+                    <p className="text-gray-600 italic">No psel && penable cycles found with this mapping.</p>
+                  )}
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={() => extraction && onImport(extraction.steps, 'append')}
+            disabled={!extraction || extraction.steps.length === 0}
+            className="text-xs px-3 py-1.5 rounded border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+          >
+            Append to Sequence
+          </button>
+          <button
+            onClick={() => extraction && onImport(extraction.steps, 'replace')}
+            disabled={!extraction || extraction.steps.length === 0}
+            className="text-xs px-3 py-1.5 rounded bg-uvm-accent text-gray-900 font-semibold hover:bg-sky-400 disabled:opacity-40"
+          >
+            Replace Sequence
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VcdImportDialog;
@@ -0,0 +1,119 @@
+import React, { useState, useMemo } from 'react';
+import { parseWalkthrough } from '../services/walkthroughFormat';
+import { BUILT_IN_WALKTHROUGHS, CustomWalkthrough, WALKTHROUGH_TEMPLATE } from '../services/walkthroughs';
+import { downloadText } from '../services/download';
+
+interface WalkthroughDialogProps {
+  custom: CustomWalkthrough[];
+  onChange: (custom: CustomWalkthrough[]) => void;
+  onAdded: (id: string) => void;
+  onClose: () => void;
+}
+
+const WalkthroughDialog: React.FC<WalkthroughDialogProps> = ({ custom, onChange, onAdded, onClose }) => {
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState('');
+
+  // Re-validate as the user types so every problem is listed before they add it
+  const result = useMemo(() => {
+    if (!source.trim()) return null;
+    const parsed = parseWalkthrough(source);
+    const id = parsed.scenario?.id;
+    if (id && BUILT_IN_WALKTHROUGHS.some(w => w.id === id)) {
+      return { scenario: null, issues: [`id: "${id}" is a built-in walkthrough; choose another id`] };
+    }
+    return parsed;
+  }, [source]);
+  const replaces = result?.scenario && custom.some(w => w.scenario.id === result.scenario!.id);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setSource(await file.text());
+  };
+
+  const add = () => {
+    if (!result?.scenario) return;
+    const added = { source, scenario: result.scenario };
+    onChange([...custom.filter(w => w.scenario.id !== added.scenario.id), added]);
+    onAdded(added.scenario.id);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-uvm-panel border border-gray-700 rounded-lg shadow-2xl w-full max-w-3xl max-h-full flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h3 className="font-semibold text-white">Walkthroughs</h3>
+            <p className="text-xs text-gray-400">Add your own scenarios, written in YAML or JSON. They are kept in this browser.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+          <section>
+            <h4 className="font-semibold text-uvm-accent mb-2 text-xs uppercase tracking-wider">Imported ({custom.length})</h4>
+            {custom.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">None yet. The {BUILT_IN_WALKTHROUGHS.length} built-in walkthroughs are always available.</p>
+            ) : (
+              <div className="space-y-1">
+                {custom.map(w => (
+                  <div key={w.scenario.id} className="flex items-center gap-3 px-2 py-1 rounded bg-gray-800/60 text-xs">
+                    <span className="text-gray-200 flex-1 truncate" title={w.scenario.summary}>{w.scenario.title}</span>
+                    <span className="text-gray-500 font-mono">{w.scenario.id} · {w.scenario.steps.length} steps</span>
+                    <button onClick={() => downloadText(w.source, `${w.scenario.id}.${w.source.trim().startsWith('{') ? 'json' : 'yaml'}`)} className="text-gray-400 hover:text-white">Download</button>
+                    <button onClick={() => onChange(custom.filter(other => other !== w))} className="text-gray-400 hover:text-red-400">Remove</button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold text-uvm-accent text-xs uppercase tracking-wider">Add a walkthrough</h4>
+              <button onClick={() => { setSource(WALKTHROUGH_TEMPLATE); setFileName(''); }} className="text-xs text-gray-400 hover:text-white">
+                Start from an example
+              </button>
+            </div>
+            <input type="file" accept=".yaml,.yml,.json" onChange={handleFile} className="text-xs text-gray-300" />
+            <textarea
+              value={source}
+              onChange={(e) => { setSource(e.target.value); setFileName(''); }}
+              rows={14}
+              spellCheck={false}
+              placeholder={'format: uvm-walkthrough\nversion: 1\nid: my-scenario\ntitle: My scenario\nsteps:\n  - label: ...\n    component: Driver\n    description: ...\n    code: |\n      ...'}
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 font-mono text-xs text-gray-200 focus:border-uvm-accent focus:outline-none"
+            />
+            {result && (result.issues.length > 0 ? (
+              <ul className="text-xs text-red-300 border border-red-900/50 bg-red-900/10 rounded p-2 space-y-0.5 font-mono">
+                {result.issues.map((issue, i) => <li key={i}>{fileName && `${fileName}: `}{issue}</li>)}
+              </ul>
+            ) : (
+              <p className="text-xs text-emerald-400">
+                "{result.scenario!.title}", {result.scenario!.steps.length} steps{replaces && ' (replaces the imported walkthrough with this id)'}
+              </p>
+            ))}
+          </section>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 text-sm text-gray-300 hover:text-white">Close</button>
+          <button
+            onClick={add}
+            disabled={!result?.scenario}
+            className="px-3 py-1.5 text-sm rounded bg-uvm-accent text-gray-900 font-semibold hover:bg-sky-400 disabled:opacity-40"
+          >
+            Add walkthrough
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WalkthroughDialog;
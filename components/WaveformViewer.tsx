@@ -0,0 +1,151 @@
+import React from 'react';
+import { ApbPhase, SimCycle } from '../types';
+import { APB_WAVE_SIGNALS, VCD_TIMESCALE, WaveSignal, writeVcd } from '../services/vcd';
+import { CLOCK_PERIOD } from '../services/apbSimulator';
+import { downloadText } from '../services/download';
+
+interface WaveformViewerProps {
+  cycles: SimCycle[];
+}
+
+const CYCLE_WIDTH = 48;
+const ROW_HEIGHT = 30;
+const LABEL_WIDTH = 80;
+const AXIS_HEIGHT = 20;
+const WAVE_PAD = 6;
+const SLANT = 4;
+
+const SIGNAL_COLORS: Record<WaveSignal['name'], string> = {
+  clk: '#94a3b8',
+  psel: '#fbbf24',
+  penable: '#fbbf24',
+  pwrite: '#f472b6',
+  paddr: '#38bdf8',
+  pwdata: '#f472b6',
+  prdata: '#34d399'
+};
+
+const valueOf = (c: SimCycle, sig: WaveSignal) => (sig.name === 'clk' ? 1 : c.signals[sig.name]);
+
+const renderBit = (cycles: SimCycle[], sig: WaveSignal, top: number) => {
+  const hi = top + WAVE_PAD;
+  const lo = top + ROW_HEIGHT - WAVE_PAD;
+  let d = '';
+
+  if (sig.name === 'clk') {
+    cycles.forEach((_, i) => {
+      const x = i * CYCLE_WIDTH;
+      d += `${i === 0 ? `M ${x} ${lo}` : ''} V ${hi} H ${x + CYCLE_WIDTH / 2} V ${lo} H ${x + CYCLE_WIDTH} `;
+    });
+  } else {
+    cycles.forEach((c, i) => {
+      const y = valueOf(c, sig) ? hi : lo;
+      d += i === 0 ? `M 0 ${y} ` : `V ${y} `;
+      d += `H ${(i + 1) * CYCLE_WIDTH} `;
+    });
+  }
+
+  return <path d={d} fill="none" stroke={SIGNAL_COLORS[sig.name]} strokeWidth={1.5} />;
+};
+
+const renderBus = (cycles: SimCycle[], sig: WaveSignal, top: number) => {
+  const hi = top + WAVE_PAD;
+  const lo = top + ROW_HEIGHT - WAVE_PAD;
+  const mid = top + ROW_HEIGHT / 2;
+  const segments: { start: number; end: number; value: number }[] = [];
+
+  cycles.forEach((c, i) => {
+    const value = valueOf(c, sig);
+    const prev = segments[segments.length - 1];
+    if (prev && prev.value === value) {
+      prev.end = i + 1;
+    } else {
+      segments.push({ start: i, end: i + 1, value });
+    }
+  });
+
+  return segments.map((seg, i) => {
+    const x0 = seg.start * CYCLE_WIDTH;
+    const x1 = seg.end * CYCLE_WIDTH;
+    const label = seg.value.toString(16).toUpperCase();
+    const fits = (x1 - x0 - 2 * SLANT) > label.length * 7;
+    return (
+      <g key={i}>
+        <path
+          d={`M ${x0} ${mid} L ${x0 + SLANT} ${hi} H ${x1 - SLANT} L ${x1} ${mid} L ${x1 - SLANT} ${lo} H ${x0 + SLANT} Z`}
+          fill={seg.value ? `${SIGNAL_COLORS[sig.name]}22` : 'none'}
+          stroke={SIGNAL_COLORS[sig.name]}
+          strokeWidth={1}
+        />
+        {fits && (
+          <text x={(x0 + x1) / 2} y={mid + 4} textAnchor="middle" fontSize={11} fontFamily="JetBrains Mono, monospace" fill="#e2e8f0">
+            {label}
+          </text>
+        )}
+      </g>
+    );
+  });
+};
+
+const WaveformViewer: React.FC<WaveformViewerProps> = ({ cycles }) => {
+  const downloadVcd = () => downloadText(writeVcd(cycles), 'generated_sequence.vcd');
+
+  const width = cycles.length * CYCLE_WIDTH;
+  const height = AXIS_HEIGHT + APB_WAVE_SIGNALS.length * ROW_HEIGHT;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-4 py-2 flex justify-between items-center border-b border-[#3e3e42] text-xs text-gray-400">
+        <span className="font-mono">{cycles.length} cycles · period {CLOCK_PERIOD} × {VCD_TIMESCALE}</span>
+        <button
+          onClick={downloadVcd}
+          disabled={cycles.length === 0}
+          className="flex items-center gap-1 hover:text-white disabled:opacity-40"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
+          Download VCD
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 flex">
+        {/* Signal names */}
+        <div className="shrink-0 font-mono text-xs text-gray-400" style={{ width: LABEL_WIDTH, paddingTop: AXIS_HEIGHT }}>
+          {APB_WAVE_SIGNALS.map(sig => (
+            <div key={sig.name} className="flex items-center" style={{ height: ROW_HEIGHT }}>
+              {sig.name}{sig.width > 1 && <span className="text-gray-600 ml-1">[{sig.width - 1}:0]</span>}
+            </div>
+          ))}
+        </div>
+
+        {/* Traces */}
+        <svg width={width} height={height} className="shrink-0">
+          {/* Highlight ACCESS cycles, where the monitor samples */}
+          {cycles.map(c => c.phase === ApbPhase.ACCESS && (
+            <rect key={`acc-${c.cycle}`} x={c.cycle * CYCLE_WIDTH} y={AXIS_HEIGHT} width={CYCLE_WIDTH} height={height - AXIS_HEIGHT} fill="#38bdf80d" />
+          ))}
+
+          {/* Time axis: one tick per rising edge */}
+          {cycles.map(c => (
+            <g key={`t-${c.cycle}`}>
+              <line x1={c.cycle * CYCLE_WIDTH} y1={AXIS_HEIGHT - 4} x2={c.cycle * CYCLE_WIDTH} y2={height} stroke="#334155" strokeDasharray="2 4" />
+              <text x={c.cycle * CYCLE_WIDTH + 2} y={AXIS_HEIGHT - 8} fontSize={10} fontFamily="JetBrains Mono, monospace" fill="#64748b">
+                {c.time}
+              </text>
+            </g>
+          ))}
+
+          {APB_WAVE_SIGNALS.map((sig, row) => {
+            const top = AXIS_HEIGHT + row * ROW_HEIGHT;
+            return (
+              <g key={sig.name}>
+                {sig.width === 1 ? renderBit(cycles, sig, top) : renderBus(cycles, sig, top)}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformViewer;
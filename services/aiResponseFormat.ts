@@ -0,0 +1,84 @@
+import { AiResponse, CodeBlock } from "../types";
+import { isObject } from "./guards";
+
+/** JSON schema the model answers component explanations with; see AiResponse. */
+export const AI_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    overview: { type: 'string', description: 'What the component is and why it exists, with an analogy if helpful. Markdown.' },
+    tlmRole: { type: 'string', description: 'How it takes part in the TLM flow: ports, exports, who calls whom. Markdown.' },
+    pitfalls: { type: 'array', items: { type: 'string' }, description: 'Common mistakes and how to avoid them.' },
+    codeBlocks: {
+      type: 'array',
+      description: 'One entry per snippet, e.g. the class, the interface it uses, and a usage example.',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', description: 'Short tab title.' },
+          language: { type: 'string', description: 'Usually systemverilog.' },
+          filename: { type: 'string', description: 'Suggested file name, e.g. my_driver.sv.' },
+          code: { type: 'string' }
+        },
+        required: ['label', 'language', 'code']
+      }
+    }
+  },
+  required: ['overview', 'tlmRole', 'pitfalls', 'codeBlocks']
+};
+
+const expect: (ok: boolean, path: string, message: string) => asserts ok = (ok, path, message) => {
+  if (!ok) throw new Error(`${path}: ${message}`);
+};
+
+/** Checks a decoded reply against AI_RESPONSE_SCHEMA; throws naming the first offending path. */
+export const validateAiResponse = (value: unknown): AiResponse => {
+  expect(isObject(value), 'response', 'expected an object');
+  const { overview, tlmRole, pitfalls, codeBlocks: blocks } = value;
+  expect(typeof overview === 'string' && overview.trim() !== '', 'overview', 'expected text');
+  expect(typeof tlmRole === 'string', 'tlmRole', 'expected text');
+  expect(Array.isArray(pitfalls) && pitfalls.every((p: unknown) => typeof p === 'string'), 'pitfalls', 'expected a list of strings');
+  expect(Array.isArray(blocks), 'codeBlocks', 'expected a list');
+  const codeBlocks: CodeBlock[] = blocks.map((block: unknown, i: number) => {
+    const at = `codeBlocks[${i}]`;
+    expect(isObject(block), at, 'expected an object');
+    const { code, label, language, filename } = block;
+    expect(typeof code === 'string' && code.trim() !== '', `${at}.code`, 'expected code');
+    expect(typeof label === 'string', `${at}.label`, 'expected text');
+    expect(filename === undefined || typeof filename === 'string', `${at}.filename`, 'expected text');
+    return {
+      label: label || `Snippet ${i + 1}`,
+      language: typeof language === 'string' && language ? language : 'systemverilog',
+      ...(typeof filename === 'string' && filename ? { filename } : {}),
+      code: code.replace(/^\n+|\s+$/g, '')
+    };
+  });
+  return { overview: overview.trim(), tlmRole: tlmRole.trim(), pitfalls, codeBlocks };
+};
+
+const FENCE = /```([\w+-]*)[^\n]*\n([\s\S]*?)```/g;
+
+// For backends that ignore the schema and answer in Markdown: keep every fenced block, not just the first
+const fromMarkdown = (text: string): AiResponse => {
+  const codeBlocks = [...text.matchAll(FENCE)].map((m, i) => ({
+    label: `Snippet ${i + 1}`,
+    language: m[1] || 'systemverilog',
+    code: m[2].replace(/\s+$/, '')
+  }));
+  return { overview: text.replace(FENCE, '').trim() || 'No explanation available.', tlmRole: '', pitfalls: [], codeBlocks };
+};
+
+/**
+ * Decodes a model reply. JSON (optionally wrapped in a ```json fence) must match the schema;
+ * anything that isn't JSON at all is treated as a Markdown answer.
+ */
+export const parseAiResponse = (text: string): AiResponse => {
+  const body = text.trim().replace(/^```(?:json)?\s*\n([\s\S]*)\n```$/, '$1');
+  if (!body.startsWith('{')) return fromMarkdown(text);
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(body);
+  } catch (err) {
+    throw new Error(`The model returned malformed JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validateAiResponse(decoded);
+};
@@ -0,0 +1,194 @@
+import {
+  ApbPhase,
+  ApbSignals,
+  MonitoredTransaction,
+  ScoreboardResult,
+  SequenceStep,
+  SimCycle,
+  SimulationError,
+  SimulationResult,
+  TransactionKind
+} from "../types";
+
+// Time units per clock cycle. `#delay` values in the generated sequence are
+// converted to whole idle cycles using this period.
+export const CLOCK_PERIOD = 10;
+
+// Same default the generated code uses for an IDLE step without a delay.
+export const DEFAULT_IDLE_DELAY = 10;
+
+const DATA_MASK = 0xffffffff;
+
+const IDLE_SIGNALS: Omit<ApbSignals, 'prdata'> = {
+  psel: 0,
+  penable: 0,
+  pwrite: 0,
+  paddr: 0,
+  pwdata: 0
+};
+
+// Keeps the low bits exactly; a double would round anything past 53 bits first
+const truncate = (value: bigint, width: number): number =>
+  Number(BigInt.asUintN(width > 0 && width < 32 ? width : 32, value));
+
+/**
+ * Parses a SystemVerilog or C-style integer literal ('h1000, 32'hFF, 0x10, 'd12, 'b1010, 42).
+ * Returns null for anything that isn't a plain constant (e.g. $urandom or a variable name).
+ */
+export const parseSvLiteral = (literal: string): number | null => {
+  const text = literal.trim().replace(/_/g, '');
+  if (!text) return null;
+
+  const sized = text.match(/^(\d+)?'([sS])?([hHdDbBoO])([0-9a-fA-F]+)$/);
+  if (sized) {
+    const base = sized[3].toLowerCase() as 'h' | 'd' | 'b' | 'o';
+    const digits = base === 'h' ? /^[0-9a-f]+$/i : base === 'd' ? /^\d+$/ : base === 'o' ? /^[0-7]+$/ : /^[01]+$/;
+    if (!digits.test(sized[4])) return null;
+    const width = sized[1] ? parseInt(sized[1], 10) : 32;
+    return truncate(BigInt(`${{ h: '0x', d: '', b: '0b', o: '0o' }[base]}${sized[4]}`), width);
+  }
+
+  if (/^0x[0-9a-f]+$/i.test(text)) return truncate(BigInt(text), 32);
+  if (/^\d+$/.test(text)) return truncate(BigInt(text), 32);
+
+  return null;
+};
+
+export const formatHex = (value: number, digits = 8): string =>
+  `'h${(value >>> 0).toString(16).toUpperCase().padStart(digits, '0')}`;
+
+const delayToCycles = (delay: number): number =>
+  delay > 0 ? Math.ceil(delay / CLOCK_PERIOD) : 0;
+
+/**
+ * Runs a sequence through a cycle-based model of the walkthrough testbench:
+ * sequencer -> driver -> APB interface -> DUT memory -> monitor -> scoreboard.
+ *
+ * The driver performs a two-cycle APB transfer per item (SETUP then ACCESS, no wait states).
+ * The DUT mirrors the walkthrough snippet: writes update `mem[paddr]`, reads return it on `prdata`.
+ * The monitor samples when `psel && penable`, and the scoreboard keeps its own predictor memory
+ * built from observed writes to check every observed read.
+ */
+export const runSequence = (steps: SequenceStep[]): SimulationResult => {
+  const cycles: SimCycle[] = [];
+  const transactions: MonitoredTransaction[] = [];
+  const scoreboard: ScoreboardResult[] = [];
+  const errors: SimulationError[] = [];
+
+  // DUT storage and the scoreboard's reference model are deliberately separate.
+  const dutMem = new Map<number, number>();
+  const predictor = new Map<number, number>();
+  let prdata = 0;
+
+  const pushCycle = (phase: ApbPhase, stepId: string | null, signals: Omit<ApbSignals, 'prdata'>) => {
+    const cycle = cycles.length;
+    cycles.push({ cycle, time: cycle * CLOCK_PERIOD, phase, stepId, signals: { ...signals, prdata } });
+    return cycles[cycle];
+  };
+
+  const idle = (count: number, stepId: string | null) => {
+    for (let i = 0; i < count; i++) pushCycle(ApbPhase.IDLE, stepId, IDLE_SIGNALS);
+  };
+
+  const checkTransaction = (tr: MonitoredTransaction) => {
+    if (tr.kind === TransactionKind.WRITE) {
+      predictor.set(tr.addr, tr.data);
+      scoreboard.push({
+        transaction: tr,
+        expected: null,
+        status: 'STORED',
+        message: `Predictor updated: mem[${formatHex(tr.addr)}] = ${formatHex(tr.data)}`
+      });
+      return;
+    }
+
+    const expected = predictor.get(tr.addr);
+    if (expected === undefined) {
+      scoreboard.push({
+        transaction: tr,
+        expected: null,
+        status: 'UNINITIALIZED',
+        message: `Read of ${formatHex(tr.addr)} before any write; got reset value ${formatHex(tr.data)}`
+      });
+    } else if (expected !== tr.data) {
+      scoreboard.push({
+        transaction: tr,
+        expected,
+        status: 'MISMATCH',
+        message: `Mismatch! Exp: ${formatHex(expected)}, Got: ${formatHex(tr.data)}`
+      });
+    } else {
+      scoreboard.push({
+        transaction: tr,
+        expected,
+        status: 'MATCH',
+        message: `Match successful: ${formatHex(tr.data)} @ ${formatHex(tr.addr)}`
+      });
+    }
+  };
+
+  // One idle cycle out of reset so the first SETUP edge is visible.
+  idle(1, null);
+
+  steps.forEach((step) => {
+    if (step.kind === TransactionKind.IDLE) {
+      idle(delayToCycles(step.delay || DEFAULT_IDLE_DELAY), step.id);
+      return;
+    }
+
+    const addr = parseSvLiteral(step.addr);
+    if (addr === null) {
+      errors.push({ stepId: step.id, message: `Cannot evaluate address "${step.addr}"; step skipped.` });
+      return;
+    }
+
+    const isWrite = step.kind === TransactionKind.WRITE;
+    let wdata = 0;
+    if (isWrite) {
+      const parsed = parseSvLiteral(step.data);
+      if (parsed === null) {
+        errors.push({ stepId: step.id, message: `Cannot evaluate data "${step.data}"; step skipped.` });
+        return;
+      }
+      wdata = parsed & DATA_MASK;
+    }
+
+    const bus = { psel: 1, penable: 0, pwrite: isWrite ? 1 : 0, paddr: addr, pwdata: wdata };
+
+    // SETUP phase: driver puts address/control on the bus.
+    pushCycle(ApbPhase.SETUP, step.id, bus);
+
+    // ACCESS phase: DUT responds, monitor samples.
+    if (isWrite) {
+      dutMem.set(addr, wdata);
+      prdata = 0;
+    } else {
+      prdata = dutMem.get(addr) ?? 0;
+    }
+    const access = pushCycle(ApbPhase.ACCESS, step.id, { ...bus, penable: 1 });
+
+    const tr: MonitoredTransaction = {
+      cycle: access.cycle,
+      time: access.time,
+      stepId: step.id,
+      kind: isWrite ? TransactionKind.WRITE : TransactionKind.READ,
+      addr,
+      data: isWrite ? access.signals.pwdata : access.signals.prdata
+    };
+    transactions.push(tr);
+    checkTransaction(tr);
+
+    idle(delayToCycles(step.delay), step.id);
+  });
+
+  // Trailing idle cycle so the last transfer closes cleanly.
+  idle(1, null);
+
+  return {
+    cycles,
+    transactions,
+    scoreboard,
+    errors,
+    memory: Object.fromEntries(dutMem)
+  };
+};
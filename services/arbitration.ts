@@ -0,0 +1,256 @@
+import {
+  ArbitrationEvent, ArbitrationMode, ArbitrationRun, ArbitrationSetup, ArbitrationThread, SequenceDef, SequenceStep, TransactionKind, UserArbitrationPolicy
+} from "../types";
+import { CLOCK_PERIOD, DEFAULT_IDLE_DELAY } from "./apbSimulator";
+import { createRng } from "./randomizer";
+import { flattenSequence } from "./sequenceTree";
+
+export const ARBITRATION_MODES: { mode: ArbitrationMode; description: string }[] = [
+  { mode: 'SEQ_ARB_FIFO', description: 'Requests are granted in the order they arrived; priority is ignored. The UVM default.' },
+  { mode: 'SEQ_ARB_WEIGHTED', description: 'A random pick among all waiting requests, weighted by priority.' },
+  { mode: 'SEQ_ARB_RANDOM', description: 'A uniform random pick among all waiting requests; priority is ignored.' },
+  { mode: 'SEQ_ARB_STRICT_FIFO', description: 'The highest priority wins; the oldest request breaks a tie.' },
+  { mode: 'SEQ_ARB_STRICT_RANDOM', description: 'The highest priority wins; a random pick breaks a tie.' },
+  { mode: 'SEQ_ARB_USER', description: 'The sequencer\'s user_priority_arbitration() picks.' }
+];
+
+export const USER_POLICIES: Record<UserArbitrationPolicy, string> = {
+  first: 'First in the queue (the default body)',
+  latest: 'Most recent request',
+  'round-robin': 'Round-robin by sequence'
+};
+
+/** Priority start() uses when none is given (-1 becomes 100). */
+export const DEFAULT_PRIORITY = 100;
+
+// How long the driver holds one item, in the same units as #delay: a two-cycle transfer
+export const ITEM_TIME = 2 * CLOCK_PERIOD;
+
+export const MAX_ARBITRATION_TIME = 1000000;
+
+/** A starting point: the first two sequences in the library, or the top sequence twice. */
+export const defaultArbitrationSetup = (library: SequenceDef[]): ArbitrationSetup => {
+  const [first, second = first] = library;
+  return {
+    mode: 'SEQ_ARB_FIFO',
+    userPolicy: 'first',
+    seed: 1,
+    threads: [
+      { id: '1', sequenceId: first.id, priority: DEFAULT_PRIORITY, startAt: 0, access: 'none' },
+      { id: '2', sequenceId: second.id, priority: 2 * DEFAULT_PRIORITY, startAt: 0, access: 'none' }
+    ]
+  };
+};
+
+/** Letters name the running sequences in the order they are listed: A, B, C, ... */
+export const threadLetter = (index: number): string => String.fromCharCode(65 + (index % 26));
+
+export const itemLabel = (step: SequenceStep): string => {
+  if (step.register && step.kind !== TransactionKind.IDLE) return `${step.regOp || 'read'} ${step.register}`;
+  return step.kind === TransactionKind.WRITE ? `WRITE ${step.addr} ${step.data}` : `READ ${step.addr}`;
+};
+
+interface Request {
+  threadId: string;
+  kind: 'item' | 'lock' | 'grab';
+}
+
+interface ThreadState {
+  thread: ArbitrationThread;
+  steps: SequenceStep[];
+  next: number;          // Index of the next step
+  wakeAt: number | null; // Null while a request is queued, or once the sequence has finished
+  accessDone: boolean;   // lock()/grab() granted, or not asked for
+}
+
+/**
+ * Runs the sequences on one sequencer and records each grant in order, as uvm_sequencer does:
+ * a lock() waits in the queue behind earlier requests, a grab() jumps to its front, and once
+ * either is granted only the holder's items go through until it finishes. Item requests are
+ * picked by the arbitration mode. Random modes draw from `setup.seed`, so a run is repeatable.
+ */
+export const simulateArbitration = (setup: ArbitrationSetup, library: SequenceDef[]): ArbitrationRun => {
+  const rand = createRng(setup.seed);
+  const threads = setup.threads.filter(t => library.some(d => d.id === t.sequenceId));
+  const states: ThreadState[] = threads.map(thread => ({
+    thread,
+    steps: flattenSequence(library.find(d => d.id === thread.sequenceId)!.nodes, library),
+    next: 0,
+    wakeAt: Math.max(0, thread.startAt),
+    accessDone: thread.access === 'none'
+  }));
+  // Sequences are started, and so numbered, in the order their start() runs
+  const startOrder = [...states].sort((a, b) => a.thread.startAt - b.thread.startAt).map(s => s.thread.id);
+  const stateOf = (id: string) => states.find(s => s.thread.id === id)!;
+
+  const events: ArbitrationEvent[] = [];
+  let queue: Request[] = [];
+  let holder: string | null = null;
+  let busyUntil = 0;
+  let lastGranted: string | null = null;
+  let time = 0;
+
+  const isBlocked = (id: string) => holder !== null && holder !== id;
+  const push = (event: Omit<ArbitrationEvent, 'time' | 'competing' | 'blocked'>, competing: string[] = []) =>
+    events.push({ ...event, time, competing, blocked: [...new Set(queue.map(r => r.threadId).filter(isBlocked))] });
+
+  // Moves a sequence on until it next needs the sequencer, or finishes
+  const wake = (state: ThreadState) => {
+    const id = state.thread.id;
+    if (!state.accessDone) {
+      const request: Request = { threadId: id, kind: state.thread.access === 'grab' ? 'grab' : 'lock' };
+      queue = request.kind === 'grab' ? [request, ...queue] : [...queue, request];
+      state.wakeAt = null;
+      return;
+    }
+    while (state.next < state.steps.length && state.steps[state.next].kind === TransactionKind.IDLE) {
+      const wait = state.steps[state.next++].delay || DEFAULT_IDLE_DELAY;
+      if (wait > 0) {
+        state.wakeAt = time + wait;
+        return;
+      }
+    }
+    if (state.next < state.steps.length) {
+      queue = [...queue, { threadId: id, kind: 'item' }];
+      state.wakeAt = null;
+      return;
+    }
+    state.wakeAt = null;
+    if (holder === id) {
+      holder = null;
+      push({ threadId: id, kind: 'unlock', label: state.thread.access === 'grab' ? 'ungrab()' : 'unlock()', reason: 'body() finished and released the sequencer' });
+    }
+  };
+
+  const pick = (available: Request[]): { request: Request; reason: string } => {
+    if (available.length === 1) return { request: available[0], reason: 'the only request the arbiter could pick' };
+    const priority = (r: Request) => stateOf(r.threadId).thread.priority;
+    const top = Math.max(...available.map(priority));
+    const highest = available.filter(r => priority(r) === top);
+    const draw = (list: Request[]) => list[Math.floor(rand() * list.length)];
+    switch (setup.mode) {
+      case 'SEQ_ARB_FIFO':
+        return { request: available[0], reason: `oldest of ${available.length} requests` };
+      case 'SEQ_ARB_STRICT_FIFO':
+        return { request: highest[0], reason: `highest priority (${top})${highest.length > 1 ? `, oldest of ${highest.length} tied` : ''}` };
+      case 'SEQ_ARB_STRICT_RANDOM':
+        return { request: draw(highest), reason: `highest priority (${top})${highest.length > 1 ? `, drawn from ${highest.length} tied` : ''}` };
+      case 'SEQ_ARB_RANDOM':
+        return { request: draw(available), reason: `drawn from ${available.length} requests with equal odds` };
+      case 'SEQ_ARB_WEIGHTED': {
+        const total = available.reduce((sum, r) => sum + Math.max(0, priority(r)), 0);
+        let ticket = rand() * total;
+        const request = available.find(r => (ticket -= Math.max(0, priority(r))) < 0) || available[available.length - 1];
+        return { request, reason: `weighted draw: priority ${priority(request)} of ${total} in total` };
+      }
+      case 'SEQ_ARB_USER': {
+        if (setup.userPolicy === 'latest') return { request: available[available.length - 1], reason: 'user_priority_arbitration(): newest request' };
+        if (setup.userPolicy === 'round-robin') {
+          const rank = (r: Request) => startOrder.indexOf(r.threadId);
+          const after = lastGranted === null ? -1 : startOrder.indexOf(lastGranted);
+          const sorted = [...available].sort((a, b) => rank(a) - rank(b));
+          return { request: sorted.find(r => rank(r) > after) || sorted[0], reason: 'user_priority_arbitration(): next sequence after the last one granted' };
+        }
+        return { request: available[0], reason: 'user_priority_arbitration(): avail_sequences[0]' };
+      }
+    }
+  };
+
+  // Everything that happens at `time`, repeated until nothing more can
+  const settle = () => {
+    for (let changed = true; changed;) {
+      changed = false;
+      states.filter(s => s.wakeAt !== null && s.wakeAt <= time).forEach(wake);
+
+      // Locks and grabs at the head of the queue are granted as soon as nobody else holds the sequencer
+      while (queue.length && queue[0].kind !== 'item' && !isBlocked(queue[0].threadId)) {
+        const request = queue.shift()!;
+        const state = stateOf(request.threadId);
+        holder = request.threadId;
+        state.accessDone = true;
+        state.wakeAt = time;
+        push({
+          threadId: request.threadId, kind: request.kind, label: `${request.kind}()`,
+          reason: request.kind === 'grab' ? 'a grab goes to the front of the queue' : 'every earlier request has been served'
+        });
+        changed = true;
+      }
+      if (changed) continue;
+
+      const available = queue.filter(r => r.kind === 'item' && !isBlocked(r.threadId));
+      if (busyUntil <= time && available.length) {
+        const { request, reason } = pick(available);
+        const state = stateOf(request.threadId);
+        const step = state.steps[state.next++];
+        queue = queue.filter(r => r !== request);
+        push({ threadId: request.threadId, kind: 'item', label: itemLabel(step), reason }, available.map(r => r.threadId));
+        busyUntil = time + ITEM_TIME;
+        state.wakeAt = busyUntil + Math.max(0, step.delay);
+        lastGranted = request.threadId;
+        changed = true;
+      }
+    }
+  };
+
+  while (true) {
+    settle();
+    const pending = states.map(s => s.wakeAt).filter((t): t is number => t !== null);
+    if (queue.some(r => r.kind === 'item') && busyUntil > time) pending.push(busyUntil);
+    if (!pending.length) break;
+    time = Math.min(...pending);
+    if (time > MAX_ARBITRATION_TIME) return { events, end: MAX_ARBITRATION_TIME, truncated: true };
+  }
+
+  return { events, end: Math.max(time, busyUntil), truncated: false };
+};
+
+/** The test's run_phase that starts the sequences as set up, plus a sequencer class for SEQ_ARB_USER. */
+export const arbitrationCode = (setup: ArbitrationSetup, library: SequenceDef[]): string => {
+  const threads = setup.threads
+    .map((thread, i) => ({ thread, handle: `seq_${threadLetter(i).toLowerCase()}`, def: library.find(d => d.id === thread.sequenceId) }))
+    .filter(t => t.def);
+  let code = '';
+
+  if (setup.mode === 'SEQ_ARB_USER') {
+    code += `// The agent must create its sequencer as this class (or the test overrides it) for SEQ_ARB_USER to call it\n`;
+    code += `class my_sequencer extends uvm_sequencer #(my_transaction);\n`;
+    code += `  \`uvm_component_utils(my_sequencer)\n\n`;
+    if (setup.userPolicy === 'round-robin') code += `  protected int last_id = -1;\n\n`;
+    code += `  function new(string name, uvm_component parent);\n    super.new(name, parent);\n  endfunction\n\n`;
+    code += `  // avail_sequences holds indices into arb_sequence_q, oldest request first\n`;
+    code += `  function integer user_priority_arbitration(integer avail_sequences[$]);\n`;
+    if (setup.userPolicy === 'latest') {
+      code += `    return avail_sequences[avail_sequences.size() - 1];\n`;
+    } else if (setup.userPolicy === 'round-robin') {
+      code += `    integer next = -1, lowest = avail_sequences[0];\n`;
+      code += `    foreach (avail_sequences[i]) begin\n`;
+      code += `      int id = arb_sequence_q[avail_sequences[i]].sequence_id;\n`;
+      code += `      if (id < arb_sequence_q[lowest].sequence_id) lowest = avail_sequences[i];\n`;
+      code += `      if (id > last_id && (next < 0 || id < arb_sequence_q[next].sequence_id)) next = avail_sequences[i];\n`;
+      code += `    end\n`;
+      code += `    if (next < 0) next = lowest;\n`;
+      code += `    last_id = arb_sequence_q[next].sequence_id;\n`;
+      code += `    return next;\n`;
+    } else {
+      code += `    return avail_sequences[0];\n`;
+    }
+    code += `  endfunction\nendclass\n\n`;
+  }
+
+  code += `// In the test\ntask run_phase(uvm_phase phase);\n`;
+  threads.forEach(t => {
+    code += `  ${t.def!.name} ${t.handle} = ${t.def!.name}::type_id::create("${t.handle}");\n`;
+  });
+  code += `\n  phase.raise_objection(this);\n`;
+  code += `  env.agent.sequencer.set_arbitration(UVM_${setup.mode});\n`;
+  code += `  fork\n`;
+  threads.forEach(({ thread, handle }) => {
+    if (thread.access !== 'none') {
+      code += `    // ${handle}.body() calls ${thread.access}(m_sequencer) first and ${thread.access === 'grab' ? 'ungrab' : 'unlock'}(m_sequencer) last\n`;
+    }
+    const start = `${handle}.start(env.agent.sequencer, null, ${thread.priority});`;
+    code += thread.startAt > 0 ? `    begin\n      #${thread.startAt};\n      ${start}\n    end\n` : `    ${start}\n`;
+  });
+  code += `  join\n  phase.drop_objection(this);\nendtask\n`;
+  return code;
+};
@@ -0,0 +1,71 @@
+import { AiResponse, ChatContextItem, ChatContextKind, SimulationStep, UvmComponentType } from "../types";
+
+// Long generated sequences are cut so one question can't blow the model's context window
+const MAX_CONTEXT_CHARS = 12000;
+
+const clip = (text: string) =>
+  text.length > MAX_CONTEXT_CHARS ? `${text.slice(0, MAX_CONTEXT_CHARS)}\n// ... (truncated)` : text;
+
+const fence = (code: string, language = 'systemverilog') => `\`\`\`${language}\n${clip(code)}\n\`\`\``;
+
+export const walkthroughContext = (step: SimulationStep, total: number): ChatContextItem => ({
+  id: `walkthrough:${step.id}`,
+  kind: 'walkthrough',
+  label: `Step ${step.id + 1}/${total}: ${step.label}`,
+  content: `Walkthrough step ${step.id + 1} of ${total}, "${step.label}" (${step.component}).\n\n${step.description}\n\n${fence(step.codeSnippet)}`
+});
+
+export const sequenceContext = (name: string, code: string): ChatContextItem => ({
+  id: `sequence:${name}`,
+  kind: 'sequence',
+  label: `${name} (generated)`,
+  content: `The learner's sequence "${name}" as generated by the Sequence Builder:\n\n${fence(code)}`
+});
+
+export const explanationContext = (component: UvmComponentType, data: AiResponse): ChatContextItem => ({
+  id: `explanation:${component}`,
+  kind: 'explanation',
+  label: `${component} explanation`,
+  content: [
+    `The explanation of the ${component} shown in the info panel.`,
+    data.overview,
+    data.tlmRole && `TLM role: ${data.tlmRole}`,
+    data.pitfalls.length && `Pitfalls:\n${data.pitfalls.map(p => `- ${p}`).join('\n')}`,
+    ...data.codeBlocks.map(b => `${b.label}:\n${fence(b.code, b.language)}`)
+  ].filter(Boolean).join('\n\n')
+});
+
+/** Appended to the system instruction; empty when nothing is attached. */
+export const contextPrompt = (items: ChatContextItem[]): string =>
+  items.length
+    ? `The learner is looking at the following. "This", "this code" or "my sequence" refer to it.\n\n${items.map(i => i.content).join('\n\n---\n\n')}`
+    : '';
+
+export interface QuickAction {
+  label: string;
+  prompt: string;
+  needs: ChatContextKind[]; // Offered only when one of these is attached
+}
+
+export const QUICK_ACTIONS: QuickAction[] = [
+  {
+    label: 'Explain this code',
+    prompt: 'Explain this code step by step: what each part does and when it runs during simulation.',
+    needs: ['walkthrough', 'sequence', 'explanation']
+  },
+  {
+    label: 'Why does this block?',
+    prompt: 'Which calls in this code block, and what has to happen elsewhere in the testbench for each of them to return?',
+    needs: ['walkthrough', 'sequence']
+  },
+  {
+    label: 'Review my sequence for bugs',
+    prompt: 'Review my sequence for bugs: protocol violations, unpaired start_item/finish_item, randomization that can fail, and ordering problems. Quote the lines you mean.',
+    needs: ['sequence']
+  },
+  {
+    label: 'Quiz me',
+    prompt: 'Ask me three short questions to check I understood this, one at a time, and wait for my answer before the next.',
+    needs: ['walkthrough', 'explanation']
+  }
+];
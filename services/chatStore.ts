@@ -0,0 +1,114 @@
+import { ChatMessage, ChatThread, UvmComponentType } from "../types";
+import { isObject } from "./guards";
+
+const THREADS_KEY = 'uvm-master.chatThreads';
+const ACTIVE_THREAD_KEY = 'uvm-master.activeChatThread';
+
+export const createThread = (component: UvmComponentType | null): ChatThread => ({
+  id: Date.now().toString(),
+  title: '',
+  component,
+  messages: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+/** The user's title, else the first question, else what the thread is about. */
+export const threadTitle = (thread: ChatThread): string => {
+  if (thread.title.trim()) return thread.title.trim();
+  const first = thread.messages.find(m => m.role === 'user')?.content.trim().replace(/\s+/g, ' ');
+  if (first) return first.length > 48 ? `${first.slice(0, 47)}…` : first;
+  return thread.component ? `${thread.component} questions` : 'New chat';
+};
+
+const isMessage = (m: unknown): m is ChatMessage =>
+  isObject(m) && typeof m.id === 'string' && (m.role === 'user' || m.role === 'model') && typeof m.content === 'string';
+
+/** Saved threads, newest first. Replies that were still streaming when the page closed are dropped if empty. */
+export const loadThreads = (): ChatThread[] => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(THREADS_KEY) || '[]');
+  } catch (err) {
+    console.error('Saved chat threads are unreadable', err);
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .flatMap((t: unknown): ChatThread[] => {
+      if (!isObject(t) || typeof t.id !== 'string' || !Array.isArray(t.messages)) return [];
+      return [{
+        id: t.id,
+        title: typeof t.title === 'string' ? t.title : '',
+        component: Object.values(UvmComponentType).find(c => c === t.component) ?? null,
+        messages: t.messages.filter(isMessage).filter(m => m.content !== '' || m.error).map(({ isLoading, ...m }) => m),
+        createdAt: Number(t.createdAt) || 0,
+        updatedAt: Number(t.updatedAt) || 0
+      }];
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Returns false if the browser refused the write (quota exceeded, storage disabled). */
+export const saveThreads = (threads: ChatThread[]): boolean => {
+  try {
+    localStorage.setItem(THREADS_KEY, JSON.stringify(threads));
+    return true;
+  } catch (err) {
+    console.error('Could not save chat threads', err);
+    return false;
+  }
+};
+
+export const loadActiveThreadId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_THREAD_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveThreadId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_THREAD_KEY, id);
+  } catch {
+    // Not worth surfacing; the newest thread opens instead
+  }
+};
+
+/**
+ * The turns to send to the model: only questions that got a complete answer, so a failed or
+ * stopped exchange never leaves two user turns in a row.
+ */
+export const chatHistory = (messages: ChatMessage[]): { role: 'user' | 'model'; content: string }[] =>
+  messages.flatMap((m, i) => {
+    const reply = messages[i + 1];
+    if (m.role !== 'user' || reply?.role !== 'model' || reply.error || !reply.content) return [];
+    return [{ role: 'user' as const, content: m.content }, { role: 'model' as const, content: reply.content }];
+  });
+
+/** A copy of the thread up to (not including) `messageIndex`, to continue differently from there. */
+export const branchThread = (thread: ChatThread, messageIndex: number): ChatThread => ({
+  ...createThread(thread.component),
+  title: `${threadTitle(thread)} (branch)`,
+  messages: thread.messages.slice(0, messageIndex)
+});
+
+// A reply cut off mid-stream can end inside a fence, which would swallow everything after it
+const closeFences = (text: string) => ((text.match(/^\s*```/gm) || []).length % 2 ? `${text}\n\`\`\`` : text);
+
+/** The thread as a Markdown note; message text (and so its fenced code) is kept verbatim. */
+export const threadToMarkdown = (thread: ChatThread): string => {
+  const about = thread.component ? `the ${thread.component}` : 'UVM (free-form)';
+  let md = `# ${threadTitle(thread)}\n\n`;
+  md += `_Tutor thread about ${about}, started ${new Date(thread.createdAt).toLocaleString()}_\n`;
+  thread.messages.forEach(m => {
+    md += `\n## ${m.role === 'user' ? 'Question' : 'Tutor'}\n\n${closeFences(m.content.trim())}\n`;
+    if (m.context?.length) md += `\n_Asked with: ${m.context.join(', ')}_\n`;
+    if (m.error) md += `\n> ${m.error.message}\n`;
+  });
+  return md;
+};
+
+export const threadFileName = (thread: ChatThread) =>
+  `${threadTitle(thread).replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'chat'}.md`;
@@ -0,0 +1,199 @@
+import { ConfigDbCandidate, ConfigDbGet, ConfigDbResolution, ConfigDbScenario, ConfigDbSet } from "../types";
+import { flattenHierarchy, pathMatches } from "./hierarchy";
+
+/** uvm_resource_base::default_precedence. A set() made during build_phase gets this minus its context's depth. */
+export const DEFAULT_PRECEDENCE = 1000;
+
+const ENTRIES = flattenHierarchy();
+
+const depthOf = (path: string): number => ENTRIES.find(e => e.path === path)?.depth ?? path.split('.').length;
+
+/** The scope a set() stores under: the context's full name joined to inst_name, as uvm_config_db::set() builds it. */
+export const setScope = (set: ConfigDbSet): string => {
+  const context = set.caller && !set.nullContext ? set.caller : ''; // A null context is uvm_root, whose full name is ""
+  return context && set.instName ? `${context}.${set.instName}` : context || set.instName;
+};
+
+/** The full name a get() looks up. */
+export const getLookup = (get: ConfigDbGet): string => (get.instName ? `${get.caller}.${get.instName}` : get.caller);
+
+export const setPrecedence = (set: ConfigDbSet): number =>
+  set.caller && set.phase === 'build' ? DEFAULT_PRECEDENCE - (set.nullContext ? 0 : depthOf(set.caller)) : DEFAULT_PRECEDENCE;
+
+/** Why a set() has the precedence it has, in words. */
+export const precedenceReason = (set: ConfigDbSet): string => {
+  if (!set.caller) return `${DEFAULT_PRECEDENCE}: set from the top module, before build_phase`;
+  if (set.phase !== 'build') return `${DEFAULT_PRECEDENCE}: set after build_phase`;
+  if (set.nullContext) return `${DEFAULT_PRECEDENCE}: null context is uvm_root, depth 0`;
+  return `${setPrecedence(set)}: build_phase set from depth ${depthOf(set.caller)}`;
+};
+
+/** Whether a set() scope (a glob) covers a component's full name. */
+export const scopeMatches = (scope: string, path: string): boolean => pathMatches(scope, path);
+
+export const setCall = (set: ConfigDbSet): string =>
+  `uvm_config_db#(${set.type})::set(${set.nullContext || !set.caller ? 'null' : 'this'}, "${set.instName}", "${set.field}", ${set.value});`;
+
+export const getCall = (get: ConfigDbGet): string =>
+  `uvm_config_db#(${get.type})::get(this, "${get.instName}", "${get.field}", ${get.field || 'value'})`;
+
+/**
+ * Ids of every call in the order the simulator makes them: the top module's set()s, then
+ * build_phase calls top-down through the hierarchy, then run_phase calls. Within one component's
+ * build_phase, and across run_phase, set()s are taken to come before get()s, each in listed order.
+ */
+export const configDbCallOrder = (scenario: ConfigDbScenario): string[] => {
+  const rank = (caller: string, phase: string) =>
+    !caller ? 0 : phase === 'build' ? 1 + ENTRIES.findIndex(e => e.path === caller) : ENTRIES.length + 1;
+  const calls = [
+    ...scenario.sets.map((s, i) => ({ id: s.id, key: [rank(s.caller, s.phase), 0, i] })),
+    ...scenario.gets.map((g, i) => ({ id: g.id, key: [rank(g.caller, g.phase), 1, i] }))
+  ];
+  return calls.sort((a, b) => a.key[0] - b.key[0] || a.key[1] - b.key[1] || a.key[2] - b.key[2]).map(c => c.id);
+};
+
+// Field names that are probably a typo for each other
+const similar = (a: string, b: string): boolean => {
+  if (a.toLowerCase() === b.toLowerCase()) return true;
+  if (Math.min(a.length, b.length) < 4) return false;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    prev = row;
+  }
+  return prev[b.length] <= 2;
+};
+
+/**
+ * Resolves every get() the way uvm_config_db does: among set()s made earlier with the same field
+ * name and type whose scope matches, the highest precedence wins, and the latest set() breaks a
+ * tie. Each get() also lists why the other set()s for that field didn't answer it.
+ */
+export const resolveConfigDb = (scenario: ConfigDbScenario): ConfigDbResolution[] => {
+  const order = configDbCallOrder(scenario);
+  const position = (id: string) => order.indexOf(id);
+
+  return scenario.gets.map(get => {
+    const lookup = getLookup(get);
+    const candidates: ConfigDbCandidate[] = [];
+    const live: ConfigDbSet[] = [];
+
+    scenario.sets.forEach(set => {
+      const scope = setScope(set);
+      if (set.field !== get.field) {
+        if (similar(set.field, get.field)) {
+          candidates.push({ setId: set.id, verdict: 'field', reason: `field "${set.field}" isn't "${get.field}"; names must match exactly` });
+        }
+      } else if (!scopeMatches(scope, lookup)) {
+        candidates.push({ setId: set.id, verdict: 'scope', reason: `scope "${scope}" doesn't match "${lookup}"` });
+      } else if (set.type.replace(/\s+/g, '') !== get.type.replace(/\s+/g, '')) {
+        candidates.push({ setId: set.id, verdict: 'type', reason: `stored as #(${set.type}) but looked up as #(${get.type}); the types must be identical` });
+      } else if (position(set.id) > position(get.id)) {
+        candidates.push({ setId: set.id, verdict: 'later', reason: `runs after this get() (call #${position(set.id) + 1})` });
+      } else {
+        live.push(set);
+      }
+    });
+
+    const winner = live.reduce<ConfigDbSet | null>((best, set) => {
+      if (!best) return set;
+      const diff = setPrecedence(set) - setPrecedence(best);
+      return diff > 0 || (diff === 0 && position(set.id) > position(best.id)) ? set : best;
+    }, null);
+
+    live.forEach(set => {
+      const scope = setScope(set);
+      if (set === winner) {
+        candidates.unshift({ setId: set.id, verdict: 'winner', reason: `scope "${scope}" matches; precedence ${precedenceReason(set)}` });
+      } else if (setPrecedence(set) < setPrecedence(winner!)) {
+        candidates.push({ setId: set.id, verdict: 'outranked', reason: `matches, but precedence ${setPrecedence(set)} is lower than ${setPrecedence(winner!)}` });
+      } else {
+        candidates.push({ setId: set.id, verdict: 'older', reason: `matches with the same precedence, but call #${position(winner!.id) + 1} came later and wins` });
+      }
+    });
+
+    return { getId: get.id, lookup, value: winner ? winner.value : null, setId: winner ? winner.id : null, candidates };
+  });
+};
+
+const TOP = '';
+const TEST = 'uvm_test_top';
+const ENV = 'uvm_test_top.env';
+const AGENT = 'uvm_test_top.env.agent';
+const DRIVER = 'uvm_test_top.env.agent.driver';
+const MONITOR = 'uvm_test_top.env.agent.monitor';
+const SCOREBOARD = 'uvm_test_top.env.scoreboard';
+
+/** Ready-made playgrounds, one per rule worth seeing. */
+export const CONFIG_DB_SCENARIOS: ConfigDbScenario[] = [
+  {
+    id: 'virtual-interface',
+    title: 'Passing the virtual interface',
+    description: 'The top module stores the interface handle before run_test(); the driver and monitor fetch it in build_phase. The scoreboard is outside the scope, so its get() fails.',
+    sets: [
+      { id: 'set-1', caller: TOP, phase: 'build', nullContext: true, instName: 'uvm_test_top.env.agent*', field: 'vif', type: 'virtual my_if', value: 'my_if_inst' }
+    ],
+    gets: [
+      { id: 'get-1', caller: DRIVER, phase: 'build', instName: '', field: 'vif', type: 'virtual my_if' },
+      { id: 'get-2', caller: MONITOR, phase: 'build', instName: '', field: 'vif', type: 'virtual my_if' },
+      { id: 'get-3', caller: SCOREBOARD, phase: 'build', instName: '', field: 'vif', type: 'virtual my_if' }
+    ]
+  },
+  {
+    id: 'hierarchy-precedence',
+    title: 'Higher components win in build_phase',
+    description: 'Test and env both set the agent\'s is_active during build_phase. The env runs later, but the test is higher in the hierarchy, so its setting wins.',
+    sets: [
+      { id: 'set-1', caller: TEST, phase: 'build', nullContext: false, instName: 'env.agent', field: 'is_active', type: 'uvm_active_passive_enum', value: 'UVM_PASSIVE' },
+      { id: 'set-2', caller: ENV, phase: 'build', nullContext: false, instName: 'agent', field: 'is_active', type: 'uvm_active_passive_enum', value: 'UVM_ACTIVE' }
+    ],
+    gets: [
+      { id: 'get-1', caller: AGENT, phase: 'build', instName: '', field: 'is_active', type: 'uvm_active_passive_enum' }
+    ]
+  },
+  {
+    id: 'last-set-wins',
+    title: 'Last set wins after build',
+    description: 'Outside build_phase every set() has the same precedence, so the most recent one wins, whoever made it. A set() after the get() is too late.',
+    sets: [
+      { id: 'set-1', caller: ENV, phase: 'build', nullContext: false, instName: 'agent.driver', field: 'idle_cycles', type: 'int', value: '1' },
+      { id: 'set-2', caller: TEST, phase: 'run', nullContext: false, instName: 'env.agent.driver', field: 'idle_cycles', type: 'int', value: '2' },
+      { id: 'set-3', caller: TEST, phase: 'run', nullContext: false, instName: 'env.agent.driver', field: 'idle_cycles', type: 'int', value: '5' },
+      { id: 'set-4', caller: TEST, phase: 'run', nullContext: false, instName: 'env.agent.driver', field: 'idle_cycles', type: 'int', value: '9' }
+    ],
+    gets: [
+      { id: 'get-1', caller: DRIVER, phase: 'build', instName: '', field: 'idle_cycles', type: 'int' },
+      { id: 'get-2', caller: DRIVER, phase: 'run', instName: '', field: 'idle_cycles', type: 'int' }
+    ]
+  },
+  {
+    id: 'wildcards',
+    title: 'Wildcard scopes',
+    description: '"env.*" covers everything below env but not env itself. With equal precedence the later, more specific set() wins for the monitor; list it first and the wildcard would win instead.',
+    sets: [
+      { id: 'set-1', caller: TEST, phase: 'build', nullContext: false, instName: 'env.*', field: 'coverage_enable', type: 'bit', value: '1' },
+      { id: 'set-2', caller: TEST, phase: 'build', nullContext: false, instName: 'env.agent.monitor', field: 'coverage_enable', type: 'bit', value: '0' }
+    ],
+    gets: [
+      { id: 'get-1', caller: MONITOR, phase: 'build', instName: '', field: 'coverage_enable', type: 'bit' },
+      { id: 'get-2', caller: SCOREBOARD, phase: 'build', instName: '', field: 'coverage_enable', type: 'bit' },
+      { id: 'get-3', caller: ENV, phase: 'build', instName: '', field: 'coverage_enable', type: 'bit' }
+    ]
+  },
+  {
+    id: 'common-mistakes',
+    title: 'Why did my get() fail?',
+    description: 'The three usual causes: the type parameter differs, the field name has a typo, or the scope is relative to the wrong context.',
+    sets: [
+      { id: 'set-1', caller: TEST, phase: 'build', nullContext: false, instName: 'env.scoreboard', field: 'num_items', type: 'int', value: '100' },
+      { id: 'set-2', caller: TEST, phase: 'build', nullContext: false, instName: 'env.agent.driver', field: 'timeout_cyles', type: 'int', value: '1000' },
+      { id: 'set-3', caller: ENV, phase: 'build', nullContext: false, instName: 'env.agent.monitor', field: 'check_enable', type: 'bit', value: '1' }
+    ],
+    gets: [
+      { id: 'get-1', caller: SCOREBOARD, phase: 'build', instName: '', field: 'num_items', type: 'bit [31:0]' },
+      { id: 'get-2', caller: DRIVER, phase: 'build', instName: '', field: 'timeout_cycles', type: 'int' },
+      { id: 'get-3', caller: MONITOR, phase: 'build', instName: '', field: 'check_enable', type: 'bit' }
+    ]
+  }
+];
@@ -0,0 +1,52 @@
+// Geometry for the walkthrough arrows, in pixels relative to the diagram grid.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Segment = [Point, Point];
+
+export const boxCentre = (box: Box): Point => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+/** Where the line from the box's centre towards `target` leaves the box, `gap` pixels beyond its border. */
+export const boxEdgePoint = (box: Box, target: Point, gap = 4): Point => {
+  const c = boxCentre(box);
+  const dx = target.x - c.x;
+  const dy = target.y - c.y;
+  if (dx === 0 && dy === 0) return c;
+  const length = Math.hypot(dx, dy);
+  // Scale to whichever side is hit first
+  const t = Math.min(dx ? box.width / 2 / Math.abs(dx) : Infinity, dy ? box.height / 2 / Math.abs(dy) : Infinity);
+  return { x: c.x + dx * t + (dx / length) * gap, y: c.y + dy * t + (dy / length) * gap };
+};
+
+/** An arrow from the border of one box to the border of another, along the line between their centres. */
+export const arrowBetween = (from: Box, to: Box): Segment =>
+  [boxEdgePoint(from, boxCentre(to)), boxEdgePoint(to, boxCentre(from))];
+
+const lengthOf = ([a, b]: Segment) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/** The point `t` (0 to 1) of the way along consecutive segments, measured by length. */
+export const pointAlong = (segments: Segment[], t: number): Point | null => {
+  if (segments.length === 0) return null;
+  const total = segments.reduce((sum, s) => sum + lengthOf(s), 0);
+  let remaining = Math.min(Math.max(t, 0), 1) * total;
+  for (const segment of segments) {
+    const length = lengthOf(segment);
+    if (remaining <= length || segment === segments[segments.length - 1]) {
+      const f = length ? Math.min(remaining / length, 1) : 1;
+      const [a, b] = segment;
+      return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+    }
+    remaining -= length;
+  }
+  return null;
+};
@@ -0,0 +1,11 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (text: string, fileName: string) =>
+  downloadBlob(new Blob([text], { type: 'text/plain' }), fileName);
@@ -0,0 +1,83 @@
+import { AiResponse, UvmComponentType } from "../types";
+
+const DB_NAME = 'uvm-master';
+const DB_VERSION = 1;
+const STORE = 'explanations';
+
+export interface CachedExplanation {
+  key: string;
+  component: UvmComponentType;
+  model: string;          // "provider/model"
+  promptVersion: number;
+  response: AiResponse;
+  createdAt: number;
+}
+
+export const explanationCacheKey = (component: UvmComponentType, model: string, promptVersion: number) =>
+  `${model}|v${promptVersion}|${component}`;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available.');
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'key' });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call try again instead of remembering the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return request(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// The cache only saves requests; when the browser refuses it, everything still works uncached.
+
+export const readCachedExplanation = async (key: string): Promise<CachedExplanation | null> => {
+  try {
+    return (await withStore('readonly', store => store.get(key) as IDBRequest<CachedExplanation | undefined>)) || null;
+  } catch (err) {
+    console.warn('Explanation cache unavailable', err);
+    return null;
+  }
+};
+
+export const writeCachedExplanation = async (entry: CachedExplanation) => {
+  try {
+    await withStore('readwrite', store => store.put(entry));
+  } catch (err) {
+    console.warn('Could not cache explanation', err);
+  }
+};
+
+export const listCachedExplanations = async (): Promise<CachedExplanation[]> => {
+  try {
+    return await withStore('readonly', store => store.getAll() as IDBRequest<CachedExplanation[]>);
+  } catch {
+    return [];
+  }
+};
+
+/** Removes the entries the filter matches (all of them without one); returns how many went. */
+export const invalidateExplanations = async (match: (entry: CachedExplanation) => boolean = () => true): Promise<number> => {
+  const stale = (await listCachedExplanations()).filter(match);
+  try {
+    await Promise.all(stale.map(entry => withStore('readwrite', store => store.delete(entry.key))));
+  } catch (err) {
+    console.warn('Could not clear explanation cache', err);
+  }
+  return stale.length;
+};
@@ -0,0 +1,247 @@
+import { FactoryClass, FactoryCreation, FactoryOverride, FactoryScenario, UvmComponentType } from "../types";
+import { flattenHierarchy, pathMatches } from "./hierarchy";
+
+/** The testbench's own classes, as services/testbenchGenerator.ts writes them. */
+export const TESTBENCH_CLASSES: FactoryClass[] = [
+  { name: 'my_test', base: 'uvm_test' },
+  { name: 'my_env', base: 'uvm_env' },
+  { name: 'my_agent', base: 'uvm_agent' },
+  { name: 'my_driver', base: 'uvm_driver' },
+  { name: 'my_monitor', base: 'uvm_monitor' },
+  { name: 'my_sequencer', base: 'uvm_sequencer' },
+  { name: 'my_scoreboard', base: 'uvm_scoreboard' },
+  { name: 'my_transaction', base: 'uvm_sequence_item' }
+];
+
+const COMPONENT_CLASSES: Partial<Record<UvmComponentType, string>> = {
+  [UvmComponentType.TEST]: 'my_test',
+  [UvmComponentType.ENV]: 'my_env',
+  [UvmComponentType.AGENT]: 'my_agent',
+  [UvmComponentType.DRIVER]: 'my_driver',
+  [UvmComponentType.MONITOR]: 'my_monitor',
+  [UvmComponentType.SEQUENCER]: 'my_sequencer',
+  [UvmComponentType.SCOREBOARD]: 'my_scoreboard'
+};
+
+export interface FactorySite {
+  path: string;
+  requested: string;
+  kind: 'component' | 'object';
+  depth: number;
+  note?: string;
+  beforeOverrides?: boolean; // Created before the test's build_phase registers any override
+}
+
+/** Every type_id::create in the testbench, with the instance path the factory sees. */
+export const FACTORY_SITES: FactorySite[] = [
+  ...flattenHierarchy().map(e => ({
+    path: e.path,
+    requested: COMPONENT_CLASSES[e.node.component]!,
+    kind: 'component' as const,
+    depth: e.depth,
+    ...(e.node.component === UvmComponentType.TEST
+      ? { beforeOverrides: true, note: 'run_test() creates the test before its build_phase registers any override' }
+      : {})
+  })),
+  {
+    path: 'req',
+    requested: 'my_transaction',
+    kind: 'object',
+    depth: 1,
+    note: 'The sequence calls my_transaction::type_id::create("req") without a context, so the instance path is just "req"'
+  }
+];
+
+/** Whether `name` is `ancestor` or derives from it. */
+export const isA = (name: string, ancestor: string, classes: FactoryClass[]): boolean => {
+  const seen = new Set<string>();
+  for (let current: string | undefined = name; current && !seen.has(current); current = classes.find(c => c.name === current)?.base) {
+    if (current === ancestor) return true;
+    seen.add(current);
+  }
+  return false;
+};
+
+export interface FactoryTables {
+  inst: FactoryOverride[]; // In registration order; the first match wins
+  type: FactoryOverride[]; // At most one per original type
+  messages: string[];      // What the factory reports while registering, e.g. ignored overrides
+}
+
+/** Registers the overrides in order, the way uvm_factory does, keeping the ones that take effect. */
+export const registerOverrides = (scenario: FactoryScenario): FactoryTables => {
+  const registered = (name: string) => scenario.classes.some(c => c.name === name);
+  const tables: FactoryTables = { inst: [], type: [], messages: [] };
+
+  scenario.overrides.forEach((o, i) => {
+    const label = `Override ${i + 1}`;
+    const unknown = [o.original, o.override].filter(name => !registered(name));
+    if (unknown.length) {
+      tables.messages.push(o.byName
+        ? `${label}: UVM_WARNING TYPNTF: "${unknown.join('", "')}" is not registered with the factory; the override is ignored`
+        : `${label}: ${unknown.join(', ')} is not a registered class (a compile error with *_by_type)`);
+      return;
+    }
+    if (o.original === o.override) {
+      tables.messages.push(`${label}: UVM_WARNING TYPDUP: original and override type are identical; ignored`);
+      return;
+    }
+    if (o.kind === 'inst') {
+      tables.inst.push(o);
+      return;
+    }
+    const existing = tables.type.findIndex(t => t.original === o.original);
+    if (existing < 0) {
+      tables.type.push(o);
+    } else if (o.replace) {
+      tables.messages.push(`${label}: UVM_INFO TPREGR: ${o.original} was overridden by ${tables.type[existing].override}; now ${o.override}`);
+      tables.type[existing] = o;
+    } else {
+      tables.messages.push(`${label}: UVM_INFO TPREGD: ${o.original} is already overridden by ${tables.type[existing].override}; replace = 0 keeps it`);
+    }
+  });
+  return tables;
+};
+
+/**
+ * What type_id::create returns at `site`. As in uvm_factory::find_override_by_type, instance
+ * overrides are searched before type overrides, and the result is looked up again so overrides
+ * chain. The returned class must still derive from the requested one, or $cast fails.
+ */
+export const createAt = (site: FactorySite, scenario: FactoryScenario, tables: FactoryTables): FactoryCreation => {
+  const creation: FactoryCreation = { path: site.path, requested: site.requested, created: site.requested, steps: [], error: null };
+  if (site.beforeOverrides) return creation;
+
+  const number = (o: FactoryOverride) => scenario.overrides.indexOf(o) + 1;
+  const seen = [site.requested];
+  for (;;) {
+    const current = creation.created;
+    const inst = tables.inst.find(o => o.original === current && pathMatches(o.path, site.path));
+    const type = inst ? undefined : tables.type.find(o => o.original === current);
+    const applied = inst || type;
+    if (!applied) break;
+    if (seen.includes(applied.override)) {
+      creation.error = `UVM_FATAL OVRDLOOP: recursive override loop ${[...seen, applied.override].join(' -> ')}`;
+      break;
+    }
+    creation.steps.push(inst
+      ? `${current} -> ${inst.override}: instance override ${number(inst)} ("${inst.path}")`
+      : `${current} -> ${applied.override}: type override ${number(applied)}`);
+    creation.created = applied.override;
+    seen.push(applied.override);
+  }
+
+  if (!creation.error && !isA(creation.created, site.requested, scenario.classes)) {
+    creation.error = `UVM_FATAL FCTTYP: Factory did not return a ${site.kind} of type '${site.requested}'. A ${site.kind} of type '${creation.created}' was returned instead`;
+  }
+  return creation;
+};
+
+const table = (header: string[], rows: string[][]): string[] => {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => `  ${cells.map((c, i) => c.padEnd(widths[i])).join('  ')}`.trimEnd();
+  return [line(header), line(widths.map(w => '-'.repeat(w))), ...rows.map(line)];
+};
+
+/** The report uvm_factory::print(1) writes: overrides in effect, then the user-defined types. */
+export const factoryPrint = (scenario: FactoryScenario, tables: FactoryTables): string => {
+  const lines = ['#### Factory Configuration (*)', ''];
+  if (!tables.inst.length && !tables.type.length) {
+    lines.push('No instance or type overrides are registered with this factory');
+  } else {
+    if (tables.inst.length) {
+      lines.push('Instance Overrides:', '', ...table(['Requested Type', 'Override Path', 'Override Type'], tables.inst.map(o => [o.original, o.path, o.override])), '');
+    }
+    if (tables.type.length) {
+      lines.push('Type Overrides:', '', ...table(['Requested Type', 'Override Type'], tables.type.map(o => [o.original, o.override])));
+    }
+  }
+  const types = scenario.classes.map(c => c.name).sort();
+  lines.push('', `All types registered with the factory: ${types.length} total`, '(types without type names will not be printed)', '', ...table(['Type Name'], types.map(t => [t])));
+  lines.push('(*) Types with no associated type name will be printed as <unknown>', '', '####');
+  return lines.join('\n');
+};
+
+/** The test's build_phase lines that register the overrides. */
+export const overrideCode = (scenario: FactoryScenario): string => {
+  if (!scenario.overrides.length) return '// No overrides';
+  const calls = scenario.overrides.map(o => {
+    const args = o.byName ? `"${o.original}", "${o.override}"` : `${o.original}::get_type(), ${o.override}::get_type()`;
+    const extra = o.kind === 'inst' ? `, "${o.path}"` : o.replace ? '' : ', 0';
+    return `  factory.set_${o.kind}_override_by_${o.byName ? 'name' : 'type'}(${args}${extra});`;
+  });
+  return [
+    'function void my_test::build_phase(uvm_phase phase);',
+    '  uvm_factory factory = uvm_factory::get();',
+    '  super.build_phase(phase);',
+    '  // Overrides must be registered before the components are created',
+    ...calls,
+    '  env = my_env::type_id::create("env", this);',
+    'endfunction'
+  ].join('\n');
+};
+
+const withClasses = (...extra: FactoryClass[]) => [...TESTBENCH_CLASSES, ...extra];
+
+/** Ready-made override setups, from the daily patterns to the usual surprises. */
+export const FACTORY_SCENARIOS: FactoryScenario[] = [
+  {
+    id: 'type-override-item',
+    title: 'Type override: error transactions',
+    description: 'Every my_transaction created anywhere becomes an err_transaction, without touching the sequence.',
+    classes: withClasses({ name: 'err_transaction', base: 'my_transaction' }),
+    overrides: [
+      { id: 'o1', kind: 'type', byName: false, original: 'my_transaction', override: 'err_transaction', path: '', replace: true }
+    ]
+  },
+  {
+    id: 'inst-override-driver',
+    title: 'Instance override: one driver',
+    description: 'Only the driver at the given path becomes a slow_driver; a type override would change every my_driver.',
+    classes: withClasses({ name: 'slow_driver', base: 'my_driver' }),
+    overrides: [
+      { id: 'o1', kind: 'inst', byName: false, original: 'my_driver', override: 'slow_driver', path: 'uvm_test_top.env.agent.driver', replace: true }
+    ]
+  },
+  {
+    id: 'chained',
+    title: 'Chained overrides',
+    description: 'The override of an override applies too: my_transaction becomes err_transaction, which becomes crc_err_transaction.',
+    classes: withClasses({ name: 'err_transaction', base: 'my_transaction' }, { name: 'crc_err_transaction', base: 'err_transaction' }),
+    overrides: [
+      { id: 'o1', kind: 'type', byName: false, original: 'my_transaction', override: 'err_transaction', path: '', replace: true },
+      { id: 'o2', kind: 'type', byName: false, original: 'err_transaction', override: 'crc_err_transaction', path: '', replace: true }
+    ]
+  },
+  {
+    id: 'instance-before-type',
+    title: 'Instance overrides beat type overrides',
+    description: 'A type override makes every driver a fast_driver, but the instance override for the agent\'s driver is searched first.',
+    classes: withClasses({ name: 'fast_driver', base: 'my_driver' }, { name: 'slow_driver', base: 'my_driver' }),
+    overrides: [
+      { id: 'o1', kind: 'type', byName: false, original: 'my_driver', override: 'fast_driver', path: '', replace: true },
+      { id: 'o2', kind: 'inst', byName: false, original: 'my_driver', override: 'slow_driver', path: 'uvm_test_top.env.agent.driver', replace: true }
+    ]
+  },
+  {
+    id: 'instance-order',
+    title: 'First matching instance override wins',
+    description: 'The general "uvm_test_top.env.*" override is registered first, so the specific one never applies. Register specific paths first.',
+    classes: withClasses({ name: 'fast_driver', base: 'my_driver' }, { name: 'slow_driver', base: 'my_driver' }),
+    overrides: [
+      { id: 'o1', kind: 'inst', byName: false, original: 'my_driver', override: 'fast_driver', path: 'uvm_test_top.env.*', replace: true },
+      { id: 'o2', kind: 'inst', byName: false, original: 'my_driver', override: 'slow_driver', path: 'uvm_test_top.env.agent.driver', replace: true }
+    ]
+  },
+  {
+    id: 'pitfalls',
+    title: 'Why didn\'t my override apply?',
+    description: 'An instance override on the sequencer\'s path misses items created without a context, a by-name typo is only a warning, and an override that doesn\'t extend the original is fatal.',
+    classes: withClasses({ name: 'err_transaction', base: 'my_transaction' }, { name: 'fast_monitor', base: 'my_monitor' }, { name: 'rogue_driver', base: 'uvm_driver' }),
+    overrides: [
+      { id: 'o1', kind: 'inst', byName: false, original: 'my_transaction', override: 'err_transaction', path: 'uvm_test_top.env.agent.sequencer.*', replace: true },
+      { id: 'o2', kind: 'type', byName: true, original: 'my_montor', override: 'fast_monitor', path: '', replace: true },
+      { id: 'o3', kind: 'type', byName: false, original: 'my_driver', override: 'rogue_driver', path: '', replace: true }
+    ]
+  }
+];
@@ -1,7 +1,9 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { UvmComponentType, AiResponse } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { UvmComponentType, AiResponse, LlmSettings, ChatContextItem } from "../types";
+import { createProvider } from "./llmProviders";
+import { explanationCacheKey, readCachedExplanation, writeCachedExplanation } from "./explanationCache";
+import { OFFLINE_EXPLANATIONS } from "./offlineExplanations";
+import { AI_RESPONSE_SCHEMA, parseAiResponse } from "./aiResponseFormat";
+import { contextPrompt } from "./chatContext";
 
 const SYSTEM_INSTRUCTION = `
 You are an expert Senior Verification Engineer specializing in SystemVerilog and UVM (Universal Verification Methodology). 
@@ -10,73 +12,72 @@ Your goal is to teach UVM concepts clearly, concisely, and with excellent code e
 When asked to explain a component:
 1. Provide a high-level conceptual explanation (Analogy if helpful).
 2. Explain its role in the TLM (Transaction Level Modeling) flow.
-3. Provide a syntactically correct SystemVerilog code snippet inheriting from the correct uvm_class (e.g., uvm_driver, uvm_monitor).
-4. Keep the code snippet focused on the core logic (e.g., run_phase for drivers).
+3. Provide syntactically correct SystemVerilog code snippets inheriting from the correct uvm_class (e.g., uvm_driver, uvm_monitor).
+4. Keep each code snippet focused on the core logic (e.g., run_phase for drivers).
 `;
 
-export const getComponentExplanation = async (component: UvmComponentType): Promise<AiResponse> => {
-  try {
-    const prompt = `Explain the ${component} in a UVM Testbench. Include a standard SystemVerilog class template for it. Format the output with clear headings.`;
-    
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.3, // Lower temperature for more deterministic code
-      }
-    });
+// Part of the cache key: bump it whenever the prompt, SYSTEM_INSTRUCTION or AI_RESPONSE_SCHEMA changes
+export const EXPLANATION_PROMPT_VERSION = 2;
 
-    const text = response.text || "No explanation available.";
-    
-    // Simple parsing to separate code and text if the model follows standard markdown code blocks
-    const codeBlockRegex = /```systemverilog([\s\S]*?)```|```verilog([\s\S]*?)```|```([\s\S]*?)```/;
-    const match = text.match(codeBlockRegex);
-    
-    let codeSnippet = "// No code example generated.";
-    let explanation = text;
+/**
+ * Cached answers are reused per component, model and prompt version; `refresh` asks the model again.
+ * When the model can't be reached or its answer doesn't validate, the last cached answer, or else
+ * the bundled one, is returned.
+ */
+export const getComponentExplanation = async (
+  component: UvmComponentType,
+  settings: LlmSettings,
+  refresh = false
+): Promise<AiResponse> => {
+  const model = `${settings.provider}/${settings.model}`;
+  const key = explanationCacheKey(component, model, EXPLANATION_PROMPT_VERSION);
+  // The mock is instant and offline; caching it would only hide changes to its script
+  const cacheable = settings.provider !== 'mock';
+  const cached = cacheable ? await readCachedExplanation(key) : null;
+  if (cached && !refresh) return { ...cached.response, source: 'cache' };
 
-    if (match) {
-      codeSnippet = match[1] || match[2] || match[3] || "";
-      explanation = text.replace(match[0], "").trim();
-    }
+  try {
+    const prompt = `Explain the ${component} in a UVM Testbench. Fill in the overview, its role in the TLM flow, common pitfalls, ` +
+      `and separate code blocks for each piece a reader needs (the class template, any interface or transaction it uses, and a usage example).`;
+
+    const response = await createProvider(settings).generate(prompt, {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      temperature: 0.3, // Lower temperature for more deterministic code
+      responseSchema: AI_RESPONSE_SCHEMA
+    });
 
-    return {
-      explanation,
-      codeSnippet: codeSnippet.trim()
+    const result: AiResponse = {
+      ...parseAiResponse(response),
+      source: 'ai',
+      model,
+      generatedAt: Date.now()
     };
+    if (cacheable) {
+      await writeCachedExplanation({ key, component, model, promptVersion: EXPLANATION_PROMPT_VERSION, response: result, createdAt: result.generatedAt! });
+    }
+    return result;
 
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return {
-      explanation: "Failed to fetch explanation. Please check your API key or try again.",
-      codeSnippet: "// Error generating code"
-    };
+    console.error(`${settings.provider} API Error:`, error);
+    if (cached) return { ...cached.response, source: 'cache' };
+    return { ...OFFLINE_EXPLANATIONS[component], source: 'offline' };
   }
 };
 
 export const streamChatResponse = async (
   history: { role: 'user' | 'model'; content: string }[],
   currentMessage: string,
-  activeComponent: UvmComponentType
+  activeComponent: UvmComponentType | null, // null for free-form threads
+  settings: LlmSettings,
+  attached: ChatContextItem[] = [],
+  signal?: AbortSignal
 ): Promise<AsyncIterable<string>> => {
-  const contextPrompt = `Context: The user is currently studying the ${activeComponent} component. Focus answers on this context if ambiguous.`;
-  
-  const chat = ai.chats.create({
-    model: 'gemini-2.5-flash',
-    history: [
-      { role: 'user', parts: [{ text: SYSTEM_INSTRUCTION }] },
-      { role: 'model', parts: [{ text: "Understood. I am ready to explain UVM concepts." }] },
-      ...history.map(h => ({ role: h.role, parts: [{ text: h.content }] }))
-    ],
-  });
+  const componentPrompt = activeComponent
+    ? `Context: The user is currently studying the ${activeComponent} component. Focus answers on this context if ambiguous.`
+    : '';
 
-  const result = await chat.sendMessageStream({ message: `${contextPrompt}\n\nUser Question: ${currentMessage}` });
-  
-  // Return an async iterable that yields text chunks
-  return (async function* () {
-    for await (const chunk of result) {
-       yield chunk.text || '';
-    }
-  })();
-};
\ No newline at end of file
+  return createProvider(settings).stream(history, currentMessage, {
+    systemInstruction: [SYSTEM_INSTRUCTION, componentPrompt, contextPrompt(attached)].filter(Boolean).join('\n'),
+    signal
+  });
+};
@@ -0,0 +1,3 @@
+/** A plain JSON-style object (not null, not an array) whose fields still need checking one by one. */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
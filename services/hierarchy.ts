@@ -0,0 +1,51 @@
+import { UvmComponentType } from "../types";
+
+export interface HierarchyNode {
+  component: UvmComponentType;
+  name: string;              // Instance name, as services/testbenchGenerator.ts creates it
+  children: HierarchyNode[]; // In name order, which is the order UVM visits siblings in
+}
+
+/** The generated testbench's components under uvm_root. Top (a module) and sequences aren't components. */
+export const TESTBENCH_HIERARCHY: HierarchyNode = {
+  component: UvmComponentType.TEST,
+  name: 'uvm_test_top',
+  children: [{
+    component: UvmComponentType.ENV,
+    name: 'env',
+    children: [
+      {
+        component: UvmComponentType.AGENT,
+        name: 'agent',
+        children: [
+          { component: UvmComponentType.DRIVER, name: 'driver', children: [] },
+          { component: UvmComponentType.MONITOR, name: 'monitor', children: [] },
+          { component: UvmComponentType.SEQUENCER, name: 'sequencer', children: [] }
+        ]
+      },
+      { component: UvmComponentType.SCOREBOARD, name: 'scoreboard', children: [] }
+    ]
+  }]
+};
+
+export interface HierarchyEntry {
+  node: HierarchyNode;
+  path: string;  // Full name, e.g. "uvm_test_top.env.agent.driver"
+  depth: number; // get_depth(): 1 for uvm_test_top, 0 being uvm_root
+}
+
+/** Every node with its full name, parents before children (the order build_phase visits them in). */
+export const flattenHierarchy = (root: HierarchyNode = TESTBENCH_HIERARCHY): HierarchyEntry[] => {
+  const walk = (node: HierarchyNode, prefix: string, depth: number): HierarchyEntry[] => {
+    const path = prefix ? `${prefix}.${node.name}` : node.name;
+    return [{ node, path, depth }, ...node.children.flatMap(child => walk(child, path, depth + 1))];
+  };
+  return walk(root, '', 1);
+};
+
+// uvm_glob_to_re: * is any run of characters (dots included), ? is one character
+const globToRegExp = (glob: string): RegExp =>
+  new RegExp(`^${glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+/** uvm_is_match: whether a glob such as "uvm_test_top.env.agent*" covers a full name. */
+export const pathMatches = (glob: string, path: string): boolean => globToRegExp(glob).test(path);
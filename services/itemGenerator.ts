@@ -0,0 +1,157 @@
+import { BusProtocol, ItemField, TransactionItemDef } from "../types";
+import { PROTOCOLS } from "./protocols";
+
+export const ITEM_CLASS_NAME = 'my_transaction';
+
+// Fields every protocol driver, monitor and the scoreboard rely on.
+export const CORE_ITEM_FIELDS: ItemField[] = [
+  { name: 'addr', type: 'bit', width: 32, isRand: true, locked: true },
+  { name: 'data', type: 'bit', width: 32, isRand: true, locked: true },
+  { name: 'kind', type: 'enum', width: 0, enumType: 'kind_e', isRand: true, locked: true }
+];
+
+const lockedFields = (protocol: BusProtocol): ItemField[] =>
+  [...CORE_ITEM_FIELDS, ...PROTOCOLS[protocol].fields.map(f => f.item)];
+
+export const defaultItemDef = (protocol: BusProtocol = BusProtocol.APB): TransactionItemDef => ({
+  fields: lockedFields(protocol),
+  constraints: [],
+  style: 'macros'
+});
+
+/** Swaps the protocol-owned fields for those of `protocol`, keeping user fields and constraints. */
+export const rebaseItemDef = (def: TransactionItemDef, protocol: BusProtocol): TransactionItemDef => ({
+  ...def,
+  fields: [...lockedFields(protocol), ...def.fields.filter(f => !f.locked)]
+});
+
+/** Fields the user added on top of the protocol's own, i.e. those the Sequence Builder asks values for. */
+export const userFields = (def: TransactionItemDef): ItemField[] => def.fields.filter(f => !f.locked);
+
+const SV_KEYWORDS = new Set([
+  'bit', 'logic', 'int', 'byte', 'enum', 'rand', 'randc', 'class', 'function', 'task', 'begin', 'end',
+  'if', 'else', 'for', 'foreach', 'constraint', 'inside', 'dist', 'new', 'super', 'this', 'null', 'type',
+  'input', 'output', 'string', 'void', 'return', 'static', 'virtual', 'local', 'protected', 'solve', 'before'
+]);
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Null if `name` can be declared in SystemVerilog, else a message naming it as `what`. */
+export const checkIdentifier = (name: string, what: string): string | null => {
+  if (!IDENTIFIER.test(name)) return `${what} "${name}" is not a valid SystemVerilog identifier.`;
+  if (SV_KEYWORDS.has(name)) return `${what} "${name}" is a reserved word.`;
+  return null;
+};
+
+/** Returns human-readable problems; an empty list means the item will compile. */
+export const validateItemDef = (def: TransactionItemDef): string[] => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  def.fields.forEach(f => {
+    const bad = checkIdentifier(f.name, 'Field');
+    if (bad) errors.push(bad);
+    if (seen.has(f.name)) errors.push(`Field "${f.name}" is declared twice.`);
+    seen.add(f.name);
+    if ((f.type === 'bit' || f.type === 'logic') && (!Number.isInteger(f.width) || f.width < 1 || f.width > 64)) {
+      errors.push(`Field "${f.name}" needs a width between 1 and 64.`);
+    }
+    if (f.type === 'enum' && !f.locked) {
+      const typeError = checkIdentifier(f.enumType || '', 'Enum type');
+      if (typeError) errors.push(typeError);
+      if (!f.enumValues?.length) errors.push(`Enum field "${f.name}" has no values.`);
+      f.enumValues?.forEach(v => {
+        const valueError = checkIdentifier(v, 'Enum value');
+        if (valueError) errors.push(valueError);
+      });
+    }
+  });
+  const constraintNames = new Set<string>();
+  def.constraints.forEach(c => {
+    const bad = checkIdentifier(c.name, 'Constraint');
+    if (bad) errors.push(bad);
+    if (constraintNames.has(c.name)) errors.push(`Constraint "${c.name}" is declared twice.`);
+    constraintNames.add(c.name);
+    if (!c.body.trim()) errors.push(`Constraint "${c.name}" is empty.`);
+  });
+  return errors;
+};
+
+const typeOf = (f: ItemField): string => {
+  switch (f.type) {
+    case 'enum': return f.enumType || '';
+    case 'int': return 'int';
+    default: return f.width > 1 ? `${f.type} [${f.width - 1}:0]` : f.type;
+  }
+};
+
+const fieldMacro = (f: ItemField): string =>
+  f.type === 'enum'
+    ? `\`uvm_field_enum(${f.enumType}, ${f.name}, UVM_ALL_ON)`
+    : `\`uvm_field_int(${f.name}, UVM_ALL_ON)`;
+
+// Splits "a < b; c == d" or multi-line input into one expression per line.
+const constraintLines = (body: string): string[] =>
+  body.split(/[;\n]/).map(line => line.trim()).filter(Boolean).map(line => `${line};`);
+
+/**
+ * Emits my_transaction for the designed item. 'macros' uses `uvm_field_*` automation;
+ * 'manual' implements do_copy/do_compare/convert2string by hand, which is faster in
+ * simulation and the style most coding guidelines ask for.
+ */
+export const generateItemClass = (def: TransactionItemDef): string => {
+  const name = ITEM_CLASS_NAME;
+  const width = Math.max(0, ...def.fields.map(f => `${f.isRand ? 'rand ' : ''}${typeOf(f)}`.length));
+  let code = `class ${name} extends uvm_sequence_item;\n`;
+
+  const enums = def.fields.filter(f => f.type === 'enum' && !f.locked);
+  enums.forEach(f => {
+    code += `  typedef enum {${(f.enumValues || []).join(', ')}} ${f.enumType};\n`;
+  });
+  if (enums.length) code += '\n';
+
+  def.fields.forEach(f => {
+    code += `  ${`${f.isRand ? 'rand ' : ''}${typeOf(f)}`.padEnd(width)} ${f.name};\n`;
+  });
+
+  def.constraints.forEach(c => {
+    const lines = constraintLines(c.body);
+    code += lines.length === 1
+      ? `\n  constraint ${c.name} { ${lines[0]} }\n`
+      : `\n  constraint ${c.name} {\n${lines.map(l => `    ${l}\n`).join('')}  }\n`;
+  });
+  code += '\n';
+
+  if (def.style === 'macros') {
+    code += `  \`uvm_object_utils_begin(${name})\n`;
+    def.fields.forEach(f => { code += `    ${fieldMacro(f)}\n`; });
+    code += `  \`uvm_object_utils_end\n\n`;
+  } else {
+    code += `  \`uvm_object_utils(${name})\n\n`;
+  }
+
+  code += `  function new(string name = "${name}");\n    super.new(name);\n  endfunction\n`;
+
+  if (def.style === 'manual') {
+    code += `\n  virtual function void do_copy(uvm_object rhs);\n`;
+    code += `    ${name} rhs_;\n`;
+    code += `    if (!$cast(rhs_, rhs)) \`uvm_fatal("DO_COPY", "Cast of rhs object failed")\n`;
+    code += `    super.do_copy(rhs);\n`;
+    def.fields.forEach(f => { code += `    ${f.name} = rhs_.${f.name};\n`; });
+    code += `  endfunction\n`;
+
+    code += `\n  virtual function bit do_compare(uvm_object rhs, uvm_comparer comparer);\n`;
+    code += `    ${name} rhs_;\n`;
+    code += `    if (!$cast(rhs_, rhs)) return 0;\n`;
+    code += `    return super.do_compare(rhs, comparer)`;
+    def.fields.forEach(f => { code += ` &&\n           ${f.name} === rhs_.${f.name}`; });
+    code += `;\n  endfunction\n`;
+
+    const format = def.fields.map(f => `${f.name}=${f.type === 'enum' ? '%s' : '%0h'}`).join(' ');
+    const args = def.fields.map(f => (f.type === 'enum' ? `${f.name}.name()` : f.name)).join(', ');
+    code += `\n  virtual function string convert2string();\n`;
+    code += `    return $sformatf("${format}"${args ? `, ${args}` : ''});\n`;
+    code += `  endfunction\n`;
+  }
+
+  code += `endclass`;
+  return code;
+};
@@ -0,0 +1,281 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmErrorKind, LlmProviderId, LlmSettings, UvmComponentType } from "../types";
+import { OFFLINE_EXPLANATIONS } from "./offlineExplanations";
+
+const SETTINGS_KEY = 'uvm-master.llmSettings';
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  content: string;
+}
+
+export interface LlmRequestOptions {
+  systemInstruction: string;
+  temperature?: number;
+  responseSchema?: object; // JSON schema; the reply is then JSON text following it
+  signal?: AbortSignal;     // Aborting rejects the pending call or ends the stream early
+}
+
+/** One backend able to answer a single prompt and to stream a chat reply. */
+export interface LlmProvider {
+  generate(prompt: string, options: LlmRequestOptions): Promise<string>;
+  stream(history: LlmMessage[], message: string, options: LlmRequestOptions): AsyncIterable<string>;
+}
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+  models: string[];        // Suggestions; any model name the backend accepts is allowed
+  needsBaseUrl: boolean;
+}
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProviderInfo> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Hosted Gemini models. Needs internet access and an API key.',
+    defaultModel: 'gemini-2.5-flash',
+    models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    needsBaseUrl: false
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: 'Any /chat/completions endpoint: Ollama, llama.cpp, vLLM, LM Studio or OpenAI itself.',
+    defaultModel: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5-coder', 'mistral', 'gpt-4o-mini'],
+    needsBaseUrl: true
+  },
+  mock: {
+    id: 'mock',
+    label: 'Offline mock',
+    description: 'Scripted, deterministic answers. No network; for demos, lab machines and tests.',
+    defaultModel: 'scripted',
+    models: ['scripted'],
+    needsBaseUrl: false
+  }
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: LLM_PROVIDERS.gemini.defaultModel,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: ''
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!stored || !(stored.provider in LLM_PROVIDERS)) return DEFAULT_LLM_SETTINGS;
+    return { ...DEFAULT_LLM_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Could not save AI provider settings', err);
+  }
+};
+
+// --- Gemini ---
+
+// Built on first use so a missing key fails the request, not the page load
+let geminiClient: { apiKey: string; ai: GoogleGenAI } | null = null;
+
+const gemini = (apiKey: string): GoogleGenAI => {
+  if (!apiKey) throw new Error('No Gemini API key. Set GEMINI_API_KEY or enter one in AI settings.');
+  if (geminiClient?.apiKey !== apiKey) geminiClient = { apiKey, ai: new GoogleGenAI({ apiKey }) };
+  return geminiClient.ai;
+};
+
+const geminiProvider = (settings: LlmSettings): LlmProvider => {
+  const apiKey = settings.apiKey || process.env.API_KEY || '';
+  return {
+    async generate(prompt, { systemInstruction, temperature, responseSchema, signal }) {
+      const response = await gemini(apiKey).models.generateContent({
+        model: settings.model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          temperature,
+          abortSignal: signal,
+          ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {})
+        }
+      });
+      return response.text || '';
+    },
+    async *stream(history, message, { systemInstruction, temperature, signal }) {
+      const chat = gemini(apiKey).chats.create({
+        model: settings.model,
+        history: history.map(h => ({ role: h.role, parts: [{ text: h.content }] }))
+      });
+      // Per-message config replaces the chat's, so everything goes here
+      for await (const chunk of await chat.sendMessageStream({ message, config: { systemInstruction, temperature, abortSignal: signal } })) {
+        yield chunk.text || '';
+      }
+    }
+  };
+};
+
+// --- OpenAI-compatible ---
+
+const openAiMessages = (history: LlmMessage[], message: string, systemInstruction: string) => [
+  { role: 'system', content: systemInstruction },
+  ...history.map(h => ({ role: h.role === 'model' ? 'assistant' : 'user', content: h.content })),
+  { role: 'user', content: message }
+];
+
+const openAiProvider = (settings: LlmSettings): LlmProvider => {
+  const post = async (body: object, signal?: AbortSignal): Promise<Response> => {
+    const url = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const response = await fetch(url, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: settings.model, ...body })
+    });
+    if (!response.ok) {
+      // `status` is what describeLlmError() sorts on, as with the Gemini SDK's ApiError
+      const detail = (await response.text()).slice(0, 200);
+      throw Object.assign(new Error(`${url} answered ${response.status} ${response.statusText}: ${detail}`), { status: response.status });
+    }
+    return response;
+  };
+
+  return {
+    async generate(prompt, { systemInstruction, temperature, responseSchema, signal }) {
+      const response = await post({
+        messages: openAiMessages([], prompt, systemInstruction),
+        temperature,
+        ...(responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } } : {})
+      }, signal);
+      const json = await response.json();
+      return json.choices?.[0]?.message?.content || '';
+    },
+    async *stream(history, message, { systemInstruction, temperature, signal }) {
+      const response = await post({ messages: openAiMessages(history, message, systemInstruction), temperature, stream: true }, signal);
+      if (!response.body) throw new Error('The endpoint returned no response body.');
+      // Server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+          yield JSON.parse(data).choices?.[0]?.delta?.content || '';
+        }
+      }
+    }
+  };
+};
+
+// --- Offline mock ---
+
+// First matching rule answers; the last one always matches. `json` is set when a response schema was asked for.
+const MOCK_SCRIPT: { match: RegExp; reply: (m: RegExpMatchArray, json: boolean) => string }[] = [
+  {
+    match: /Explain the (.+?) in a UVM Testbench/,
+    reply: ([, component], json) => {
+      const offline = OFFLINE_EXPLANATIONS[component as UvmComponentType];
+      if (!offline) return `The offline tutor has no notes on "${component}".`;
+      if (json) return JSON.stringify(offline);
+      return [
+        offline.overview,
+        offline.tlmRole,
+        offline.pitfalls.map(p => `- ${p}`).join('\n'),
+        ...offline.codeBlocks.map(b => `\`\`\`${b.language}\n${b.code}\n\`\`\``)
+      ].join('\n\n');
+    }
+  },
+  {
+    // Quick actions are about attached code, which the script can't read
+    match: /^(Explain this code|Which calls in this code block|Review my sequence|Ask me three short questions)/,
+    reply: () => 'The offline tutor can\'t read the attached code. Choose Gemini or an OpenAI-compatible model in AI settings to have it explained or reviewed.'
+  },
+  {
+    match: /\b(driver|get_next_item|item_done)\b/i,
+    reply: () => 'The driver pulls items with `seq_item_port.get_next_item(req)`, drives them on the virtual interface, then calls `item_done()` so the sequence\'s `finish_item()` returns.'
+  },
+  {
+    match: /\b(sequencer|arbitrat\w*|grant)\b/i,
+    reply: () => 'The sequencer queues `start_item()` requests from every running sequence, grants one at a time according to its arbitration mode, and hands the item to the driver.'
+  },
+  {
+    match: /\b(config_db|uvm_config_db|configuration)\b/i,
+    reply: () => '`uvm_config_db#(T)::set(context, "path", "name", value)` stores a value; components below that path retrieve it with `get()` in build_phase.'
+  },
+  {
+    match: /\b(phase|objection|run_phase|build_phase)\b/i,
+    reply: () => 'Build and connect phases run top-down and bottom-up as functions; run_phase is a task and ends once every raised objection has been dropped.'
+  },
+  {
+    match: /[\s\S]*/,
+    reply: () => 'The offline tutor only knows a few scripted answers. Try asking about the driver, the sequencer, uvm_config_db or phases, or choose another provider in AI settings.'
+  }
+];
+
+const mockReply = (prompt: string, json = false): string => {
+  for (const rule of MOCK_SCRIPT) {
+    const m = prompt.match(rule.match);
+    if (m) return rule.reply(m, json);
+  }
+  return '';
+};
+
+const mockProvider = (): LlmProvider => ({
+  async generate(prompt, { responseSchema }) {
+    return mockReply(prompt, !!responseSchema);
+  },
+  async *stream(_history, message, { signal }) {
+    // Word by word, so the UI exercises the same streaming path as a real model
+    for (const word of mockReply(message).split(/(?<=\s)/)) {
+      await new Promise(resolve => setTimeout(resolve, 15));
+      signal?.throwIfAborted();
+      yield word;
+    }
+  }
+});
+
+const LLM_ERROR_MESSAGES: Record<LlmErrorKind, string> = {
+  auth: 'The AI provider rejected the request as unauthorized. Check the API key in AI settings.',
+  quota: 'The AI provider\'s quota or rate limit is used up. Wait a moment and retry, or switch provider in AI settings.',
+  network: 'Could not reach the AI provider. Check the network connection or the endpoint in AI settings.',
+  aborted: 'Stopped.',
+  unknown: 'The AI provider returned an error.'
+};
+
+/** Sorts a provider failure into what the user can do about it, with a message saying so. */
+export const describeLlmError = (error: unknown): { kind: LlmErrorKind; message: string } => {
+  const err = error as { name?: string; message?: string; status?: number } | undefined;
+  const text = err?.message || String(error);
+  let kind: LlmErrorKind = 'unknown';
+  if (err?.name === 'AbortError') kind = 'aborted';
+  else if (err?.status === 401 || err?.status === 403 || /api key|unauthenticated|permission_denied|unauthorized/i.test(text)) kind = 'auth';
+  else if (err?.status === 429 || /resource_exhausted|quota|rate limit/i.test(text)) kind = 'quota';
+  else if (error instanceof TypeError || /failed to fetch|fetch failed|network|ECONNREFUSED/i.test(text)) kind = 'network';
+  return { kind, message: kind === 'unknown' ? `${LLM_ERROR_MESSAGES.unknown} ${text}` : LLM_ERROR_MESSAGES[kind] };
+};
+
+/** The provider the settings select. Cheap to call per request. */
+export const createProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'gemini': return geminiProvider(settings);
+    case 'openai': return openAiProvider(settings);
+    case 'mock': return mockProvider();
+  }
+};
@@ -0,0 +1,149 @@
+// A small Markdown reader for model output: headings, paragraphs, lists, tables, quotes and fenced code.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: InlineNode[] }
+  | { type: 'paragraph'; content: InlineNode[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'rule' };
+
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(?!\s)([^*]+?)\*|(?<!\w)_(?!\s)([^_]+?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+// Links come from model output; anything but web and mail links stays literal text
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(INLINE)) {
+    if (m.index! > last) nodes.push({ type: 'text', text: text.slice(last, m.index) });
+    if (m[1] !== undefined) nodes.push({ type: 'code', text: m[1] });
+    else if (m[2] !== undefined || m[3] !== undefined) nodes.push({ type: 'strong', children: parseInline(m[2] ?? m[3]) });
+    else if (m[4] !== undefined || m[5] !== undefined) nodes.push({ type: 'em', children: parseInline(m[4] ?? m[5]) });
+    else if (SAFE_HREF.test(m[7])) nodes.push({ type: 'link', href: m[7], children: parseInline(m[6]) });
+    else nodes.push({ type: 'text', text: m[0] });
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+  return nodes;
+};
+
+const FENCE = /^\s*(```+|~~~+)\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const startsBlock = (line: string, next: string | undefined) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next) && next.includes('-'));
+
+/** Parses Markdown into blocks. An unterminated fence (a reply still streaming) runs to the end. */
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) { i++; continue; }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const indent = line.match(/^\s*/)![0].length;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(fence[1][0].repeat(3)) && lines[i].trim().replace(/[`~]/g, '') === '')) {
+        body.push(lines[i].slice(Math.min(indent, lines[i].match(/^\s*/)![0].length)));
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), code: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlign => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) inner.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', blocks: parseMarkdown(inner.join('\n')) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const indent = item[1].length;
+      const ordered = /\d/.test(item[2]);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        const m = current.match(LIST_ITEM);
+        if (m && m[1].length === indent && /\d/.test(m[2]) === ordered) {
+          items.push([m[3]]);
+        } else if (current.trim() && current.match(/^\s*/)![0].length > indent) {
+          // Continuation or nested list: keep it with the item, relative to the item's text
+          items[items.length - 1].push(current.slice(Math.min(current.match(/^\s*/)![0].length, indent + 2)));
+        } else if (!current.trim() && i + 1 < lines.length && lines[i + 1].match(/^\s*/)![0].length > indent) {
+          items[items.length - 1].push('');
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2]) : 1, items: items.map(lines => parseMarkdown(lines.join('\n'))) });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) paragraph.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', content: parseInline(paragraph.join('\n')) });
+  }
+  return blocks;
+};
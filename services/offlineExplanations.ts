@@ -0,0 +1,536 @@
+import { AiResponse, UvmComponentType } from "../types";
+
+/**
+ * Hand-written explanations shipped with the app, shown when no AI backend answers.
+ * Code uses the same class names as the generated testbench (my_transaction, my_if, ...).
+ */
+export const OFFLINE_EXPLANATIONS: Record<UvmComponentType, AiResponse> = {
+  [UvmComponentType.TOP]: {
+    overview: `The top module (tb_top) is plain SystemVerilog, not a UVM class. It is the static world the UVM testbench plugs into: it generates clock and reset, instantiates the interface and the DUT, and starts UVM.
+
+If the testbench is a lab, tb_top is the bench itself: power, clock and the board are wired here before any instrument is switched on.`,
+    tlmRole: `tb_top takes no part in TLM traffic. It bridges the static and the dynamic world:
+1. It instantiates my_if and connects it to the DUT ports.
+2. It publishes the interface with uvm_config_db so the driver and monitor can find it as a virtual interface.
+3. It calls run_test(), which creates the test named by +UVM_TESTNAME and runs every phase.`,
+    pitfalls: [
+      'Calling uvm_config_db::set for the interface after run_test() starts: build_phase may already have run and the get() fails.',
+      'Forgetting to import uvm_pkg and the testbench package, which gives confusing "unknown type" errors.',
+      'Passing a test name to run_test() and also +UVM_TESTNAME; the plusarg wins, which surprises people reading the code.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Top module',
+        language: 'systemverilog',
+        filename: 'tb_top.sv',
+        code: `module tb_top;
+  import uvm_pkg::*;
+  import my_pkg::*;
+
+  bit clk;
+  bit rst_n;
+
+  always #5 clk = ~clk;
+
+  initial begin
+    rst_n = 0;
+    repeat (5) @(posedge clk);
+    rst_n = 1;
+  end
+
+  my_if vif (.clk(clk), .rst_n(rst_n));
+  dut   u_dut (.bus(vif));
+
+  initial begin
+    uvm_config_db#(virtual my_if)::set(null, "*", "vif", vif);
+    run_test("my_test");
+  end
+endmodule`
+      }
+    ]
+  },
+
+  [UvmComponentType.TEST]: {
+    overview: `The test is the root of the UVM component tree (uvm_test_top). It builds the environment, configures it for one scenario and decides which sequences run.
+
+The environment is the stage and cast; the test is the script for tonight's performance.`,
+    tlmRole: `The test has no ports of its own. In run_phase it raises an objection, starts a sequence on the agent's sequencer and drops the objection once the sequence finishes, which lets the simulation end.`,
+    pitfalls: [
+      'Forgetting to raise an objection: run_phase ends at time 0 and nothing is driven.',
+      'Putting reusable structure in the test instead of the env; keep tests thin and vary only configuration, factory overrides and sequences.',
+      'Registering the test with `uvm_object_utils instead of `uvm_component_utils, so run_test() cannot create it.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Test class',
+        language: 'systemverilog',
+        filename: 'my_test.sv',
+        code: `class my_test extends uvm_test;
+  \`uvm_component_utils(my_test)
+
+  my_env env;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    env = my_env::type_id::create("env", this);
+  endfunction
+
+  virtual task run_phase(uvm_phase phase);
+    my_custom_seq seq = my_custom_seq::type_id::create("seq");
+    phase.raise_objection(this);
+    seq.start(env.agent.sequencer);
+    phase.drop_objection(this);
+  endtask
+endclass`
+      },
+      {
+        label: 'Running it',
+        language: 'shell',
+        code: `# Any simulator: pick the test at run time
++UVM_TESTNAME=my_test +UVM_VERBOSITY=UVM_MEDIUM`
+      }
+    ]
+  },
+
+  [UvmComponentType.ENV]: {
+    overview: `The environment groups the verification components for one DUT: agents, scoreboards, coverage collectors and, when present, the register model.
+
+Think of a drawer holding everything needed to exercise one block, packed so a test can open it and use it.`,
+    tlmRole: `In build_phase the env creates its children; in connect_phase it wires them, typically connecting each agent's monitor analysis port to the scoreboard's analysis export.`,
+    pitfalls: [
+      'Making connections in build_phase: the children exist, but their ports may not yet.',
+      'Creating children with new() instead of type_id::create(), which bypasses factory overrides.',
+      'Reaching into a nested env\'s internals from the test; expose what tests need through the env\'s config object.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Environment class',
+        language: 'systemverilog',
+        filename: 'my_env.sv',
+        code: `class my_env extends uvm_env;
+  \`uvm_component_utils(my_env)
+
+  my_agent      agent;
+  my_scoreboard scoreboard;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    agent      = my_agent::type_id::create("agent", this);
+    scoreboard = my_scoreboard::type_id::create("scoreboard", this);
+  endfunction
+
+  virtual function void connect_phase(uvm_phase phase);
+    super.connect_phase(phase);
+    agent.ap.connect(scoreboard.analysis_export);
+  endfunction
+endclass`
+      }
+    ]
+  },
+
+  [UvmComponentType.AGENT]: {
+    overview: `An agent bundles everything for one interface: sequencer, driver and monitor. It is the reusable unit of a UVM testbench.
+
+- Active (UVM_ACTIVE): builds all three and drives the bus.
+- Passive (UVM_PASSIVE): builds only the monitor, for observing an interface something else drives.`,
+    tlmRole: `The agent connects driver.seq_item_port to sequencer.seq_item_export and re-exports the monitor's analysis port so the env can reach it without knowing the agent's internals.`,
+    pitfalls: [
+      'Building the driver and sequencer unconditionally; a passive agent must not drive the bus.',
+      'Connecting to monitor.ap from outside the agent; re-export it so the agent\'s structure can change.',
+      'Setting is_active after the agent\'s build_phase has already read it.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Agent class',
+        language: 'systemverilog',
+        filename: 'my_agent.sv',
+        code: `class my_agent extends uvm_agent;
+  \`uvm_component_utils(my_agent)
+
+  my_sequencer sequencer;
+  my_driver    driver;
+  my_monitor   monitor;
+  uvm_analysis_port #(my_transaction) ap;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    monitor = my_monitor::type_id::create("monitor", this);
+    if (get_is_active() == UVM_ACTIVE) begin
+      sequencer = my_sequencer::type_id::create("sequencer", this);
+      driver    = my_driver::type_id::create("driver", this);
+    end
+  endfunction
+
+  virtual function void connect_phase(uvm_phase phase);
+    super.connect_phase(phase);
+    ap = monitor.ap;
+    if (get_is_active() == UVM_ACTIVE)
+      driver.seq_item_port.connect(sequencer.seq_item_export);
+  endfunction
+endclass`
+      },
+      {
+        label: 'Making it passive',
+        language: 'systemverilog',
+        code: `// In the test or env build_phase, before the agent is built
+uvm_config_db#(uvm_active_passive_enum)::set(this, "env.agent", "is_active", UVM_PASSIVE);`
+      }
+    ]
+  },
+
+  [UvmComponentType.SEQUENCER]: {
+    overview: `The sequencer sits between sequences and the driver. It queues requests from every sequence running on it, arbitrates between them and hands one item at a time to the driver.
+
+Like an air traffic controller: many planes (sequences) ask to land, there is one runway (the driver), and the controller decides the order.`,
+    tlmRole: `start_item() asks the sequencer for a grant; finish_item() passes the item through seq_item_export to the driver's get_next_item() and blocks until item_done().`,
+    pitfalls: [
+      'Expecting priorities to matter under the default UVM_SEQ_ARB_FIFO; use set_arbitration(UVM_SEQ_ARB_STRICT_FIFO) or WEIGHTED.',
+      'Writing a custom sequencer class when a typedef of uvm_sequencer #(my_transaction) would do.',
+      'Starting a sequence on a null sequencer handle from a passive agent.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Sequencer class',
+        language: 'systemverilog',
+        filename: 'my_sequencer.sv',
+        code: `class my_sequencer extends uvm_sequencer #(my_transaction);
+  \`uvm_component_utils(my_sequencer)
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+endclass`
+      },
+      {
+        label: 'Typedef alternative',
+        language: 'systemverilog',
+        code: `typedef uvm_sequencer #(my_transaction) my_sequencer;`
+      },
+      {
+        label: 'Arbitration',
+        language: 'systemverilog',
+        code: `// Higher priority wins; equal priorities are served in request order
+env.agent.sequencer.set_arbitration(UVM_SEQ_ARB_STRICT_FIFO);
+fork
+  background_seq.start(env.agent.sequencer, null, 100);
+  urgent_seq.start(env.agent.sequencer, null, 500);
+join`
+      }
+    ]
+  },
+
+  [UvmComponentType.DRIVER]: {
+    overview: `The driver turns transactions into pin activity. It pulls items from the sequencer and drives them on the virtual interface following the bus protocol's timing.
+
+Like a translator reading a written script (the transaction) aloud, word by word, at the pace the listener (the DUT) expects.`,
+    tlmRole: `1. seq_item_port.get_next_item(req) blocks until a sequence calls finish_item().
+2. The driver wiggles the interface signals for one bus transfer.
+3. seq_item_port.item_done() releases the sequence, which can then send the next item.`,
+    pitfalls: [
+      'Forgetting item_done(): the sequence hangs in finish_item() forever.',
+      'Not checking the uvm_config_db::get() result for the virtual interface, which turns into a null-handle crash later.',
+      'Putting protocol timing in sequences instead of the driver, which ties stimulus to one bus.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Driver class',
+        language: 'systemverilog',
+        filename: 'my_driver.sv',
+        code: `class my_driver extends uvm_driver #(my_transaction);
+  \`uvm_component_utils(my_driver)
+
+  virtual my_if vif;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    if (!uvm_config_db#(virtual my_if)::get(this, "", "vif", vif))
+      \`uvm_fatal("NOVIF", "Virtual interface not set")
+  endfunction
+
+  virtual task run_phase(uvm_phase phase);
+    forever begin
+      seq_item_port.get_next_item(req);
+      drive_transfer(req);
+      seq_item_port.item_done();
+    end
+  endtask
+
+  virtual task drive_transfer(my_transaction tr);
+    @(posedge vif.clk);
+    // Drive address, data and control signals for one transfer here
+  endtask
+endclass`
+      },
+      {
+        label: 'Connection in the agent',
+        language: 'systemverilog',
+        code: `driver.seq_item_port.connect(sequencer.seq_item_export);`
+      }
+    ]
+  },
+
+  [UvmComponentType.MONITOR]: {
+    overview: `The monitor watches the interface without driving anything. When it sees a complete bus transfer it samples the signals into a new transaction and broadcasts it.
+
+Like a court stenographer: it records exactly what happened and never takes part.`,
+    tlmRole: `The monitor writes each observed transaction to a uvm_analysis_port. Any number of subscribers (scoreboards, coverage, predictors) receive it through their write() functions, and a port with no subscribers is fine.`,
+    pitfalls: [
+      'Reusing one transaction object for every transfer: subscribers that keep the handle see it change under them.',
+      'Reading values from the driver or sequence; the monitor must only trust the pins.',
+      'Sampling on the wrong edge instead of through a clocking block, which races with the driver.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Monitor class',
+        language: 'systemverilog',
+        filename: 'my_monitor.sv',
+        code: `class my_monitor extends uvm_monitor;
+  \`uvm_component_utils(my_monitor)
+
+  virtual my_if vif;
+  uvm_analysis_port #(my_transaction) ap;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+    ap = new("ap", this);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    if (!uvm_config_db#(virtual my_if)::get(this, "", "vif", vif))
+      \`uvm_fatal("NOVIF", "Virtual interface not set")
+  endfunction
+
+  virtual task run_phase(uvm_phase phase);
+    forever begin
+      my_transaction tr;
+      @(posedge vif.clk);
+      // Wait for a completed transfer, then sample it
+      tr = my_transaction::type_id::create("tr");
+      ap.write(tr);
+    end
+  endtask
+endclass`
+      }
+    ]
+  },
+
+  [UvmComponentType.SCOREBOARD]: {
+    overview: `The scoreboard decides pass or fail. It receives observed transactions, compares them with what a reference model predicts, and reports mismatches.
+
+An examiner with the answer key: every answer the DUT gives is checked against it.`,
+    tlmRole: `The scoreboard implements write() behind a uvm_analysis_imp (or exposes an analysis_export backed by a FIFO). The monitor's analysis port calls write() for every transaction it sees, in zero time.`,
+    pitfalls: [
+      'Blocking inside write(): it is a function called from the monitor\'s thread. Use a uvm_tlm_analysis_fifo if checking needs time.',
+      'Reporting mismatches with uvm_info, so failing tests still pass.',
+      'Never checking in check_phase that expected transactions are not still outstanding.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Scoreboard class',
+        language: 'systemverilog',
+        filename: 'my_scoreboard.sv',
+        code: `class my_scoreboard extends uvm_scoreboard;
+  \`uvm_component_utils(my_scoreboard)
+
+  uvm_analysis_imp #(my_transaction, my_scoreboard) analysis_export;
+  bit [31:0] mem [bit [31:0]];
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+    analysis_export = new("analysis_export", this);
+  endfunction
+
+  virtual function void write(my_transaction t);
+    if (t.kind == WRITE) begin
+      mem[t.addr] = t.data;
+    end else if (mem.exists(t.addr) && t.data !== mem[t.addr]) begin
+      \`uvm_error("SB", $sformatf("addr %0h: expected %0h, got %0h", t.addr, mem[t.addr], t.data))
+    end
+  endfunction
+endclass`
+      }
+    ]
+  },
+
+  [UvmComponentType.DUT]: {
+    overview: `The Design Under Test is the RTL being verified. It is not part of UVM: the testbench only reaches it through the interface signals.
+
+Because UVM only talks to pins, the same testbench works for RTL, gate-level netlists or a behavioural model.`,
+    tlmRole: `The DUT is outside the TLM world. The driver's pin activity is its input; its outputs are what the monitor samples and turns back into transactions.`,
+    pitfalls: [
+      'Instantiating the DUT with long port lists in several places; connect it through the interface so port changes stay in one place.',
+      'Letting testbench code peek at internal DUT signals; it couples the testbench to one implementation.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Example DUT',
+        language: 'systemverilog',
+        filename: 'dut.sv',
+        code: `// A simple register-file slave behind the bus interface
+module dut (my_if.slave bus);
+  logic [31:0] regs [0:255];
+
+  always_ff @(posedge bus.clk or negedge bus.rst_n) begin
+    if (!bus.rst_n) begin
+      bus.rdata <= '0;
+    end else if (bus.sel && bus.enable) begin
+      if (bus.write) regs[bus.addr[9:2]] <= bus.wdata;
+      else           bus.rdata           <= regs[bus.addr[9:2]];
+    end
+  end
+
+  assign bus.ready = 1'b1;
+endmodule`
+      },
+      {
+        label: 'Instantiation',
+        language: 'systemverilog',
+        code: `my_if vif (.clk(clk), .rst_n(rst_n));
+dut   u_dut (.bus(vif));`
+      }
+    ]
+  },
+
+  [UvmComponentType.INTERFACE]: {
+    overview: `A SystemVerilog interface bundles the bus signals in one place. The DUT connects to it as ports; UVM classes reach it through a virtual interface handle.
+
+Think of the cable harness between the test equipment and the board: one plug instead of dozens of loose wires.`,
+    tlmRole: `tb_top instantiates the interface and publishes it with uvm_config_db. The driver writes its signals; the monitor only reads them. Clocking blocks fix when each side samples and drives, which removes races between the testbench and RTL.`,
+    pitfalls: [
+      'Driving interface signals from both the driver and the DUT without modports stating direction.',
+      'Mismatched types on set and get: virtual my_if on one side, virtual my_if.drv_mp on the other.',
+      'Keeping protocol assertions only in one testbench instead of in the interface where every user benefits.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Interface',
+        language: 'systemverilog',
+        filename: 'my_if.sv',
+        code: `interface my_if (input logic clk, input logic rst_n);
+  logic        sel;
+  logic        enable;
+  logic        write;
+  logic [31:0] addr;
+  logic [31:0] wdata;
+  logic [31:0] rdata;
+  logic        ready;
+
+  clocking drv_cb @(posedge clk);
+    output sel, enable, write, addr, wdata;
+    input  rdata, ready;
+  endclocking
+
+  clocking mon_cb @(posedge clk);
+    input sel, enable, write, addr, wdata, rdata, ready;
+  endclocking
+
+  modport slave (input clk, rst_n, sel, enable, write, addr, wdata, output rdata, ready);
+endinterface`
+      },
+      {
+        label: 'Virtual interface in a class',
+        language: 'systemverilog',
+        code: `virtual my_if vif;
+
+if (!uvm_config_db#(virtual my_if)::get(this, "", "vif", vif))
+  \`uvm_fatal("NOVIF", "Virtual interface not set")
+
+@(vif.drv_cb);
+vif.drv_cb.addr <= tr.addr;`
+      }
+    ]
+  },
+
+  [UvmComponentType.SEQUENCE]: {
+    overview: `A sequence generates stimulus. Its body() task creates transactions, randomizes them (often with inline constraints) and sends them to a sequencer.
+
+Like a playlist: it decides what plays and in which order, but not how the speakers work.`,
+    tlmRole: `1. start_item(req) waits for the sequencer's grant.
+2. The item is randomized after the grant, so it can react to late state.
+3. finish_item(req) hands it to the driver and blocks until item_done().`,
+    pitfalls: [
+      'Registering a sequence with `uvm_component_utils; sequences are objects and use `uvm_object_utils.',
+      'Randomizing before start_item(), which loses the chance to react to state at grant time.',
+      'Ignoring the randomize() return value, so a constraint conflict silently sends a stale item.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Sequence class',
+        language: 'systemverilog',
+        filename: 'my_custom_seq.sv',
+        code: `class my_custom_seq extends uvm_sequence #(my_transaction);
+  \`uvm_object_utils(my_custom_seq)
+
+  function new(string name = "my_custom_seq");
+    super.new(name);
+  endfunction
+
+  virtual task body();
+    repeat (4) begin
+      req = my_transaction::type_id::create("req");
+      start_item(req);
+      if (!req.randomize() with { kind == WRITE; addr inside {['h0:'hFC]}; })
+        \`uvm_error("SEQ", "Randomization failed")
+      finish_item(req);
+    end
+  endtask
+endclass`
+      },
+      {
+        label: 'Starting it from a test',
+        language: 'systemverilog',
+        code: `my_custom_seq seq = my_custom_seq::type_id::create("seq");
+phase.raise_objection(this);
+seq.start(env.agent.sequencer);
+phase.drop_objection(this);`
+      }
+    ]
+  },
+
+  [UvmComponentType.CONFIG_DB]: {
+    overview: `uvm_config_db is a typed, hierarchical lookup table. Higher levels set values for a path; components below retrieve them, usually in build_phase.
+
+Like a notice board in each office: management pins notes addressed to specific rooms, and each room reads the notes meant for it.`,
+    tlmRole: `The config DB is not a TLM channel; it carries configuration, not transactions. set(context, "inst_path", "field", value) stores the value for the path context + inst_path, which may contain wildcards. get(this, "", "field", var) looks up the caller's own path. When several sets match, the one made higher in the hierarchy wins during build; later sets from the same level override earlier ones.`,
+    pitfalls: [
+      'The type parameter must match exactly on set and get; int and bit [31:0] are different entries.',
+      'Not checking get()\'s return value, so a missing item becomes a silent default.',
+      'Setting a value after the consumer\'s build_phase has already read it.'
+    ],
+    codeBlocks: [
+      {
+        label: 'Publish from tb_top',
+        language: 'systemverilog',
+        code: `uvm_config_db#(virtual my_if)::set(null, "*", "vif", vif);`
+      },
+      {
+        label: 'Configure from a test',
+        language: 'systemverilog',
+        code: `uvm_config_db#(uvm_active_passive_enum)::set(this, "env.agent", "is_active", UVM_PASSIVE);`
+      },
+      {
+        label: 'Retrieve in a component',
+        language: 'systemverilog',
+        code: `if (!uvm_config_db#(virtual my_if)::get(this, "", "vif", vif))
+  \`uvm_fatal("NOVIF", "Virtual interface not set")`
+      }
+    ]
+  }
+};
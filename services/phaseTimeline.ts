@@ -0,0 +1,210 @@
+import { PhaseDef, PhaseEvent, PhaseObjection, PhaseRun, PhaseScenario, UvmComponentType } from "../types";
+import { HierarchyNode, TESTBENCH_HIERARCHY, flattenHierarchy } from "./hierarchy";
+
+/** UVM's default phase timeout (uvm_root::set_timeout, +UVM_TIMEOUT): 9200 s, in ns. */
+export const PHASE_TIMEOUT = 9200e9;
+
+/** The common phases in the order they execute. run runs alongside the run-time phases (reset, configure, main, ...), left out here. */
+export const PHASES: PhaseDef[] = [
+  { name: 'build', kind: 'function', order: 'top-down', description: 'Parents go first: each creates its children and sets the config_db entries they will read.' },
+  { name: 'connect', kind: 'function', order: 'bottom-up', description: 'Every component exists now, so TLM ports are connected to their exports and imps.' },
+  { name: 'end_of_elaboration', kind: 'function', order: 'bottom-up', description: 'The hierarchy is final. A good place to print the topology or check the configuration.' },
+  { name: 'start_of_simulation', kind: 'function', order: 'bottom-up', description: 'The last call before time starts: banners, verbosity, opening log files.' },
+  { name: 'run', kind: 'task', order: 'parallel', description: 'Every run_phase task is forked at time 0. The phase ends when no objections remain, not when the tasks return; tasks still running are killed.' },
+  { name: 'extract', kind: 'function', order: 'bottom-up', description: 'Time has stopped. Components gather final values such as coverage or what is left in the scoreboard queues.' },
+  { name: 'check', kind: 'function', order: 'bottom-up', description: 'Compare expected against actual and flag anything left unmatched.' },
+  { name: 'report', kind: 'function', order: 'bottom-up', description: 'Print results; the test usually prints PASSED or FAILED from the error count.' },
+  { name: 'final', kind: 'function', order: 'top-down', description: 'Close files and tidy up before the simulator exits.' }
+];
+
+// What a component does in a phase, where it's worth saying
+const CALL_NOTES: Record<string, Partial<Record<UvmComponentType, string>>> = {
+  build: {
+    [UvmComponentType.TEST]: 'sets config_db entries, then creates env',
+    [UvmComponentType.ENV]: 'creates agent and scoreboard',
+    [UvmComponentType.AGENT]: 'reads is_active; creates monitor, plus driver and sequencer when active',
+    [UvmComponentType.DRIVER]: 'gets vif from uvm_config_db',
+    [UvmComponentType.MONITOR]: 'gets vif and creates its analysis port'
+  },
+  connect: {
+    [UvmComponentType.AGENT]: 'driver.seq_item_port.connect(sequencer.seq_item_export)',
+    [UvmComponentType.ENV]: 'agent.monitor.ap.connect(scoreboard.analysis_export)'
+  },
+  end_of_elaboration: {
+    [UvmComponentType.TEST]: 'uvm_top.print_topology()'
+  },
+  run: {
+    [UvmComponentType.TEST]: 'starts the sequence on env.agent.sequencer',
+    [UvmComponentType.DRIVER]: 'forever get_next_item() ... item_done(); never returns',
+    [UvmComponentType.MONITOR]: 'forever samples the interface; never returns',
+    [UvmComponentType.SEQUENCER]: 'arbitrates between the sequences started on it'
+  },
+  check: {
+    [UvmComponentType.SCOREBOARD]: 'flags expected items that never arrived'
+  },
+  report: {
+    [UvmComponentType.SCOREBOARD]: 'prints match and mismatch counts',
+    [UvmComponentType.TEST]: 'prints TEST PASSED or TEST FAILED'
+  }
+};
+
+/** Ready-made run_phase setups, from the right way to the classic mistakes. */
+export const PHASE_SCENARIOS: PhaseScenario[] = [
+  {
+    id: 'objection-around-sequence',
+    title: 'Test objects around its sequence',
+    description: 'The usual pattern: raise_objection(), seq.start(), drop_objection(). run_phase lasts exactly as long as the traffic.',
+    objections: { [UvmComponentType.TEST]: [{ raiseAt: 0, dropAt: 500 }] },
+    trafficEnd: 500,
+    drainTime: 0
+  },
+  {
+    id: 'no-objection',
+    title: 'No objection: the test ends at time 0',
+    description: 'Nobody raises an objection, so run_phase ends at time 0. The sequence never sends anything, no errors are reported, and the test "passes".',
+    objections: {},
+    trafficEnd: 500,
+    drainTime: 0
+  },
+  {
+    id: 'dropped-early',
+    title: 'Objection dropped too early',
+    description: 'The test forks the sequence with join_none and drops its objection after #100. The rest of the traffic is cut off.',
+    objections: { [UvmComponentType.TEST]: [{ raiseAt: 0, dropAt: 100 }] },
+    trafficEnd: 500,
+    drainTime: 0
+  },
+  {
+    id: 'drain-time',
+    title: 'Drain time for in-flight responses',
+    description: 'The last response reaches the scoreboard after the sequence returns. phase_done.set_drain_time(this, 100) keeps run_phase open a little longer once the count reaches zero.',
+    objections: { [UvmComponentType.TEST]: [{ raiseAt: 0, dropAt: 500 }] },
+    trafficEnd: 500,
+    drainTime: 100
+  },
+  {
+    id: 'scoreboard-objection',
+    title: 'Scoreboard holds the phase open',
+    description: 'The scoreboard raises an objection while it has items waiting for a match, so the phase only ends once it has checked the last one.',
+    objections: {
+      [UvmComponentType.TEST]: [{ raiseAt: 0, dropAt: 500 }],
+      [UvmComponentType.SCOREBOARD]: [{ raiseAt: 120, dropAt: 220 }, { raiseAt: 480, dropAt: 560 }]
+    },
+    trafficEnd: 500,
+    drainTime: 0
+  },
+  {
+    id: 'never-dropped',
+    title: 'Objection never dropped',
+    description: 'The sequence waits for a response that never comes, so drop_objection() is never reached. The simulation hangs until the phase timeout kills it.',
+    objections: { [UvmComponentType.TEST]: [{ raiseAt: 0, dropAt: null }] },
+    trafficEnd: 500,
+    drainTime: 0
+  }
+];
+
+const preOrder = (node: HierarchyNode): HierarchyNode[] => [node, ...node.children.flatMap(preOrder)];
+const postOrder = (node: HierarchyNode): HierarchyNode[] => [...node.children.flatMap(postOrder), node];
+
+const PATHS: Record<string, string> = Object.fromEntries(flattenHierarchy().map(e => [e.node.component, e.path]));
+const NAMES: Record<string, string> = Object.fromEntries(flattenHierarchy().map(e => [e.node.component, e.node.name]));
+
+export const formatPhaseTime = (ns: number): string => {
+  if (ns >= 1e9) return `${+(ns / 1e9).toFixed(3)} s`;
+  if (ns >= 1e6) return `${+(ns / 1e6).toFixed(3)} ms`;
+  return `${ns} ns`;
+};
+
+/**
+ * Plays a scenario through every phase, one event per phase call and objection change, in the
+ * order a UVM simulator would. Objections are counted per component; run_phase ends once the
+ * total reaches zero and the drain time has passed, or at time 0 if none was raised then.
+ */
+export const simulatePhases = (scenario: PhaseScenario): PhaseRun => {
+  const events: PhaseEvent[] = [];
+  const held: Partial<Record<UvmComponentType, number>> = {};
+  const push = (phase: string, component: UvmComponentType | null, kind: PhaseEvent['kind'], time: number, message: string) =>
+    events.push({ phase, component, kind, time, message, objections: { ...held } });
+
+  let runEnd = 0;
+  let timedOut = false;
+  let trafficCutAt: number | null = null;
+
+  for (const phase of PHASES) {
+    if (phase.name !== 'run') {
+      const order = phase.order === 'top-down' ? preOrder(TESTBENCH_HIERARCHY) : postOrder(TESTBENCH_HIERARCHY);
+      order.forEach(node => {
+        const note = CALL_NOTES[phase.name]?.[node.component];
+        push(phase.name, node.component, 'call', runEnd, `${PATHS[node.component]}.${phase.name}_phase()${note ? `: ${note}` : ''}`);
+      });
+      continue;
+    }
+
+    preOrder(TESTBENCH_HIERARCHY).forEach(node => {
+      const note = CALL_NOTES.run[node.component];
+      push('run', node.component, 'call', 0, `fork ${PATHS[node.component]}.run_phase()${note ? `: ${note}` : ''}`);
+    });
+
+    // Raises sort before drops at the same time: UVM only checks for zero once the time step settles
+    const changes = (Object.entries(scenario.objections) as [UvmComponentType, PhaseObjection[]][])
+      .flatMap(([component, list]) => list.flatMap(o => [
+        { component, time: o.raiseAt, delta: 1 },
+        ...(o.dropAt === null ? [] : [{ component, time: o.dropAt, delta: -1 }])
+      ]))
+      .sort((a, b) => a.time - b.time || b.delta - a.delta);
+
+    let total = 0;
+    // Set while the count is zero: when the phase will end unless something raises first
+    let endAt: number | null = changes.some(c => c.time === 0 && c.delta > 0) ? null : 0;
+    let next = 0;
+    for (; next < changes.length; next++) {
+      const change = changes[next];
+      if (endAt !== null && change.time >= endAt) break;
+      const name = NAMES[change.component];
+      const count = held[change.component] || 0;
+      if (change.delta < 0 && count === 0) {
+        push('run', change.component, 'warning', change.time, `UVM_ERROR OBJTN_ZERO: ${name} drops an objection it never raised`);
+        continue;
+      }
+      held[change.component] = count + change.delta;
+      total += change.delta;
+      if (change.delta > 0) {
+        push('run', change.component, 'raise', change.time,
+          `${name}: phase.raise_objection(this), ${total} outstanding${endAt !== null ? '; raised during the drain time, so the phase carries on' : ''}`);
+        endAt = null;
+      } else {
+        push('run', change.component, 'drop', change.time, `${name}: phase.drop_objection(this), ${total} outstanding`);
+        if (total === 0) {
+          endAt = change.time + scenario.drainTime;
+          if (scenario.drainTime > 0) push('run', null, 'drain', change.time, `No objections left; waiting the ${formatPhaseTime(scenario.drainTime)} drain time`);
+        }
+      }
+    }
+
+    if (endAt === null) {
+      runEnd = PHASE_TIMEOUT;
+      timedOut = true;
+      const holders = (Object.keys(held) as UvmComponentType[]).filter(c => held[c]).map(c => NAMES[c]).join(', ');
+      push('run', null, 'timeout', PHASE_TIMEOUT,
+        `UVM_FATAL PH_TIMEOUT: default timeout of ${formatPhaseTime(PHASE_TIMEOUT)} hit; ${holders} still ${holders.includes(',') ? 'hold' : 'holds'} an objection`);
+      push('run', null, 'end', PHASE_TIMEOUT, 'The fatal error ends the simulation: extract, check, report and final never run, only the report summary is printed');
+      break;
+    }
+
+    runEnd = endAt;
+    push('run', null, 'end', runEnd, events.some(e => e.kind === 'raise')
+      ? `All objections dropped: run_phase ends at ${formatPhaseTime(runEnd)} and the forever loops are killed`
+      : 'No objection raised at time 0: run_phase ends immediately');
+    if (scenario.trafficEnd > runEnd) {
+      trafficCutAt = runEnd;
+      push('run', null, 'warning', runEnd,
+        `The sequence needed until ${formatPhaseTime(scenario.trafficEnd)} but was killed at ${formatPhaseTime(runEnd)}; the rest of its transactions never ran, and nothing reports it`);
+    }
+    changes.slice(next).filter(c => c.delta > 0).forEach(c => {
+      push('run', c.component, 'warning', runEnd,
+        `${NAMES[c.component]} would raise at ${formatPhaseTime(c.time)}, after run_phase ended; its task was already killed`);
+    });
+  }
+
+  return { events, runEnd, timedOut, trafficCutAt };
+};
@@ -0,0 +1,134 @@
+import { BusProtocol, RegisterMap, SequenceDef, SequenceProject, TransactionItemDef, TransactionKind } from "../types";
+import { TOP_SEQUENCE_ID } from "./sequenceTree";
+import { emptyRegisterMap } from "./ralGenerator";
+import { isObject } from "./guards";
+
+export const PROJECT_FORMAT = 'uvm-sequence-project';
+
+/** Bump whenever saved projects change shape, and register the upgrade in MIGRATIONS. */
+export const PROJECT_FORMAT_VERSION = 2;
+
+/** What a project file carries; ids and timestamps are assigned by whoever loads it. */
+export type ProjectContent = Pick<SequenceProject, 'name' | 'protocol' | 'item' | 'library' | 'registers'>;
+
+interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  project: ProjectContent;
+}
+
+// MIGRATIONS[n] turns a version-n project into a version n+1 one. Entries run in order, so a
+// new optional SequenceStep field only needs a step here if old files need a non-empty default.
+// Anything that isn't an object is passed through for validateProject to reject.
+const MIGRATIONS: Record<number, (project: unknown) => unknown> = {
+  // 2: register maps
+  1: project => (isObject(project) ? { ...project, registers: emptyRegisterMap() } : project)
+};
+
+/** Upgrades a project saved by an older version of the format to the current one. */
+export const migrateProject = (project: unknown, version: unknown): unknown => {
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) throw new Error(`Unknown format version "${version}".`);
+  if (version > PROJECT_FORMAT_VERSION) {
+    throw new Error(`Saved with format version ${version}; this build reads up to ${PROJECT_FORMAT_VERSION}.`);
+  }
+  let migrated = project;
+  for (let v = version; v < PROJECT_FORMAT_VERSION; v++) {
+    if (!MIGRATIONS[v]) throw new Error(`No migration from format version ${v}.`);
+    migrated = MIGRATIONS[v](migrated);
+  }
+  return migrated;
+};
+
+const expect: (ok: boolean, path: string, message: string) => asserts ok = (ok, path, message) => {
+  if (!ok) throw new Error(`${path}: ${message}`);
+};
+
+const includes = (values: readonly unknown[], value: unknown) => values.includes(value);
+
+const validateNodes = (nodes: unknown, path: string) => {
+  expect(Array.isArray(nodes), path, 'expected a list of steps');
+  nodes.forEach((node: unknown, i) => {
+    const at = `${path}[${i}]`;
+    expect(isObject(node) && typeof node.id === 'string', at, 'expected a step or block with an id');
+    if (!('type' in node)) {
+      expect(includes(Object.values(TransactionKind), node.kind), at, `unknown kind "${node.kind}"`);
+      expect(typeof node.addr === 'string' && typeof node.data === 'string', at, 'addr and data must be strings');
+      expect(typeof node.delay === 'number', at, 'delay must be a number');
+      return;
+    }
+    switch (node.type) {
+      case 'repeat':
+        expect(typeof node.count === 'number', at, 'repeat count must be a number');
+        validateNodes(node.body, `${at}.body`);
+        break;
+      case 'for':
+        expect(typeof node.index === 'string' && typeof node.from === 'number' && typeof node.to === 'number', at, 'for needs index, from and to');
+        validateNodes(node.body, `${at}.body`);
+        break;
+      case 'fork': {
+        const { join, branches } = node;
+        expect(includes(['join', 'join_any', 'join_none'], join), at, `unknown join "${join}"`);
+        expect(Array.isArray(branches), at, 'fork needs branches');
+        branches.forEach((branch: unknown, b) => validateNodes(branch, `${at}.branches[${b}]`));
+        break;
+      }
+      case 'call':
+        expect(typeof node.sequenceId === 'string' && includes(['uvm_do', 'start'], node.style), at, 'call needs sequenceId and style');
+        break;
+      default:
+        expect(false, at, `unknown block type "${node.type}"`);
+    }
+  });
+};
+
+/** Checks a (migrated) project's shape and returns it typed; throws naming the offending path. */
+export const validateProject = (project: unknown): ProjectContent => {
+  expect(isObject(project), 'project', 'expected an object');
+  const { name, protocol, item, library, registers } = project;
+  expect(typeof name === 'string', 'project.name', 'expected a string');
+  expect(includes(Object.values(BusProtocol), protocol), 'project.protocol', `unknown protocol "${protocol}"`);
+  expect(isObject(item) && Array.isArray(item.fields) && Array.isArray(item.constraints), 'project.item', 'expected fields and constraints');
+  item.fields.forEach((f: unknown, i) =>
+    expect(isObject(f) && typeof f.name === 'string' && typeof f.type === 'string', `project.item.fields[${i}]`, 'expected a name and type'));
+  expect(Array.isArray(library) && library.length > 0, 'project.library', 'expected at least one sequence');
+  library.forEach((def: unknown, i) => {
+    const at = `project.library[${i}]`;
+    expect(isObject(def) && typeof def.id === 'string' && typeof def.name === 'string', at, 'expected a sequence with id and name');
+    validateNodes(def.nodes, `${at}.nodes`);
+  });
+  expect(library.some((def: unknown) => isObject(def) && def.id === TOP_SEQUENCE_ID), 'project.library', `no "${TOP_SEQUENCE_ID}" sequence`);
+  expect(isObject(registers) && typeof registers.name === 'string' && typeof registers.baseAddress === 'number', 'project.registers', 'expected a register map');
+  expect(Array.isArray(registers.registers), 'project.registers.registers', 'expected a list');
+  registers.registers.forEach((reg: unknown, i) =>
+    expect(isObject(reg) && typeof reg.name === 'string' && typeof reg.offset === 'number' && Array.isArray(reg.fields),
+      `project.registers.registers[${i}]`, 'expected a name, offset and fields'));
+  // Every level was checked above; the casts only restate that for the compiler
+  return {
+    name,
+    protocol: protocol as BusProtocol,
+    item: item as unknown as TransactionItemDef,
+    library: library as SequenceDef[],
+    registers: registers as unknown as RegisterMap
+  };
+};
+
+export const serializeProject = (project: SequenceProject): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    project: { name: project.name, protocol: project.protocol, item: project.item, library: project.library, registers: project.registers }
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Reads an exported project file, upgrading older versions. Throws with a readable message. */
+export const parseProjectFile = (text: string): ProjectContent => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file.');
+  }
+  if (!isObject(file) || file.format !== PROJECT_FORMAT) throw new Error('Not a sequence project export.');
+  return validateProject(migrateProject(file.project, file.version));
+};
@@ -0,0 +1,137 @@
+import { BusProtocol, SequenceProject } from "../types";
+import { PROJECT_FORMAT_VERSION, ProjectContent, migrateProject, validateProject } from "./projectFormat";
+import { defaultItemDef } from "./itemGenerator";
+import { SEQUENCE_CLASS_NAME } from "./sequenceGenerator";
+import { TOP_SEQUENCE_ID } from "./sequenceTree";
+import { emptyRegisterMap } from "./ralGenerator";
+import { isObject } from "./guards";
+
+const PROJECTS_KEY = 'uvm-master.projects';
+const ACTIVE_PROJECT_KEY = 'uvm-master.activeProject';
+
+/** A saved project as written, with the format version it was written in. */
+interface SavedEntry {
+  version: number;
+  project: unknown;
+}
+
+interface StoredProjects {
+  version: number;
+  projects: SequenceProject[];
+  // Entries this build could not open, carried along untouched so a newer or fixed build still can
+  unreadable?: SavedEntry[];
+}
+
+export interface LoadedProjects {
+  projects: SequenceProject[];
+  /** Saved entries that did not open; saveProjects writes them back as they were. */
+  unreadable: SavedEntry[];
+  /** Why the store must not be written over (saved by a newer build, or unreadable), or null. */
+  locked: string | null;
+}
+
+export const createProject = (name: string, protocol: BusProtocol = BusProtocol.APB): SequenceProject => ({
+  id: Date.now().toString(),
+  name,
+  protocol,
+  item: defaultItemDef(protocol),
+  library: [{ id: TOP_SEQUENCE_ID, name: SEQUENCE_CLASS_NAME, nodes: [] }],
+  registers: emptyRegisterMap(),
+  updatedAt: Date.now()
+});
+
+/** Appends " (2)", " (3)", ... until the name is free. */
+export const uniqueProjectName = (name: string, projects: SequenceProject[]): string => {
+  const base = name.replace(/ \(\d+\)$/, '') || 'Untitled project';
+  let candidate = base;
+  for (let n = 2; projects.some(p => p.name === candidate); n++) candidate = `${base} (${n})`;
+  return candidate;
+};
+
+/** A loaded or imported project under a fresh id and a name no other project uses. */
+export const adoptProject = (content: ProjectContent, projects: SequenceProject[]): SequenceProject => ({
+  ...structuredClone(content),
+  id: `${Date.now()}-${projects.length}`,
+  name: uniqueProjectName(content.name, projects),
+  updatedAt: Date.now()
+});
+
+const isSavedEntry = (value: unknown): value is SavedEntry =>
+  isObject(value) && typeof value.version === 'number' && Number.isInteger(value.version);
+
+const openEntry = ({ version, project }: SavedEntry): SequenceProject => {
+  const content = validateProject(migrateProject(project, version));
+  const saved = project as Record<string, unknown>;
+  return { ...content, id: String(saved.id), updatedAt: Number(saved.updatedAt) || 0 };
+};
+
+/**
+ * Projects saved in this browser, upgraded to the current format. A project that no longer
+ * validates is left out (and logged) rather than taking the others down with it, and is kept
+ * in `unreadable` so the next save does not drop it.
+ */
+export const loadProjects = (): LoadedProjects => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(PROJECTS_KEY) || 'null');
+  } catch (err) {
+    console.error('Saved projects are unreadable', err);
+    return { projects: [], unreadable: [], locked: 'The projects saved in this browser are unreadable.' };
+  }
+  if (stored === null) return { projects: [], unreadable: [], locked: null };
+  if (!isObject(stored) || typeof stored.version !== 'number' || !Number.isInteger(stored.version) || !Array.isArray(stored.projects)) {
+    return { projects: [], unreadable: [], locked: 'The projects saved in this browser are in an unknown layout.' };
+  }
+  const version = stored.version;
+  if (version > PROJECT_FORMAT_VERSION) {
+    return {
+      projects: [],
+      unreadable: [],
+      locked: `The projects saved in this browser use format version ${version}; this build reads up to ${PROJECT_FORMAT_VERSION}.`
+    };
+  }
+
+  const entries: SavedEntry[] = [
+    ...stored.projects.map((project: unknown) => ({ version, project })),
+    ...(Array.isArray(stored.unreadable) ? stored.unreadable.filter(isSavedEntry) : [])
+  ];
+  const projects: SequenceProject[] = [];
+  const unreadable: SavedEntry[] = [];
+  entries.forEach(entry => {
+    try {
+      projects.push(openEntry(entry));
+    } catch (err) {
+      console.error(`Skipping saved project "${isObject(entry.project) ? entry.project.name : ''}"`, err);
+      unreadable.push(entry);
+    }
+  });
+  return { projects, unreadable, locked: null };
+};
+
+/** Returns false if the browser refused the write (quota exceeded, storage disabled). */
+export const saveProjects = (projects: SequenceProject[], unreadable: SavedEntry[] = []): boolean => {
+  const stored: StoredProjects = { version: PROJECT_FORMAT_VERSION, projects, ...(unreadable.length ? { unreadable } : {}) };
+  try {
+    localStorage.setItem(PROJECTS_KEY, JSON.stringify(stored));
+    return true;
+  } catch (err) {
+    console.error('Could not save projects', err);
+    return false;
+  }
+};
+
+export const loadActiveProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveProjectId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+  } catch {
+    // Not worth surfacing; the first project opens instead
+  }
+};
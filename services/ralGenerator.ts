@@ -0,0 +1,187 @@
+import { BusProtocol, RegAccess, RegDef, RegisterMap, SequenceStep, TransactionKind } from "../types";
+import { formatHex } from "./apbSimulator";
+import { PROTOCOLS } from "./protocols";
+import { ITEM_CLASS_NAME, checkIdentifier } from "./itemGenerator";
+
+export const REG_BLOCK_CLASS_NAME = 'my_reg_block';
+export const REG_ADAPTER_CLASS_NAME = 'my_reg_adapter';
+
+// Sequences reach the block through this member, fetched from uvm_config_db by the env's key
+export const REG_MODEL_HANDLE = 'regmodel';
+
+// my_transaction carries 32-bit data, so the map moves 4 bytes per bus access
+const BUS_BYTES = 4;
+
+export const REG_ACCESS_POLICIES: RegAccess[] = [
+  'RW', 'RO', 'WO', 'W1C', 'W1S', 'W1T', 'W0C', 'W0S', 'W0T', 'RC', 'RS', 'WRC', 'WRS', 'WC', 'WS',
+  'WSRC', 'WCRS', 'W1SRC', 'W1CRS', 'W0SRC', 'W0CRS', 'WOC', 'WOS', 'W1', 'WO1'
+];
+
+const READ_ONLY: RegAccess[] = ['RO', 'RC', 'RS'];
+const WRITE_ONLY: RegAccess[] = ['WO', 'WOC', 'WOS', 'WO1'];
+
+export const REG_WIDTHS = [8, 16, 32, 64];
+
+export const emptyRegisterMap = (): RegisterMap => ({ name: REG_BLOCK_CLASS_NAME, baseAddress: 0, registers: [] });
+
+/** True if a write can change the field; such fields are `rand` and randomizable. */
+export const isWritable = (access: RegAccess) => !READ_ONLY.includes(access);
+
+export const findRegister = (map: RegisterMap, name: string | undefined): RegDef | undefined =>
+  map.registers.find(r => r.name === name);
+
+export const registerAddress = (map: RegisterMap, reg: RegDef) => map.baseAddress + reg.offset;
+
+/** The register value after reset, assembled from its fields. */
+export const registerReset = (reg: RegDef) =>
+  reg.fields.reduce((value, f) => value + (f.reset % 2 ** f.width) * 2 ** f.lsb, 0);
+
+const svHex = (value: number, width?: number) => `${width || ''}'h${value.toString(16).toUpperCase()}`;
+
+/** Returns human-readable problems; an empty list means the model will compile and map cleanly. */
+export const validateRegisterMap = (map: RegisterMap): string[] => {
+  const errors: string[] = [];
+  const blockError = checkIdentifier(map.name, 'Block');
+  if (blockError) errors.push(blockError);
+  if (!Number.isInteger(map.baseAddress) || map.baseAddress < 0) errors.push('Base address must be a non-negative integer.');
+
+  const names = new Set<string>();
+  map.registers.forEach((reg, i) => {
+    const bad = checkIdentifier(reg.name, 'Register');
+    if (bad) errors.push(bad);
+    if (names.has(reg.name)) errors.push(`Register "${reg.name}" is declared twice.`);
+    names.add(reg.name);
+    if (!REG_WIDTHS.includes(reg.width)) errors.push(`Register "${reg.name}" must be 8, 16, 32 or 64 bits wide.`);
+    const bytes = Math.max(1, reg.width / 8);
+    if (!Number.isInteger(reg.offset) || reg.offset < 0) errors.push(`Register "${reg.name}" needs a non-negative offset.`);
+    else if (reg.offset % Math.min(bytes, BUS_BYTES) !== 0) errors.push(`Register "${reg.name}" at ${svHex(reg.offset)} is not aligned to its size.`);
+
+    const clash = map.registers.slice(0, i).find(other =>
+      reg.offset < other.offset + Math.max(1, other.width / 8) && other.offset < reg.offset + bytes);
+    if (clash) errors.push(`Register "${reg.name}" overlaps "${clash.name}".`);
+
+    if (reg.fields.length === 0) errors.push(`Register "${reg.name}" has no fields.`);
+    const fieldNames = new Set<string>();
+    reg.fields.forEach((f, j) => {
+      const where = `${reg.name}.${f.name}`;
+      const fieldError = checkIdentifier(f.name, 'Field');
+      if (fieldError) errors.push(`${reg.name}: ${fieldError}`);
+      if (fieldNames.has(f.name)) errors.push(`Field "${where}" is declared twice.`);
+      fieldNames.add(f.name);
+      if (!Number.isInteger(f.lsb) || !Number.isInteger(f.width) || f.lsb < 0 || f.width < 1 || f.lsb + f.width > reg.width) {
+        errors.push(`Field "${where}" [${f.lsb + f.width - 1}:${f.lsb}] does not fit in ${reg.width} bits.`);
+      }
+      const overlap = reg.fields.slice(0, j).find(o => f.lsb < o.lsb + o.width && o.lsb < f.lsb + f.width);
+      if (overlap) errors.push(`Field "${where}" overlaps "${overlap.name}".`);
+      if (!REG_ACCESS_POLICIES.includes(f.access)) errors.push(`Field "${where}" has unknown access "${f.access}".`);
+      if (!Number.isInteger(f.reset) || f.reset < 0 || f.reset >= 2 ** f.width) {
+        errors.push(`Field "${where}" reset value does not fit in ${f.width} bits.`);
+      }
+    });
+  });
+  return errors;
+};
+
+// Map rights: what the bus may do to the register as a whole.
+const rights = (reg: RegDef) => {
+  if (reg.fields.every(f => READ_ONLY.includes(f.access))) return 'RO';
+  if (reg.fields.every(f => WRITE_ONLY.includes(f.access))) return 'WO';
+  return 'RW';
+};
+
+export const registerClassName = (reg: RegDef) => `${reg.name}_reg`;
+
+const registerClass = (reg: RegDef): string => {
+  const name = registerClassName(reg);
+  const fields = [...reg.fields].sort((a, b) => a.lsb - b.lsb);
+  let code = `class ${name} extends uvm_reg;\n`;
+  code += `  \`uvm_object_utils(${name})\n\n`;
+  fields.forEach(f => {
+    // Imported descriptions often span lines; a line comment must not
+    const note = f.description?.replace(/\s+/g, ' ').trim();
+    code += `  ${isWritable(f.access) ? 'rand ' : ''}uvm_reg_field ${f.name};${note ? ` // ${note}` : ''}\n`;
+  });
+  code += `\n  function new(string name = "${name}");\n    super.new(name, ${reg.width}, UVM_NO_COVERAGE);\n  endfunction\n\n`;
+  code += `  virtual function void build();\n`;
+  code += `    // configure(parent, size, lsb_pos, access, volatile, reset, has_reset, is_rand, individually_accessible)\n`;
+  fields.forEach(f => {
+    code += `    ${f.name} = uvm_reg_field::type_id::create("${f.name}");\n`;
+    code += `    ${f.name}.configure(this, ${f.width}, ${f.lsb}, "${f.access}", ${f.volatile ? 1 : 0}, ${svHex(f.reset, f.width)}, 1, ${isWritable(f.access) ? 1 : 0}, 0);\n`;
+  });
+  code += `  endfunction\nendclass`;
+  return code;
+};
+
+/**
+ * Emits one uvm_reg class per register plus the uvm_reg_block that instantiates them and
+ * maps them at their offsets in `default_map`.
+ */
+export const generateRegisterModel = (map: RegisterMap): string => {
+  const width = Math.max(0, ...map.registers.map(r => registerClassName(r).length));
+  let code = map.registers.map(reg => registerClass(reg) + '\n\n').join('');
+  code += `class ${map.name} extends uvm_reg_block;\n`;
+  code += `  \`uvm_object_utils(${map.name})\n\n`;
+  map.registers.forEach(reg => {
+    code += `  rand ${registerClassName(reg).padEnd(width)} ${reg.name};\n`;
+  });
+  if (map.registers.length) code += '\n';
+  code += `  function new(string name = "${map.name}");\n    super.new(name, UVM_NO_COVERAGE);\n  endfunction\n\n`;
+  code += `  virtual function void build();\n`;
+  code += `    default_map = create_map("default_map", ${svHex(map.baseAddress)}, ${BUS_BYTES}, UVM_LITTLE_ENDIAN);\n\n`;
+  map.registers.forEach(reg => {
+    code += `    ${reg.name} = ${registerClassName(reg)}::type_id::create("${reg.name}");\n`;
+    code += `    ${reg.name}.configure(this, null, "");\n`;
+    code += `    ${reg.name}.build();\n`;
+    code += `    default_map.add_reg(${reg.name}, ${svHex(reg.offset)}, "${rights(reg)}");\n\n`;
+  });
+  code += `    lock_model();\n  endfunction\nendclass`;
+  return code;
+};
+
+/**
+ * Emits the adapter between generic register operations and my_transaction. Protocol fields
+ * the register layer knows nothing about (strobe, prot, ...) are driven with their defaults.
+ */
+export const generateRegAdapter = (protocol: BusProtocol = BusProtocol.APB): string => {
+  const name = REG_ADAPTER_CLASS_NAME;
+  const fields = PROTOCOLS[protocol].fields;
+  const response = fields.find(f => f.key === 'response');
+  let code = `class ${name} extends uvm_reg_adapter;\n`;
+  code += `  \`uvm_object_utils(${name})\n\n`;
+  code += `  function new(string name = "${name}");\n    super.new(name);\n`;
+  code += `    supports_byte_enable = 0;\n    provides_responses   = 0;\n  endfunction\n\n`;
+
+  code += `  virtual function uvm_sequence_item reg2bus(const ref uvm_reg_bus_op rw);\n`;
+  code += `    ${ITEM_CLASS_NAME} tr = ${ITEM_CLASS_NAME}::type_id::create("tr");\n`;
+  code += `    tr.kind = (rw.kind == UVM_READ) ? READ : WRITE;\n`;
+  code += `    tr.addr = rw.addr;\n`;
+  code += `    tr.data = rw.data;\n`;
+  fields.filter(f => f !== response).forEach(f => {
+    code += `    tr.${f.key} = ${f.defaultValue};\n`;
+  });
+  code += `    return tr;\n  endfunction\n\n`;
+
+  code += `  virtual function void bus2reg(uvm_sequence_item bus_item, ref uvm_reg_bus_op rw);\n`;
+  code += `    ${ITEM_CLASS_NAME} tr;\n`;
+  code += `    if (!$cast(tr, bus_item)) \`uvm_fatal("ADAPTER", "bus_item is not a ${ITEM_CLASS_NAME}")\n`;
+  code += `    rw.kind   = (tr.kind == READ) ? UVM_READ : UVM_WRITE;\n`;
+  code += `    rw.addr   = tr.addr;\n`;
+  code += `    rw.data   = tr.data;\n`;
+  code += response
+    ? `    rw.status = (tr.response == ${response.options![0]}) ? UVM_IS_OK : UVM_NOT_OK;\n`
+    : `    rw.status = UVM_IS_OK;\n`;
+  code += `  endfunction\nendclass`;
+  return code;
+};
+
+/** Gives register steps the bus address and kind their RAL call turns into, for the APB model. */
+export const resolveRegisterSteps = (steps: SequenceStep[], map: RegisterMap): SequenceStep[] =>
+  steps.map(step => {
+    const reg = step.register ? findRegister(map, step.register) : undefined;
+    if (!reg) return step;
+    return {
+      ...step,
+      kind: step.regOp === 'write' ? TransactionKind.WRITE : TransactionKind.READ,
+      addr: formatHex(registerAddress(map, reg))
+    };
+  });
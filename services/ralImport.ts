@@ -0,0 +1,271 @@
+import { RegAccess, RegDef, RegField, RegisterMap } from "../types";
+import { parseSvLiteral } from "./apbSimulator";
+import { REG_ACCESS_POLICIES, emptyRegisterMap } from "./ralGenerator";
+import { isObject } from "./guards";
+
+export interface RegisterImport {
+  map: RegisterMap;
+  warnings: string[]; // Parts that were skipped or guessed; the rest of the map is still usable
+}
+
+const parseNumber = (text: string | undefined | null): number | null => {
+  if (text === undefined || text === null) return null;
+  return parseSvLiteral(text.trim().replace(/^#/, ''));
+};
+
+const sanitizeName = (name: string) => name.trim().replace(/\W+/g, '_').replace(/^(\d)/, '_$1');
+
+// Registers without field detail become one field spanning the register.
+const wholeRegister = (width: number, access: RegAccess, reset: number): RegField[] =>
+  [{ name: 'value', lsb: 0, width, access, reset }];
+
+// IP-XACT splits behaviour over access, modifiedWriteValue and readAction
+const WRITE_EFFECT: Record<string, RegAccess> = {
+  oneToClear: 'W1C', oneToSet: 'W1S', oneToToggle: 'W1T',
+  zeroToClear: 'W0C', zeroToSet: 'W0S', zeroToToggle: 'W0T',
+  clear: 'WC', set: 'WS'
+};
+const WRITE_THEN_READ: Record<string, RegAccess> = {
+  'W1C/set': 'W1CRS', 'W1S/clear': 'W1SRC', 'W0C/set': 'W0CRS', 'W0S/clear': 'W0SRC', 'WC/set': 'WCRS', 'WS/clear': 'WSRC'
+};
+
+const ipxactAccess = (access: string, modifiedWriteValue: string, readAction: string, warn: (m: string) => void): RegAccess => {
+  switch (access || 'read-write') {
+    case 'read-only':
+      return readAction === 'clear' ? 'RC' : readAction === 'set' ? 'RS' : 'RO';
+    case 'write-only':
+      return modifiedWriteValue === 'clear' ? 'WOC' : modifiedWriteValue === 'set' ? 'WOS' : 'WO';
+    case 'writeOnce':
+      return 'WO1';
+    case 'read-writeOnce':
+      return 'W1';
+    case 'read-write': {
+      const write = WRITE_EFFECT[modifiedWriteValue];
+      if (write) {
+        if (!readAction) return write;
+        const combined = WRITE_THEN_READ[`${write}/${readAction}`];
+        if (combined) return combined;
+        warn(`${write} with readAction "${readAction}" has no UVM policy; used ${write}`);
+        return write;
+      }
+      return readAction === 'clear' ? 'WRC' : readAction === 'set' ? 'WRS' : 'RW';
+    }
+    default:
+      warn(`unknown access "${access}"; used RW`);
+      return 'RW';
+  }
+};
+
+/**
+ * Reads registers from an IP-XACT (1685-2009 or 2014) component. Every addressBlock is
+ * flattened into one map based at the lowest block address; registerFile offsets are added
+ * to their registers.
+ */
+export const parseIpXact = (text: string): RegisterImport => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('Not well-formed XML.');
+
+  const child = (el: Element, tag: string) => Array.from(el.children).find(c => c.localName === tag);
+  const childText = (el: Element, tag: string) => child(el, tag)?.textContent?.trim() || '';
+  const children = (el: Element, tag: string) => Array.from(el.children).filter(c => c.localName === tag);
+
+  const blocks = Array.from(doc.getElementsByTagNameNS('*', 'addressBlock'));
+  if (blocks.length === 0) throw new Error('No addressBlock found; is this an IP-XACT component?');
+
+  const warnings: string[] = [];
+  const bases = blocks.map(b => parseNumber(childText(b, 'baseAddress')) ?? 0);
+  const baseAddress = Math.min(...bases);
+  if (blocks.length > 1) warnings.push(`${blocks.length} address blocks were merged into one map.`);
+
+  const registers: RegDef[] = [];
+  const collect = (container: Element, offset: number) => {
+    children(container, 'registerFile').forEach(file => {
+      collect(file, offset + (parseNumber(childText(file, 'addressOffset')) ?? 0));
+    });
+    children(container, 'register').forEach(el => {
+      const name = sanitizeName(childText(el, 'name'));
+      const warn = (message: string) => warnings.push(`${name}: ${message}.`);
+      const width = parseNumber(childText(el, 'size')) ?? 32;
+      const regOffset = parseNumber(childText(el, 'addressOffset'));
+      if (regOffset === null) {
+        warn('no addressOffset; skipped');
+        return;
+      }
+      if (child(el, 'dim')) warn('register arrays (dim) are imported as a single register');
+      const regAccess = childText(el, 'access');
+      // 1685-2009 keeps the reset on the register; 2014 moved it onto each field
+      const regReset = parseNumber(child(el, 'reset') && childText(child(el, 'reset')!, 'value')) ?? 0;
+
+      const fields: RegField[] = children(el, 'field').map(f => {
+        const fieldName = sanitizeName(childText(f, 'name'));
+        const lsb = parseNumber(childText(f, 'bitOffset')) ?? 0;
+        const fieldWidth = parseNumber(childText(f, 'bitWidth')) ?? 1;
+        const resetEl = child(f, 'resets') ? child(child(f, 'resets')!, 'reset') : child(f, 'reset');
+        const reset = resetEl
+          ? parseNumber(childText(resetEl, 'value')) ?? 0
+          : Math.floor(regReset / 2 ** lsb) % 2 ** fieldWidth;
+        const access = ipxactAccess(childText(f, 'access') || regAccess, childText(f, 'modifiedWriteValue'), childText(f, 'readAction'),
+          message => warn(`${fieldName}: ${message}`));
+        const description = childText(f, 'description');
+        return {
+          name: fieldName, lsb, width: fieldWidth, access, reset,
+          ...(childText(f, 'volatile') === 'true' ? { volatile: true } : {}),
+          ...(description ? { description } : {})
+        };
+      });
+      const description = childText(el, 'description');
+      registers.push({
+        name,
+        offset: offset + regOffset,
+        width,
+        fields: fields.length ? fields : wholeRegister(width, ipxactAccess(regAccess, '', '', warn), regReset),
+        ...(description ? { description } : {})
+      });
+    });
+  };
+  blocks.forEach((block, i) => collect(block, bases[i] - baseAddress));
+
+  return { map: { ...emptyRegisterMap(), baseAddress, registers }, warnings };
+};
+
+// Splits one CSV record, honouring double-quoted cells with "" escapes.
+const csvCells = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell.trim()); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  register: ['register', 'reg', 'register_name'],
+  offset: ['offset', 'address', 'addr', 'address_offset'],
+  size: ['size', 'reg_width', 'register_width'],
+  field: ['field', 'field_name'],
+  bits: ['bits', 'bit_range', 'range'],
+  lsb: ['lsb', 'bit_offset', 'bitoffset'],
+  width: ['width', 'bit_width', 'bitwidth'],
+  access: ['access', 'policy'],
+  reset: ['reset', 'reset_value', 'default'],
+  description: ['description', 'desc']
+};
+
+/**
+ * Reads one field per row. The register name and offset may be left blank to continue the
+ * register above. Bit positions come from `bits` ("7:4", "3") or from `lsb` + `width`.
+ */
+export const parseRegisterCsv = (text: string): RegisterImport => {
+  const lines = text.split(/\r?\n/).map((line, i) => ({ cells: csvCells(line), row: i + 1 })).filter(l => l.cells.some(c => c));
+  if (lines.length < 2) throw new Error('Expected a header row and at least one field row.');
+  const header = lines[0].cells.map(h => h.toLowerCase().replace(/\s+/g, '_'));
+  const column = Object.fromEntries(Object.entries(CSV_COLUMNS).map(([key, aliases]) => [key, header.findIndex(h => aliases.includes(h))]));
+  const missing = ['register', 'offset', 'field'].filter(key => column[key] < 0);
+  if (missing.length) throw new Error(`Missing column(s): ${missing.join(', ')}.`);
+  if (column.bits < 0 && column.lsb < 0) throw new Error('Need a "bits" column or "lsb" and "width" columns.');
+
+  const warnings: string[] = [];
+  const registers: RegDef[] = [];
+  let current: RegDef | null = null;
+  lines.slice(1).forEach(({ cells, row }) => {
+    const cell = (key: string) => (column[key] >= 0 ? cells[column[key]] || '' : '');
+    const skip = (message: string) => warnings.push(`Row ${row}: ${message}; skipped.`);
+
+    if (cell('register')) {
+      const offset = parseNumber(cell('offset'));
+      if (offset === null) return skip(`offset "${cell('offset')}" is not a number`);
+      const name = sanitizeName(cell('register'));
+      current = registers.find(r => r.name === name) || null;
+      if (!current) {
+        current = { name, offset, width: parseNumber(cell('size')) ?? 32, fields: [] };
+        registers.push(current);
+      }
+    }
+    if (!current) return skip('no register name');
+
+    let lsb: number | null;
+    let width: number | null;
+    if (cell('bits')) {
+      const bits = /^\[?\s*(\d+)\s*(?::\s*(\d+))?\s*\]?$/.exec(cell('bits'));
+      if (!bits) return skip(`bits "${cell('bits')}" not understood`);
+      const msb = parseInt(bits[1], 10);
+      lsb = bits[2] === undefined ? msb : parseInt(bits[2], 10);
+      width = msb - lsb + 1;
+    } else {
+      lsb = parseNumber(cell('lsb'));
+      width = parseNumber(cell('width')) ?? 1;
+    }
+    if (lsb === null || width === null || width < 1) return skip('bad bit position');
+
+    const access = (cell('access').toUpperCase() || 'RW') as RegAccess;
+    if (!REG_ACCESS_POLICIES.includes(access)) return skip(`unknown access "${cell('access')}"`);
+    const reset = cell('reset') ? parseNumber(cell('reset')) : 0;
+    if (reset === null) return skip(`reset "${cell('reset')}" is not a number`);
+
+    current.fields.push({
+      name: sanitizeName(cell('field')), lsb, width, access, reset,
+      ...(cell('description') ? { description: cell('description') } : {})
+    });
+  });
+  return { map: { ...emptyRegisterMap(), registers }, warnings };
+};
+
+/** Reads the editor's own JSON export; numbers may also be given as strings like "0x10". */
+export const parseRegisterJson = (text: string): RegisterImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file.');
+  }
+  const list: unknown = Array.isArray(data) ? data : isObject(data) ? data.registers : undefined;
+  if (!Array.isArray(list)) throw new Error('Expected a "registers" list.');
+
+  const warnings: string[] = [];
+  const num = (value: unknown, fallback: number) =>
+    (typeof value === 'number' ? value : parseNumber(typeof value === 'string' ? value : null) ?? fallback);
+  const registers: RegDef[] = list.flatMap((reg: unknown, i: number): RegDef[] => {
+    if (!isObject(reg) || typeof reg.name !== 'string' || reg.offset === undefined) {
+      warnings.push(`registers[${i}]: needs a name and an offset; skipped.`);
+      return [];
+    }
+    const width = num(reg.width, 32);
+    const access = (typeof reg.access === 'string' ? reg.access.toUpperCase() : 'RW') as RegAccess;
+    const fields: RegField[] = Array.isArray(reg.fields) && reg.fields.length
+      ? reg.fields.filter(isObject).map(f => ({
+          name: String(f.name),
+          lsb: num(f.lsb, 0),
+          width: num(f.width, 1),
+          access: (String(f.access || access).toUpperCase()) as RegAccess,
+          reset: num(f.reset, 0),
+          ...(f.volatile ? { volatile: true } : {}),
+          ...(f.description ? { description: String(f.description) } : {})
+        }))
+      : wholeRegister(width, access, num(reg.reset, 0));
+    return [{ name: reg.name, offset: num(reg.offset, 0), width, fields, ...(reg.description ? { description: String(reg.description) } : {}) }];
+  });
+  const map: RegisterMap = {
+    name: isObject(data) && typeof data.name === 'string' ? data.name : emptyRegisterMap().name,
+    baseAddress: num(isObject(data) ? data.baseAddress : undefined, 0),
+    registers
+  };
+  return { map, warnings };
+};
+
+/** Picks the reader from the file extension, falling back to sniffing the content. */
+export const importRegisterMap = (text: string, fileName: string): RegisterImport => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  const start = text.trimStart();
+  if (ext === 'xml' || start.startsWith('<')) return parseIpXact(text);
+  if (ext === 'json' || start.startsWith('{') || start.startsWith('[')) return parseRegisterJson(text);
+  return parseRegisterCsv(text);
+};
@@ -0,0 +1,315 @@
+import { RelationOp, SequenceStep, StepConstraint, TransactionItemDef, TransactionKind } from "../types";
+import { formatHex, parseSvLiteral } from "./apbSimulator";
+import { userFields } from "./itemGenerator";
+
+// A small constraint solver for previewing `randomize() with {}` in the browser. It works on
+// unsigned 32-bit values (the same range as the APB model); wider fields are clamped to it.
+
+export interface SolverField {
+  name: string;
+  max: number;
+}
+
+export interface RandomizeResult {
+  fields: string[];                  // Randomized fields, in draw order
+  samples: Record<string, number>[];
+  errors: string[];                  // Non-empty means no sample could be drawn
+}
+
+interface Interval {
+  lo: number;
+  hi: number;
+}
+
+interface WeightedBucket extends Interval {
+  weight: number;
+  perRange: boolean;
+}
+
+interface FieldState {
+  name: string;
+  domain: Interval[];
+  align: number;
+  dist?: WeightedBucket[];
+}
+
+const MAX_ATTEMPTS = 200;
+const MAX_SOLVER_VALUE = 0xffffffff;
+
+/** Numeric fields a step can constrain: addr, data and the user's bit/logic/int fields. */
+export const solverFields = (item: TransactionItemDef): SolverField[] => [
+  { name: 'addr', max: MAX_SOLVER_VALUE },
+  { name: 'data', max: MAX_SOLVER_VALUE },
+  ...userFields(item)
+    .filter(f => f.type !== 'enum')
+    .map(f => ({ name: f.name, max: f.type === 'int' ? 0x7fffffff : 2 ** Math.min(f.width, 32) - 1 }))
+];
+
+export const isConstrained = (step: Partial<SequenceStep>, field: string): boolean =>
+  !!step.constraints?.some(c => c.field === field);
+
+/** The SV expression placed inside `randomize() with { ... }` for one constraint. */
+export const constraintExpression = (c: StepConstraint): string => {
+  switch (c.kind) {
+    case 'range':
+      return `${c.field} inside {[${c.min}:${c.max}]};`;
+    case 'dist':
+      return `${c.field} dist {${c.buckets
+        .map(b => `${b.max ? `[${b.min}:${b.max}]` : b.min} ${b.perRange ? ':/' : ':='} ${b.weight}`)
+        .join(', ')}};`;
+    case 'align':
+      return `${c.field} % ${c.alignment} == 0;`;
+    case 'relation':
+      return `${c.field} ${c.op} ${c.rhs};`;
+  }
+};
+
+/** Mulberry32: tiny, seedable and good enough for a preview. Returns a function drawing from [0, 1). */
+export const createRng = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const intersect = (domain: Interval[], lo: number, hi: number): Interval[] =>
+  domain
+    .map(i => ({ lo: Math.max(i.lo, lo), hi: Math.min(i.hi, hi) }))
+    .filter(i => i.lo <= i.hi);
+
+const removeValue = (domain: Interval[], value: number): Interval[] =>
+  domain.flatMap(i => (value < i.lo || value > i.hi
+    ? [i]
+    : [{ lo: i.lo, hi: value - 1 }, { lo: value + 1, hi: i.hi }].filter(part => part.lo <= part.hi)));
+
+const alignedCount = (i: Interval, align: number) =>
+  Math.max(0, Math.floor(i.hi / align) - Math.ceil(i.lo / align) + 1);
+
+const countValues = (domain: Interval[], align: number) =>
+  domain.reduce((sum, i) => sum + alignedCount(i, align), 0);
+
+const lowest = (domain: Interval[]) => domain[0].lo;
+const highest = (domain: Interval[]) => domain[domain.length - 1].hi;
+
+const pickUniform = (domain: Interval[], align: number, rand: () => number): number | null => {
+  let k = Math.floor(rand() * countValues(domain, align));
+  for (const i of domain) {
+    const count = alignedCount(i, align);
+    if (k < count) return (Math.ceil(i.lo / align) + k) * align;
+    k -= count;
+  }
+  return null;
+};
+
+const pickWeighted = (field: FieldState, domain: Interval[], rand: () => number): number | null => {
+  if (!field.dist) return pickUniform(domain, field.align, rand);
+  const options = field.dist.map(b => {
+    const sub = intersect(domain, b.lo, b.hi);
+    const count = countValues(sub, field.align);
+    return { sub, weight: count === 0 ? 0 : b.perRange ? b.weight : b.weight * count };
+  });
+  const total = options.reduce((sum, o) => sum + o.weight, 0);
+  if (total <= 0) return null;
+  let r = rand() * total;
+  for (const o of options) {
+    if (r < o.weight) return pickUniform(o.sub, field.align, rand);
+    r -= o.weight;
+  }
+  return null;
+};
+
+// Restricts `domain` so that "value op other" holds.
+const applyRelation = (domain: Interval[], op: RelationOp, other: number): Interval[] => {
+  switch (op) {
+    case '==': return intersect(domain, other, other);
+    case '!=': return removeValue(domain, other);
+    case '<': return intersect(domain, -Infinity, other - 1);
+    case '<=': return intersect(domain, -Infinity, other);
+    case '>': return intersect(domain, other + 1, Infinity);
+    case '>=': return intersect(domain, other, Infinity);
+  }
+};
+
+const MIRRORED: Record<RelationOp, RelationOp> = { '==': '==', '!=': '!=', '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+const lcm = (a: number, b: number) => (a / gcd(a, b)) * b;
+
+/** The literal a step pins a field to when it is not constrained, if any. */
+const fixedLiteral = (step: Partial<SequenceStep>, field: string): string | undefined => {
+  if (field === 'addr') return step.addr;
+  if (field === 'data') return step.kind === TransactionKind.WRITE ? step.data : undefined;
+  return step.values?.[field] || undefined;
+};
+
+/**
+ * Draws `count` solutions for a step's constraints. Ranges, dists and alignments narrow each
+ * field's domain up front; field-to-field relations are bounds-propagated to catch obvious
+ * contradictions, then enforced while drawing fields in order (retrying dead ends).
+ */
+export const randomizeStep = (
+  step: Partial<SequenceStep>,
+  fields: SolverField[],
+  count: number,
+  seed: number
+): RandomizeResult => {
+  const constraints = step.constraints || [];
+  const errors: string[] = [];
+  const byName = new Map(fields.map(f => [f.name, f]));
+  const states = new Map<string, FieldState>();
+  const relations: { field: string; op: RelationOp; other: string }[] = [];
+
+  const parse = (literal: string | undefined, what: string): number | null => {
+    const value = parseSvLiteral(literal || '');
+    if (value === null) errors.push(`${what}: "${literal || ''}" is not a constant.`);
+    return value;
+  };
+
+  const stateOf = (name: string): FieldState => {
+    let state = states.get(name);
+    if (!state) {
+      state = { name, domain: [{ lo: 0, hi: byName.get(name)!.max }], align: 1 };
+      const literal = isConstrained(step, name) ? undefined : fixedLiteral(step, name);
+      if (literal !== undefined) {
+        const value = parse(literal, name);
+        if (value !== null) state.domain = intersect(state.domain, value, value);
+      }
+      states.set(name, state);
+    }
+    return state;
+  };
+
+  constraints.forEach(c => {
+    if (!byName.has(c.field)) {
+      errors.push(`${c.field}: not a numeric field of my_transaction.`);
+      return;
+    }
+    const state = stateOf(c.field);
+    switch (c.kind) {
+      case 'range': {
+        const lo = parse(c.min, `${c.field} range`);
+        const hi = parse(c.max, `${c.field} range`);
+        if (lo !== null && hi !== null) state.domain = intersect(state.domain, lo, hi);
+        break;
+      }
+      case 'dist': {
+        const buckets: WeightedBucket[] = [];
+        c.buckets.forEach(b => {
+          const lo = parse(b.min, `${c.field} dist`);
+          const hi = b.max ? parse(b.max, `${c.field} dist`) : lo;
+          if (lo !== null && hi !== null && b.weight > 0) buckets.push({ lo, hi, weight: b.weight, perRange: !!b.perRange });
+        });
+        // Values outside every bucket are illegal, just like in SystemVerilog
+        state.domain = buckets.flatMap(b => intersect(state.domain, b.lo, b.hi)).sort((x, y) => x.lo - y.lo);
+        state.dist = buckets;
+        break;
+      }
+      case 'align':
+        if (!Number.isInteger(c.alignment) || c.alignment < 1) errors.push(`${c.field}: alignment must be a positive integer.`);
+        else state.align = lcm(state.align, c.alignment);
+        break;
+      case 'relation':
+        if (byName.has(c.rhs.trim())) {
+          stateOf(c.rhs.trim());
+          relations.push({ field: c.field, op: c.op, other: c.rhs.trim() });
+        } else {
+          const value = parse(c.rhs, `${c.field} ${c.op}`);
+          if (value !== null) state.domain = applyRelation(state.domain, c.op, value);
+        }
+        break;
+    }
+  });
+
+  if (errors.length) return { fields: [], samples: [], errors };
+
+  // Bounds propagation over field-to-field relations
+  for (let pass = 0; pass < 20; pass++) {
+    let changed = false;
+    relations.forEach(r => {
+      const a = stateOf(r.field);
+      const b = stateOf(r.other);
+      if (r.op === '!=' || !a.domain.length || !b.domain.length) return;
+      const before = JSON.stringify([a.domain, b.domain]);
+      if (r.op === '==') {
+        const lo = Math.max(lowest(a.domain), lowest(b.domain));
+        const hi = Math.min(highest(a.domain), highest(b.domain));
+        a.domain = intersect(a.domain, lo, hi);
+        b.domain = intersect(b.domain, lo, hi);
+      } else {
+        // a < b: a stays below b's maximum and b stays above a's minimum (and so on)
+        const upper = r.op.startsWith('<');
+        a.domain = applyRelation(a.domain, r.op, upper ? highest(b.domain) : lowest(b.domain));
+        if (a.domain.length) b.domain = applyRelation(b.domain, MIRRORED[r.op], upper ? lowest(a.domain) : highest(a.domain));
+      }
+      if (JSON.stringify([a.domain, b.domain]) !== before) changed = true;
+    });
+    if (!changed) break;
+  }
+
+  states.forEach(s => {
+    if (countValues(s.domain, s.align) === 0) {
+      errors.push(`${s.name}: the constraints leave no legal value.`);
+    }
+  });
+  relations.forEach(r => {
+    const a = stateOf(r.field).domain;
+    const b = stateOf(r.other).domain;
+    if (r.op === '!=' && a.length === 1 && b.length === 1 && a[0].lo === a[0].hi && b[0].lo === b[0].hi && a[0].lo === b[0].lo) {
+      errors.push(`${r.field} != ${r.other}: both are fixed to ${formatHex(a[0].lo)}.`);
+    }
+  });
+  if (errors.length) return { fields: [], samples: [], errors };
+
+  const order = [...states.keys()];
+  const rand = createRng(seed);
+  const samples: Record<string, number>[] = [];
+  let failures = 0;
+
+  while (samples.length < count && failures < MAX_ATTEMPTS) {
+    const sample: Record<string, number> = {};
+    const ok = order.every(name => {
+      const state = states.get(name)!;
+      let domain = state.domain;
+      relations.forEach(r => {
+        if (r.field === name && r.other in sample) domain = applyRelation(domain, r.op, sample[r.other]);
+        if (r.other === name && r.field in sample) domain = applyRelation(domain, MIRRORED[r.op], sample[r.field]);
+      });
+      const value = pickWeighted(state, domain, rand);
+      if (value === null) return false;
+      sample[name] = value;
+      return true;
+    });
+    if (ok) samples.push(sample);
+    else failures++;
+  }
+
+  if (samples.length === 0) {
+    errors.push(`No solution found in ${MAX_ATTEMPTS} attempts; the constraints are probably unsatisfiable.`);
+  }
+  return { fields: order, samples, errors };
+};
+
+/**
+ * Replaces constrained fields with one seeded draw so the APB model can run the sequence.
+ * Steps whose constraints cannot be solved are left as they are.
+ */
+export const concretizeSteps = (steps: SequenceStep[], fields: SolverField[], seed: number): SequenceStep[] =>
+  steps.map((step, index) => {
+    if (!step.constraints?.length || step.kind === TransactionKind.IDLE) return step;
+    const [sample] = randomizeStep(step, fields, 1, seed + index).samples;
+    if (!sample) return step;
+    const values = { ...step.values };
+    Object.entries(sample).forEach(([name, value]) => {
+      if (name !== 'addr' && name !== 'data') values[name] = formatHex(value);
+    });
+    return {
+      ...step,
+      addr: 'addr' in sample ? formatHex(sample.addr) : step.addr,
+      data: 'data' in sample ? formatHex(sample.data) : step.data,
+      values
+    };
+  });
@@ -0,0 +1,161 @@
+import { BusProtocol, RegisterMap, SequenceDef, SequenceNode, SequenceStep, TransactionItemDef, TransactionKind } from "../types";
+import { DEFAULT_IDLE_DELAY } from "./apbSimulator";
+import { PROTOCOLS } from "./protocols";
+import { defaultItemDef, userFields } from "./itemGenerator";
+import { constraintExpression, isConstrained } from "./randomizer";
+import { calledSequences, isControlNode, orderLibrary } from "./sequenceTree";
+import { REG_MODEL_HANDLE, emptyRegisterMap, findRegister } from "./ralGenerator";
+
+export const SEQUENCE_CLASS_NAME = 'my_custom_seq';
+
+// Drops the blank line after a block's last statement so `end` hugs the body.
+const blockBody = (code: string) => code.replace(/\n\n$/, '\n');
+
+const containsStep = (nodes: SequenceNode[], match: (step: SequenceStep) => boolean = () => true): boolean =>
+  nodes.some(node => (!isControlNode(node) ? match(node) : node.type === 'repeat' || node.type === 'for'
+    ? containsStep(node.body, match)
+    : node.type === 'fork' && node.branches.some(branch => containsStep(branch, match))));
+
+const isRegisterStep = (step: SequenceStep) => !!step.register && step.kind !== TransactionKind.IDLE;
+
+export const generateSequenceCode = (
+  nodes: SequenceNode[],
+  protocol: BusProtocol = BusProtocol.APB,
+  item: TransactionItemDef = defaultItemDef(protocol),
+  className = SEQUENCE_CLASS_NAME,
+  library: SequenceDef[] = [],
+  registers: RegisterMap = emptyRegisterMap()
+): string => {
+  const fields = PROTOCOLS[protocol].fields;
+  const extra = userFields(item);
+  const callees = calledSequences(nodes)
+    .map(id => library.find(d => d.id === id))
+    .filter((d): d is SequenceDef => !!d);
+  const usesRegisters = containsStep(nodes, isRegisterStep);
+  let stepNumber = 0;
+
+  // Register steps go through the RAL, which builds the bus item via my_reg_adapter
+  const emitRegisterStep = (step: SequenceStep, pad: string): string => {
+    const call = `${step.register}.${step.regOp}()`;
+    if (!findRegister(registers, step.register)) {
+      return `${pad}// Step ${++stepNumber}: ${call} skipped, ${step.register} is not in the register map\n\n`;
+    }
+    const target = `${REG_MODEL_HANDLE}.${step.register}`;
+    let code = `${pad}// Step ${++stepNumber}: ${call}\n`;
+    code += step.regOp === 'write' ? `${pad}${target}.write(status, ${step.data}, .parent(this));\n`
+      : step.regOp === 'mirror' ? `${pad}${target}.mirror(status, UVM_CHECK, .parent(this));\n`
+      : `${pad}${target}.read(status, rdata, .parent(this));\n`;
+    code += `${pad}if (status != UVM_IS_OK) \`uvm_error("SEQ", "${call} failed")\n`;
+    if (step.delay > 0) {
+      code += `${pad}#${step.delay};\n`;
+    }
+    return code + `\n`;
+  };
+
+  const emitStep = (step: SequenceStep, pad: string): string => {
+    if (isRegisterStep(step)) return emitRegisterStep(step, pad);
+    let code = `${pad}// Step ${++stepNumber}: ${step.kind}\n`;
+    if (step.kind === TransactionKind.IDLE) {
+      return code + `${pad}#${step.delay || DEFAULT_IDLE_DELAY};\n\n`;
+    }
+    // A constrained field is left to the solver instead of being pinned to its literal
+    const valueOf = (name: string) => (isConstrained(step, name) ? '' : (step.values?.[name] || '').trim());
+    code += `${pad}req = my_transaction::type_id::create("req");\n`;
+    // Non-rand members cannot be steered by the inline constraint, so assign them up front
+    extra.filter(f => !f.isRand && valueOf(f.name)).forEach(f => {
+      code += `${pad}req.${f.name} = ${valueOf(f.name)};\n`;
+    });
+    code += `${pad}start_item(req);\n`;
+    code += `${pad}if (!req.randomize() with {\n`;
+    if (!isConstrained(step, 'addr')) {
+      code += `${pad}  addr == ${step.addr};\n`;
+    }
+    code += `${pad}  kind == ${step.kind};\n`;
+    if (step.kind === TransactionKind.WRITE && !isConstrained(step, 'data')) {
+      code += `${pad}  data == ${step.data};\n`;
+    }
+    fields.forEach(f => {
+      const value = step[f.key];
+      if (f.key === 'response' || !value) return;
+      if (f.writeOnly && step.kind !== TransactionKind.WRITE) return;
+      code += `${pad}  ${f.key} == ${value};\n`;
+    });
+    extra.filter(f => f.isRand && valueOf(f.name)).forEach(f => {
+      code += `${pad}  ${f.name} == ${valueOf(f.name)};\n`;
+    });
+    (step.constraints || []).forEach(c => {
+      code += `${pad}  ${constraintExpression(c)}\n`;
+    });
+    code += `${pad}}) \`uvm_error("SEQ", "Randomization failed")\n`;
+    code += `${pad}finish_item(req);\n`;
+    if (step.response && fields.some(f => f.key === 'response')) {
+      code += `${pad}if (req.response != ${step.response})\n`;
+      code += `${pad}  \`uvm_error("SEQ", $sformatf("Expected ${step.response} response, got %s", req.response.name()))\n`;
+    }
+    if (step.delay > 0) {
+      code += `${pad}#${step.delay};\n`;
+    }
+    return code + `\n`;
+  };
+
+  const emitNodes = (list: SequenceNode[], pad: string): string => list.map(node => {
+    if (!isControlNode(node)) return emitStep(node, pad);
+    switch (node.type) {
+      case 'repeat':
+        return `${pad}repeat (${node.count}) begin\n${blockBody(emitNodes(node.body, pad + '  '))}${pad}end\n\n`;
+      case 'for':
+        return `${pad}for (int ${node.index} = ${node.from}; ${node.index} < ${node.to}; ${node.index}++) begin\n`
+          + `${blockBody(emitNodes(node.body, pad + '  '))}${pad}end\n\n`;
+      case 'fork': {
+        // Each branch gets its own req handle so concurrent items don't overwrite each other
+        const branches = node.branches.map(branch =>
+          `${pad}  begin\n${containsStep(branch, step => !isRegisterStep(step)) ? `${pad}    my_transaction req;\n\n` : ''}${blockBody(emitNodes(branch, pad + '    '))}${pad}  end\n`);
+        return `${pad}fork\n${branches.join('')}${pad}${node.join}\n\n`;
+      }
+      case 'call': {
+        const callee = library.find(d => d.id === node.sequenceId);
+        if (!callee) return `${pad}// Call to a deleted sequence\n\n`;
+        const handle = `${callee.name}_h`;
+        return node.style === 'uvm_do'
+          ? `${pad}\`uvm_do(${handle})\n\n`
+          : `${pad}${handle} = ${callee.name}::type_id::create("${handle}");\n${pad}${handle}.start(m_sequencer, this);\n\n`;
+      }
+    }
+  }).join('');
+
+  let code = `class ${className} extends uvm_sequence #(my_transaction);\n`;
+  code += `  \`uvm_object_utils(${className})\n\n`;
+  if (usesRegisters) {
+    code += `  ${registers.name} ${REG_MODEL_HANDLE};\n\n`;
+  }
+  code += `  function new(string name = "${className}");\n    super.new(name);\n  endfunction\n\n`;
+  code += `  virtual task body();\n    my_transaction req;\n`;
+  callees.forEach(callee => {
+    code += `    ${callee.name} ${callee.name}_h;\n`;
+  });
+  if (usesRegisters) {
+    code += `    uvm_status_e   status;\n    uvm_reg_data_t rdata;\n\n`;
+    code += `    if (${REG_MODEL_HANDLE} == null && !uvm_config_db#(${registers.name})::get(m_sequencer, "", "${REG_MODEL_HANDLE}", ${REG_MODEL_HANDLE}))\n`;
+    code += `      \`uvm_fatal("SEQ", "No ${registers.name} in uvm_config_db")\n`;
+  }
+  code += `\n`;
+
+  if (nodes.length === 0) {
+    code += `    // Add transactions to see code here\n`;
+  }
+  code += emitNodes(nodes, '    ');
+
+  code += `  endtask\nendclass`;
+  return code;
+};
+
+/** Every sequence in the library, callees first, for a single my_custom_seq.sv. */
+export const generateSequenceLibrary = (
+  library: SequenceDef[],
+  protocol: BusProtocol = BusProtocol.APB,
+  item: TransactionItemDef = defaultItemDef(protocol),
+  registers: RegisterMap = emptyRegisterMap()
+): string =>
+  orderLibrary(library)
+    .map(def => generateSequenceCode(def.nodes, protocol, item, def.name, library, registers))
+    .join('\n\n');
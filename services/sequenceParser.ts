@@ -0,0 +1,547 @@
+import {
+  BusProtocol, DistBucket, ForkBlock, ForkJoinKind, RegisterMap, RelationOp, SequenceDef, SequenceNode, SequenceStep,
+  StepConstraint, TransactionItemDef, TransactionKind
+} from "../types";
+import { PROTOCOLS } from "./protocols";
+import { userFields } from "./itemGenerator";
+import { formatHex } from "./apbSimulator";
+import { emptyRegisterMap, findRegister, registerAddress } from "./ralGenerator";
+
+export interface ParseIssue {
+  line: number;    // 1-based line in the pasted source
+  text: string;    // That line, trimmed
+  message: string;
+}
+
+export interface SequenceParseResult {
+  sequences: SequenceDef[]; // Ids reuse library entries with the same class name
+  issues: ParseIssue[];
+}
+
+export interface SequenceParseOptions {
+  protocol: BusProtocol;
+  item: TransactionItemDef;
+  library: SequenceDef[];
+  activeId: string; // Receives a bare body() snippet pasted without its class
+  registers?: RegisterMap;
+}
+
+interface Statement {
+  text: string; // Raw text, newlines kept so nested lines can be located
+  line: number;
+}
+
+// The generator's "// Step N: IDLE" comment; tells a bare #delay apart from a post-delay.
+const IDLE_HINT = '//IDLE';
+
+const STANDALONE_KEYWORDS = new Set(['end', 'fork', 'join', 'join_any', 'join_none', 'endtask', 'endfunction', 'endclass']);
+const CLOSERS: Record<string, string> = { ')': '(', '}': '{', ']': '[' };
+
+/**
+ * Splits SystemVerilog into statements: `;`-terminated, block keywords on their own, and
+ * macro calls like `` `uvm_error(...) `` that end without a semicolon.
+ */
+const splitStatements = (source: string): Statement[] => {
+  const statements: Statement[] = [];
+  const parens: boolean[] = []; // true when the open bracket belongs to a macro call
+  let buffer = '';
+  let start = 1;
+  let line = 1;
+  let i = 0;
+
+  const flush = () => {
+    const text = buffer.trim();
+    if (text) statements.push({ text, line: start });
+    buffer = '';
+  };
+  const append = (text: string) => {
+    if (!buffer.trim()) start = line;
+    buffer += text;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      const comment = source.slice(i, end < 0 ? source.length : end);
+      if (/^\/\/\s*Step\s+\d+:\s*IDLE\b/.test(comment) && !buffer.trim()) statements.push({ text: IDLE_HINT, line });
+      i += comment.length;
+      continue;
+    }
+    if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      const comment = source.slice(i, end < 0 ? source.length : end + 2);
+      line += comment.split('\n').length - 1;
+      buffer += ' ';
+      i += comment.length;
+      continue;
+    }
+    if (ch === '\n') line++;
+    if (/\s/.test(ch)) {
+      buffer += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"' && source[end] !== '\n') end += source[end] === '\\' ? 2 : 1;
+      append(source.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+    const word = /^[A-Za-z_]\w*/.exec(source.slice(i, i + 64));
+    if (word && !/[\w$`']/.test(source[i - 1] || ' ')) {
+      if (parens.length === 0 && word[0] === 'begin') {
+        append(word[0]);
+        flush();
+      } else if (parens.length === 0 && STANDALONE_KEYWORDS.has(word[0])) {
+        flush();
+        statements.push({ text: word[0], line });
+      } else {
+        append(word[0]);
+      }
+      i += word[0].length;
+      continue;
+    }
+    append(ch);
+    i++;
+    if (ch === '(' || ch === '{' || ch === '[') {
+      parens.push(ch === '(' && /`\w+\s*\($/.test(buffer));
+    } else if (CLOSERS[ch] && parens.length) {
+      const macro = parens.pop();
+      if (macro && parens.length === 0) flush();
+    } else if (ch === ';' && parens.length === 0) {
+      flush();
+    }
+  }
+  flush();
+  return statements;
+};
+
+// Splits on `sep` at bracket depth 0, keeping each part's offset into `text`.
+const splitTopLevel = (text: string, sep: string): { part: string; offset: number }[] => {
+  const parts: { part: string; offset: number }[] = [];
+  let depth = 0;
+  let from = 0;
+  for (let i = 0; i <= text.length; i++) {
+    const ch = text[i];
+    if (ch === '(' || ch === '{' || ch === '[') depth++;
+    else if (ch === ')' || ch === '}' || ch === ']') depth--;
+    if (i === text.length || (ch === sep && depth === 0)) {
+      const raw = text.slice(from, i);
+      const lead = raw.length - raw.trimStart().length;
+      if (raw.trim()) parts.push({ part: raw.trim(), offset: from + lead });
+      from = i + 1;
+    }
+  }
+  return parts;
+};
+
+// Returns the text inside the brace group that starts at or after `from`, with its offset.
+const braceGroup = (text: string, from: number): { body: string; offset: number } | null => {
+  const open = text.indexOf('{', from);
+  if (open < 0) return null;
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return { body: text.slice(open + 1, i), offset: open + 1 };
+  }
+  return null;
+};
+
+const flat = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Rebuilds builder sequences from SystemVerilog: whole `uvm_sequence` classes (one
+ * SequenceDef each) or a bare body() snippet (into the active sequence). Understands what
+ * generateSequenceCode emits plus the common hand-written forms (`uvm_do, `uvm_do_with,
+ * assert/void'(randomize()), seq.start()). Anything else is reported with its line number.
+ */
+export const parseSequenceCode = (source: string, options: SequenceParseOptions): SequenceParseResult => {
+  const { protocol, item, library, activeId, registers = emptyRegisterMap() } = options;
+  const sourceLines = source.split('\n');
+  const issues: ParseIssue[] = [];
+  const report = (line: number, message: string) =>
+    issues.push({ line, text: (sourceLines[line - 1] || '').trim(), message });
+
+  const protocolKeys = PROTOCOLS[protocol].fields.map(f => f.key).filter(k => k !== 'response');
+  const extraNames = userFields(item).map(f => f.name);
+  const numericFields = ['addr', 'data', ...userFields(item).filter(f => f.type !== 'enum').map(f => f.name)];
+
+  const statements = splitStatements(source);
+  const classNames = statements
+    .map(s => /^(?:virtual\s+)?class\s+(\w+)\s+extends\s+uvm_sequence\b/.exec(flat(s.text))?.[1])
+    .filter((name): name is string => !!name);
+  const knownSequences = new Set([...classNames, ...library.map(d => d.name)]);
+
+  const stamp = Date.now();
+  let counter = 0;
+  const nextId = () => `${stamp}-${counter++}`;
+
+  const sequences: SequenceDef[] = [];
+  const defineSequence = (name: string): SequenceDef => {
+    let def = sequences.find(d => d.name === name);
+    if (!def) {
+      def = { id: library.find(d => d.name === name)?.id || nextId(), name, nodes: [] };
+      sequences.push(def);
+    }
+    return def;
+  };
+  // Calls resolve to a class in the paste, then the library, else an empty placeholder
+  const calleeId = (name: string, line: number): string => {
+    if (classNames.includes(name)) return defineSequence(name).id;
+    const existing = library.find(d => d.name === name);
+    if (existing) return existing.id;
+    if (!sequences.some(d => d.name === name)) report(line, `${name} is not defined here; added as an empty sequence.`);
+    return defineSequence(name).id;
+  };
+
+  // Parses the expressions of a `with { ... }` block into a step.
+  const applyConstraints = (step: Partial<SequenceStep>, body: string, stmt: Statement, offset: number) => {
+    splitTopLevel(body, ';').forEach(({ part, offset: at }) => {
+      const line = stmt.line + (stmt.text.slice(0, offset + at).match(/\n/g) || []).length;
+      const expr = flat(part);
+      const add = (c: StepConstraint) => { step.constraints = [...(step.constraints || []), c]; };
+
+      let m = /^(\w+) ?== ?(.+)$/.exec(expr);
+      if (m && !numericFields.includes(m[2])) {
+        const [, field, value] = m;
+        if (field === 'kind') {
+          const kind = value.replace(/^\w+::/, '');
+          if (kind === TransactionKind.READ || kind === TransactionKind.WRITE) step.kind = kind;
+          else report(line, `Unknown kind "${value}".`);
+        } else if (field === 'addr' || field === 'data') {
+          step[field] = value;
+        } else if ((protocolKeys as string[]).includes(field)) {
+          step[field as typeof protocolKeys[number]] = value;
+        } else if (extraNames.includes(field)) {
+          step.values = { ...step.values, [field]: value };
+        } else {
+          report(line, `"${field}" is not a field of my_transaction.`);
+        }
+        return;
+      }
+      if ((m = /^(\w+) inside \{ ?\[ ?(.+?) ?: ?(.+?) ?\] ?\}$/.exec(expr)) && numericFields.includes(m[1])) {
+        add({ kind: 'range', field: m[1], min: m[2], max: m[3] });
+        return;
+      }
+      if ((m = /^(\w+) dist \{(.+)\}$/.exec(expr)) && numericFields.includes(m[1])) {
+        const buckets: DistBucket[] = [];
+        const ok = splitTopLevel(m[2], ',').every(({ part: bucket }) => {
+          const b = /^(?:\[ ?(.+?) ?: ?(.+?) ?\]|(.+?)) ?(:=|:\/) ?(\d+)$/.exec(flat(bucket));
+          if (!b) return false;
+          buckets.push({ min: b[1] ?? b[3], ...(b[2] ? { max: b[2] } : {}), weight: parseInt(b[5], 10), ...(b[4] === ':/' ? { perRange: true } : {}) });
+          return true;
+        });
+        if (ok) add({ kind: 'dist', field: m[1], buckets });
+        else report(line, 'Unsupported dist bucket.');
+        return;
+      }
+      if ((m = /^(\w+) % (\d+) == 0$/.exec(expr)) && numericFields.includes(m[1])) {
+        add({ kind: 'align', field: m[1], alignment: parseInt(m[2], 10) });
+        return;
+      }
+      if ((m = /^(\w+) ?(==|!=|<=|>=|<|>) ?([^<>=!&|?:]+)$/.exec(expr)) && numericFields.includes(m[1])) {
+        add({ kind: 'relation', field: m[1], op: m[2] as RelationOp, rhs: m[3] });
+        return;
+      }
+      report(line, 'Constraint not understood.');
+    });
+  };
+
+  const parseBody = (body: Statement[]): SequenceNode[] => {
+    const root: SequenceNode[] = [];
+    type Frame = { list: SequenceNode[] } | { fork: ForkBlock };
+    const stack: Frame[] = [{ list: root }];
+    const handles = new Map<string, string>([['req', 'my_transaction']]);
+    const isSequenceHandle = (name: string) => {
+      const type = handles.get(name) || '';
+      return knownSequences.has(type) || /seq/i.test(type);
+    };
+    let pending: Partial<SequenceStep> | null = null;
+    let lastStep: SequenceStep | null = null;
+    let afterItem = false;
+    let idleHint = false;
+
+    const current = (): SequenceNode[] => {
+      const top = stack[stack.length - 1];
+      if ('list' in top) return top.list;
+      // A statement directly inside fork ... join is a branch of its own
+      const branch: SequenceNode[] = [];
+      top.fork.branches.push(branch);
+      return branch;
+    };
+
+    const finishStep = (step: Partial<SequenceStep>, line: number) => {
+      if (!step.kind) report(line, 'kind is not constrained; assumed WRITE.');
+      const done: SequenceStep = {
+        id: nextId(),
+        kind: step.kind || TransactionKind.WRITE,
+        addr: step.addr || "'h0",
+        data: step.data || "'h0",
+        delay: 0,
+        ...Object.fromEntries(protocolKeys.filter(k => step[k]).map(k => [k, step[k]])),
+        ...(step.response ? { response: step.response } : {}),
+        ...(step.values && Object.keys(step.values).length ? { values: step.values } : {}),
+        ...(step.constraints?.length ? { constraints: step.constraints } : {})
+      };
+      current().push(done);
+      lastStep = done;
+      pending = null;
+      return done;
+    };
+
+    body.forEach(stmt => {
+      const text = flat(stmt.text);
+      const wasAfterItem = afterItem;
+      afterItem = false;
+      let m: RegExpExecArray | null;
+
+      if (text === IDLE_HINT) {
+        idleHint = true;
+        return;
+      }
+      if (text === 'begin') {
+        const top = stack[stack.length - 1];
+        if ('fork' in top) {
+          const branch: SequenceNode[] = [];
+          top.fork.branches.push(branch);
+          stack.push({ list: branch });
+        } else {
+          stack.push({ list: top.list }); // Plain begin/end just groups statements
+        }
+        return;
+      }
+      if (text === 'end') {
+        if (stack.length > 1 && 'list' in stack[stack.length - 1]) stack.pop();
+        else report(stmt.line, 'Unmatched end.');
+        return;
+      }
+      if (text === 'fork') {
+        const fork: ForkBlock = { id: nextId(), type: 'fork', join: 'join', branches: [] };
+        current().push(fork);
+        stack.push({ fork });
+        return;
+      }
+      if (text === 'join' || text === 'join_any' || text === 'join_none') {
+        const top = stack[stack.length - 1];
+        if ('fork' in top) {
+          top.fork.join = text as ForkJoinKind;
+          stack.pop();
+        } else {
+          report(stmt.line, `Unmatched ${text}.`);
+        }
+        return;
+      }
+      if ((m = /^repeat ?\( ?(\d+) ?\) begin$/.exec(text))) {
+        const body: SequenceNode[] = [];
+        current().push({ id: nextId(), type: 'repeat', count: parseInt(m[1], 10), body });
+        stack.push({ list: body });
+        return;
+      }
+      if ((m = /^for ?\( ?(?:int (?:unsigned )?)?(\w+) ?= ?(-?\d+) ?; ?(\w+) ?(<=|<) ?(-?\d+) ?; ?(?:(\w+) ?\+\+|\+\+ ?(\w+)|(\w+) ?\+= ?1) ?\) begin$/.exec(text))
+        && m[1] === m[3] && m[1] === (m[6] || m[7] || m[8])) {
+        const body: SequenceNode[] = [];
+        const to = parseInt(m[5], 10) + (m[4] === '<=' ? 1 : 0);
+        current().push({ id: nextId(), type: 'for', index: m[1], from: parseInt(m[2], 10), to, body });
+        stack.push({ list: body });
+        return;
+      }
+      if (/\bbegin$/.test(text)) {
+        report(stmt.line, 'Block not understood; its contents are imported without it.');
+        stack.push({ list: current() });
+        return;
+      }
+
+      // Declarations: my_transaction req; init_seq seq_h;
+      if ((m = /^(\w+)(?: #\(.*\))? (\w+(?: ?, ?\w+)*) ?;$/.exec(text)) && !['return', 'automatic'].includes(m[1])) {
+        m[2].split(',').forEach(h => handles.set(h.trim(), m![1]));
+        return;
+      }
+
+      // Item flow
+      if ((m = /^(\w+) ?= ?(\w+)::type_id::create\(.*\) ?;$/.exec(text))) {
+        handles.set(m[1], m[2]);
+        if (!isSequenceHandle(m[1])) pending = {};
+        return;
+      }
+      if ((m = /^(\w+) ?= ?new\b.*;$/.exec(text)) && !isSequenceHandle(m[1])) {
+        pending = {};
+        return;
+      }
+      if ((m = /^(\w+)\.(\w+) ?= ?(.+?) ?;$/.exec(text)) && !isSequenceHandle(m[1])) {
+        const step = (pending ??= {});
+        if (m[2] === 'kind') applyConstraints(step, `kind == ${m[3]}`, stmt, 0);
+        else if (m[2] === 'addr' || m[2] === 'data' || extraNames.includes(m[2]) || (protocolKeys as string[]).includes(m[2])) {
+          applyConstraints(step, `${m[2]} == ${m[3]}`, stmt, 0);
+        } else report(stmt.line, `"${m[2]}" is not a field of my_transaction.`);
+        return;
+      }
+      if (/^start_item ?\(/.test(text)) {
+        pending ??= {};
+        return;
+      }
+      if ((m = /(\w+)\.randomize ?\( ?\)/.exec(text)) && !isSequenceHandle(m[1])) {
+        const step = (pending ??= {});
+        const withAt = stmt.text.search(/\bwith\s*\{/);
+        if (withAt >= 0) {
+          const group = braceGroup(stmt.text, withAt);
+          if (group) applyConstraints(step, group.body, stmt, group.offset);
+        }
+        return;
+      }
+      if (/^finish_item ?\(/.test(text)) {
+        finishStep(pending || {}, stmt.line);
+        afterItem = true;
+        return;
+      }
+      // Register model: regmodel.ctrl.write(status, 'h5, .parent(this));
+      if ((m = /^\w+\.(\w+)\.(write|read|mirror) ?\((.*)\) ?;$/.exec(text))) {
+        const reg = findRegister(registers, m[1]);
+        if (!reg) {
+          report(stmt.line, `Register "${m[1]}" is not in the register map.`);
+          return;
+        }
+        const op = m[2] as SequenceStep['regOp'];
+        const step: SequenceStep = {
+          id: nextId(),
+          kind: op === 'write' ? TransactionKind.WRITE : TransactionKind.READ,
+          addr: formatHex(registerAddress(registers, reg)),
+          data: op === 'write' ? (splitTopLevel(m[3], ',')[1]?.part || "'h0") : "'h0",
+          delay: 0,
+          register: reg.name,
+          regOp: op
+        };
+        current().push(step);
+        lastStep = step;
+        afterItem = true;
+        return;
+      }
+      if (/^if ?\( ?status ?!= ?UVM_IS_OK ?\)/.test(text) || /^if ?\( ?\w+ ?== ?null\b/.test(text)) {
+        afterItem = wasAfterItem; // Status checks and the regmodel lookup carry no step data
+        return;
+      }
+      if ((m = /^if ?\( ?\w+\.response ?!= ?(\w+) ?\)/.exec(text))) {
+        if (lastStep && wasAfterItem) lastStep.response = m[1];
+        else report(stmt.line, 'Response check without a preceding item.');
+        afterItem = wasAfterItem;
+        return;
+      }
+      if ((m = /^#\(? ?(\d+) ?(ns)? ?\)? ?;$/.exec(text))) {
+        const delay = parseInt(m[1], 10);
+        if (wasAfterItem && lastStep && lastStep.delay === 0 && !idleHint) {
+          lastStep.delay = delay;
+        } else {
+          const idle: SequenceStep = { id: nextId(), kind: TransactionKind.IDLE, addr: "'h0", data: "'h0", delay };
+          current().push(idle);
+          lastStep = idle;
+        }
+        idleHint = false;
+        return;
+      }
+
+      // Macros and sub-sequences
+      if ((m = /^`uvm_do ?\( ?(\w+) ?\)$/.exec(text))) {
+        if (isSequenceHandle(m[1])) {
+          current().push({ id: nextId(), type: 'call', sequenceId: calleeId(handles.get(m[1])!, stmt.line), style: 'uvm_do' });
+        } else {
+          finishStep({}, stmt.line);
+          afterItem = true;
+        }
+        return;
+      }
+      if ((m = /^`uvm_do_with ?\( ?(\w+) ?,/.exec(text))) {
+        if (isSequenceHandle(m[1])) {
+          report(stmt.line, 'Constraints on a sub-sequence are not supported; imported as a plain `uvm_do.');
+          current().push({ id: nextId(), type: 'call', sequenceId: calleeId(handles.get(m[1])!, stmt.line), style: 'uvm_do' });
+          return;
+        }
+        const step: Partial<SequenceStep> = {};
+        const group = braceGroup(stmt.text, stmt.text.indexOf(','));
+        if (group) applyConstraints(step, group.body, stmt, group.offset);
+        finishStep(step, stmt.line);
+        afterItem = true;
+        return;
+      }
+      if ((m = /^(\w+)\.start ?\(.*\) ?;$/.exec(text)) && isSequenceHandle(m[1])) {
+        current().push({ id: nextId(), type: 'call', sequenceId: calleeId(handles.get(m[1])!, stmt.line), style: 'start' });
+        return;
+      }
+
+      report(stmt.line, 'Statement not understood.');
+    });
+
+    if (pending) report(body[body.length - 1]?.line || 1, 'Item created but never finished with finish_item().');
+    if (stack.length > 1) report(body[body.length - 1]?.line || 1, 'Missing end or join.');
+    return root;
+  };
+
+  // Walk classes; fall back to treating the whole paste as a body() snippet. body() may be
+  // written inside its class or, after an extern declaration, as `task my_seq::body();`.
+  let className: string | null = null;
+  let body: { owner: string | null; line: number; statements: Statement[] } | null = null;
+  let sawClass = false;
+  const externs = new Map<string, number>();
+  const defined = new Set<string>();
+  const closeBody = () => {
+    if (body?.owner) {
+      defineSequence(body.owner).nodes = parseBody(body.statements);
+      defined.add(body.owner);
+    }
+    body = null;
+  };
+  // A truncated paste or a misspelt endtask; keep what was collected
+  const closeUnterminated = () => {
+    if (!body) return;
+    report(body.line, 'Missing endtask.');
+    closeBody();
+  };
+  statements.forEach(stmt => {
+    const text = flat(stmt.text);
+    const header = /^(?:virtual\s+)?class\s+(\w+)\b/.exec(text);
+    if (header || text === 'endclass') closeUnterminated();
+    if (header) {
+      sawClass = true;
+      className = classNames.includes(header[1]) ? header[1] : null;
+      if (!className) report(stmt.line, `${header[1]} is not a uvm_sequence; skipped.`);
+      return;
+    }
+    if (body) {
+      if (text === 'endtask') closeBody();
+      else body.statements.push(stmt);
+      return;
+    }
+    if (text === 'endclass') {
+      className = null;
+      return;
+    }
+    if (className && /^extern\s+(?:virtual\s+)?task\s+body\s*\(\s*\)\s*;$/.test(text)) {
+      externs.set(className, stmt.line);
+      return;
+    }
+    if (className && /^(?:virtual\s+)?task\s+body\s*\(\s*\)\s*;$/.test(text)) {
+      body = { owner: className, line: stmt.line, statements: [] };
+      return;
+    }
+    const outOfClass = /^(?:virtual\s+)?task\s+(\w+)\s*::\s*body\s*\(\s*\)\s*;$/.exec(text);
+    if (outOfClass) {
+      const owner = classNames.includes(outOfClass[1]) ? outOfClass[1] : null;
+      if (!owner) report(stmt.line, `${outOfClass[1]} is not a uvm_sequence; skipped.`);
+      body = { owner, line: stmt.line, statements: [] };
+    }
+  });
+  closeUnterminated();
+  externs.forEach((line, name) => {
+    if (!defined.has(name)) report(line, `${name}::body() is declared extern but never defined.`);
+  });
+
+  if (!sawClass) {
+    const active = library.find(d => d.id === activeId);
+    sequences.push({ id: activeId, name: active?.name || '', nodes: parseBody(statements.filter(s => s.text !== 'endtask')) });
+  } else {
+    classNames.forEach(defineSequence); // Classes without a body() still show up, empty
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return { sequences, issues };
+};
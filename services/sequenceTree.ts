@@ -0,0 +1,181 @@
+import { ControlNode, SequenceDef, SequenceNode, SequenceStep } from "../types";
+import { formatHex, parseSvLiteral } from "./apbSimulator";
+import { evaluateSvExpression } from "./svExpression";
+
+// The sequence the generated test starts; every other sequence is reached through calls.
+export const TOP_SEQUENCE_ID = 'top';
+
+// Keeps the APB model responsive when loops multiply out.
+export const MAX_FLATTENED_STEPS = 2000;
+
+export const isControlNode = (node: SequenceNode): node is ControlNode => 'type' in node;
+
+/** Where the builder inserts new nodes: the root list, or a block body / fork branch. */
+export interface InsertTarget {
+  blockId: string | null;
+  branch: number;
+}
+
+export const ROOT_TARGET: InsertTarget = { blockId: null, branch: 0 };
+
+const childLists = (node: ControlNode): SequenceNode[][] => {
+  switch (node.type) {
+    case 'repeat':
+    case 'for':
+      return [node.body];
+    case 'fork':
+      return node.branches;
+    case 'call':
+      return [];
+  }
+};
+
+const withChildLists = (node: ControlNode, lists: SequenceNode[][]): ControlNode => {
+  switch (node.type) {
+    case 'repeat':
+    case 'for':
+      return { ...node, body: lists[0] };
+    case 'fork':
+      return { ...node, branches: lists };
+    case 'call':
+      return node;
+  }
+};
+
+// Rebuilds the tree bottom-up; `visit` may replace a node or drop it by returning null.
+const transform = (nodes: SequenceNode[], visit: (node: SequenceNode) => SequenceNode | null): SequenceNode[] =>
+  nodes.flatMap(node => {
+    const rebuilt = isControlNode(node)
+      ? withChildLists(node, childLists(node).map(list => transform(list, visit)))
+      : node;
+    const result = visit(rebuilt);
+    return result ? [result] : [];
+  });
+
+export const findNode = (nodes: SequenceNode[], id: string): SequenceNode | undefined => {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    if (isControlNode(node)) {
+      for (const list of childLists(node)) {
+        const found = findNode(list, id);
+        if (found) return found;
+      }
+    }
+  }
+  return undefined;
+};
+
+export const updateNode = (nodes: SequenceNode[], id: string, update: (node: SequenceNode) => SequenceNode): SequenceNode[] =>
+  transform(nodes, node => (node.id === id ? update(node) : node));
+
+export const removeNode = (nodes: SequenceNode[], id: string): SequenceNode[] =>
+  transform(nodes, node => (node.id === id ? null : node));
+
+export const insertNode = (nodes: SequenceNode[], target: InsertTarget, inserted: SequenceNode): SequenceNode[] => {
+  if (target.blockId === null) return [...nodes, inserted];
+  return updateNode(nodes, target.blockId, node => {
+    if (!isControlNode(node)) return node;
+    const lists = childLists(node);
+    if (!lists[target.branch]) return node;
+    return withChildLists(node, lists.map((list, i) => (i === target.branch ? [...list, inserted] : list)));
+  });
+};
+
+/** Drops every call to `sequenceId`, e.g. when that sequence is deleted. */
+export const removeCallsTo = (nodes: SequenceNode[], sequenceId: string): SequenceNode[] =>
+  transform(nodes, node => (isControlNode(node) && node.type === 'call' && node.sequenceId === sequenceId ? null : node));
+
+/** Steps written in the tree, each loop body counted once. */
+export const countSteps = (nodes: SequenceNode[]): number =>
+  nodes.reduce((sum, node) => sum + (isControlNode(node) ? childLists(node).reduce((s, list) => s + countSteps(list), 0) : 1), 0);
+
+/** Ids of the sequences `nodes` call directly. */
+export const calledSequences = (nodes: SequenceNode[]): string[] => {
+  const ids = new Set<string>();
+  const walk = (list: SequenceNode[]) => list.forEach(node => {
+    if (!isControlNode(node)) return;
+    if (node.type === 'call') ids.add(node.sequenceId);
+    childLists(node).forEach(walk);
+  });
+  walk(nodes);
+  return [...ids];
+};
+
+/** True if `fromId` calls `targetId`, directly or through other sequences. */
+export const reachesSequence = (library: SequenceDef[], fromId: string, targetId: string): boolean => {
+  const seen = new Set<string>();
+  const visit = (id: string): boolean => {
+    if (id === targetId) return true;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    const def = library.find(d => d.id === id);
+    return !!def && calledSequences(def.nodes).some(visit);
+  };
+  return visit(fromId);
+};
+
+/** Callees before callers, so each class is declared before it is used. */
+export const orderLibrary = (library: SequenceDef[]): SequenceDef[] => {
+  const ordered: SequenceDef[] = [];
+  const visit = (def: SequenceDef, stack: string[]) => {
+    if (ordered.includes(def) || stack.includes(def.id)) return;
+    calledSequences(def.nodes).forEach(id => {
+      const callee = library.find(d => d.id === id);
+      if (callee) visit(callee, [...stack, def.id]);
+    });
+    ordered.push(def);
+  };
+  library.forEach(def => visit(def, []));
+  return ordered;
+};
+
+const resolveExpression = (text: string, vars: Record<string, number>): string => {
+  if (parseSvLiteral(text) !== null) return text;
+  const value = evaluateSvExpression(text, vars);
+  return value === null ? text : formatHex(value);
+};
+
+/**
+ * Unrolls loops and inlines sub-sequence calls into the flat list of steps the APB model runs.
+ * Loop indices are substituted into addr/data expressions. The model has one bus, so fork
+ * branches are serialized in declaration order whatever the join kind. Stops after
+ * MAX_FLATTENED_STEPS steps.
+ */
+export const flattenSequence = (nodes: SequenceNode[], library: SequenceDef[]): SequenceStep[] => {
+  const steps: SequenceStep[] = [];
+  const occurrences = new Map<string, number>();
+
+  const walk = (list: SequenceNode[], vars: Record<string, number>, stack: string[]) => list.forEach(node => {
+    if (steps.length >= MAX_FLATTENED_STEPS) return;
+    if (!isControlNode(node)) {
+      const n = occurrences.get(node.id) || 0;
+      occurrences.set(node.id, n + 1);
+      steps.push({
+        ...node,
+        id: n === 0 ? node.id : `${node.id}.${n}`,
+        addr: resolveExpression(node.addr, vars),
+        data: resolveExpression(node.data, vars)
+      });
+      return;
+    }
+    switch (node.type) {
+      case 'repeat':
+        for (let i = 0; i < node.count && steps.length < MAX_FLATTENED_STEPS; i++) walk(node.body, vars, stack);
+        break;
+      case 'for':
+        for (let i = node.from; i < node.to && steps.length < MAX_FLATTENED_STEPS; i++) walk(node.body, { ...vars, [node.index]: i }, stack);
+        break;
+      case 'fork':
+        node.branches.forEach(branch => walk(branch, vars, stack));
+        break;
+      case 'call': {
+        const callee = library.find(d => d.id === node.sequenceId);
+        if (callee && !stack.includes(callee.id)) walk(callee.nodes, {}, [...stack, callee.id]);
+        break;
+      }
+    }
+  });
+
+  walk(nodes, {}, []);
+  return steps;
+};
@@ -0,0 +1,74 @@
+import { parseSvLiteral } from "./apbSimulator";
+
+const TOKEN = /\s*(\d*'[sS]?[hHdDbBoO][0-9a-fA-F_]+|0x[0-9a-fA-F_]+|\d[\d_]*|[A-Za-z_][A-Za-z0-9_]*|<<|>>|[-+*/%&|^~()])/y;
+
+// Binary operators from loosest to tightest binding, as in SystemVerilog.
+const PRECEDENCE: string[][] = [['|'], ['^'], ['&'], ['<<', '>>'], ['+', '-'], ['*', '/', '%']];
+
+const tokenize = (text: string): string[] | null => {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < text.length) {
+    if (!text.slice(TOKEN.lastIndex).trim()) break;
+    const match = TOKEN.exec(text);
+    if (!match) return null;
+    tokens.push(match[1]);
+  }
+  return tokens;
+};
+
+const apply = (op: string, a: number, b: number): number | null => {
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : Math.trunc(a / b);
+    case '%': return b === 0 ? null : a % b;
+    case '<<': return a << b;
+    case '>>': return a >>> b;
+    case '&': return a & b;
+    case '|': return a | b;
+    case '^': return a ^ b;
+    default: return null;
+  }
+};
+
+/**
+ * Evaluates a constant integer expression such as `'h1000 + i*4` to an unsigned 32-bit value.
+ * Identifiers are looked up in `vars` (loop indices); anything else yields null.
+ */
+export const evaluateSvExpression = (expression: string, vars: Record<string, number> = {}): number | null => {
+  const tokens = tokenize(expression);
+  if (!tokens || tokens.length === 0) return null;
+  let pos = 0;
+
+  const primary = (): number | null => {
+    const token = tokens[pos++];
+    if (token === undefined) return null;
+    if (token === '(') {
+      const value = binary(0);
+      return tokens[pos++] === ')' ? value : null;
+    }
+    if (token === '-' || token === '~' || token === '+') {
+      const value = primary();
+      if (value === null) return null;
+      return token === '-' ? -value : token === '~' ? ~value : value;
+    }
+    if (/^[A-Za-z_]/.test(token)) return token in vars ? vars[token] : null;
+    return parseSvLiteral(token);
+  };
+
+  const binary = (level: number): number | null => {
+    if (level === PRECEDENCE.length) return primary();
+    let left = binary(level + 1);
+    while (left !== null && PRECEDENCE[level].includes(tokens[pos])) {
+      const op = tokens[pos++];
+      const right = binary(level + 1);
+      left = right === null ? null : apply(op, left, right);
+    }
+    return left;
+  };
+
+  const value = binary(0);
+  return value === null || pos !== tokens.length ? null : value >>> 0;
+};
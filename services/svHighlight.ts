@@ -0,0 +1,90 @@
+export type HighlightKind = 'keyword' | 'type' | 'comment' | 'string' | 'number' | 'macro' | 'system' | 'plain';
+
+export interface HighlightToken {
+  text: string;
+  kind: HighlightKind;
+}
+
+const KEYWORDS = new Set([
+  'module', 'endmodule', 'interface', 'endinterface', 'class', 'endclass', 'function', 'endfunction', 'task', 'endtask',
+  'package', 'endpackage', 'program', 'endprogram', 'begin', 'end', 'if', 'else', 'for', 'foreach', 'forever', 'repeat',
+  'while', 'do', 'case', 'casez', 'casex', 'endcase', 'default', 'return', 'break', 'continue', 'virtual', 'extends',
+  'implements', 'import', 'export', 'typedef', 'enum', 'struct', 'union', 'packed', 'rand', 'randc', 'constraint',
+  'inside', 'dist', 'with', 'new', 'null', 'this', 'super', 'fork', 'join', 'join_any', 'join_none', 'always',
+  'always_ff', 'always_comb', 'always_latch', 'initial', 'final', 'assign', 'input', 'output', 'inout', 'modport',
+  'clocking', 'endclocking', 'posedge', 'negedge', 'or', 'and', 'not', 'wait', 'disable', 'static', 'automatic',
+  'local', 'protected', 'const', 'ref', 'parameter', 'localparam', 'generate', 'endgenerate', 'genvar', 'property',
+  'endproperty', 'sequence', 'endsequence', 'assert', 'assume', 'cover', 'covergroup', 'endgroup', 'coverpoint',
+  'cross', 'bins', 'iff', 'solve', 'before', 'unique', 'priority', 'void', 'extern', 'pure', 'context', 'type'
+]);
+
+const TYPES = new Set([
+  'bit', 'logic', 'reg', 'wire', 'int', 'integer', 'byte', 'shortint', 'longint', 'real', 'shortreal', 'string',
+  'time', 'event', 'chandle', 'signed', 'unsigned'
+]);
+
+// Order matters: comments and strings win over anything that could start inside them
+const TOKEN = new RegExp([
+  '(\\/\\*)',                                                  // 1 block comment start
+  '(\\/\\/.*)',                                                // 2 line comment
+  '("(?:[^"\\\\]|\\\\.)*"?)',                                  // 3 string
+  '(`\\w+)',                                                   // 4 macro / directive
+  '(\\$\\w+)',                                                 // 5 system task
+  "(\\d*'[sS]?[bBoOdDhH][0-9a-fA-FxXzZ_?]+|'[01xXzZ]|\\b\\d[\\d_]*(?:\\.\\d+)?(?:ns|ps|us|ms|s)?\\b)", // 6 number
+  '([A-Za-z_]\\w*)'                                            // 7 identifier
+].join('|'), 'g');
+
+const classify = (word: string): HighlightKind => {
+  if (KEYWORDS.has(word)) return 'keyword';
+  if (TYPES.has(word) || /^uvm_\w+$/.test(word)) return 'type';
+  return 'plain';
+};
+
+/** Splits SystemVerilog source into lines of coloured tokens; block comments may span lines. */
+export const highlightSv = (code: string): HighlightToken[][] => {
+  let inComment = false;
+  return code.split('\n').map(line => {
+    const tokens: HighlightToken[] = [];
+    const push = (text: string, kind: HighlightKind) => {
+      if (!text) return;
+      const last = tokens[tokens.length - 1];
+      if (last && last.kind === kind) last.text += text;
+      else tokens.push({ text, kind });
+    };
+    let pos = 0;
+    while (pos < line.length) {
+      if (inComment) {
+        const close = line.indexOf('*/', pos);
+        const stop = close < 0 ? line.length : close + 2;
+        push(line.slice(pos, stop), 'comment');
+        pos = stop;
+        inComment = close < 0;
+        continue;
+      }
+      TOKEN.lastIndex = pos;
+      const m = TOKEN.exec(line);
+      if (!m) {
+        push(line.slice(pos), 'plain');
+        break;
+      }
+      push(line.slice(pos, m.index), 'plain');
+      pos = m.index + m[0].length;
+      if (m[1]) { inComment = true; push(m[0], 'comment'); }
+      else if (m[2]) push(m[0], 'comment');
+      else if (m[3]) push(m[0], 'string');
+      else if (m[4]) push(m[0], 'macro');
+      else if (m[5]) push(m[0], 'system');
+      else if (m[6]) push(m[0], 'number');
+      else push(m[0], classify(m[0]));
+    }
+    return tokens;
+  });
+};
+
+const SV_LANGUAGES = ['systemverilog', 'verilog', 'sv', 'svh', 'v', ''];
+
+/** Highlights SV-family code; other languages come back as plain lines. */
+export const highlightCode = (code: string, language = 'systemverilog'): HighlightToken[][] =>
+  SV_LANGUAGES.includes(language.toLowerCase())
+    ? highlightSv(code)
+    : code.split('\n').map(line => (line ? [{ text: line, kind: 'plain' as const }] : []));
@@ -0,0 +1,327 @@
+import { BusProtocol, GeneratedFile, RegisterMap, SequenceDef, TransactionItemDef } from "../types";
+import { CLOCK_PERIOD } from "./apbSimulator";
+import { SEQUENCE_CLASS_NAME, generateSequenceLibrary } from "./sequenceGenerator";
+import { PROTOCOLS, ProtocolDefinition, ProtocolSignal, indent } from "./protocols";
+import { defaultItemDef, generateItemClass } from "./itemGenerator";
+import { REG_ADAPTER_CLASS_NAME, REG_MODEL_HANDLE, emptyRegisterMap, generateRegAdapter, generateRegisterModel } from "./ralGenerator";
+
+// Generated code uses the same names as the walkthrough snippets (my_transaction, vif.psel, ...)
+// so learners can map every file back to a walkthrough step.
+
+/** The comment block every generated file starts with. */
+export const header = (file: string, what: string) =>
+  `// ${file}\n// ${what}\n// Generated by UVM Master Sequence Builder\n\n`;
+
+const range = (sig: ProtocolSignal) => (sig.width > 1 ? `[${sig.width - 1}:0] ` : '');
+
+// Pads "logic [31:0]" declarations into an aligned column.
+const declare = (prefix: string, sig: ProtocolSignal) =>
+  `${prefix} ${range(sig).padEnd(7)}${sig.name}`;
+
+/** Wraps a file's body in an include guard named after the file. */
+export const guard = (file: string, body: string) => {
+  const macro = file.toUpperCase().replace(/\W/g, '_');
+  return `\`ifndef ${macro}\n\`define ${macro}\n\n${body}\n\n\`endif // ${macro}\n`;
+};
+
+const ifFile = (def: ProtocolDefinition): string => header('my_if.sv', `${def.id} interface shared by driver, monitor and DUT`) +
+`interface my_if (input logic clk);
+${def.signals.map(sig => `  ${declare('logic', sig)};`).join('\n')}
+endinterface
+`;
+
+const transactionFile = (item: TransactionItemDef): string => header('my_transaction.sv', 'Sequence item carried from sequence to driver and monitor to scoreboard') +
+guard('my_transaction.sv', generateItemClass(item));
+
+const sequenceFile = (library: SequenceDef[], def: ProtocolDefinition, item: TransactionItemDef, registers: RegisterMap): string => header('my_custom_seq.sv', 'Sequences built in the Sequence Builder') +
+guard('my_custom_seq.sv', generateSequenceLibrary(library, def.id, item, registers));
+
+const regBlockFile = (registers: RegisterMap): string => header('my_reg_block.sv', 'Register model: one uvm_reg per register and the block that maps them') +
+guard('my_reg_block.sv', generateRegisterModel(registers));
+
+const regAdapterFile = (def: ProtocolDefinition): string => header('my_reg_adapter.sv', `Converts register operations to and from ${def.id} items`) +
+guard('my_reg_adapter.sv', generateRegAdapter(def.id));
+
+const sequencerFile = (): string => header('my_sequencer.sv', 'Arbitrates sequences and hands items to the driver') +
+guard('my_sequencer.sv', `class my_sequencer extends uvm_sequencer #(my_transaction);
+  \`uvm_component_utils(my_sequencer)
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+endclass`);
+
+const driverFile = (def: ProtocolDefinition): string => header('my_driver.sv', `Pulls items from the sequencer and drives ${def.id} pins`) +
+guard('my_driver.sv', `class my_driver extends uvm_driver #(my_transaction);
+  \`uvm_component_utils(my_driver)
+
+  virtual my_if vif;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    if (!uvm_config_db#(virtual my_if)::get(this, "", "vif", vif))
+      \`uvm_fatal("NOVIF", "Virtual interface not set for driver")
+  endfunction
+
+  virtual task run_phase(uvm_phase phase);
+${def.resetSignals.map(name => `    vif.${name} <= '0;`).join('\n')}
+    forever begin
+      seq_item_port.get_next_item(req); // Blocking call
+      drive_transfer(req);              // Wiggle pins
+      seq_item_port.item_done();        // Tell sequence we are finished
+    end
+  endtask
+
+  virtual task drive_transfer(my_transaction t);
+${indent(def.driveTask, 4)}
+  endtask
+endclass`);
+
+const monitorFile = (def: ProtocolDefinition): string => header('my_monitor.sv', `Passively samples completed ${def.id} transfers`) +
+guard('my_monitor.sv', `class my_monitor extends uvm_monitor;
+  \`uvm_component_utils(my_monitor)
+
+  virtual my_if vif;
+  uvm_analysis_port #(my_transaction) ap;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    ap = new("ap", this);
+    if (!uvm_config_db#(virtual my_if)::get(this, "", "vif", vif))
+      \`uvm_fatal("NOVIF", "Virtual interface not set for monitor")
+  endfunction
+
+  virtual task run_phase(uvm_phase phase);
+${indent(def.monitorTask, 4)}
+  endtask
+endclass`);
+
+const agentFile = (def: ProtocolDefinition): string => header('my_agent.sv', `Groups sequencer, driver and monitor for one ${def.id} port`) +
+guard('my_agent.sv', `class my_agent extends uvm_agent;
+  \`uvm_component_utils(my_agent)
+
+  my_sequencer sequencer;
+  my_driver    driver;
+  my_monitor   monitor;
+  uvm_analysis_port #(my_transaction) ap;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    monitor = my_monitor::type_id::create("monitor", this);
+    if (get_is_active() == UVM_ACTIVE) begin
+      sequencer = my_sequencer::type_id::create("sequencer", this);
+      driver    = my_driver::type_id::create("driver", this);
+    end
+  endfunction
+
+  virtual function void connect_phase(uvm_phase phase);
+    super.connect_phase(phase);
+    ap = monitor.ap;
+    if (get_is_active() == UVM_ACTIVE)
+      driver.seq_item_port.connect(sequencer.seq_item_export);
+  endfunction
+endclass`);
+
+const scoreboardFile = (): string => header('my_scoreboard.sv', 'Checks observed reads against a memory reference model') +
+guard('my_scoreboard.sv', `class my_scoreboard extends uvm_scoreboard;
+  \`uvm_component_utils(my_scoreboard)
+
+  uvm_analysis_imp #(my_transaction, my_scoreboard) analysis_export;
+
+  // Reference model: last value written to each address
+  bit [31:0] predictor [bit [31:0]];
+  int unsigned n_match, n_mismatch;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    analysis_export = new("analysis_export", this);
+  endfunction
+
+  virtual function void write(my_transaction t);
+    if (t.kind == WRITE) begin
+      predictor[t.addr] = t.data;
+    end else if (!predictor.exists(t.addr)) begin
+      \`uvm_warning("SB", $sformatf("Read of %0h before any write; got %0h", t.addr, t.data))
+    end else if (t.data !== predictor[t.addr]) begin
+      n_mismatch++;
+      \`uvm_error("SB", $sformatf("Mismatch! Exp: %0h, Got: %0h", predictor[t.addr], t.data))
+    end else begin
+      n_match++;
+      \`uvm_info("SB", "Match successful", UVM_LOW)
+    end
+  endfunction
+
+  virtual function void report_phase(uvm_phase phase);
+    \`uvm_info("SB", $sformatf("%0d matches, %0d mismatches", n_match, n_mismatch), UVM_NONE)
+  endfunction
+endclass`);
+
+// With a register map the env also builds the model, publishes it for the sequences and
+// lets it predict mirrored values from its own read()/write() calls.
+const envFile = (registers: RegisterMap | null): string => header('my_env.sv', 'Instantiates the agent and scoreboard and connects them') +
+guard('my_env.sv', `class my_env extends uvm_env;
+  \`uvm_component_utils(my_env)
+
+  my_agent      agent;
+  my_scoreboard scoreboard;
+${registers ? `  ${registers.name.padEnd(13)} ${REG_MODEL_HANDLE};\n  ${REG_ADAPTER_CLASS_NAME.padEnd(13)} adapter;\n` : ''}
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    agent      = my_agent::type_id::create("agent", this);
+    scoreboard = my_scoreboard::type_id::create("scoreboard", this);${registers ? `
+    ${REG_MODEL_HANDLE} = ${registers.name}::type_id::create("${REG_MODEL_HANDLE}");
+    ${REG_MODEL_HANDLE}.build();
+    adapter  = ${REG_ADAPTER_CLASS_NAME}::type_id::create("adapter");
+    uvm_config_db#(${registers.name})::set(this, "*", "${REG_MODEL_HANDLE}", ${REG_MODEL_HANDLE});` : ''}
+  endfunction
+
+  virtual function void connect_phase(uvm_phase phase);
+    super.connect_phase(phase);
+    agent.ap.connect(scoreboard.analysis_export);${registers ? `
+    ${REG_MODEL_HANDLE}.default_map.set_sequencer(agent.sequencer, adapter);
+    ${REG_MODEL_HANDLE}.default_map.set_auto_predict(1);` : ''}
+  endfunction
+endclass`);
+
+const testFile = (): string => header('my_test.sv', 'Builds the env and runs the generated sequence') +
+guard('my_test.sv', `class my_test extends uvm_test;
+  \`uvm_component_utils(my_test)
+
+  my_env env;
+
+  function new(string name, uvm_component parent);
+    super.new(name, parent);
+  endfunction
+
+  virtual function void build_phase(uvm_phase phase);
+    super.build_phase(phase);
+    env = my_env::type_id::create("env", this);
+  endfunction
+
+  virtual task run_phase(uvm_phase phase);
+    ${SEQUENCE_CLASS_NAME} seq;
+    phase.raise_objection(this);
+    seq = ${SEQUENCE_CLASS_NAME}::type_id::create("seq");
+    seq.start(env.agent.sequencer);
+    phase.drop_objection(this);
+  endtask
+endclass`);
+
+const pkgFile = (def: ProtocolDefinition, withRegisters: boolean): string => header('my_pkg.sv', 'Package compiling every class in dependency order') +
+`package my_pkg;
+  import uvm_pkg::*;
+  \`include "uvm_macros.svh"
+
+  typedef enum bit {READ, WRITE} kind_e;
+${def.typedefs.map(t => `  ${t}`).join('\n')}
+
+  \`include "my_transaction.sv"
+${withRegisters ? '  `include "my_reg_block.sv"\n  `include "my_reg_adapter.sv"\n' : ''}  \`include "my_custom_seq.sv"
+  \`include "my_sequencer.sv"
+  \`include "my_driver.sv"
+  \`include "my_monitor.sv"
+  \`include "my_agent.sv"
+  \`include "my_scoreboard.sv"
+  \`include "my_env.sv"
+  \`include "my_test.sv"
+endpackage
+`;
+
+const dutFile = (def: ProtocolDefinition): string => header('dut.sv', `${def.id} memory slave (same behaviour as the walkthrough DUT)`) +
+`module dut (
+  input  logic        clk,
+${def.signals.map(sig => `  ${sig.direction === 'out' ? 'input ' : 'output'} ${declare('logic', sig)}`).join(',\n')}
+);
+${indent(def.dutBody, 2)}
+endmodule
+`;
+
+const topFile = (def: ProtocolDefinition): string => {
+  const width = Math.max(...def.signals.map(sig => sig.name.length));
+  const ports = [`    .${'clk'.padEnd(width)} (clk)`, ...def.signals.map(sig => `    .${sig.name.padEnd(width)} (vif.${sig.name})`)];
+  return header('tb_top.sv', 'Clock, interface, DUT and run_test()') +
+`module tb_top;
+  import uvm_pkg::*;
+  \`include "uvm_macros.svh"
+  import my_pkg::*;
+
+  logic clk = 1'b0;
+  always #${CLOCK_PERIOD / 2} clk = ~clk;
+
+  my_if vif (clk);
+
+  dut u_dut (
+${ports.join(',\n')}
+  );
+
+  initial begin
+    uvm_config_db#(virtual my_if)::set(null, "uvm_test_top.*", "vif", vif);
+    run_test("my_test");
+  end
+endmodule
+`;
+};
+
+const filelist = (): string =>
+`// files.f - compile with e.g. \`xrun -uvm -f files.f\` or \`vcs -sverilog -ntb_opts uvm -f files.f\`
++incdir+.
+my_if.sv
+my_pkg.sv
+dut.sv
+tb_top.sv
+`;
+
+/**
+ * Emits a self-contained testbench for the selected bus protocol around the builder's
+ * sequence. Class files are `include`d by my_pkg.sv, so only the filelist entries are
+ * compiled directly.
+ */
+export const generateTestbench = (
+  library: SequenceDef[],
+  protocol: BusProtocol = BusProtocol.APB,
+  item: TransactionItemDef = defaultItemDef(protocol),
+  registers: RegisterMap = emptyRegisterMap()
+): GeneratedFile[] => {
+  const def = PROTOCOLS[protocol];
+  const withRegisters = registers.registers.length > 0;
+  return [
+    { name: 'files.f', description: 'Filelist', content: filelist() },
+    { name: 'my_if.sv', description: 'Interface', content: ifFile(def) },
+    { name: 'my_pkg.sv', description: 'Package', content: pkgFile(def, withRegisters) },
+    { name: 'my_transaction.sv', description: 'Transaction', content: transactionFile(item) },
+    ...(withRegisters ? [
+      { name: 'my_reg_block.sv', description: 'Register model', content: regBlockFile(registers) },
+      { name: 'my_reg_adapter.sv', description: 'Register adapter', content: regAdapterFile(def) }
+    ] : []),
+    { name: 'my_custom_seq.sv', description: 'Sequence', content: sequenceFile(library, def, item, registers) },
+    { name: 'my_sequencer.sv', description: 'Sequencer', content: sequencerFile() },
+    { name: 'my_driver.sv', description: 'Driver', content: driverFile(def) },
+    { name: 'my_monitor.sv', description: 'Monitor', content: monitorFile(def) },
+    { name: 'my_agent.sv', description: 'Agent', content: agentFile(def) },
+    { name: 'my_scoreboard.sv', description: 'Scoreboard', content: scoreboardFile() },
+    { name: 'my_env.sv', description: 'Environment', content: envFile(withRegisters ? registers : null) },
+    { name: 'my_test.sv', description: 'Test', content: testFile() },
+    { name: 'dut.sv', description: 'DUT', content: dutFile(def) },
+    { name: 'tb_top.sv', description: 'Top module', content: topFile(def) }
+  ];
+};
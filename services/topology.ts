@@ -0,0 +1,322 @@
+import { AnalysisConnection, GeneratedFile, Topology, TopologyComponent, TopologyKind } from "../types";
+import { guard, header } from "./testbenchGenerator";
+import { isObject } from "./guards";
+
+const STORAGE_KEY = 'uvm-master.topology';
+
+export interface TopologyKindInfo {
+  label: string;
+  base: string;        // UVM base class, for the editor's hint
+  defaultName: string;
+  defaultType: string;
+}
+
+/** What can be added to an env, in the order the editor offers them. */
+export const TOPOLOGY_KINDS: Record<TopologyKind, TopologyKindInfo> = {
+  agent: { label: 'Agent', base: 'uvm_agent', defaultName: 'agent', defaultType: 'my_agent' },
+  scoreboard: { label: 'Scoreboard', base: 'uvm_scoreboard', defaultName: 'scoreboard', defaultType: 'my_scoreboard' },
+  coverage: { label: 'Coverage collector', base: 'uvm_subscriber', defaultName: 'cov', defaultType: 'my_coverage' },
+  env: { label: 'Sub-env', base: 'uvm_env', defaultName: 'sub_env', defaultType: 'my_sub_env' },
+  virtual_sequencer: { label: 'Virtual sequencer', base: 'uvm_sequencer', defaultName: 'vseqr', defaultType: 'my_virtual_sequencer' }
+};
+
+const component = (id: string, kind: TopologyKind, name: string, typeName: string, parentId: string | null = null, active = true): TopologyComponent =>
+  ({ id, kind, parentId, name, typeName, active });
+
+/** The env services/testbenchGenerator.ts writes: one agent feeding one scoreboard. */
+export const DEFAULT_TOPOLOGY: Topology = {
+  envType: 'my_env',
+  components: [
+    component('agent', 'agent', 'agent', 'my_agent'),
+    component('scoreboard', 'scoreboard', 'scoreboard', 'my_scoreboard')
+  ],
+  connections: [{ id: 'c1', fromId: 'agent', toId: 'scoreboard' }]
+};
+
+/** Starting points for the editor, from the generated testbench to a subsystem with sub-envs. */
+export const TOPOLOGY_EXAMPLES: { id: string; title: string; topology: Topology }[] = [
+  { id: 'single-agent', title: 'One agent (the generated testbench)', topology: DEFAULT_TOPOLOGY },
+  {
+    id: 'soc',
+    title: 'Four bus agents with a virtual sequencer',
+    topology: {
+      envType: 'soc_env',
+      components: [
+        component('apb', 'agent', 'apb', 'apb_agent'),
+        component('axi', 'agent', 'axi', 'axi_agent'),
+        component('uart', 'agent', 'uart', 'uart_agent'),
+        component('irq', 'agent', 'irq', 'irq_agent', null, false),
+        component('sb', 'scoreboard', 'sb', 'soc_scoreboard'),
+        component('cov', 'coverage', 'cov', 'soc_coverage'),
+        component('vseqr', 'virtual_sequencer', 'vseqr', 'soc_virtual_sequencer')
+      ],
+      connections: [
+        { id: 'c1', fromId: 'axi', toId: 'sb' },
+        { id: 'c2', fromId: 'uart', toId: 'sb' },
+        { id: 'c3', fromId: 'apb', toId: 'cov' },
+        { id: 'c4', fromId: 'irq', toId: 'cov' }
+      ]
+    }
+  },
+  {
+    id: 'sub-envs',
+    title: 'Two sub-envs under a system env',
+    topology: {
+      envType: 'system_env',
+      components: [
+        component('cpu', 'env', 'cpu_env', 'cpu_subsys_env'),
+        component('cpu-axi', 'agent', 'axi', 'axi_agent', 'cpu'),
+        component('cpu-jtag', 'agent', 'jtag', 'jtag_agent', 'cpu'),
+        component('cpu-sb', 'scoreboard', 'sb', 'cpu_scoreboard', 'cpu'),
+        component('periph', 'env', 'periph_env', 'periph_subsys_env'),
+        component('periph-apb', 'agent', 'apb', 'apb_agent', 'periph'),
+        component('periph-spi', 'agent', 'spi', 'spi_agent', 'periph'),
+        component('periph-gpio', 'agent', 'gpio', 'gpio_agent', 'periph', false),
+        component('periph-cov', 'coverage', 'cov', 'periph_coverage', 'periph'),
+        component('ddr', 'agent', 'ddr', 'ddr_agent', null, false),
+        component('sys-sb', 'scoreboard', 'sys_sb', 'system_scoreboard'),
+        component('vseqr', 'virtual_sequencer', 'vseqr', 'system_virtual_sequencer')
+      ],
+      connections: [
+        { id: 'c1', fromId: 'cpu-axi', toId: 'cpu-sb' },
+        { id: 'c2', fromId: 'cpu-jtag', toId: 'cpu-sb' },
+        { id: 'c3', fromId: 'periph-spi', toId: 'periph-cov' },
+        { id: 'c4', fromId: 'periph-gpio', toId: 'periph-cov' },
+        { id: 'c5', fromId: 'cpu-axi', toId: 'sys-sb' },
+        { id: 'c6', fromId: 'ddr', toId: 'sys-sb' }
+      ]
+    }
+  }
+];
+
+const KINDS = Object.keys(TOPOLOGY_KINDS);
+
+const isComponent = (c: unknown): c is TopologyComponent =>
+  isObject(c) && typeof c.id === 'string' && typeof c.kind === 'string' && KINDS.includes(c.kind) && typeof c.name === 'string' && typeof c.typeName === 'string'
+  && (c.parentId === null || typeof c.parentId === 'string') && typeof c.active === 'boolean';
+
+const isConnection = (c: unknown): c is AnalysisConnection =>
+  isObject(c) && typeof c.id === 'string' && typeof c.fromId === 'string' && typeof c.toId === 'string';
+
+const unique = (ids: string[]) => new Set(ids).size === ids.length;
+
+/**
+ * The saved topology, or the default when there is none or it doesn't read back. Components
+ * must have unique ids and all hang off the top env; connections that are malformed,
+ * repeat an id or point at a missing agent or checker are dropped.
+ */
+export const loadTopology = (): Topology => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!isObject(stored) || typeof stored.envType !== 'string' || !Array.isArray(stored.components) || !stored.components.every(isComponent)) {
+      return DEFAULT_TOPOLOGY;
+    }
+    const components: TopologyComponent[] = stored.components;
+    if (!unique(components.map(c => c.id))) return DEFAULT_TOPOLOGY;
+    // Walking down from the top env must reach every component once; a parent cycle would hang the path helpers
+    const reached: string[] = [];
+    const walk = (parentId: string | null) => components.filter(c => c.parentId === parentId).forEach(c => {
+      reached.push(c.id);
+      if (c.kind === 'env') walk(c.id);
+    });
+    walk(null);
+    if (reached.length !== components.length) return DEFAULT_TOPOLOGY;
+    const kindOf = (id: string) => components.find(c => c.id === id)?.kind;
+    const connections: AnalysisConnection[] = [];
+    (Array.isArray(stored.connections) ? stored.connections : []).forEach((c: unknown) => {
+      if (!isConnection(c) || connections.some(other => other.id === c.id)) return;
+      if (kindOf(c.fromId) !== 'agent' || !['scoreboard', 'coverage'].includes(kindOf(c.toId) ?? '')) return;
+      connections.push({ id: c.id, fromId: c.fromId, toId: c.toId });
+    });
+    return { envType: stored.envType, components, connections };
+  } catch {
+    return DEFAULT_TOPOLOGY;
+  }
+};
+
+export const saveTopology = (topology: Topology) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(topology));
+  } catch (err) {
+    console.error('Could not save the testbench topology', err);
+  }
+};
+
+export const childrenOf = (topology: Topology, parentId: string | null): TopologyComponent[] =>
+  topology.components.filter(c => c.parentId === parentId);
+
+// The env ids from the top env (null) down to the component's own parent
+const envChain = (topology: Topology, id: string): (string | null)[] => {
+  const chain: (string | null)[] = [];
+  for (let c = topology.components.find(x => x.id === id); c; c = topology.components.find(x => x.id === c!.parentId)) {
+    chain.unshift(c.parentId);
+  }
+  return chain;
+};
+
+/** Instance path from an env (null for the top env) down to a component inside it, e.g. "periph_env.apb". */
+export const relativePath = (topology: Topology, id: string, fromEnv: string | null = null): string => {
+  const names: string[] = [];
+  for (let c = topology.components.find(x => x.id === id); c && c.id !== fromEnv; c = topology.components.find(x => x.id === c!.parentId)) {
+    names.unshift(c.name);
+  }
+  return names.join('.');
+};
+
+/** Full name under uvm_root, as the test creates the top env. */
+export const fullPath = (topology: Topology, id: string): string => `uvm_test_top.env.${relativePath(topology, id)}`;
+
+/** A component and everything inside it, if it is a sub-env. */
+export const descendants = (topology: Topology, id: string): string[] =>
+  [id, ...childrenOf(topology, id).flatMap(c => descendants(topology, c.id))];
+
+/** A free instance name in `parentId`, from `base`, base_1, base_2, ... */
+export const uniqueName = (topology: Topology, parentId: string | null, base: string): string => {
+  const taken = childrenOf(topology, parentId).map(c => c.name);
+  if (!taken.includes(base)) return base;
+  let n = 1;
+  while (taken.includes(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+};
+
+export const addComponent = (topology: Topology, kind: TopologyKind, parentId: string | null): Topology => {
+  const info = TOPOLOGY_KINDS[kind];
+  const name = uniqueName(topology, parentId, info.defaultName);
+  return { ...topology, components: [...topology.components, component(Date.now().toString(), kind, name, info.defaultType, parentId)] };
+};
+
+/** Removes a component, everything inside it and every connection to any of them. */
+export const removeComponent = (topology: Topology, id: string): Topology => {
+  const gone = descendants(topology, id);
+  return {
+    ...topology,
+    components: topology.components.filter(c => !gone.includes(c.id)),
+    connections: topology.connections.filter(c => !gone.includes(c.fromId) && !gone.includes(c.toId))
+  };
+};
+
+/** Active agents anywhere under an env: the sequencers a virtual sequencer there can drive. */
+export const activeAgentsUnder = (topology: Topology, envId: string | null): TopologyComponent[] =>
+  childrenOf(topology, envId).flatMap(c =>
+    c.kind === 'agent' ? (c.active ? [c] : []) : c.kind === 'env' ? activeAgentsUnder(topology, c.id) : []);
+
+/** The agent and scoreboard the walkthroughs animate: the first active agent (else the first agent) and the first scoreboard. */
+export const primaryComponents = (topology: Topology): { agent?: TopologyComponent; scoreboard?: TopologyComponent } => {
+  const agents = topology.components.filter(c => c.kind === 'agent');
+  return { agent: agents.find(a => a.active) || agents[0], scoreboard: topology.components.find(c => c.kind === 'scoreboard') };
+};
+
+const sequencerType = (agent: TopologyComponent) =>
+  /_agent$/.test(agent.typeName) ? agent.typeName.replace(/_agent$/, '_sequencer') : `${agent.typeName}_sequencer`;
+
+// Handle a virtual sequencer keeps for an agent's sequencer, e.g. "periph_env_apb_sqr"
+const sequencerHandle = (topology: Topology, agent: TopologyComponent, envId: string | null) =>
+  `${relativePath(topology, agent.id, envId).replace(/\./g, '_')}_sqr`;
+
+/** The export a connection lands on: analysis_export, or one per agent when a scoreboard checks several. */
+export const exportName = (topology: Topology, connection: AnalysisConnection): string => {
+  const target = topology.components.find(c => c.id === connection.toId);
+  const sources = topology.connections.filter(c => c.toId === connection.toId);
+  if (target?.kind !== 'scoreboard' || sources.length < 2) return 'analysis_export';
+  return `${topology.components.find(c => c.id === connection.fromId)?.name}_export`;
+};
+
+// The innermost env that holds both ends of a connection, which is where it gets connected
+const connectingEnv = (topology: Topology, connection: AnalysisConnection): string | null => {
+  const a = envChain(topology, connection.fromId);
+  const b = envChain(topology, connection.toId);
+  let i = 0;
+  while (i + 1 < a.length && i + 1 < b.length && a[i + 1] === b[i + 1]) i++;
+  return a[i];
+};
+
+// Sub-env contents, to spot two instances of one class built differently
+const signature = (topology: Topology, envId: string): string =>
+  childrenOf(topology, envId).map(c => `${c.kind}:${c.name}:${c.typeName}:${c.active}(${c.kind === 'env' ? signature(topology, c.id) : ''})`).join(',');
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+/** Problems that would stop the generated code from compiling or doing anything useful. */
+export const topologyIssues = (topology: Topology): string[] => {
+  const issues: string[] = [];
+  if (!IDENTIFIER.test(topology.envType)) issues.push(`"${topology.envType}" is not a valid class name`);
+  topology.components.forEach(c => {
+    const where = fullPath(topology, c.id);
+    if (!IDENTIFIER.test(c.name)) issues.push(`${where}: "${c.name}" is not a valid instance name`);
+    if (!IDENTIFIER.test(c.typeName)) issues.push(`${where}: "${c.typeName}" is not a valid class name`);
+    if (childrenOf(topology, c.parentId).find(x => x.name === c.name)!.id !== c.id) issues.push(`${where}: another component in the same env has this name`);
+    if (c.kind === 'scoreboard' && !topology.connections.some(x => x.toId === c.id)) issues.push(`${where}: no analysis port is connected, so it never sees a transaction`);
+    if (c.kind === 'virtual_sequencer' && !activeAgentsUnder(topology, c.parentId).length) issues.push(`${where}: no active agent below it, so there is no sequencer to drive`);
+    if (c.kind === 'env') {
+      const twin = topology.components.find(x => x.kind === 'env' && x.typeName === c.typeName && x.id !== c.id);
+      if (twin && signature(topology, twin.id) !== signature(topology, c.id)) issues.push(`${where}: shares the class ${c.typeName} with ${fullPath(topology, twin.id)} but holds different components`);
+    }
+  });
+  topology.connections.forEach(connection => {
+    const name = exportName(topology, connection);
+    if (name === 'analysis_export') return; // A subscriber's one export takes any number of ports
+    const clash = topology.connections.find(x => x.toId === connection.toId && x !== connection && exportName(topology, x) === name);
+    if (clash && topology.connections.indexOf(clash) > topology.connections.indexOf(connection)) {
+      issues.push(`${fullPath(topology, connection.toId)}: two agents named ${topology.components.find(c => c.id === connection.fromId)?.name} feed it, so their exports clash`);
+    }
+  });
+  return issues;
+};
+
+const envClass = (topology: Topology, envId: string | null, className: string): string => {
+  const children = childrenOf(topology, envId);
+  const width = Math.max(0, ...children.map(c => c.typeName.length));
+  const nameWidth = Math.max(0, ...children.map(c => c.name.length));
+  const agents = children.filter(c => c.kind === 'agent');
+  const connections = topology.connections.filter(c => connectingEnv(topology, c) === envId);
+  const vseqrs = children.filter(c => c.kind === 'virtual_sequencer');
+
+  let code = `class ${className} extends uvm_env;\n  \`uvm_component_utils(${className})\n\n`;
+  code += children.map(c => `  ${c.typeName.padEnd(width)} ${c.name};\n`).join('');
+  code += `\n  function new(string name, uvm_component parent);\n    super.new(name, parent);\n  endfunction\n\n`;
+  code += `  virtual function void build_phase(uvm_phase phase);\n    super.build_phase(phase);\n`;
+  if (agents.length) {
+    code += `    // Each agent reads is_active in its own build_phase\n`;
+    code += agents.map(a => `    uvm_config_db#(uvm_active_passive_enum)::set(this, "${a.name}", "is_active", ${a.active ? 'UVM_ACTIVE' : 'UVM_PASSIVE'});\n`).join('');
+  }
+  code += children.map(c => `    ${c.name.padEnd(nameWidth)} = ${c.typeName}::type_id::create("${c.name}", this);\n`).join('');
+  code += `  endfunction\n\n`;
+  code += `  virtual function void connect_phase(uvm_phase phase);\n    super.connect_phase(phase);\n`;
+  code += connections.map(c =>
+    `    ${relativePath(topology, c.fromId, envId)}.ap.connect(${relativePath(topology, c.toId, envId)}.${exportName(topology, c)});\n`).join('');
+  vseqrs.forEach(v => {
+    code += activeAgentsUnder(topology, envId).map(a =>
+      `    ${v.name}.${sequencerHandle(topology, a, envId)} = ${relativePath(topology, a.id, envId)}.sequencer;\n`).join('');
+  });
+  code += `  endfunction\nendclass`;
+  return code;
+};
+
+const virtualSequencerClass = (topology: Topology, vseqr: TopologyComponent): string => {
+  const agents = activeAgentsUnder(topology, vseqr.parentId);
+  const width = Math.max(0, ...agents.map(a => sequencerType(a).length));
+  return `class ${vseqr.typeName} extends uvm_sequencer;\n  \`uvm_component_utils(${vseqr.typeName})\n\n`
+    + `  // Set by the env in connect_phase; virtual sequences start their sub-sequences on these\n`
+    + agents.map(a => `  ${sequencerType(a).padEnd(width)} ${sequencerHandle(topology, a, vseqr.parentId)};\n`).join('')
+    + `\n  function new(string name, uvm_component parent);\n    super.new(name, parent);\n  endfunction\nendclass`;
+};
+
+/** The top env, each sub-env class and each virtual sequencer class, one file per class. */
+export const generateTopologyFiles = (topology: Topology): GeneratedFile[] => {
+  const file = (name: string, description: string, body: string): GeneratedFile =>
+    ({ name: `${name}.sv`, description, content: header(`${name}.sv`, description) + guard(`${name}.sv`, body) });
+  const agentCount = topology.components.filter(c => c.kind === 'agent').length;
+  const files = [file(topology.envType, `Builds and connects ${agentCount} agent${agentCount === 1 ? '' : 's'} and their checkers`, envClass(topology, null, topology.envType))];
+  const seen = new Set([topology.envType]);
+  topology.components.forEach(c => {
+    if (seen.has(c.typeName)) return;
+    if (c.kind === 'env') {
+      seen.add(c.typeName);
+      files.push(file(c.typeName, `Sub-env, created as ${fullPath(topology, c.id)}`, envClass(topology, c.id, c.typeName)));
+    } else if (c.kind === 'virtual_sequencer') {
+      seen.add(c.typeName);
+      files.push(file(c.typeName, 'Holds a handle to each active agent\'s sequencer', virtualSequencerClass(topology, c)));
+    }
+  });
+  return files;
+};
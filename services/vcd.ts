@@ -0,0 +1,286 @@
+import {
+  ApbSignalMapping,
+  ApbSignalRole,
+  ApbSignals,
+  RecoveredTransfer,
+  SequenceStep,
+  SimCycle,
+  TransactionKind,
+  VcdDump,
+  VcdSignal,
+  VcdValueChange
+} from "../types";
+import { CLOCK_PERIOD, formatHex } from "./apbSimulator";
+
+export interface WaveSignal {
+  name: 'clk' | keyof ApbSignals;
+  width: number;
+}
+
+// Pin order matches the walkthrough's APB interface.
+export const APB_WAVE_SIGNALS: WaveSignal[] = [
+  { name: 'clk', width: 1 },
+  { name: 'psel', width: 1 },
+  { name: 'penable', width: 1 },
+  { name: 'pwrite', width: 1 },
+  { name: 'paddr', width: 32 },
+  { name: 'pwdata', width: 32 },
+  { name: 'prdata', width: 32 }
+];
+
+export const VCD_TIMESCALE = '1ns';
+
+// VCD identifier codes are printable ASCII starting at '!'.
+const idCode = (index: number): string => {
+  let code = '';
+  let n = index;
+  do {
+    code += String.fromCharCode(33 + (n % 94));
+    n = Math.floor(n / 94) - 1;
+  } while (n >= 0);
+  return code;
+};
+
+const formatValue = (value: number, width: number, id: string): string =>
+  width === 1 ? `${value & 1}${id}` : `b${(value >>> 0).toString(2)} ${id}`;
+
+/**
+ * Serializes a simulated cycle trace to a Value Change Dump that GTKWave can open.
+ * Signals change on the rising clock edge (driver uses non-blocking assignments),
+ * and the clock toggles every half period.
+ */
+export const writeVcd = (cycles: SimCycle[], moduleName = 'apb_if'): string => {
+  const ids = APB_WAVE_SIGNALS.map((_, i) => idCode(i));
+  const lines: string[] = [
+    `$date ${new Date().toUTCString()} $end`,
+    `$version UVM Master Sequence Builder $end`,
+    `$timescale ${VCD_TIMESCALE} $end`,
+    `$scope module ${moduleName} $end`,
+    ...APB_WAVE_SIGNALS.map((sig, i) =>
+      `$var wire ${sig.width} ${ids[i]} ${sig.name}${sig.width > 1 ? ` [${sig.width - 1}:0]` : ''} $end`
+    ),
+    `$upscope $end`,
+    `$enddefinitions $end`
+  ];
+
+  const half = CLOCK_PERIOD / 2;
+  const last = new Map<string, number>();
+
+  cycles.forEach((c, idx) => {
+    const changes: string[] = [];
+    APB_WAVE_SIGNALS.forEach((sig, i) => {
+      const value = sig.name === 'clk' ? 1 : c.signals[sig.name];
+      if (last.get(sig.name) !== value) {
+        changes.push(formatValue(value, sig.width, ids[i]));
+        last.set(sig.name, value);
+      }
+    });
+
+    lines.push(`#${c.time}`);
+    if (idx === 0) {
+      lines.push('$dumpvars', ...changes, '$end');
+    } else {
+      lines.push(...changes);
+    }
+
+    lines.push(`#${c.time + half}`, formatValue(0, 1, ids[0]));
+    last.set('clk', 0);
+  });
+
+  if (cycles.length > 0) {
+    lines.push(`#${cycles.length * CLOCK_PERIOD}`);
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// --- Import -----------------------------------------------------------------
+
+export const APB_SIGNAL_ROLES: ApbSignalRole[] = ['clk', 'psel', 'penable', 'pwrite', 'paddr', 'pwdata', 'prdata', 'pready'];
+
+// pwdata/prdata/pready may be absent from a dump (e.g. write-only ports, APB2 without pready).
+export const REQUIRED_APB_ROLES: ApbSignalRole[] = ['clk', 'psel', 'penable', 'pwrite', 'paddr'];
+
+/**
+ * Parses the text of a Value Change Dump. Throws an Error naming the offending
+ * line when the header is malformed or a value change references an unknown signal.
+ */
+export const parseVcd = (text: string): VcdDump => {
+  const signals: VcdSignal[] = [];
+  const changes: Record<string, VcdValueChange[]> = {};
+  const scopes: string[] = [];
+  let timescale = '1ns';
+  let time = 0;
+  let endTime = 0;
+  let inHeader = true;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const lineNo = i + 1;
+
+    if (inHeader) {
+      // Header sections may span several lines; gather tokens up to $end.
+      let section = line;
+      while (section.startsWith('$') && !/\$end\s*$/.test(section) && i + 1 < lines.length) {
+        section += ' ' + lines[++i].trim();
+      }
+      const tokens = section.split(/\s+/);
+
+      switch (tokens[0]) {
+        case '$timescale':
+          timescale = tokens.slice(1, -1).join('');
+          break;
+        case '$scope':
+          scopes.push(tokens[2]);
+          break;
+        case '$upscope':
+          scopes.pop();
+          break;
+        case '$var': {
+          // $var <type> <width> <id> <ref> [range] $end
+          if (tokens.length < 6) throw new Error(`Line ${lineNo}: malformed $var declaration.`);
+          const id = tokens[3];
+          // Several $var lines may alias one id; keep the first declaration.
+          if (!changes[id]) {
+            signals.push({ id, name: [...scopes, tokens[4]].join('.'), width: parseInt(tokens[2], 10) || 1 });
+            changes[id] = [];
+          }
+          break;
+        }
+        case '$enddefinitions':
+          inHeader = false;
+          break;
+        default:
+          // $date, $version, $comment: informational only.
+          break;
+      }
+      continue;
+    }
+
+    if (line.startsWith('#')) {
+      time = parseInt(line.slice(1), 10);
+      if (isNaN(time)) throw new Error(`Line ${lineNo}: invalid timestamp "${line}".`);
+      endTime = Math.max(endTime, time);
+      continue;
+    }
+
+    if (line.startsWith('$')) {
+      // $dumpvars / $dumpall / $dumpon / $dumpoff / $end wrap ordinary value changes.
+      continue;
+    }
+
+    let value: string;
+    let id: string;
+    if (/^[bBrR]/.test(line)) {
+      const parts = line.split(/\s+/);
+      if (parts.length < 2) throw new Error(`Line ${lineNo}: vector value without identifier.`);
+      value = parts[0].slice(1).toLowerCase();
+      id = parts[1];
+    } else {
+      value = line[0].toLowerCase();
+      id = line.slice(1).trim();
+    }
+
+    if (!changes[id]) throw new Error(`Line ${lineNo}: value change for undeclared signal "${id}".`);
+    changes[id].push({ time, value });
+  }
+
+  if (inHeader) throw new Error('Missing $enddefinitions; this does not look like a VCD file.');
+
+  return { timescale, signals, changes, endTime };
+};
+
+/**
+ * Suggests a mapping by matching the last segment of each hierarchical name to the
+ * role (case-insensitive, tolerating prefixes like "apb_" or "s_").
+ */
+export const guessApbMapping = (signals: VcdSignal[]): ApbSignalMapping => {
+  const mapping = Object.fromEntries(APB_SIGNAL_ROLES.map(r => [r, ''])) as ApbSignalMapping;
+  const leaf = (s: VcdSignal) => s.name.split('.').pop()!.toLowerCase();
+
+  APB_SIGNAL_ROLES.forEach(role => {
+    const exact = signals.find(s => leaf(s) === role);
+    const suffix = signals.find(s => leaf(s).endsWith(`_${role}`) || (role === 'clk' && /(^|_)(pclk|clock)$/.test(leaf(s))));
+    mapping[role] = (exact || suffix)?.id || '';
+  });
+  return mapping;
+};
+
+const toNumber = (value: string | undefined): number | null => {
+  if (value === undefined || !/^[01]+$/.test(value)) return null;
+  // Low 32 bits exactly; parseInt would round vectors wider than 53 bits first
+  return Number(BigInt.asUintN(32, BigInt(`0b${value}`)));
+};
+
+/**
+ * Recovers APB transfers from a dump the way the walkthrough monitor does: on each rising
+ * clock edge, sample the bus as it was just before the edge and record a transfer when
+ * psel && penable (&& pready, if mapped).
+ */
+export const extractApbTransfers = (dump: VcdDump, mapping: ApbSignalMapping): RecoveredTransfer[] => {
+  const missing = REQUIRED_APB_ROLES.filter(r => !mapping[r]);
+  if (missing.length > 0) throw new Error(`Map the required signals first: ${missing.join(', ')}.`);
+
+  const cursors: Partial<Record<ApbSignalRole, number>> = {};
+  const valueBefore = (role: ApbSignalRole, t: number): string | undefined => {
+    const list = dump.changes[mapping[role]];
+    if (!list) return undefined;
+    let c = cursors[role] ?? -1;
+    while (c + 1 < list.length && list[c + 1].time < t) c++;
+    cursors[role] = c;
+    return c >= 0 ? list[c].value : undefined;
+  };
+
+  const transfers: RecoveredTransfer[] = [];
+  let prevClk = '';
+  dump.changes[mapping.clk].forEach(({ time, value }) => {
+    const rising = value === '1' && prevClk !== '1' && prevClk !== '';
+    prevClk = value;
+    if (!rising) return;
+
+    // Always sample every role so cursors advance monotonically with time.
+    const sample = Object.fromEntries(
+      APB_SIGNAL_ROLES.filter(r => r !== 'clk').map(r => [r, valueBefore(r, time)])
+    ) as Record<Exclude<ApbSignalRole, 'clk'>, string | undefined>;
+
+    const ready = mapping.pready ? sample.pready === '1' : true;
+    if (sample.psel !== '1' || sample.penable !== '1' || !ready) return;
+
+    const addr = toNumber(sample.paddr);
+    if (addr === null) return;
+    const isWrite = sample.pwrite === '1';
+    transfers.push({
+      time,
+      kind: isWrite ? TransactionKind.WRITE : TransactionKind.READ,
+      addr,
+      data: toNumber(isWrite ? sample.pwdata : sample.prdata)
+    });
+  });
+
+  return transfers;
+};
+
+/**
+ * Converts recovered transfers into builder steps. Gaps between transfers beyond the
+ * two-cycle APB transfer become post-delays, so re-running the builder reproduces the
+ * original spacing. READ steps keep the observed prdata in `data` for reference.
+ */
+export const transfersToSteps = (transfers: RecoveredTransfer[], dump: VcdDump, mapping: ApbSignalMapping): SequenceStep[] => {
+  const clkRises = (dump.changes[mapping.clk] || []).filter(c => c.value === '1').map(c => c.time);
+  const period = clkRises.length > 1 ? clkRises[1] - clkRises[0] : CLOCK_PERIOD;
+  const stamp = Date.now();
+
+  return transfers.map((t, i) => {
+    const next = transfers[i + 1];
+    const idleCycles = next ? Math.max(0, Math.round((next.time - t.time) / period) - 2) : 0;
+    return {
+      id: `${stamp}-${i}`,
+      kind: t.kind,
+      addr: formatHex(t.addr, 4),
+      data: t.data === null ? "'h0" : formatHex(t.data, 2),
+      delay: idleCycles * CLOCK_PERIOD
+    };
+  });
+};
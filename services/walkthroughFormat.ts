@@ -0,0 +1,152 @@
+import { SimulationStep, TransactionPayload, UvmComponentType, WalkthroughScenario } from "../types";
+import { parseYaml } from "./yaml";
+import { isObject } from "./guards";
+
+/**
+ * A walkthrough file, in YAML or JSON:
+ *   format: uvm-walkthrough, version, id, title, summary (optional), payload (optional)
+ *   steps: each with label, component (a UvmComponentType value such as "Driver"), description,
+ *          and either code or `pinLevel: true`; `connections: [Sequencer -> Driver]` draws arrows
+ *          the token travels, and a step's `payload` (kind, addr, data) overrides the scenario's.
+ * walkthroughs/writeTransaction.ts is a complete example.
+ */
+export const WALKTHROUGH_FORMAT = 'uvm-walkthrough';
+
+/** Bump when walkthrough files change shape in a way older builds can't read. */
+export const WALKTHROUGH_FORMAT_VERSION = 1;
+
+/** Steps on these components may use `pinLevel: true` to show the selected protocol's code. */
+export const PIN_LEVEL_COMPONENTS = [UvmComponentType.INTERFACE, UvmComponentType.DUT, UvmComponentType.MONITOR];
+
+/** The id a step's `highlightConnections` uses for an arrow. */
+export const connectionId = (from: UvmComponentType, to: UvmComponentType) => `${from}->${to}`;
+
+const COMPONENTS = Object.values(UvmComponentType) as string[];
+const SCENARIO_KEYS = ['format', 'version', 'id', 'title', 'summary', 'payload', 'steps'];
+const STEP_KEYS = ['label', 'component', 'description', 'code', 'pinLevel', 'connections', 'payload'];
+const PAYLOAD_KEYS = ['kind', 'addr', 'data'];
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+export interface WalkthroughParseResult {
+  scenario: WalkthroughScenario | null; // Null whenever there are issues
+  issues: string[];                      // "path: problem", one per problem found
+}
+
+/** Checks parsed walkthrough data, collecting every problem rather than stopping at the first. */
+export const validateWalkthrough = (data: unknown): WalkthroughParseResult => {
+  const issues: string[] = [];
+  const expect = (ok: boolean, path: string, message: string) => {
+    if (!ok) issues.push(`${path}: ${message}`);
+    return ok;
+  };
+  const unknownKeys = (obj: Record<string, unknown>, allowed: string[], path: string) =>
+    Object.keys(obj).filter(k => !allowed.includes(k)).forEach(k => issues.push(`${path}.${k}: unknown field (expected one of ${allowed.join(', ')})`));
+  const component = (value: unknown, path: string): value is UvmComponentType =>
+    expect(COMPONENTS.some(c => c === value), path, `unknown component "${value}" (expected one of ${COMPONENTS.join(', ')})`);
+  // Numbers are accepted too, so `addr: 4096` needn't be quoted
+  const payload = (value: unknown, path: string): TransactionPayload | undefined => {
+    if (value === undefined) return undefined;
+    if (!isObject(value)) {
+      expect(false, path, 'expected a mapping with kind, addr and/or data');
+      return undefined;
+    }
+    unknownKeys(value, PAYLOAD_KEYS, path);
+    const result: TransactionPayload = {};
+    PAYLOAD_KEYS.forEach(k => {
+      const field = value[k];
+      if (field === undefined) return;
+      if (expect(typeof field === 'string' || typeof field === 'number', `${path}.${k}`, 'expected text or a number')) {
+        result[k as keyof TransactionPayload] = String(field);
+      }
+    });
+    return result;
+  };
+
+  if (!isObject(data)) return { scenario: null, issues: ['walkthrough: expected a mapping with format, version, id, title and steps'] };
+  const { id, title, summary, version, steps: stepList } = data;
+  unknownKeys(data, SCENARIO_KEYS, 'walkthrough');
+  expect(data.format === WALKTHROUGH_FORMAT, 'format', `expected "${WALKTHROUGH_FORMAT}"`);
+  expect(typeof version === 'number' && Number.isInteger(version) && version >= 1 && version <= WALKTHROUGH_FORMAT_VERSION, 'version',
+    `expected a whole number no higher than ${WALKTHROUGH_FORMAT_VERSION}, found ${JSON.stringify(version)}`);
+  expect(typeof id === 'string' && /^[a-z0-9][a-z0-9-]*$/.test(id), 'id', 'expected lower-case letters, digits and dashes');
+  expect(isText(title), 'title', 'missing');
+  expect(summary === undefined || typeof summary === 'string', 'summary', 'expected text');
+  const defaultPayload = payload(data.payload, 'payload');
+
+  const steps: SimulationStep[] = [];
+  if (!Array.isArray(stepList) || stepList.length === 0) {
+    expect(false, 'steps', 'expected at least one step');
+  } else {
+    stepList.forEach((step: unknown, i: number) => {
+      const at = `steps[${i}]`;
+      if (!isObject(step)) {
+        expect(false, at, 'expected a mapping with label, component and description');
+        return;
+      }
+      const { label, description, code, pinLevel, connections: links } = step;
+      const stepComponent = step.component;
+      unknownKeys(step, STEP_KEYS, at);
+      expect(isText(label), `${at}.label`, 'missing');
+      expect(isText(description), `${at}.description`, 'missing');
+      const validComponent = component(stepComponent, `${at}.component`);
+
+      if (pinLevel !== undefined) {
+        expect(pinLevel === true, `${at}.pinLevel`, 'expected true (or leave it out)');
+        expect(code === undefined, `${at}`, 'give either code or pinLevel, not both');
+        if (validComponent) {
+          expect(PIN_LEVEL_COMPONENTS.includes(stepComponent), `${at}.pinLevel`,
+            `only ${PIN_LEVEL_COMPONENTS.join(', ')} steps have protocol code`);
+        }
+      } else {
+        expect(isText(code), `${at}.code`, 'missing (or set pinLevel: true on Interface, DUT and Monitor steps)');
+      }
+
+      const connections: string[] = [];
+      if (Array.isArray(links)) {
+        links.forEach((c: unknown, j: number) => {
+          const cAt = `${at}.connections[${j}]`;
+          const ends = typeof c === 'string' ? c.match(/^\s*(.+?)\s*->\s*(.+?)\s*$/) : null;
+          if (!expect(!!ends, cAt, `expected "From -> To", found ${JSON.stringify(c)}`)) return;
+          const [, from, to] = ends!;
+          if (!component(from, cAt) || !component(to, cAt)) return;
+          if (expect(from !== to, cAt, 'an arrow needs two different components')) {
+            connections.push(connectionId(from, to));
+          }
+        });
+      } else if (links !== undefined) {
+        expect(false, `${at}.connections`, 'expected a list like [Sequencer -> Driver]');
+      }
+
+      const stepPayload = payload(step.payload, `${at}.payload`);
+
+      // Problems are already recorded; a step missing these is never returned
+      if (!isText(label) || !validComponent) return;
+      steps.push({
+        id: i,
+        label,
+        component: stepComponent,
+        description: typeof description === 'string' ? description.trim() : '',
+        codeSnippet: typeof code === 'string' ? code.replace(/\n+$/, '') : '',
+        ...(pinLevel === true ? { pinLevel: true } : {}),
+        ...(connections.length ? { highlightConnections: connections } : {}),
+        ...(stepPayload || defaultPayload ? { payload: { ...defaultPayload, ...stepPayload } } : {})
+      });
+    });
+  }
+
+  if (issues.length || typeof id !== 'string' || !isText(title)) return { scenario: null, issues };
+  return { scenario: { id, title: title.trim(), summary: typeof summary === 'string' ? summary.trim() : '', steps }, issues };
+};
+
+/** Reads a walkthrough written as JSON or YAML (anything not starting with "{" is taken as YAML). */
+export const parseWalkthrough = (text: string): WalkthroughParseResult => {
+  const json = text.trim().startsWith('{');
+  let data: unknown;
+  try {
+    data = json ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    return { scenario: null, issues: [`Not valid ${json ? 'JSON' : 'YAML'}: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  return validateWalkthrough(data);
+};
@@ -0,0 +1,83 @@
+import { WalkthroughScenario } from "../types";
+import { parseWalkthrough } from "./walkthroughFormat";
+import writeTransaction from "../walkthroughs/writeTransaction";
+import readResponse from "../walkthroughs/readResponse";
+import phases from "../walkthroughs/phases";
+import configDb from "../walkthroughs/configDb";
+import reset from "../walkthroughs/reset";
+import ralFrontdoor from "../walkthroughs/ralFrontdoor";
+import virtualSequence from "../walkthroughs/virtualSequence";
+
+const CUSTOM_KEY = 'uvm-master.walkthroughs';
+const ACTIVE_KEY = 'uvm-master.activeWalkthrough';
+
+const load = (source: string, name: string): WalkthroughScenario => {
+  const { scenario, issues } = parseWalkthrough(source);
+  if (!scenario) throw new Error(`walkthroughs/${name}.ts: ${issues.join('; ')}`);
+  return scenario;
+};
+
+/**
+ * The scenarios that ship with the app, in picker order. Each walkthroughs/*.ts module holds the
+ * YAML text of one, read through the same validation as imported files; a broken one fails at startup.
+ */
+export const BUILT_IN_WALKTHROUGHS: WalkthroughScenario[] = [
+  load(writeTransaction, 'writeTransaction'),
+  load(readResponse, 'readResponse'),
+  load(phases, 'phases'),
+  load(configDb, 'configDb'),
+  load(reset, 'reset'),
+  load(ralFrontdoor, 'ralFrontdoor'),
+  load(virtualSequence, 'virtualSequence')
+];
+
+/** A complete file to start a new walkthrough from. */
+export const WALKTHROUGH_TEMPLATE = writeTransaction;
+
+export interface CustomWalkthrough {
+  source: string; // As imported, so it can be re-validated (and exported) unchanged
+  scenario: WalkthroughScenario;
+}
+
+/** Walkthroughs the user imported. Sources that no longer validate are skipped. */
+export const loadCustomWalkthroughs = (): CustomWalkthrough[] => {
+  let sources: unknown;
+  try {
+    sources = JSON.parse(localStorage.getItem(CUSTOM_KEY) || '[]');
+  } catch (err) {
+    console.error('Saved walkthroughs are unreadable', err);
+    return [];
+  }
+  if (!Array.isArray(sources)) return [];
+  return sources.flatMap(source => {
+    const scenario = typeof source === 'string' ? parseWalkthrough(source).scenario : null;
+    return scenario ? [{ source, scenario }] : [];
+  });
+};
+
+/** Returns false if the browser refused the write (quota exceeded, storage disabled). */
+export const saveCustomWalkthroughs = (walkthroughs: CustomWalkthrough[]): boolean => {
+  try {
+    localStorage.setItem(CUSTOM_KEY, JSON.stringify(walkthroughs.map(w => w.source)));
+    return true;
+  } catch (err) {
+    console.error('Could not save walkthroughs', err);
+    return false;
+  }
+};
+
+export const loadActiveWalkthroughId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveWalkthroughId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch {
+    // Not worth surfacing; the first walkthrough is picked instead
+  }
+};
@@ -0,0 +1,160 @@
+// Reads the YAML subset walkthrough files are written in: block mappings and sequences, plain and
+// quoted scalars, `|`/`>` block scalars, flow lists like [a, b] and comments. Anchors, tags and
+// multi-document streams aren't supported.
+
+const MAP_ENTRY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"[\]{},-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+|$)(.*)$/;
+const BLOCK_SCALAR = /^([|>])([+-]?)\s*(#.*)?$/;
+
+const isBlank = (line: string) => /^\s*(#.*)?$/.test(line);
+const indentOf = (line: string) => line.match(/^ */)![0].length;
+const isSeqItem = (text: string) => text === '-' || text.startsWith('- ');
+
+const unquote = (text: string, line: number): string => {
+  if (text.startsWith("'")) return text.slice(1, -1).replace(/''/g, "'");
+  try {
+    return JSON.parse(text.replace(/\t/g, '\\t'));
+  } catch {
+    throw new Error(`line ${line + 1}: bad escape in ${text}`);
+  }
+};
+
+// Drops a trailing comment; a # only starts one at the start or after whitespace, outside quotes
+const stripComment = (text: string): string => {
+  const quote = text[0] === '"' || text[0] === "'" ? text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')/) : null;
+  const from = quote ? quote[0].length : 0;
+  const hash = text.slice(from).search(/(^|\s)#/);
+  return (hash < 0 ? text : text.slice(0, from + hash)).trim();
+};
+
+const splitFlow = (inner: string): string[] => {
+  const items: string[] = [];
+  let current = '';
+  let quote = '';
+  for (const ch of inner) {
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+const scalar = (raw: string, line: number): unknown => {
+  const text = stripComment(raw);
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')$/);
+    if (!quote) throw new Error(`line ${line + 1}: unterminated or trailing text after quoted string`);
+    return unquote(text, line);
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw new Error(`line ${line + 1}: flow list must close on the same line`);
+    return splitFlow(text.slice(1, -1)).map(item => scalar(item, line));
+  }
+  if (text === '{}') return {};
+  if (text.startsWith('{')) throw new Error(`line ${line + 1}: flow mappings aren't supported; use an indented block`);
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+};
+
+/** Parses a YAML document into plain objects, arrays and scalars. Throws "line N: ..." on anything it can't read. */
+export const parseYaml = (text: string): unknown => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let i = 0;
+
+  const fail = (message: string, line = i): never => {
+    throw new Error(`line ${line + 1}: ${message}`);
+  };
+  const skipBlank = () => {
+    while (i < lines.length && isBlank(lines[i])) i++;
+  };
+
+  // Lines more indented than `parent` (blank ones included), folded or kept per the header
+  const blockScalar = (header: RegExpMatchArray, parent: number): string => {
+    const body: string[] = [];
+    while (i < lines.length && (isBlank(lines[i]) && !lines[i].trim().startsWith('#') || indentOf(lines[i]) > parent)) body.push(lines[i++]);
+    // Trailing blank lines only matter for `|+`, which reads like plain `|` here
+    while (body.length && !body[body.length - 1].trim()) body.pop();
+    const first = body.find(l => l.trim());
+    const indent = first ? indentOf(first) : 0;
+    const content = body.map(l => l.slice(indent));
+    let value = header[1] === '|'
+      ? content.join('\n')
+      : content.reduce((acc, l, n) => (n === 0 ? l : acc + (l === '' ? '\n' : content[n - 1] === '' ? l : ` ${l}`)), '');
+    if (header[2] !== '-') value += '\n';
+    return value;
+  };
+
+  // The value after "key:" or "- "; an empty one means an indented block follows (or null)
+  const value = (raw: string, parent: number, line: number): unknown => {
+    const block = raw.match(BLOCK_SCALAR);
+    if (block) return blockScalar(block, parent);
+    if (stripComment(raw) !== '') return scalar(raw, line);
+    skipBlank();
+    if (i >= lines.length) return null;
+    const indent = indentOf(lines[i]);
+    if (indent > parent) return node(indent);
+    // YAML lets a mapping's list sit at the key's own indentation
+    if (indent === parent && isSeqItem(lines[i].slice(indent))) return sequence(indent);
+    return null;
+  };
+
+  const sequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    for (skipBlank(); i < lines.length && indentOf(lines[i]) === indent && isSeqItem(lines[i].slice(indent)); skipBlank()) {
+      const rest = lines[i].slice(indent + 1);
+      const text = rest.trimStart();
+      const column = indent + 1 + (rest.length - text.length);
+      if (MAP_ENTRY.test(text) || isSeqItem(text)) {
+        // "- key: value" opens a mapping whose later keys line up with this one
+        lines[i] = ' '.repeat(column) + text;
+        items.push(node(column));
+      } else {
+        const line = i++;
+        items.push(value(text, indent, line));
+      }
+    }
+    return items;
+  };
+
+  const mapping = (indent: number): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    for (skipBlank(); i < lines.length && indentOf(lines[i]) === indent; skipBlank()) {
+      const text = lines[i].slice(indent);
+      if (isSeqItem(text)) break; // The parent key's list at the same indentation
+      const entry = text.match(MAP_ENTRY);
+      if (!entry) fail(`expected "key: value", found "${text.trim()}"`);
+      const key = /^["']/.test(entry![1]) ? unquote(entry![1], i) : entry![1].trim();
+      if (key in result) fail(`duplicate key "${key}"`);
+      const line = i++;
+      result[key] = value(entry![2], indent, line);
+    }
+    return result;
+  };
+
+  const node = (indent: number): unknown => {
+    if (/^ *\t/.test(lines[i])) fail('tabs are not allowed for indentation');
+    const text = lines[i].slice(indent);
+    if (isSeqItem(text)) return sequence(indent);
+    if (MAP_ENTRY.test(text)) return mapping(indent);
+    const line = i++;
+    return value(text, indent - 1, line);
+  };
+
+  skipBlank();
+  if (i < lines.length && lines[i].trim() === '---') i++;
+  skipBlank();
+  if (i >= lines.length) return null;
+  const result = node(indentOf(lines[i]));
+  skipBlank();
+  if (i < lines.length) fail(`unexpected "${lines[i].trim()}" (check its indentation)`);
+  return result;
+};
@@ -13,24 +13,63 @@ export enum UvmComponentType {
   CONFIG_DB = 'Config DB'
 }
 
-export interface UvmNode {
-  id: UvmComponentType;
-  label: string;
-  description: string;
-  color: string;
-  gridArea?: string; // For CSS Grid layout in the diagram
+export interface CodeBlock {
+  label: string;     // Tab title, e.g. "Driver class" or "Usage in the agent"
+  language: string;  // e.g. systemverilog
+  filename?: string;
+  code: string;
 }
 
+// A component explanation; the model fills it against the JSON schema in services/aiResponseFormat.ts
 export interface AiResponse {
-  explanation: string;
-  codeSnippet: string;
+  overview: string;
+  tlmRole: string;
+  pitfalls: string[];
+  codeBlocks: CodeBlock[];
+  source?: 'ai' | 'cache' | 'offline'; // 'offline' is the bundled content used when no model answers
+  model?: string;                      // "provider/model" that wrote it
+  generatedAt?: number;                // ms since epoch
 }
 
+export type LlmErrorKind = 'auth' | 'quota' | 'network' | 'aborted' | 'unknown';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   content: string;
   isLoading?: boolean;
+  error?: { kind: LlmErrorKind; message: string }; // Model replies only: failed or stopped; content keeps any partial text
+  context?: string[];                               // User questions only: labels of the context attached when asked
+}
+
+export type ChatContextKind = 'walkthrough' | 'sequence' | 'explanation';
+
+// Something on screen the tutor can be shown with a question; see services/chatContext.ts
+export interface ChatContextItem {
+  id: string;      // Changes when the thing shown changes, e.g. "walkthrough:3"
+  kind: ChatContextKind;
+  label: string;   // Chip text
+  content: string; // Markdown sent to the model
+}
+
+// A saved tutor conversation; see services/chatStore.ts
+export interface ChatThread {
+  id: string;
+  title: string;                        // Empty until renamed; a title is derived from the first question
+  component: UvmComponentType | null;   // Context sent with every question; null for free-form threads
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+// Which model answers the tutor and the explanations; see services/llmProviders.ts
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoint root, e.g. http://localhost:11434/v1
+  apiKey: string;  // Empty falls back to GEMINI_API_KEY for Gemini, none for local endpoints
 }
 
 export enum TransactionKind {
@@ -39,19 +78,474 @@ export enum TransactionKind {
   IDLE = 'IDLE'
 }
 
+export enum BusProtocol {
+  APB = 'APB',
+  AHB_LITE = 'AHB-Lite',
+  AXI4_LITE = 'AXI4-Lite',
+  WISHBONE = 'Wishbone'
+}
+
+// Protocol-specific item fields; which ones apply is defined per protocol in services/protocols.ts
+export type ProtocolFieldKey = 'burst' | 'size' | 'prot' | 'strobe' | 'response';
+
 export interface SequenceStep {
   id: string;
   kind: TransactionKind;
   addr: string;
   data: string;
   delay: number;
+  burst?: string;
+  size?: string;
+  prot?: string;
+  strobe?: string;
+  response?: string; // Expected response, checked after finish_item()
+  values?: Record<string, string>; // User-defined item fields (see TransactionItemDef), keyed by field name
+  constraints?: StepConstraint[]; // A constrained field is randomized instead of pinned to its literal
+  register?: string;      // Register in the project's RegisterMap; the step then goes through the RAL
+  regOp?: RegOperation;   // With `register`: write() uses `data`, read()/mirror() don't
+}
+
+// Control flow: a sequence body is a tree of steps and blocks
+export type ForkJoinKind = 'join' | 'join_any' | 'join_none';
+export type SequenceCallStyle = 'uvm_do' | 'start';
+
+export interface RepeatBlock {
+  id: string;
+  type: 'repeat';
+  count: number;
+  body: SequenceNode[];
 }
 
+export interface ForBlock {
+  id: string;
+  type: 'for';
+  index: string; // Loop variable, usable in addr/data expressions (e.g. 'h1000 + i*4)
+  from: number;
+  to: number;    // Exclusive: for (int i = from; i < to; i++)
+  body: SequenceNode[];
+}
+
+export interface ForkBlock {
+  id: string;
+  type: 'fork';
+  join: ForkJoinKind;
+  branches: SequenceNode[][];
+}
+
+export interface SequenceCall {
+  id: string;
+  type: 'call';
+  sequenceId: string; // SequenceDef.id of the callee
+  style: SequenceCallStyle;
+}
+
+export type ControlNode = RepeatBlock | ForBlock | ForkBlock | SequenceCall;
+export type SequenceNode = SequenceStep | ControlNode;
+
+export interface SequenceDef {
+  id: string;
+  name: string; // SV class name
+  nodes: SequenceNode[];
+}
+
+// Constrained-random steps
+export type RelationOp = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface DistBucket {
+  min: string;
+  max?: string;       // Set for a [min:max] range bucket
+  weight: number;
+  perRange?: boolean; // ':/' (weight shared by the range) instead of ':=' (weight per value)
+}
+
+export type StepConstraint =
+  | { kind: 'range'; field: string; min: string; max: string }
+  | { kind: 'dist'; field: string; buckets: DistBucket[] }
+  | { kind: 'align'; field: string; alignment: number }
+  | { kind: 'relation'; field: string; op: RelationOp; rhs: string }; // rhs: another field or a literal
+
 export interface SimulationStep {
   id: number;
   label: string;
   component: UvmComponentType;
   description: string;
   codeSnippet: string;
-  highlightConnections?: string[]; // IDs of connections to highlight
-}
\ No newline at end of file
+  pinLevel?: boolean;              // codeSnippet is replaced by the selected protocol's code for this component
+  highlightConnections?: string[]; // Arrows to draw, as "From->To" component names, travelled in order
+  payload?: TransactionPayload;    // Shown on the token that travels the arrows
+}
+
+// What the walkthrough token carries; values are shown as written, e.g. "'h1000"
+export interface TransactionPayload {
+  kind?: string;
+  addr?: string;
+  data?: string;
+}
+
+// A walkthrough bundled in walkthroughs/ or imported by the user; see services/walkthroughFormat.ts
+export interface WalkthroughScenario {
+  id: string;
+  title: string;
+  summary: string;
+  steps: SimulationStep[];
+}
+
+// APB simulation (SequenceBuilder "Run" mode)
+export enum ApbPhase {
+  IDLE = 'IDLE',
+  SETUP = 'SETUP',
+  ACCESS = 'ACCESS'
+}
+
+export interface ApbSignals {
+  psel: number;
+  penable: number;
+  pwrite: number;
+  paddr: number;
+  pwdata: number;
+  prdata: number;
+}
+
+export interface SimCycle {
+  cycle: number;
+  time: number;
+  phase: ApbPhase;
+  stepId: string | null;
+  signals: ApbSignals;
+}
+
+export interface MonitoredTransaction {
+  cycle: number;
+  time: number;
+  stepId: string;
+  kind: TransactionKind.READ | TransactionKind.WRITE;
+  addr: number;
+  data: number;
+}
+
+export type ScoreboardStatus = 'STORED' | 'MATCH' | 'MISMATCH' | 'UNINITIALIZED';
+
+export interface ScoreboardResult {
+  transaction: MonitoredTransaction;
+  expected: number | null;
+  status: ScoreboardStatus;
+  message: string;
+}
+
+export interface SimulationError {
+  stepId: string;
+  message: string;
+}
+
+export interface SimulationResult {
+  cycles: SimCycle[];
+  transactions: MonitoredTransaction[];
+  scoreboard: ScoreboardResult[];
+  errors: SimulationError[];
+  memory: Record<number, number>;
+}
+
+// VCD import
+export interface VcdSignal {
+  id: string;
+  name: string; // Full hierarchical name, e.g. tb_top.apb_if.paddr
+  width: number;
+}
+
+export interface VcdValueChange {
+  time: number;
+  value: string; // Raw VCD value: '0', '1', 'x', 'z' or a binary string for vectors
+}
+
+export interface VcdDump {
+  timescale: string;
+  signals: VcdSignal[];
+  changes: Record<string, VcdValueChange[]>; // Keyed by VcdSignal.id
+  endTime: number;
+}
+
+export type ApbSignalRole = 'clk' | 'psel' | 'penable' | 'pwrite' | 'paddr' | 'pwdata' | 'prdata' | 'pready';
+
+// Maps each APB role to a VcdSignal.id ('' when unmapped)
+export type ApbSignalMapping = Record<ApbSignalRole, string>;
+
+export interface RecoveredTransfer {
+  time: number;
+  kind: TransactionKind.READ | TransactionKind.WRITE;
+  addr: number;
+  data: number | null; // null when the data bus held x/z or wasn't mapped
+}
+
+// Testbench generation
+export interface GeneratedFile {
+  name: string;
+  description: string;
+  content: string;
+}
+
+// Transaction item designer
+export type ItemFieldType = 'bit' | 'logic' | 'int' | 'enum';
+
+export interface ItemField {
+  name: string;
+  type: ItemFieldType;
+  width: number;          // bit/logic only
+  isRand: boolean;
+  enumType?: string;      // enum only
+  enumValues?: string[];  // User enums: typedef is emitted inside the item class
+  locked?: boolean;       // Required by the protocol driver/monitor; typedef (if any) lives in my_pkg
+}
+
+export interface ItemConstraint {
+  name: string;
+  body: string; // One or more SV constraint expressions
+}
+
+export type ItemCodeStyle = 'macros' | 'manual';
+
+export interface TransactionItemDef {
+  fields: ItemField[];
+  constraints: ItemConstraint[];
+  style: ItemCodeStyle;
+}
+
+// Register model (RAL)
+export type RegOperation = 'write' | 'read' | 'mirror';
+
+// uvm_reg_field access policies
+export type RegAccess =
+  | 'RO' | 'RW' | 'RC' | 'RS' | 'WRC' | 'WRS' | 'WC' | 'WS' | 'WSRC' | 'WCRS'
+  | 'W1C' | 'W1S' | 'W1T' | 'W0C' | 'W0S' | 'W0T' | 'W1SRC' | 'W1CRS' | 'W0SRC' | 'W0CRS'
+  | 'WO' | 'WOC' | 'WOS' | 'W1' | 'WO1';
+
+export interface RegField {
+  name: string;
+  lsb: number;
+  width: number;
+  access: RegAccess;
+  reset: number;
+  volatile?: boolean;
+  description?: string;
+}
+
+export interface RegDef {
+  name: string;
+  offset: number; // Byte offset from the block's base address
+  width: number;  // Register size in bits
+  fields: RegField[];
+  description?: string;
+}
+
+export interface RegisterMap {
+  name: string;        // uvm_reg_block class name
+  baseAddress: number;
+  registers: RegDef[];
+}
+
+// Saved Sequence Builder work; see services/projectFormat.ts for the on-disk shape
+export interface SequenceProject {
+  id: string;
+  name: string;
+  protocol: BusProtocol;
+  item: TransactionItemDef;
+  library: SequenceDef[]; // The TOP_SEQUENCE_ID entry is the sequence the test starts
+  registers: RegisterMap;
+  updatedAt: number;      // ms since epoch
+}
+
+// Phase and objection timeline; see services/phaseTimeline.ts
+export type PhaseOrder = 'top-down' | 'bottom-up' | 'parallel';
+
+export interface PhaseDef {
+  name: string;              // e.g. "build", called as build_phase()
+  kind: 'function' | 'task'; // Only tasks consume simulation time
+  order: PhaseOrder;
+  description: string;
+}
+
+// One raise_objection()/drop_objection() pair in run_phase, in ns
+export interface PhaseObjection {
+  raiseAt: number;
+  dropAt: number | null; // Null: never dropped
+}
+
+export interface PhaseScenario {
+  id: string;
+  title: string;
+  description: string;
+  objections: Partial<Record<UvmComponentType, PhaseObjection[]>>;
+  trafficEnd: number; // When the test's sequence would finish, in ns
+  drainTime: number;  // phase_done.set_drain_time(), in ns
+}
+
+export type PhaseEventKind = 'call' | 'raise' | 'drop' | 'drain' | 'end' | 'timeout' | 'warning';
+
+export interface PhaseEvent {
+  phase: string;
+  component: UvmComponentType | null; // Null for events of the phase itself
+  kind: PhaseEventKind;
+  time: number;                       // Simulation time in ns; 0 throughout the function phases
+  message: string;
+  objections: Partial<Record<UvmComponentType, number>>; // Objections each component holds after this event
+}
+
+export interface PhaseRun {
+  events: PhaseEvent[];
+  runEnd: number;        // When run_phase ended (the timeout if it never did)
+  timedOut: boolean;
+  trafficCutAt: number | null; // Set when run_phase ended before the sequence finished
+}
+
+// uvm_config_db playground; see services/configDb.ts
+export type ConfigDbPhase = 'build' | 'run';
+
+export interface ConfigDbSet {
+  id: string;
+  caller: string;       // Full name of the component calling set(); '' for the top module, before run_test()
+  phase: ConfigDbPhase; // Ignored for the top module
+  nullContext: boolean; // set(null, ...) instead of set(this, ...); always true for the top module
+  instName: string;     // Glob patterns allowed, e.g. "env.agent*"
+  field: string;
+  type: string;         // The #(T) parameter, compared as written
+  value: string;
+}
+
+export interface ConfigDbGet {
+  id: string;
+  caller: string; // Full name of the component calling get(this, ...)
+  phase: ConfigDbPhase;
+  instName: string;
+  field: string;
+  type: string;
+}
+
+export interface ConfigDbScenario {
+  id: string;
+  title: string;
+  description: string;
+  sets: ConfigDbSet[];
+  gets: ConfigDbGet[];
+}
+
+export type ConfigDbVerdict = 'winner' | 'outranked' | 'older' | 'later' | 'scope' | 'type' | 'field';
+
+// Why one set() did or didn't answer a get()
+export interface ConfigDbCandidate {
+  setId: string;
+  verdict: ConfigDbVerdict;
+  reason: string;
+}
+
+export interface ConfigDbResolution {
+  getId: string;
+  lookup: string;        // The full name get() searches for
+  value: string | null;  // Null: get() returns 0 and the value is left unchanged
+  setId: string | null;
+  candidates: ConfigDbCandidate[];
+}
+
+// Factory override simulator; see services/factory.ts
+export interface FactoryClass {
+  name: string;
+  base: string; // Another registered class, or a UVM base class such as uvm_driver
+}
+
+export interface FactoryOverride {
+  id: string;
+  kind: 'type' | 'inst';
+  byName: boolean;  // set_*_override_by_name: plain strings, checked only when applied
+  original: string;
+  override: string;
+  path: string;     // Instance overrides only; * and ? are wildcards
+  replace: boolean; // Type overrides only: replace an earlier override of the same type
+}
+
+export interface FactoryScenario {
+  id: string;
+  title: string;
+  description: string;
+  classes: FactoryClass[];
+  overrides: FactoryOverride[];
+}
+
+// What type_id::create returns at one place in the testbench, with each override that applied
+export interface FactoryCreation {
+  path: string;      // Full instance path passed to the factory
+  requested: string;
+  created: string;
+  steps: string[];   // e.g. "my_driver -> slow_driver: instance override 2 (uvm_test_top.env.*)"
+  error: string | null;
+}
+
+// Sequencer arbitration; see services/arbitration.ts
+export type ArbitrationMode =
+  | 'SEQ_ARB_FIFO'
+  | 'SEQ_ARB_WEIGHTED'
+  | 'SEQ_ARB_RANDOM'
+  | 'SEQ_ARB_STRICT_FIFO'
+  | 'SEQ_ARB_STRICT_RANDOM'
+  | 'SEQ_ARB_USER';
+
+// What user_priority_arbitration() does in SEQ_ARB_USER mode; 'first' is UVM's default body
+export type UserArbitrationPolicy = 'first' | 'latest' | 'round-robin';
+
+export type SequencerAccess = 'none' | 'lock' | 'grab';
+
+// One sequence started on the sequencer, forked alongside the others
+export interface ArbitrationThread {
+  id: string;
+  sequenceId: string;     // SequenceDef.id
+  priority: number;       // The third argument of start()
+  startAt: number;        // Time units after the fork, like a #delay
+  access: SequencerAccess; // lock() or grab() at the top of body(), released at the end
+}
+
+export interface ArbitrationSetup {
+  mode: ArbitrationMode;
+  userPolicy: UserArbitrationPolicy;
+  seed: number;
+  threads: ArbitrationThread[];
+}
+
+export type ArbitrationEventKind = 'item' | 'lock' | 'grab' | 'unlock';
+
+export interface ArbitrationEvent {
+  time: number;
+  threadId: string;
+  kind: ArbitrationEventKind;
+  label: string;       // The item as the driver sees it, e.g. "WRITE 'h1000 'hFF"
+  competing: string[]; // Threads with an item request the arbiter could pick from
+  blocked: string[];   // Threads with a request held back by another thread's lock
+  reason: string;
+}
+
+export interface ArbitrationRun {
+  events: ArbitrationEvent[];
+  end: number;
+  truncated: boolean; // Stopped at MAX_ARBITRATION_TIME
+}
+
+// Editable testbench topology drawn by the architecture diagram; see services/topology.ts
+export type TopologyKind = 'agent' | 'scoreboard' | 'coverage' | 'env' | 'virtual_sequencer';
+
+export interface TopologyComponent {
+  id: string;
+  kind: TopologyKind;
+  parentId: string | null; // The sub-env it lives in; null for the top env
+  name: string;            // Instance name
+  typeName: string;        // SV class, e.g. "apb_agent"
+  active: boolean;         // Agents only: UVM_ACTIVE also builds a driver and sequencer
+}
+
+// A monitor's analysis port connected to a scoreboard or coverage collector
+export interface AnalysisConnection {
+  id: string;
+  fromId: string; // Agent
+  toId: string;   // Scoreboard or coverage collector
+}
+
+export interface Topology {
+  envType: string; // Class of the top env, created by the test as "env"
+  components: TopologyComponent[];
+  connections: AnalysisConnection[];
+}
@@ -0,0 +1,84 @@
+export default `format: uvm-walkthrough
+version: 1
+id: config-db
+title: Passing the interface with uvm_config_db
+summary: How the virtual interface created in the top module reaches the driver and monitor deep inside the class hierarchy.
+steps:
+  - label: Top Publishes the Interface
+    component: Top
+    description: >
+      Classes can't refer to module instances, so the top module stores a virtual interface handle
+      in the configuration database before starting the test. The path decides who may see it.
+    code: |
+      module tb_top;
+        my_if vif(.clk(clk));
+        my_dut dut(.clk(clk), .psel(vif.psel) /* ... */);
+
+        initial begin
+          uvm_config_db#(virtual my_if)::set(null, "uvm_test_top.env.agent*", "vif", vif);
+          run_test();
+        end
+      endmodule
+
+  - label: The Database Holds It
+    component: Config DB
+    description: >
+      The entry is keyed by type, instance path and field name. A get() only finds it when all three
+      match; a typo in any of them is the most common reason a get() fails.
+    code: |
+      // Stored entry, conceptually:
+      //   type  : virtual my_if
+      //   scope : "uvm_test_top.env.agent*"   (glob, matched against full names)
+      //   field : "vif"
+      // +UVM_CONFIG_DB_TRACE prints every set() and get() to debug mismatches.
+    connections: [Top -> Config DB]
+
+  - label: Test Adds Its Own Settings
+    component: Test
+    description: >
+      Higher components can set more entries during build_phase. For the same field, a set() from
+      higher in the hierarchy wins over one from below; after build, the last set() wins.
+    code: |
+      function void my_test::build_phase(uvm_phase phase);
+        super.build_phase(phase);
+        uvm_config_db#(uvm_active_passive_enum)::set(this, "env.agent", "is_active", UVM_ACTIVE);
+        uvm_config_db#(int)::set(this, "env.agent.drv", "idle_cycles", 2);
+        env = my_env::type_id::create("env", this);
+      endfunction
+    connections: [Test -> Config DB]
+
+  - label: Driver Gets the Interface
+    component: Driver
+    description: >
+      The driver retrieves the handle in build_phase, using its own context. Failing loudly here is
+      much easier to debug than a null handle dereference in run_phase.
+    code: |
+      function void my_driver::build_phase(uvm_phase phase);
+        super.build_phase(phase);
+        if (!uvm_config_db#(virtual my_if)::get(this, "", "vif", vif))
+          \`uvm_fatal("NOVIF", {"virtual interface not set for ", get_full_name(), ".vif"})
+        void'(uvm_config_db#(int)::get(this, "", "idle_cycles", idle_cycles)); // Optional
+      endfunction
+    connections: [Config DB -> Driver]
+
+  - label: Monitor Gets the Same Handle
+    component: Monitor
+    description: >
+      The monitor matches the same glob and gets the same interface, so it watches exactly the pins
+      the driver drives.
+    code: |
+      function void my_monitor::build_phase(uvm_phase phase);
+        super.build_phase(phase);
+        if (!uvm_config_db#(virtual my_if)::get(this, "", "vif", vif))
+          \`uvm_fatal("NOVIF", {"virtual interface not set for ", get_full_name(), ".vif"})
+      endfunction
+    connections: [Config DB -> Monitor]
+
+  - label: Using the Handle
+    component: Interface
+    description: >
+      From now on the driver reaches the pins through vif. The code below is what the selected
+      protocol's driver does with it.
+    pinLevel: true
+    connections: [Driver -> Interface]
+`;
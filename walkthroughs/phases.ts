@@ -0,0 +1,118 @@
+export default `format: uvm-walkthrough
+version: 1
+id: phases
+title: UVM phase flow
+summary: From run_test() to the final report, which phase builds, connects, runs and checks each part of the testbench.
+steps:
+  - label: run_test() Starts the Test
+    component: Top
+    description: >
+      The module-level top calls run_test(). UVM creates the test named by +UVM_TESTNAME (or the
+      argument) through the factory and starts the phases.
+    code: |
+      module tb_top;
+        // clock, interface and DUT instances ...
+        initial begin
+          run_test(); // +UVM_TESTNAME=my_test picks the class
+        end
+      endmodule
+    connections: [Top -> Test]
+
+  - label: build_phase, Top Down
+    component: Test
+    description: >
+      build_phase runs parents before children, so the test can configure things before the
+      environment is built. Children are created with the factory so tests can override them.
+    code: |
+      function void my_test::build_phase(uvm_phase phase);
+        super.build_phase(phase);
+        cfg = my_env_cfg::type_id::create("cfg");
+        uvm_config_db#(my_env_cfg)::set(this, "env", "cfg", cfg);
+        env = my_env::type_id::create("env", this);
+      endfunction
+    connections: [Test -> Environment]
+
+  - label: Environment Builds Its Children
+    component: Environment
+    description: >
+      The environment's build_phase runs next and creates the agent and the scoreboard. Each of them
+      then gets its own build_phase call.
+    code: |
+      function void my_env::build_phase(uvm_phase phase);
+        super.build_phase(phase);
+        agent = my_agent::type_id::create("agent", this);
+        sb    = my_scoreboard::type_id::create("sb", this);
+      endfunction
+    connections: [Environment -> Agent, Environment -> Scoreboard]
+
+  - label: Agent Builds Active or Passive
+    component: Agent
+    description: >
+      The agent always builds a monitor. It builds the sequencer and driver only when it is active,
+      so the same agent can just observe in a system-level testbench.
+    code: |
+      function void my_agent::build_phase(uvm_phase phase);
+        super.build_phase(phase);
+        mon = my_monitor::type_id::create("mon", this);
+        if (get_is_active() == UVM_ACTIVE) begin
+          sqr = my_sequencer::type_id::create("sqr", this);
+          drv = my_driver::type_id::create("drv", this);
+        end
+      endfunction
+    connections: [Agent -> Driver, Agent -> Monitor]
+
+  - label: connect_phase, Bottom Up
+    component: Agent
+    description: >
+      Once everything exists, connect_phase wires the TLM ports. It runs from the leaves upwards, so
+      every child's ports are ready by the time a parent connects them.
+    code: |
+      function void my_agent::connect_phase(uvm_phase phase);
+        if (get_is_active() == UVM_ACTIVE)
+          drv.seq_item_port.connect(sqr.seq_item_export);
+      endfunction
+
+      function void my_env::connect_phase(uvm_phase phase);
+        agent.mon.ap.connect(sb.analysis_export);
+      endfunction
+    connections: [Sequencer -> Driver, Monitor -> Scoreboard]
+
+  - label: end_of_elaboration
+    component: Test
+    description: >
+      The hierarchy is now fixed. This is the place to print the topology or check configuration,
+      before any time passes.
+    code: |
+      function void my_test::end_of_elaboration_phase(uvm_phase phase);
+        uvm_top.print_topology();
+      endfunction
+
+  - label: run_phase and Objections
+    component: Test
+    description: >
+      run_phase is the only phase that consumes time, and it runs in every component in parallel. It
+      ends when no objection is raised any more, so the test raises one around its stimulus.
+    code: |
+      task my_test::run_phase(uvm_phase phase);
+        my_seq seq = my_seq::type_id::create("seq");
+        phase.raise_objection(this);
+        seq.start(env.agent.sqr);
+        phase.drop_objection(this); // Last objection dropped: run_phase ends
+      endtask
+    connections: [Test -> Sequence]
+
+  - label: check and report
+    component: Scoreboard
+    description: >
+      After run_phase, extract, check and report run as functions again. The scoreboard uses them to
+      flag work left over at the end of the test and to print a summary.
+    code: |
+      function void my_scoreboard::check_phase(uvm_phase phase);
+        if (expected.size() != 0)
+          \`uvm_error("SB", $sformatf("%0d expected transactions never seen", expected.size()))
+      endfunction
+
+      function void my_scoreboard::report_phase(uvm_phase phase);
+        \`uvm_info("SB", $sformatf("%0d matches, %0d mismatches", matches, mismatches), UVM_NONE)
+      endfunction
+`;
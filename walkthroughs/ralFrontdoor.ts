@@ -0,0 +1,107 @@
+export default `format: uvm-walkthrough
+version: 1
+id: ral-frontdoor
+title: RAL frontdoor write
+summary: A register write through the register model, turned into a bus transaction by the adapter and mirrored back by the predictor.
+payload:
+  kind: WRITE
+  addr: CTRL
+  data: "'h1"
+steps:
+  - label: Register Sequence Writes CTRL
+    component: Sequence
+    description: >
+      The sequence talks in registers, not addresses. write() on the model is a frontdoor access by
+      default: it becomes a real bus transfer rather than a direct poke of the DUT's storage.
+    code: |
+      class ctrl_enable_seq extends uvm_reg_sequence;
+        my_reg_block regmodel;
+        \`uvm_object_utils(ctrl_enable_seq)
+
+        task body();
+          uvm_status_e status;
+          regmodel.CTRL.write(status, 32'h1, .parent(this));
+          if (status != UVM_IS_OK) \`uvm_error("REG", "CTRL write failed")
+        endtask
+      endclass
+
+  - label: Map and Adapter Build the Item
+    component: Environment
+    description: >
+      The register map works out CTRL's address. Its adapter, set up in the environment, converts
+      the generic register operation into the agent's own transaction type.
+    code: |
+      function uvm_sequence_item reg2bus(const ref uvm_reg_bus_op rw);
+        my_transaction t = my_transaction::type_id::create("t");
+        t.kind = (rw.kind == UVM_WRITE) ? WRITE : READ;
+        t.addr = rw.addr;
+        t.data = rw.data;
+        return t;
+      endfunction
+
+      // In the env's connect_phase:
+      regmodel.default_map.set_sequencer(agent.sqr, adapter);
+
+  - label: Item Sent to the Agent's Sequencer
+    component: Sequencer
+    description: >
+      The map starts the item on the agent's sequencer on behalf of the register sequence. From here
+      on it is an ordinary item competing with any other traffic.
+    code: |
+      // What the map does internally, roughly:
+      //   bus_item = adapter.reg2bus(rw);
+      //   bus_item.set_parent_sequence(parent);
+      //   parent.start_item(bus_item);
+      //   parent.finish_item(bus_item);
+    connections: [Sequence -> Sequencer]
+
+  - label: Driver Drives the Write
+    component: Interface
+    description: >
+      The driver doesn't know the item came from a register model. It drives the write exactly as it
+      would any other.
+    pinLevel: true
+    connections: [Sequencer -> Driver, Driver -> Interface]
+
+  - label: DUT Updates CTRL
+    component: DUT
+    description: >
+      The DUT decodes the address and stores the value in its CTRL register.
+    pinLevel: true
+    connections: [Interface -> DUT]
+
+  - label: Monitor Reports the Transfer
+    component: Monitor
+    description: >
+      The monitor publishes the write like any other. Its analysis port is also connected to the
+      register predictor.
+    pinLevel: true
+    connections: [Interface -> Monitor]
+
+  - label: Predictor Updates the Mirror
+    component: Environment
+    description: >
+      The predictor turns the observed transfer back into a register operation with the adapter's
+      bus2reg() and updates the model's mirrored value. Explicit prediction like this also catches
+      writes that didn't come from the register model.
+    code: |
+      // In the env
+      predictor = uvm_reg_predictor#(my_transaction)::type_id::create("predictor", this);
+
+      function void my_env::connect_phase(uvm_phase phase);
+        predictor.map     = regmodel.default_map;
+        predictor.adapter = adapter;
+        agent.mon.ap.connect(predictor.bus_in);
+        regmodel.default_map.set_auto_predict(0);
+      endfunction
+
+  - label: Checking Against the Mirror
+    component: Scoreboard
+    description: >
+      A later mirror() reads CTRL through the frontdoor and compares it with the mirrored value,
+      reporting an error if the DUT disagrees.
+    code: |
+      regmodel.CTRL.mirror(status, UVM_CHECK, .parent(this));
+      // Field-level: regmodel.CTRL.EN.get_mirrored_value()
+    connections: [Monitor -> Scoreboard]
+`;
@@ -0,0 +1,123 @@
+export default `format: uvm-walkthrough
+version: 1
+id: read-response
+title: Read with response path
+summary: A read goes down to the DUT, and the data comes back to the sequence as a response and to the scoreboard as an observation.
+payload:
+  kind: READ
+  addr: "'h1000"
+  data: '?'
+steps:
+  - label: Sequence Issues a Read
+    component: Sequence
+    description: >
+      The sequence randomizes a READ. Unlike a write it needs the result, so after finish_item() it
+      calls get_response() and waits for the driver to send one back.
+    code: |
+      // Inside read_seq::body()
+      req = my_transaction::type_id::create("req");
+      start_item(req);
+      if (!req.randomize() with { kind == READ; }) \`uvm_error("SEQ", "Randomize failed")
+      finish_item(req);
+
+      get_response(rsp); // Blocks until the driver calls item_done(rsp) or put_response(rsp)
+      \`uvm_info("SEQ", $sformatf("Read %0h from %0h", rsp.data, rsp.addr), UVM_MEDIUM)
+
+  - label: Sequencer Grants the Read
+    component: Sequencer
+    description: >
+      Arbitration is the same as for a write. The sequencer also remembers which sequence the item
+      came from (its sequence id), so it can route the response back to it later.
+    code: |
+      // Every item carries the id of the sequence that started it
+      req.get_sequence_id();     // Set by start_item()
+      req.get_transaction_id();  // Distinguishes items of the same sequence
+    connections: [Sequence -> Sequencer]
+
+  - label: Driver Takes the Read
+    component: Driver
+    description: >
+      The driver gets the item and drives it. Reads are where it matters that the driver fills the
+      result in before it lets go of the item.
+    code: |
+      forever begin
+        seq_item_port.get_next_item(req);
+        drive_transfer(req); // Fills in req.data for reads
+        rsp = my_transaction::type_id::create("rsp");
+        rsp.copy(req);
+        rsp.set_id_info(req);  // Without this the sequencer can't route the response
+        seq_item_port.item_done(rsp);
+      end
+    connections: [Sequencer -> Driver]
+
+  - label: Address Phase on the Pins
+    component: Interface
+    description: >
+      The driver puts the address on the bus with the write strobe low. For a read, the driver's
+      task waits for the slave to be ready and then samples the read data bus into the item.
+    pinLevel: true
+    connections: [Driver -> Interface]
+
+  - label: DUT Returns Data
+    component: DUT
+    description: >
+      The DUT decodes the address and drives the read data. Here a memory model returns the stored
+      word, or zero for an address that was never written.
+    pinLevel: true
+    connections: [Interface -> DUT]
+    payload:
+      data: "'hFF"
+
+  - label: Data Back Through the Interface
+    component: Interface
+    description: >
+      The read data travels back up the same virtual interface. The driver samples it in the access
+      phase; until then the value on the bus is not yet valid.
+    pinLevel: true
+    connections: [DUT -> Interface, Interface -> Driver]
+    payload:
+      data: "'hFF"
+
+  - label: Response to the Sequence
+    component: Sequencer
+    description: >
+      item_done(rsp) hands the response to the sequencer, which puts it in the response queue of the
+      sequence whose id it carries. get_response() in the sequence now returns.
+    code: |
+      // Sequences that issue many reads can take responses out of order:
+      //   use_response_handler(1);
+      //   function void response_handler(uvm_sequence_item response); ... endfunction
+      // Otherwise unread responses pile up: the queue holds 8 by default and then
+      // reports "Response queue overflow, response was dropped".
+    connections: [Driver -> Sequencer, Sequencer -> Sequence]
+    payload:
+      data: "'hFF"
+
+  - label: Monitor Sees the Read
+    component: Monitor
+    description: >
+      Independently of the driver, the monitor sees the completed transfer and publishes it with the
+      read data it observed on the pins.
+    pinLevel: true
+    connections: [Interface -> Monitor]
+    payload:
+      data: "'hFF"
+
+  - label: Scoreboard Checks the Data
+    component: Scoreboard
+    description: >
+      For reads the reference model is consulted instead of updated: the scoreboard compares the
+      observed data with what the model says the address holds.
+    code: |
+      function void write(my_transaction t);
+        if (t.kind == WRITE) begin
+          model[t.addr] = t.data;
+        end else if (t.data !== (model.exists(t.addr) ? model[t.addr] : '0)) begin
+          \`uvm_error("SB", $sformatf("Read %0h: expected %0h, got %0h",
+                                     t.addr, model[t.addr], t.data))
+        end
+      endfunction
+    connections: [Monitor -> Scoreboard]
+    payload:
+      data: "'hFF"
+`;
@@ -0,0 +1,119 @@
+export default `format: uvm-walkthrough
+version: 1
+id: reset
+title: Reset handling
+summary: What each component does when reset is asserted in the middle of traffic, and how the test starts again afterwards.
+steps:
+  - label: Reset Asserted
+    component: Top
+    description: >
+      The top module drives the reset. Here it is asserted at the start and again in the middle of
+      the test, which is where testbenches that only handle the first reset break.
+    code: |
+      initial begin
+        rst_n = 0;
+        repeat (5) @(posedge clk);
+        rst_n = 1;
+        #1us;                    // Traffic is running...
+        rst_n = 0;               // ...and reset hits mid-transfer
+        repeat (3) @(posedge clk);
+        rst_n = 1;
+      end
+
+  - label: Interface Goes Idle
+    component: Interface
+    description: >
+      While reset is low, the outputs the testbench drives must return to their idle values. The
+      driver does that itself, since the interface has no behaviour of its own.
+    code: |
+      // Idle values for the request signals while reset is asserted
+      vif.psel    <= 1'b0;
+      vif.penable <= 1'b0;
+
+  - label: Driver Abandons the Transfer
+    component: Driver
+    description: >
+      The driver runs the transfer and a reset watcher side by side. When reset wins, it kills the
+      transfer, idles the bus and still completes the item, so the sequence isn't left blocked.
+    code: |
+      task my_driver::run_phase(uvm_phase phase);
+        forever begin
+          @(posedge vif.rst_n);                  // Wait for reset to end
+          fork
+            forever begin
+              seq_item_port.get_next_item(req);
+              drive_transfer(req);
+              seq_item_port.item_done();
+              req = null;
+            end
+            @(negedge vif.rst_n);                // Reset mid-traffic
+          join_any
+          disable fork;
+          vif.psel    <= 1'b0;
+          vif.penable <= 1'b0;
+          if (req != null) seq_item_port.item_done(); // Release the blocked finish_item()
+        end
+      endtask
+    connections: [Driver -> Interface]
+
+  - label: Sequencer Stops Its Sequences
+    component: Sequencer
+    description: >
+      Items queued before reset are meaningless after it. The environment stops the sequences on the
+      sequencer, which also clears pending requests.
+    code: |
+      // In the env or test, watching the same reset
+      forever begin
+        @(negedge vif.rst_n);
+        agent.sqr.stop_sequences();
+      end
+    connections: [Sequencer -> Driver]
+
+  - label: Monitor Drops the Partial Transfer
+    component: Monitor
+    description: >
+      A transfer cut by reset never completed, so the monitor must not publish it. Sampling only
+      while reset is high keeps half transfers out of the scoreboard.
+    code: |
+      forever begin
+        @(posedge vif.clk);
+        if (!vif.rst_n) continue;                // Nothing is valid in reset
+        if (vif.psel && vif.penable && vif.pready) begin
+          // ... build and publish the transaction
+        end
+      end
+    connections: [Interface -> Monitor]
+
+  - label: Scoreboard Flushes
+    component: Scoreboard
+    description: >
+      The DUT's state is gone after reset, so the scoreboard's reference model and queue of expected
+      transactions must be cleared too, or every later comparison fails.
+    code: |
+      task my_scoreboard::run_phase(uvm_phase phase);
+        forever begin
+          @(negedge vif.rst_n);
+          model.delete();
+          expected.delete();
+          \`uvm_info("SB", "Reset: model and expected queue cleared", UVM_LOW)
+        end
+      endtask
+    connections: [Monitor -> Scoreboard]
+
+  - label: Test Starts Again
+    component: Test
+    description: >
+      After reset the test starts its stimulus from the beginning, typically re-running any
+      configuration sequence first because the DUT's registers are back at their reset values.
+    code: |
+      task my_test::run_phase(uvm_phase phase);
+        phase.raise_objection(this);
+        repeat (2) begin
+          @(posedge vif.rst_n);
+          cfg_seq.start(env.agent.sqr);
+          traffic_seq.start(env.agent.sqr);
+        end
+        phase.drop_objection(this);
+      endtask
+    connections: [Test -> Sequence]
+`;
@@ -0,0 +1,106 @@
+export default `format: uvm-walkthrough
+version: 1
+id: virtual-sequence
+title: Virtual sequence across two agents
+summary: One virtual sequence coordinates traffic on two interfaces. The diagram shows one agent; the second has the same sequencer, driver and monitor.
+steps:
+  - label: Test Starts the Virtual Sequence
+    component: Test
+    description: >
+      A virtual sequence drives no pins itself. The test starts it on the virtual sequencer, which
+      holds handles to the real sequencers of both agents.
+    code: |
+      task my_test::run_phase(uvm_phase phase);
+        top_vseq vseq = top_vseq::type_id::create("vseq");
+        phase.raise_objection(this);
+        vseq.start(env.vsqr);
+        phase.drop_objection(this);
+      endtask
+    connections: [Test -> Sequence]
+
+  - label: Environment Links the Sequencers
+    component: Environment
+    description: >
+      The virtual sequencer is an empty uvm_sequencer with two handles. The environment points them
+      at the agents' sequencers in connect_phase.
+    code: |
+      class my_virtual_sequencer extends uvm_sequencer;
+        \`uvm_component_utils(my_virtual_sequencer)
+        apb_sequencer apb_sqr;
+        spi_sequencer spi_sqr;
+        function new(string name, uvm_component parent); super.new(name, parent); endfunction
+      endclass
+
+      function void my_env::connect_phase(uvm_phase phase);
+        vsqr.apb_sqr = apb_agent.sqr;
+        vsqr.spi_sqr = spi_agent.sqr;
+      endfunction
+    connections: [Environment -> Agent]
+
+  - label: Virtual Sequence Body
+    component: Sequence
+    description: >
+      The body orders work across interfaces: configure the DUT over APB first, then run SPI traffic
+      while APB polls a status register in parallel.
+    code: |
+      class top_vseq extends uvm_sequence;
+        \`uvm_object_utils(top_vseq)
+        \`uvm_declare_p_sequencer(my_virtual_sequencer)
+
+        task body();
+          apb_config_seq cfg  = apb_config_seq::type_id::create("cfg");
+          spi_burst_seq  spi  = spi_burst_seq::type_id::create("spi");
+          apb_poll_seq   poll = apb_poll_seq::type_id::create("poll");
+
+          cfg.start(p_sequencer.apb_sqr, this);
+          fork
+            spi.start(p_sequencer.spi_sqr, this);
+            poll.start(p_sequencer.apb_sqr, this);
+          join
+        endtask
+      endclass
+
+  - label: Each Agent's Sequencer Runs Its Part
+    component: Sequencer
+    description: >
+      The sub-sequences run on the real sequencers as ordinary sequences. Each sequencer arbitrates
+      only its own traffic; the two interfaces proceed independently.
+    code: |
+      // apb_agent.sqr runs cfg, then poll
+      // spi_agent.sqr runs spi, at the same time as poll
+      // Passing \`this\` as the parent keeps the sub-sequences' priority
+      // and lets vseq.kill() stop them too.
+    connections: [Sequence -> Sequencer, Sequencer -> Driver]
+
+  - label: Both Drivers Drive Their Pins
+    component: Driver
+    description: >
+      Each driver only knows its own agent. The coordination lives entirely in the virtual
+      sequence, so the agents stay reusable in other testbenches.
+    code: |
+      // apb_driver and spi_driver each run the usual loop
+      forever begin
+        seq_item_port.get_next_item(req);
+        drive_transfer(req);
+        seq_item_port.item_done();
+      end
+    connections: [Driver -> Interface]
+
+  - label: Scoreboard Hears Both Monitors
+    component: Scoreboard
+    description: >
+      With two monitors feeding one scoreboard, each needs its own write method. The
+      uvm_analysis_imp_decl macro generates a separately named imp per input.
+    code: |
+      \`uvm_analysis_imp_decl(_apb)
+      \`uvm_analysis_imp_decl(_spi)
+
+      class my_scoreboard extends uvm_scoreboard;
+        uvm_analysis_imp_apb #(apb_transaction, my_scoreboard) apb_export;
+        uvm_analysis_imp_spi #(spi_transaction, my_scoreboard) spi_export;
+
+        function void write_apb(apb_transaction t); /* update the register model */ endfunction
+        function void write_spi(spi_transaction t); /* check against it */ endfunction
+      endclass
+    connections: [Monitor -> Scoreboard]
+`;
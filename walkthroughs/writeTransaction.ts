@@ -0,0 +1,101 @@
+export default `format: uvm-walkthrough
+version: 1
+id: write-transaction
+title: Write transaction
+summary: Follow a single write from the sequence's body() down to the pins and back up to the scoreboard.
+payload:
+  kind: WRITE
+  addr: "'h1000"
+  data: "'hFF"
+steps:
+  - label: Sequence Creation
+    component: Sequence
+    description: >
+      The journey begins in the Sequence. The body() task creates a transaction object (req) and
+      initiates the handshake with the Sequencer using start_item().
+    code: |
+      // Inside sequence body()
+      req = my_transaction::type_id::create("req");
+
+      start_item(req); // Request grant from sequencer
+
+      if(!req.randomize()) \`uvm_error("SEQ", "Randomize failed");
+
+      finish_item(req); // Execute item (blocks until driver is done)
+
+  - label: Sequencer Arbitration
+    component: Sequencer
+    description: >
+      The Sequencer receives the request. If multiple sequences are running, it arbitrates between
+      them using its arbitration mode, the sequences' priorities and any lock() or grab(). Once
+      granted, it passes the transaction handle to the Driver. The Sequence Builder's Arbitration
+      tab runs several sequences on one sequencer to show the order the Driver sees.
+    code: |
+      // The sequencer code is usually implicit in UVM
+      // Conceptually:
+      wait_for_grant(sequence_ptr);
+      selected_sequence.mid_do(item);
+      driver_port.put(item);
+      selected_sequence.post_do(item);
+    connections: [Sequence -> Sequencer]
+
+  - label: Driver Fetches Item
+    component: Driver
+    description: >
+      The Driver pulls the transaction from the Sequencer using get_next_item(). It effectively
+      'pulls' data when it is ready to drive the bus.
+    code: |
+      // Inside driver run_phase
+      forever begin
+        seq_item_port.get_next_item(req); // Blocking call
+
+        drive_transfer(req); // Custom task to wiggle pins
+
+        seq_item_port.item_done(); // Tell sequence we are finished
+      end
+    connections: [Sequencer -> Driver]
+
+  - label: Driving Signals (Pin Level)
+    component: Interface
+    description: >
+      This is where UVM meets hardware. The Driver wiggles the pins on the Virtual Interface handle.
+      This converts the high-level 'Transaction' object into raw 1s and 0s.
+    pinLevel: true
+    connections: [Driver -> Interface]
+
+  - label: DUT Execution
+    component: DUT
+    description: >
+      The Design Under Test (Verilog/VHDL) responds to the signal changes on the interface. The
+      hardware logic executes.
+    pinLevel: true
+    connections: [Interface -> DUT]
+
+  - label: Monitor Sampling
+    component: Monitor
+    description: >
+      The Monitor passively observes the interface. When it detects a valid protocol cycle, it
+      samples the signal values and packs them back into a new Transaction object.
+    pinLevel: true
+    connections: [Interface -> Monitor]
+
+  - label: Scoreboard Check
+    component: Scoreboard
+    description: >
+      The Scoreboard receives the transaction from the Monitor via an Analysis Port. It compares the
+      observed result against the Expected Result (Reference Model).
+    code: |
+      // Inside scoreboard write() implementation
+      function void write(my_transaction t);
+        my_transaction expected;
+
+        expected = predictor.predict(t.addr, t.kind);
+
+        if (t.data !== expected.data) begin
+          \`uvm_error("SB", $sformatf("Mismatch! Exp: %0h, Got: %0h", expected.data, t.data))
+        end else begin
+          \`uvm_info("SB", "Match successful", UVM_LOW)
+        end
+      endfunction
+    connections: [Monitor -> Scoreboard]
+`;